@@ -12,7 +12,7 @@ export const PACKAGES_DATA = [
   {
     package: '@mantine/form',
     description: 'Form management library',
-    dependencies: ['@mantine/form'],
+    dependencies: ['@mantine/hooks', '@mantine/form'],
   },
   {
     package: '@mantine/dates',
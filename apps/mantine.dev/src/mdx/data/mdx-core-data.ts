@@ -363,6 +363,16 @@ export const MDX_CORE_DATA: Record<string, Frontmatter> = {
     source: '@mantine/core/src/components/Slider/RangeSlider/RangeSlider.tsx',
     docs: 'core/range-slider.mdx',
   },
+  MultiRangeSlider: {
+    title: 'MultiRangeSlider',
+    package: '@mantine/core',
+    slug: '/core/multi-range-slider',
+    props: ['MultiRangeSlider'],
+    styles: ['MultiRangeSlider'],
+    description: 'Slider with any number of thumbs',
+    source: '@mantine/core/src/components/Slider/MultiRangeSlider/MultiRangeSlider.tsx',
+    docs: 'core/multi-range-slider.mdx',
+  },
   Stack: {
     title: 'Stack',
     package: '@mantine/core',
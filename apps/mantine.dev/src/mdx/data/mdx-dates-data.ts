@@ -44,6 +44,17 @@ export const MDX_DATES_DATA: Record<string, Frontmatter> = {
     docs: 'dates/date-picker.mdx',
   },
 
+  DateRangePicker: {
+    title: 'DateRangePicker',
+    package: '@mantine/dates',
+    slug: '/dates/date-range-picker',
+    description: 'Inline dates range picker with presets, inputs and previous period comparison',
+    props: ['DateRangePicker'],
+    styles: ['DateRangePicker'],
+    source: '@mantine/dates/src/components/DateRangePicker/DateRangePicker.tsx',
+    docs: 'dates/date-range-picker.mdx',
+  },
+
   DatePickerInput: {
     title: 'DatePickerInput',
     package: '@mantine/dates',
@@ -163,4 +174,26 @@ export const MDX_DATES_DATA: Record<string, Frontmatter> = {
     source: '@mantine/dates/src/components/MiniCalendar/MiniCalendar.tsx',
     docs: 'dates/mini-calendar.mdx',
   },
+
+  Scheduler: {
+    title: 'Scheduler',
+    package: '@mantine/dates',
+    slug: '/dates/scheduler',
+    props: ['Scheduler'],
+    styles: ['Scheduler'],
+    description: 'Display events in month, week, day and agenda views',
+    source: '@mantine/dates/src/components/Scheduler/Scheduler.tsx',
+    docs: 'dates/scheduler.mdx',
+  },
+
+  RecurrenceInput: {
+    title: 'RecurrenceInput',
+    package: '@mantine/dates',
+    slug: '/dates/recurrence-input',
+    props: ['RecurrenceInput'],
+    styles: ['RecurrenceInput'],
+    description: 'Build and edit RFC 5545 recurrence rules with occurrences preview',
+    source: '@mantine/dates/src/components/RecurrenceInput/RecurrenceInput.tsx',
+    docs: 'dates/recurrence-input.mdx',
+  },
 };
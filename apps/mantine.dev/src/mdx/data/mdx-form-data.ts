@@ -74,6 +74,14 @@ export const MDX_FORM_DATA: Record<string, Frontmatter> = {
     docs: 'form/schema-validation.mdx',
   },
 
+  formSchemaForm: {
+    title: 'SchemaForm',
+    package: '@mantine/form',
+    slug: '/form/schema-form',
+    description: 'Generate forms from JSON Schema',
+    docs: 'form/schema-form.mdx',
+  },
+
   formValidators: {
     title: 'Form validators',
     package: '@mantine/form',
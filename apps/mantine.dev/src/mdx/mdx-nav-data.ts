@@ -256,6 +256,7 @@ const COMPONENTS_PAGES_GROUP: MdxPagesCategory[] = sortCategoriesPages([
       MDX_DATA.SegmentedControl,
       MDX_DATA.Slider,
       MDX_DATA.RangeSlider,
+      MDX_DATA.MultiRangeSlider,
       MDX_DATA.Switch,
       MDX_DATA.TextInput,
       MDX_DATA.Checkbox,
@@ -399,6 +400,7 @@ const EXTENSIONS_PAGES_GROUP: MdxPagesCategory[] = [
       MDX_DATA.Calendar,
       MDX_DATA.DateTimePicker,
       MDX_DATA.DatePicker,
+      MDX_DATA.DateRangePicker,
       MDX_DATA.DatePickerInput,
       MDX_DATA.DateInput,
       MDX_DATA.MonthPicker,
@@ -409,6 +411,8 @@ const EXTENSIONS_PAGES_GROUP: MdxPagesCategory[] = [
       MDX_DATA.TimePicker,
       MDX_DATA.TimeGrid,
       MDX_DATA.TimeValue,
+      MDX_DATA.Scheduler,
+      MDX_DATA.RecurrenceInput,
     ],
   },
 
@@ -463,6 +467,7 @@ const FORM_PAGES_GROUP: MdxPagesCategory[] = [
       MDX_DATA.formErrors,
       MDX_DATA.formValidation,
       MDX_DATA.formSchemaValidation,
+      MDX_DATA.formSchemaForm,
       MDX_DATA.formValidators,
       MDX_DATA.formNested,
       MDX_DATA.formStatus,
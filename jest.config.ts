@@ -6,6 +6,7 @@ export default {
   testMatch: ['**/__tests__/**/*.ts?(x)', '**/?(*.)+(spec|test).ts?(x)'],
   setupFilesAfterEnv: ['./jsdom.mocks.ts', './jest.react.ts'],
   moduleNameMapper: {
+    '@mantine/form/schema-form': '<rootDir>/packages/@mantine/form/src/schema-form',
     '@mantine/(.*)': '<rootDir>/packages/@mantine/$1/src',
     '@mantine-tests/(.*)': '<rootDir>/packages/@mantine-tests/$1/src',
     '\\.(css)$': 'identity-obj-proxy',
@@ -0,0 +1,28 @@
+import { MultiRangeSlider } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { MultiRangeSlider } from '@mantine/core';
+
+function Demo() {
+  return (
+    <MultiRangeSlider
+      defaultValue={[10, 40, 80]}
+      minRange={[5, 25]}
+      pushOnOverlap={false}
+    />
+  );
+}
+`;
+
+function Demo() {
+  return <MultiRangeSlider defaultValue={[10, 40, 80]} minRange={[5, 25]} pushOnOverlap={false} />;
+}
+
+export const minRange: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 400,
+};
@@ -0,0 +1,34 @@
+import { MultiRangeSlider } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { MultiRangeSlider } from '@mantine/core';
+
+function Demo() {
+  return (
+    <MultiRangeSlider
+      defaultValue={[25, 50, 75]}
+      segmentColors={['teal', 'yellow', 'orange', 'red']}
+      label={(value, index) => \`Tier \${index + 1}: $\${value}\`}
+    />
+  );
+}
+`;
+
+function Demo() {
+  return (
+    <MultiRangeSlider
+      defaultValue={[25, 50, 75]}
+      segmentColors={['teal', 'yellow', 'orange', 'red']}
+      label={(value, index) => `Tier ${index + 1}: $${value}`}
+    />
+  );
+}
+
+export const segmentColors: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 400,
+};
@@ -0,0 +1,22 @@
+import { MultiRangeSlider } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { MultiRangeSlider } from '@mantine/core';
+
+function Demo() {
+  return <MultiRangeSlider defaultValue={[10, 35, 60, 85]} />;
+}
+`;
+
+function Demo() {
+  return <MultiRangeSlider defaultValue={[10, 35, 60, 85]} />;
+}
+
+export const usage: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 400,
+};
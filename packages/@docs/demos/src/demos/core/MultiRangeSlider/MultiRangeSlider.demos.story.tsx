@@ -0,0 +1,19 @@
+import { renderDemo } from '../../../render-demo';
+import * as demos from './index';
+
+export default { title: 'MultiRangeSlider' };
+
+export const Demo_usage = {
+  name: '⭐ Demo: usage',
+  render: renderDemo(demos.usage),
+};
+
+export const Demo_minRange = {
+  name: '⭐ Demo: minRange',
+  render: renderDemo(demos.minRange),
+};
+
+export const Demo_segmentColors = {
+  name: '⭐ Demo: segmentColors',
+  render: renderDemo(demos.segmentColors),
+};
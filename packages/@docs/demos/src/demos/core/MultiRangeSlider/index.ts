@@ -0,0 +1,3 @@
+export { usage } from './MultiRangeSlider.demo.usage';
+export { minRange } from './MultiRangeSlider.demo.minRange';
+export { segmentColors } from './MultiRangeSlider.demo.segmentColors';
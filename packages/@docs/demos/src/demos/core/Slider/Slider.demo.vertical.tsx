@@ -0,0 +1,43 @@
+import { Group, RangeSlider, Slider } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { Group, RangeSlider, Slider } from '@mantine/core';
+
+const marks = [
+  { value: 20, label: '20%' },
+  { value: 50, label: '50%' },
+  { value: 80, label: '80%' },
+];
+
+function Demo() {
+  return (
+    <Group h={240} gap={80}>
+      <Slider orientation="vertical" defaultValue={45} marks={marks} />
+      <RangeSlider orientation="vertical" defaultValue={[25, 65]} marks={marks} />
+    </Group>
+  );
+}
+`;
+
+const marks = [
+  { value: 20, label: '20%' },
+  { value: 50, label: '50%' },
+  { value: 80, label: '80%' },
+];
+
+function Demo() {
+  return (
+    <Group h={240} gap={80}>
+      <Slider orientation="vertical" defaultValue={45} marks={marks} />
+      <RangeSlider orientation="vertical" defaultValue={[25, 65]} marks={marks} />
+    </Group>
+  );
+}
+
+export const vertical: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+};
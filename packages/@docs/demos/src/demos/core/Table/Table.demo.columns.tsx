@@ -0,0 +1,78 @@
+import { Table, TableColumn } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+import { elements } from './_data';
+
+const code = `
+import { Table, TableColumn } from '@mantine/core';
+
+interface Element {
+  position: number;
+  mass: number;
+  symbol: string;
+  name: string;
+}
+
+const elements: Element[] = [
+  { position: 6, mass: 12.011, symbol: 'C', name: 'Carbon' },
+  { position: 7, mass: 14.007, symbol: 'N', name: 'Nitrogen' },
+  { position: 39, mass: 88.906, symbol: 'Y', name: 'Yttrium' },
+  { position: 56, mass: 137.33, symbol: 'Ba', name: 'Barium' },
+  { position: 58, mass: 140.12, symbol: 'Ce', name: 'Cerium' },
+];
+
+const columns: TableColumn<Element>[] = [
+  { accessor: 'name', header: 'Element name', sortable: true, pinned: 'left', width: 160 },
+  { accessor: 'position', header: 'Element position', sortable: true, resizable: true, width: 200 },
+  { accessor: 'symbol', header: 'Symbol', resizable: true, width: 200 },
+  {
+    accessor: 'mass',
+    header: 'Atomic mass',
+    sortable: true,
+    width: 200,
+    render: (element) => \`\${element.mass} u\`,
+  },
+];
+
+function Demo() {
+  return (
+    <Table.ScrollContainer minWidth={500}>
+      <Table
+        layout="fixed"
+        data={{ columns, records: elements }}
+        defaultSortStatus={{ columnId: 'name', direction: 'asc' }}
+      />
+    </Table.ScrollContainer>
+  );
+}
+`;
+
+const tableColumns: TableColumn<(typeof elements)[number]>[] = [
+  { accessor: 'name', header: 'Element name', sortable: true, pinned: 'left', width: 160 },
+  { accessor: 'position', header: 'Element position', sortable: true, resizable: true, width: 200 },
+  { accessor: 'symbol', header: 'Symbol', resizable: true, width: 200 },
+  {
+    accessor: 'mass',
+    header: 'Atomic mass',
+    sortable: true,
+    width: 200,
+    render: (element) => `${element.mass} u`,
+  },
+];
+
+function Demo() {
+  return (
+    <Table.ScrollContainer minWidth={500}>
+      <Table
+        layout="fixed"
+        data={{ columns: tableColumns, records: elements }}
+        defaultSortStatus={{ columnId: 'name', direction: 'asc' }}
+      />
+    </Table.ScrollContainer>
+  );
+}
+
+export const columns: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+};
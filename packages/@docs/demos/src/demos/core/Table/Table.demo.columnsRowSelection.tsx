@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Table, TableColumn, Text } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+import { elements } from './_data';
+
+const code = `
+import { useState } from 'react';
+import { Table, TableColumn, Text } from '@mantine/core';
+
+interface Element {
+  position: number;
+  mass: number;
+  symbol: string;
+  name: string;
+}
+
+const elements: Element[] = [
+  { position: 6, mass: 12.011, symbol: 'C', name: 'Carbon' },
+  { position: 7, mass: 14.007, symbol: 'N', name: 'Nitrogen' },
+  { position: 39, mass: 88.906, symbol: 'Y', name: 'Yttrium' },
+  { position: 56, mass: 137.33, symbol: 'Ba', name: 'Barium' },
+  { position: 58, mass: 140.12, symbol: 'Ce', name: 'Cerium' },
+];
+
+const columns: TableColumn<Element>[] = [
+  { accessor: 'name', header: 'Element name', sortable: true },
+  { accessor: 'position', header: 'Element position', sortable: true },
+  { accessor: 'symbol', header: 'Symbol' },
+  { accessor: 'mass', header: 'Atomic mass', sortable: true },
+];
+
+function Demo() {
+  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+
+  return (
+    <>
+      <Table
+        data={{ columns, records: elements }}
+        withRowSelection
+        getRowId={(element) => element.symbol}
+        selectedRows={selectedRows}
+        onSelectedRowsChange={setSelectedRows}
+      />
+
+      <Text size="sm" mt="md">
+        Selected rows: {selectedRows.join(', ') || 'none'}
+      </Text>
+    </>
+  );
+}
+`;
+
+const tableColumns: TableColumn<(typeof elements)[number]>[] = [
+  { accessor: 'name', header: 'Element name', sortable: true },
+  { accessor: 'position', header: 'Element position', sortable: true },
+  { accessor: 'symbol', header: 'Symbol' },
+  { accessor: 'mass', header: 'Atomic mass', sortable: true },
+];
+
+function Demo() {
+  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+
+  return (
+    <>
+      <Table
+        data={{ columns: tableColumns, records: elements }}
+        withRowSelection
+        getRowId={(element) => element.symbol}
+        selectedRows={selectedRows}
+        onSelectedRowsChange={setSelectedRows}
+      />
+
+      <Text size="sm" mt="md">
+        Selected rows: {selectedRows.join(', ') || 'none'}
+      </Text>
+    </>
+  );
+}
+
+export const columnsRowSelection: MantineDemo = {
+  type: 'code',
+  code,
+  component: Demo,
+};
@@ -0,0 +1,122 @@
+import { useRef, useState } from 'react';
+import { Button, Group, NumberInput, Table, TableScrollToIndex } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useRef, useState } from 'react';
+import { Button, Group, NumberInput, Table, TableScrollToIndex } from '@mantine/core';
+
+const records = Array(10000)
+  .fill(0)
+  .map((_, index) => ({
+    id: index + 1,
+    level: index % 7 === 0 ? 'error' : 'info',
+    message: \`Log message #\${index + 1}\`,
+  }));
+
+function Demo() {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const scrollToIndexRef = useRef<TableScrollToIndex>(null);
+  const [index, setIndex] = useState<string | number>(5000);
+
+  return (
+    <>
+      <Group mb="md" align="flex-end">
+        <NumberInput label="Row index" min={0} max={records.length - 1} value={index} onChange={setIndex} />
+        <Button onClick={() => scrollToIndexRef.current?.(Number(index), { align: 'start' })}>
+          Scroll to row
+        </Button>
+      </Group>
+
+      <Table.ScrollContainer minWidth={500} maxHeight={400} scrollAreaProps={{ viewportRef }}>
+        <Table stickyHeader striped highlightOnHover>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Id</Table.Th>
+              <Table.Th>Level</Table.Th>
+              <Table.Th>Message</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.VirtualizedTbody
+            rowsCount={records.length}
+            rowHeight={37}
+            scrollParentRef={viewportRef}
+            scrollToIndexRef={scrollToIndexRef}
+            getRowKey={(rowIndex) => records[rowIndex].id}
+            renderRow={(rowIndex) => (
+              <>
+                <Table.Td>{records[rowIndex].id}</Table.Td>
+                <Table.Td>{records[rowIndex].level}</Table.Td>
+                <Table.Td>{records[rowIndex].message}</Table.Td>
+              </>
+            )}
+          />
+        </Table>
+      </Table.ScrollContainer>
+    </>
+  );
+}
+`;
+
+const records = Array(10000)
+  .fill(0)
+  .map((_, index) => ({
+    id: index + 1,
+    level: index % 7 === 0 ? 'error' : 'info',
+    message: `Log message #${index + 1}`,
+  }));
+
+function Demo() {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const scrollToIndexRef = useRef<TableScrollToIndex>(null);
+  const [index, setIndex] = useState<string | number>(5000);
+
+  return (
+    <>
+      <Group mb="md" align="flex-end">
+        <NumberInput
+          label="Row index"
+          min={0}
+          max={records.length - 1}
+          value={index}
+          onChange={setIndex}
+        />
+        <Button onClick={() => scrollToIndexRef.current?.(Number(index), { align: 'start' })}>
+          Scroll to row
+        </Button>
+      </Group>
+
+      <Table.ScrollContainer minWidth={500} maxHeight={400} scrollAreaProps={{ viewportRef }}>
+        <Table stickyHeader striped highlightOnHover>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Id</Table.Th>
+              <Table.Th>Level</Table.Th>
+              <Table.Th>Message</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.VirtualizedTbody
+            rowsCount={records.length}
+            rowHeight={37}
+            scrollParentRef={viewportRef}
+            scrollToIndexRef={scrollToIndexRef}
+            getRowKey={(rowIndex) => records[rowIndex].id}
+            renderRow={(rowIndex) => (
+              <>
+                <Table.Td>{records[rowIndex].id}</Table.Td>
+                <Table.Td>{records[rowIndex].level}</Table.Td>
+                <Table.Td>{records[rowIndex].message}</Table.Td>
+              </>
+            )}
+          />
+        </Table>
+      </Table.ScrollContainer>
+    </>
+  );
+}
+
+export const virtualized: MantineDemo = {
+  type: 'code',
+  code,
+  component: Demo,
+};
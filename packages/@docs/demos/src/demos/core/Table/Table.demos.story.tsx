@@ -67,3 +67,18 @@ export const Demo_tabularNums = {
   name: '⭐ Demo: tabularNums',
   render: renderDemo(demos.tabularNums),
 };
+
+export const Demo_columns = {
+  name: '⭐ Demo: columns',
+  render: renderDemo(demos.columns),
+};
+
+export const Demo_virtualized = {
+  name: '⭐ Demo: virtualized',
+  render: renderDemo(demos.virtualized),
+};
+
+export const Demo_columnsRowSelection = {
+  name: '⭐ Demo: columnsRowSelection',
+  render: renderDemo(demos.columnsRowSelection),
+};
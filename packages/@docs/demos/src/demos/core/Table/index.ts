@@ -11,3 +11,6 @@ export { data } from './Table.demo.data';
 export { stickyHeader } from './Table.demo.stickyHeader';
 export { vertical } from './Table.demo.vertical';
 export { tabularNums } from './Table.demo.tabularNums';
+export { columns } from './Table.demo.columns';
+export { virtualized } from './Table.demo.virtualized';
+export { columnsRowSelection } from './Table.demo.columnsRowSelection';
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { IconChevronDown } from '@tabler/icons-react';
+import { Group, moveTreeNode, Tree } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+import { dataCode, data as initialData } from './data';
+
+const code = `
+import { useState } from 'react';
+import { IconChevronDown } from '@tabler/icons-react';
+import { Group, moveTreeNode, Tree } from '@mantine/core';
+import { data as initialData } from './data';
+
+function Demo() {
+  const [data, setData] = useState(initialData);
+
+  return (
+    <Tree
+      data={data}
+      allowDragAndDrop
+      onNodeMove={(payload) => setData((current) => moveTreeNode(current, payload))}
+      canDrop={({ target, position }) => position !== 'inside' || !!target.children}
+      levelOffset={23}
+      renderNode={({ node, expanded, hasChildren, elementProps }) => (
+        <Group gap={5} {...elementProps}>
+          {hasChildren && (
+            <IconChevronDown
+              size={18}
+              style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+            />
+          )}
+
+          <span>{node.label}</span>
+        </Group>
+      )}
+    />
+  );
+}
+`;
+
+function Demo() {
+  const [data, setData] = useState(initialData);
+
+  return (
+    <Tree
+      data={data}
+      allowDragAndDrop
+      onNodeMove={(payload) => setData((current) => moveTreeNode(current, payload))}
+      canDrop={({ target, position }) => position !== 'inside' || !!target.children}
+      levelOffset={23}
+      renderNode={({ node, expanded, hasChildren, elementProps }) => (
+        <Group gap={5} {...elementProps}>
+          {hasChildren && (
+            <IconChevronDown
+              size={18}
+              style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+            />
+          )}
+
+          <span>{node.label}</span>
+        </Group>
+      )}
+    />
+  );
+}
+
+export const dragAndDrop: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code: [
+    { fileName: 'Demo.tsx', language: 'tsx', code },
+    { fileName: 'data.ts', language: 'tsx', code: dataCode },
+  ],
+};
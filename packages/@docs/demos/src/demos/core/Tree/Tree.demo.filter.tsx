@@ -0,0 +1,89 @@
+import { IconChevronDown } from '@tabler/icons-react';
+import { Group, Highlight, TextInput, Tree, useTree } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+import { data, dataCode } from './data';
+
+const code = `
+import { IconChevronDown } from '@tabler/icons-react';
+import { Group, Highlight, TextInput, Tree, useTree } from '@mantine/core';
+import { data } from './data';
+
+function Demo() {
+  const tree = useTree();
+
+  return (
+    <>
+      <TextInput
+        placeholder="Search files"
+        value={tree.filterQuery}
+        onChange={(event) => tree.setFilterQuery(event.currentTarget.value)}
+        mb="md"
+      />
+
+      <Tree
+        data={data}
+        tree={tree}
+        levelOffset={23}
+        renderNode={({ node, expanded, hasChildren, elementProps }) => (
+          <Group gap={5} {...elementProps}>
+            {hasChildren && (
+              <IconChevronDown
+                size={18}
+                style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+              />
+            )}
+
+            <Highlight component="span" inherit highlight={tree.filterQuery.trim()}>
+              {node.label as string}
+            </Highlight>
+          </Group>
+        )}
+      />
+    </>
+  );
+}
+`;
+
+function Demo() {
+  const tree = useTree();
+
+  return (
+    <>
+      <TextInput
+        placeholder="Search files"
+        value={tree.filterQuery}
+        onChange={(event) => tree.setFilterQuery(event.currentTarget.value)}
+        mb="md"
+      />
+
+      <Tree
+        data={data}
+        tree={tree}
+        levelOffset={23}
+        renderNode={({ node, expanded, hasChildren, elementProps }) => (
+          <Group gap={5} {...elementProps}>
+            {hasChildren && (
+              <IconChevronDown
+                size={18}
+                style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+              />
+            )}
+
+            <Highlight component="span" inherit highlight={tree.filterQuery.trim()}>
+              {node.label as string}
+            </Highlight>
+          </Group>
+        )}
+      />
+    </>
+  );
+}
+
+export const filter: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code: [
+    { fileName: 'Demo.tsx', language: 'tsx', code },
+    { fileName: 'data.ts', language: 'tsx', code: dataCode },
+  ],
+};
@@ -0,0 +1,141 @@
+import { IconChevronDown } from '@tabler/icons-react';
+import { Button, Group, Loader, Tree, TreeNodeData, useTree } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { IconChevronDown } from '@tabler/icons-react';
+import { Button, Group, Loader, Tree, TreeNodeData, useTree } from '@mantine/core';
+
+const data: TreeNodeData[] = [
+  { value: 'src', label: 'src', hasChildren: true },
+  { value: 'node_modules', label: 'node_modules', hasChildren: true },
+  { value: 'package.json', label: 'package.json' },
+];
+
+// Simulates request to the server, fails for node_modules on the first attempt
+const attempts: Record<string, number> = {};
+function fetchChildren(node: TreeNodeData): Promise<TreeNodeData[]> {
+  attempts[node.value] = (attempts[node.value] || 0) + 1;
+
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (node.value === 'node_modules' && attempts[node.value] === 1) {
+        reject(new Error('Failed to load'));
+        return;
+      }
+
+      resolve([
+        { value: \`\${node.value}/components\`, label: 'components', hasChildren: true },
+        { value: \`\${node.value}/index.ts\`, label: 'index.ts' },
+      ]);
+    }, 1000);
+  });
+}
+
+function Demo() {
+  const tree = useTree({ loadChildren: fetchChildren });
+
+  return (
+    <Tree
+      data={data}
+      tree={tree}
+      levelOffset={23}
+      renderNode={({ node, expanded, hasChildren, loading, error, elementProps }) => (
+        <Group gap={5} {...elementProps}>
+          {hasChildren && (
+            <IconChevronDown
+              size={18}
+              style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+            />
+          )}
+
+          <span>{node.label}</span>
+          {loading && <Loader size={14} />}
+          {!!error && (
+            <Button
+              size="compact-xs"
+              variant="light"
+              color="red"
+              onClick={(event) => {
+                event.stopPropagation();
+                tree.loadNodeChildren(node.value);
+              }}
+            >
+              Retry
+            </Button>
+          )}
+        </Group>
+      )}
+    />
+  );
+}
+`;
+
+const data: TreeNodeData[] = [
+  { value: 'src', label: 'src', hasChildren: true },
+  { value: 'node_modules', label: 'node_modules', hasChildren: true },
+  { value: 'package.json', label: 'package.json' },
+];
+
+const attempts: Record<string, number> = {};
+function fetchChildren(node: TreeNodeData): Promise<TreeNodeData[]> {
+  attempts[node.value] = (attempts[node.value] || 0) + 1;
+
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (node.value === 'node_modules' && attempts[node.value] === 1) {
+        reject(new Error('Failed to load'));
+        return;
+      }
+
+      resolve([
+        { value: `${node.value}/components`, label: 'components', hasChildren: true },
+        { value: `${node.value}/index.ts`, label: 'index.ts' },
+      ]);
+    }, 1000);
+  });
+}
+
+function Demo() {
+  const tree = useTree({ loadChildren: fetchChildren });
+
+  return (
+    <Tree
+      data={data}
+      tree={tree}
+      levelOffset={23}
+      renderNode={({ node, expanded, hasChildren, loading, error, elementProps }) => (
+        <Group gap={5} {...elementProps}>
+          {hasChildren && (
+            <IconChevronDown
+              size={18}
+              style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+            />
+          )}
+
+          <span>{node.label}</span>
+          {loading && <Loader size={14} />}
+          {!!error && (
+            <Button
+              size="compact-xs"
+              variant="light"
+              color="red"
+              onClick={(event) => {
+                event.stopPropagation();
+                tree.loadNodeChildren(node.value);
+              }}
+            >
+              Retry
+            </Button>
+          )}
+        </Group>
+      )}
+    />
+  );
+}
+
+export const lazyLoading: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+};
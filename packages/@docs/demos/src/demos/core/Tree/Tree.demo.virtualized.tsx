@@ -0,0 +1,126 @@
+import { IconChevronDown } from '@tabler/icons-react';
+import { Checkbox, Group, RenderTreeNodePayload, Tree, TreeNodeData } from '@mantine/core';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { IconChevronDown } from '@tabler/icons-react';
+import { Checkbox, Group, RenderTreeNodePayload, Tree, TreeNodeData } from '@mantine/core';
+
+// 50 000 nodes: 500 folders with 99 files in each
+const data: TreeNodeData[] = Array.from({ length: 500 }, (_, folderIndex) => ({
+  value: \`folder-\${folderIndex}\`,
+  label: \`Folder \${folderIndex + 1}\`,
+  children: Array.from({ length: 99 }, (__, fileIndex) => ({
+    value: \`folder-\${folderIndex}/file-\${fileIndex}\`,
+    label: \`File \${fileIndex + 1}\`,
+  })),
+}));
+
+const renderTreeNode = ({
+  node,
+  expanded,
+  hasChildren,
+  elementProps,
+  tree,
+}: RenderTreeNodePayload) => {
+  const checked = tree.isNodeChecked(node.value);
+  const indeterminate = tree.isNodeIndeterminate(node.value);
+
+  return (
+    <Group gap="xs" {...elementProps}>
+      <Checkbox.Indicator
+        checked={checked}
+        indeterminate={indeterminate}
+        onClick={() => (!checked ? tree.checkNode(node.value) : tree.uncheckNode(node.value))}
+      />
+
+      <Group gap={5} onClick={() => tree.toggleExpanded(node.value)}>
+        <span>{node.label}</span>
+
+        {hasChildren && (
+          <IconChevronDown
+            size={14}
+            style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+          />
+        )}
+      </Group>
+    </Group>
+  );
+};
+
+function Demo() {
+  return (
+    <Tree
+      data={data}
+      virtualized
+      nodeHeight={30}
+      h={400}
+      levelOffset={23}
+      expandOnClick={false}
+      renderNode={renderTreeNode}
+    />
+  );
+}
+`;
+
+// 50 000 nodes: 500 folders with 99 files in each
+const data: TreeNodeData[] = Array.from({ length: 500 }, (_, folderIndex) => ({
+  value: `folder-${folderIndex}`,
+  label: `Folder ${folderIndex + 1}`,
+  children: Array.from({ length: 99 }, (__, fileIndex) => ({
+    value: `folder-${folderIndex}/file-${fileIndex}`,
+    label: `File ${fileIndex + 1}`,
+  })),
+}));
+
+const renderTreeNode = ({
+  node,
+  expanded,
+  hasChildren,
+  elementProps,
+  tree,
+}: RenderTreeNodePayload) => {
+  const checked = tree.isNodeChecked(node.value);
+  const indeterminate = tree.isNodeIndeterminate(node.value);
+
+  return (
+    <Group gap="xs" {...elementProps}>
+      <Checkbox.Indicator
+        checked={checked}
+        indeterminate={indeterminate}
+        onClick={() => (!checked ? tree.checkNode(node.value) : tree.uncheckNode(node.value))}
+      />
+
+      <Group gap={5} onClick={() => tree.toggleExpanded(node.value)}>
+        <span>{node.label}</span>
+
+        {hasChildren && (
+          <IconChevronDown
+            size={14}
+            style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+          />
+        )}
+      </Group>
+    </Group>
+  );
+};
+
+function Demo() {
+  return (
+    <Tree
+      data={data}
+      virtualized
+      nodeHeight={30}
+      h={400}
+      levelOffset={23}
+      expandOnClick={false}
+      renderNode={renderTreeNode}
+    />
+  );
+}
+
+export const virtualized: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+};
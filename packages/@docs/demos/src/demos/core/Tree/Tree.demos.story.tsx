@@ -37,3 +37,23 @@ export const Demo_checkAllNodes = {
   name: '⭐ Demo: checkAllNodes',
   render: renderDemo(demos.checkAllNodes),
 };
+
+export const Demo_lazyLoading = {
+  name: '⭐ Demo: lazyLoading',
+  render: renderDemo(demos.lazyLoading),
+};
+
+export const Demo_dragAndDrop = {
+  name: '⭐ Demo: dragAndDrop',
+  render: renderDemo(demos.dragAndDrop),
+};
+
+export const Demo_virtualized = {
+  name: '⭐ Demo: virtualized',
+  render: renderDemo(demos.virtualized),
+};
+
+export const Demo_filter = {
+  name: '⭐ Demo: filter',
+  render: renderDemo(demos.filter),
+};
@@ -5,3 +5,7 @@ export { controller } from './Tree.demo.controller';
 export { checked } from './Tree.demo.checked';
 export { expandedState } from './Tree.demo.expandedState';
 export { checkAllNodes } from './Tree.demo.checkAllNodes';
+export { lazyLoading } from './Tree.demo.lazyLoading';
+export { dragAndDrop } from './Tree.demo.dragAndDrop';
+export { virtualized } from './Tree.demo.virtualized';
+export { filter } from './Tree.demo.filter';
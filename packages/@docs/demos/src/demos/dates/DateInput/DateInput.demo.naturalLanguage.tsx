@@ -0,0 +1,30 @@
+import { DateInput } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { DateInput } from '@mantine/dates';
+
+function Demo() {
+  return (
+    <DateInput
+      naturalLanguage
+      label="Due date"
+      placeholder="Try: tomorrow, next fri, in 2 weeks"
+    />
+  );
+}
+`;
+
+function Demo() {
+  return (
+    <DateInput naturalLanguage label="Due date" placeholder="Try: tomorrow, next fri, in 2 weeks" />
+  );
+}
+
+export const naturalLanguage: MantineDemo = {
+  type: 'code',
+  centered: true,
+  maxWidth: 400,
+  component: Demo,
+  code,
+};
@@ -7,3 +7,4 @@ export { minMax } from './DateInput.demo.minMax';
 export { deselect } from './DateInput.demo.deselect';
 export { time } from './DateInput.demo.time';
 export { disabled } from './DateInput.demo.disabled';
+export { naturalLanguage } from './DateInput.demo.naturalLanguage';
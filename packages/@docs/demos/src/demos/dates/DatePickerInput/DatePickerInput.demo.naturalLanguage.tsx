@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { DatePickerInput } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useState } from 'react';
+import { DatePickerInput } from '@mantine/dates';
+
+function Demo() {
+  const [value, setValue] = useState<[string | null, string | null]>([null, null]);
+
+  return (
+    <DatePickerInput
+      type="range"
+      naturalLanguage
+      naturalLanguageInputProps={{ placeholder: 'Try: last 7 days, this month' }}
+      label="Pick dates range"
+      placeholder="Pick dates range"
+      value={value}
+      onChange={setValue}
+    />
+  );
+}
+`;
+
+function Demo() {
+  const [value, setValue] = useState<[string | null, string | null]>([null, null]);
+
+  return (
+    <DatePickerInput
+      type="range"
+      naturalLanguage
+      naturalLanguageInputProps={{ placeholder: 'Try: last 7 days, this month' }}
+      label="Pick dates range"
+      placeholder="Pick dates range"
+      value={value}
+      onChange={setValue}
+    />
+  );
+}
+
+export const naturalLanguage: MantineDemo = {
+  type: 'code',
+  centered: true,
+  maxWidth: 400,
+  component: Demo,
+  code,
+};
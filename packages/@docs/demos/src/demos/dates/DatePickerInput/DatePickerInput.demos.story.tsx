@@ -62,3 +62,8 @@ export const Demo_presetsRange = {
   name: '⭐ Demo: presetsRange',
   render: renderDemo(demos.presetsRange),
 };
+
+export const Demo_naturalLanguage = {
+  name: '⭐ Demo: naturalLanguage',
+  render: renderDemo(demos.naturalLanguage),
+};
@@ -8,3 +8,4 @@ export { valueFormat } from './DatePickerInput.demo.valueFormat';
 export { disabled } from './DatePickerInput.demo.disabled';
 export { presets } from './DatePickerInput.demo.presets';
 export { presetsRange } from './DatePickerInput.demo.presetsRange';
+export { naturalLanguage } from './DatePickerInput.demo.naturalLanguage';
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Stack, Text } from '@mantine/core';
+import { DateRangePicker, DatesRangeValue, getPreviousPeriod } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+import { presetsData, presetsDataCode } from './_data';
+
+const code = `
+import { useState } from 'react';
+import { Stack, Text } from '@mantine/core';
+import { DateRangePicker, DatesRangeValue, getPreviousPeriod } from '@mantine/dates';
+import { presetsData } from './data';
+
+function Demo() {
+  const [value, setValue] = useState<DatesRangeValue<string>>(presetsData[0].value);
+  const [compare, setCompare] = useState(true);
+  const previousPeriod = compare ? getPreviousPeriod(value) : null;
+
+  return (
+    <Stack>
+      <DateRangePicker
+        presets={presetsData}
+        value={value}
+        onChange={setValue}
+        withCompare
+        compare={compare}
+        onCompareChange={setCompare}
+      />
+      <Text size="sm">
+        Selected: {value.join(' – ')}
+        {previousPeriod && \`, compared to: \${previousPeriod.join(' – ')}\`}
+      </Text>
+    </Stack>
+  );
+}
+`;
+
+function Demo() {
+  const [value, setValue] = useState<DatesRangeValue<string>>(presetsData[0].value);
+  const [compare, setCompare] = useState(true);
+  const previousPeriod = compare ? getPreviousPeriod(value) : null;
+
+  return (
+    <Stack>
+      <DateRangePicker
+        presets={presetsData}
+        value={value}
+        onChange={setValue}
+        withCompare
+        compare={compare}
+        onCompareChange={setCompare}
+      />
+      <Text size="sm">
+        Selected: {value.join(' – ')}
+        {previousPeriod && `, compared to: ${previousPeriod.join(' – ')}`}
+      </Text>
+    </Stack>
+  );
+}
+
+export const compare: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  centered: true,
+  code: [
+    { code, language: 'tsx', fileName: 'Demo.tsx' },
+    { code: presetsDataCode, language: 'tsx', fileName: 'data.ts' },
+  ],
+};
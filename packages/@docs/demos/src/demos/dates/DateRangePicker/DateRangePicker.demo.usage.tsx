@@ -0,0 +1,26 @@
+import { DateRangePicker } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+import { presetsData, presetsDataCode } from './_data';
+
+const code = `
+import { DateRangePicker } from '@mantine/dates';
+import { presetsData } from './data';
+
+function Demo() {
+  return <DateRangePicker presets={presetsData} />;
+}
+`;
+
+function Demo() {
+  return <DateRangePicker presets={presetsData} />;
+}
+
+export const usage: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  centered: true,
+  code: [
+    { code, language: 'tsx', fileName: 'Demo.tsx' },
+    { code: presetsDataCode, language: 'tsx', fileName: 'data.ts' },
+  ],
+};
@@ -0,0 +1,14 @@
+import { renderDemo } from '../../../render-demo';
+import * as demos from './index';
+
+export default { title: 'DateRangePicker' };
+
+export const Demo_usage = {
+  name: '⭐ Demo: usage',
+  render: renderDemo(demos.usage),
+};
+
+export const Demo_compare = {
+  name: '⭐ Demo: compare',
+  render: renderDemo(demos.compare),
+};
@@ -0,0 +1,47 @@
+import dayjs from 'dayjs';
+import { DatePickerPreset } from '@mantine/dates';
+
+const today = dayjs();
+const format = (date: dayjs.Dayjs) => date.format('YYYY-MM-DD');
+
+export const presetsData: DatePickerPreset<'range'>[] = [
+  { value: [format(today.subtract(6, 'day')), format(today)], label: 'Last 7 days' },
+  { value: [format(today.subtract(29, 'day')), format(today)], label: 'Last 30 days' },
+  { value: [format(today.startOf('month')), format(today)], label: 'This month' },
+  {
+    value: [
+      format(today.subtract(1, 'month').startOf('month')),
+      format(today.subtract(1, 'month').endOf('month')),
+    ],
+    label: 'Last month',
+  },
+  {
+    value: [format(today.subtract(2, 'month').startOf('month')), format(today)],
+    label: 'Last 3 months',
+  },
+];
+
+export const presetsDataCode = `
+import dayjs from 'dayjs';
+import { DatePickerPreset } from '@mantine/dates';
+
+const today = dayjs();
+const format = (date: dayjs.Dayjs) => date.format('YYYY-MM-DD');
+
+export const presetsData: DatePickerPreset<'range'>[] = [
+  { value: [format(today.subtract(6, 'day')), format(today)], label: 'Last 7 days' },
+  { value: [format(today.subtract(29, 'day')), format(today)], label: 'Last 30 days' },
+  { value: [format(today.startOf('month')), format(today)], label: 'This month' },
+  {
+    value: [
+      format(today.subtract(1, 'month').startOf('month')),
+      format(today.subtract(1, 'month').endOf('month')),
+    ],
+    label: 'Last month',
+  },
+  {
+    value: [format(today.subtract(2, 'month').startOf('month')), format(today)],
+    label: 'Last 3 months',
+  },
+];
+`;
@@ -0,0 +1,2 @@
+export { usage } from './DateRangePicker.demo.usage';
+export { compare } from './DateRangePicker.demo.compare';
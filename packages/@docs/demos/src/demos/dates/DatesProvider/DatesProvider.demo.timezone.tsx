@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Select, Stack, Text } from '@mantine/core';
+import { DatesProvider, DateTimePicker, fromTimezoneDateTimeString } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useState } from 'react';
+import { Select, Stack, Text } from '@mantine/core';
+import { DatesProvider, DateTimePicker, fromTimezoneDateTimeString } from '@mantine/dates';
+
+function Demo() {
+  const [timezone, setTimezone] = useState<string | null>('America/New_York');
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <DatesProvider settings={{ timezone }}>
+      <Stack>
+        <Select
+          label="Time zone"
+          data={['America/New_York', 'Europe/London', 'Asia/Tokyo', 'Australia/Sydney']}
+          value={timezone}
+          onChange={setTimezone}
+        />
+        <DateTimePicker label="Meeting time" value={value} onChange={setValue} clearable />
+        <Text size="sm">Value: {value || '–'}</Text>
+        <Text size="sm">
+          UTC: {value ? fromTimezoneDateTimeString(value, timezone).toISOString() : '–'}
+        </Text>
+      </Stack>
+    </DatesProvider>
+  );
+}
+`;
+
+function Demo() {
+  const [timezone, setTimezone] = useState<string | null>('America/New_York');
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <DatesProvider settings={{ timezone }}>
+      <Stack>
+        <Select
+          label="Time zone"
+          data={['America/New_York', 'Europe/London', 'Asia/Tokyo', 'Australia/Sydney']}
+          value={timezone}
+          onChange={setTimezone}
+        />
+        <DateTimePicker label="Meeting time" value={value} onChange={setValue} clearable />
+        <Text size="sm">Value: {value || '–'}</Text>
+        <Text size="sm">
+          UTC: {value ? fromTimezoneDateTimeString(value, timezone).toISOString() : '–'}
+        </Text>
+      </Stack>
+    </DatesProvider>
+  );
+}
+
+export const timezone: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  maxWidth: 400,
+  centered: true,
+};
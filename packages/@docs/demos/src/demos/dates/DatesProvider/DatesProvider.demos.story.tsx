@@ -12,3 +12,8 @@ export const Demo_consistentWeeks = {
   name: '⭐ Demo: consistentWeeks',
   render: renderDemo(demos.consistentWeeks),
 };
+
+export const Demo_timezone = {
+  name: '⭐ Demo: timezone',
+  render: renderDemo(demos.timezone),
+};
@@ -1,2 +1,3 @@
 export { usage } from './DatesProvider.demo.usage';
 export { consistentWeeks } from './DatesProvider.demo.consistentWeeks';
+export { timezone } from './DatesProvider.demo.timezone';
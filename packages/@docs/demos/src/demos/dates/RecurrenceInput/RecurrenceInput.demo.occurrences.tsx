@@ -0,0 +1,37 @@
+import { Calendar, getRecurrenceOccurrences, parseRecurrenceRule } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { Calendar, getRecurrenceOccurrences, parseRecurrenceRule } from '@mantine/dates';
+
+const rule = parseRecurrenceRule('DTSTART;VALUE=DATE:20250303\\nRRULE:FREQ=WEEKLY;BYDAY=MO,TH');
+const occurrences = getRecurrenceOccurrences(rule, { to: '2025-04-30' });
+
+function Demo() {
+  return (
+    <Calendar
+      defaultDate="2025-03-01"
+      getDayProps={(date) => ({ selected: occurrences.includes(date) })}
+    />
+  );
+}
+`;
+
+const rule = parseRecurrenceRule('DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=WEEKLY;BYDAY=MO,TH');
+const ruleOccurrences = getRecurrenceOccurrences(rule, { to: '2025-04-30' });
+
+function Demo() {
+  return (
+    <Calendar
+      defaultDate="2025-03-01"
+      getDayProps={(date) => ({ selected: ruleOccurrences.includes(date) })}
+    />
+  );
+}
+
+export const occurrences: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+};
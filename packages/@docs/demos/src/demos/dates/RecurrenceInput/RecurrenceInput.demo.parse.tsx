@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { Code, Stack } from '@mantine/core';
+import { RecurrenceInput } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useState } from 'react';
+import { Code, Stack } from '@mantine/core';
+import { RecurrenceInput } from '@mantine/dates';
+
+function Demo() {
+  const [value, setValue] = useState<string | null>(
+    'DTSTART;VALUE=DATE:20250328\\nRRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=6\\nEXDATE;VALUE=DATE:20250425'
+  );
+
+  return (
+    <Stack>
+      <RecurrenceInput value={value} onChange={setValue} />
+      <Code block>{value}</Code>
+    </Stack>
+  );
+}
+`;
+
+function Demo() {
+  const [value, setValue] = useState<string | null>(
+    'DTSTART;VALUE=DATE:20250328\nRRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=6\nEXDATE;VALUE=DATE:20250425'
+  );
+
+  return (
+    <Stack>
+      <RecurrenceInput value={value} onChange={setValue} />
+      <Code block>{value}</Code>
+    </Stack>
+  );
+}
+
+export const parse: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  maxWidth: 400,
+  centered: true,
+};
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Code, Stack } from '@mantine/core';
+import { RecurrenceInput } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useState } from 'react';
+import { Code, Stack } from '@mantine/core';
+import { RecurrenceInput } from '@mantine/dates';
+
+function Demo() {
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <Stack>
+      <RecurrenceInput value={value} onChange={setValue} />
+      <Code block>{value || 'Change the rule to see the value'}</Code>
+    </Stack>
+  );
+}
+`;
+
+function Demo() {
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <Stack>
+      <RecurrenceInput value={value} onChange={setValue} />
+      <Code block>{value || 'Change the rule to see the value'}</Code>
+    </Stack>
+  );
+}
+
+export const usage: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  maxWidth: 400,
+  centered: true,
+};
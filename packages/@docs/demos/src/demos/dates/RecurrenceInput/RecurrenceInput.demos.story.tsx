@@ -0,0 +1,19 @@
+import { renderDemo } from '../../../render-demo';
+import * as demos from './index';
+
+export default { title: 'RecurrenceInput' };
+
+export const Demo_usage = {
+  name: '⭐ Demo: usage',
+  render: renderDemo(demos.usage),
+};
+
+export const Demo_parse = {
+  name: '⭐ Demo: parse',
+  render: renderDemo(demos.parse),
+};
+
+export const Demo_occurrences = {
+  name: '⭐ Demo: occurrences',
+  render: renderDemo(demos.occurrences),
+};
@@ -0,0 +1,3 @@
+export { usage } from './RecurrenceInput.demo.usage';
+export { parse } from './RecurrenceInput.demo.parse';
+export { occurrences } from './RecurrenceInput.demo.occurrences';
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Scheduler, SchedulerEventData } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+import { eventsData, eventsDataCode } from './_data';
+
+const code = `
+import { useState } from 'react';
+import { Scheduler, SchedulerEventData } from '@mantine/dates';
+import { eventsData } from './data';
+
+function Demo() {
+  const [events, setEvents] = useState<SchedulerEventData[]>(eventsData);
+
+  return (
+    <Scheduler
+      events={events}
+      defaultView="week"
+      onEventChange={({ event, start, end }) =>
+        setEvents((current) =>
+          current.map((item) => (item.id === event.id ? { ...item, start, end } : item))
+        )
+      }
+      onSlotClick={({ start, end, allDay }) =>
+        setEvents((current) => [
+          ...current,
+          { id: Date.now(), title: 'New event', start, end, allDay },
+        ])
+      }
+    />
+  );
+}
+`;
+
+function Demo() {
+  const [events, setEvents] = useState<SchedulerEventData[]>(eventsData);
+
+  return (
+    <Scheduler
+      events={events}
+      defaultView="week"
+      onEventChange={({ event, start, end }) =>
+        setEvents((current) =>
+          current.map((item) => (item.id === event.id ? { ...item, start, end } : item))
+        )
+      }
+      onSlotClick={({ start, end, allDay }) =>
+        setEvents((current) => [
+          ...current,
+          { id: Date.now(), title: 'New event', start, end, allDay },
+        ])
+      }
+    />
+  );
+}
+
+export const dragAndDrop: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code: [
+    { code, language: 'tsx', fileName: 'Demo.tsx' },
+    { code: eventsDataCode, language: 'tsx', fileName: 'data.ts' },
+  ],
+};
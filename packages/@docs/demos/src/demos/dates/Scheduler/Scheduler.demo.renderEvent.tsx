@@ -0,0 +1,61 @@
+import { Group, Text } from '@mantine/core';
+import { Scheduler } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+import { eventsData, eventsDataCode } from './_data';
+
+const code = `
+import { Group, Text } from '@mantine/core';
+import { Scheduler } from '@mantine/dates';
+import { eventsData } from './data';
+
+function Demo() {
+  return (
+    <Scheduler
+      events={eventsData}
+      defaultView="week"
+      renderEvent={(event, { allDay }) => (
+        <Group gap={4} wrap="nowrap">
+          <Text fz="xs" fw={700} truncate>
+            {event.title}
+          </Text>
+          {allDay && (
+            <Text fz="xs" c="dimmed">
+              all day
+            </Text>
+          )}
+        </Group>
+      )}
+    />
+  );
+}
+`;
+
+function Demo() {
+  return (
+    <Scheduler
+      events={eventsData}
+      defaultView="week"
+      renderEvent={(event, { allDay }) => (
+        <Group gap={4} wrap="nowrap">
+          <Text fz="xs" fw={700} truncate>
+            {event.title}
+          </Text>
+          {allDay && (
+            <Text fz="xs" c="dimmed">
+              all day
+            </Text>
+          )}
+        </Group>
+      )}
+    />
+  );
+}
+
+export const renderEvent: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code: [
+    { code, language: 'tsx', fileName: 'Demo.tsx' },
+    { code: eventsDataCode, language: 'tsx', fileName: 'data.ts' },
+  ],
+};
@@ -0,0 +1,25 @@
+import { Scheduler } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+import { eventsData, eventsDataCode } from './_data';
+
+const code = `
+import { Scheduler } from '@mantine/dates';
+import { eventsData } from './data';
+
+function Demo() {
+  return <Scheduler events={eventsData} />;
+}
+`;
+
+function Demo() {
+  return <Scheduler events={eventsData} />;
+}
+
+export const usage: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code: [
+    { code, language: 'tsx', fileName: 'Demo.tsx' },
+    { code: eventsDataCode, language: 'tsx', fileName: 'data.ts' },
+  ],
+};
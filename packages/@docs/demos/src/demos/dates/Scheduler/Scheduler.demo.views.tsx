@@ -0,0 +1,43 @@
+import { Scheduler } from '@mantine/dates';
+import { MantineDemo } from '@mantinex/demo';
+import { eventsData, eventsDataCode } from './_data';
+
+const code = `
+import { Scheduler } from '@mantine/dates';
+import { eventsData } from './data';
+
+function Demo() {
+  return (
+    <Scheduler
+      events={eventsData}
+      defaultView="week"
+      views={['week', 'day']}
+      startHour={8}
+      endHour={18}
+      slotDuration={60}
+    />
+  );
+}
+`;
+
+function Demo() {
+  return (
+    <Scheduler
+      events={eventsData}
+      defaultView="week"
+      views={['week', 'day']}
+      startHour={8}
+      endHour={18}
+      slotDuration={60}
+    />
+  );
+}
+
+export const views: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code: [
+    { code, language: 'tsx', fileName: 'Demo.tsx' },
+    { code: eventsDataCode, language: 'tsx', fileName: 'data.ts' },
+  ],
+};
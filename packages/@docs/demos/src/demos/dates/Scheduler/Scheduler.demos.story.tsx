@@ -0,0 +1,24 @@
+import { renderDemo } from '../../../render-demo';
+import * as demos from './index';
+
+export default { title: 'Scheduler' };
+
+export const Demo_usage = {
+  name: '⭐ Demo: usage',
+  render: renderDemo(demos.usage),
+};
+
+export const Demo_views = {
+  name: '⭐ Demo: views',
+  render: renderDemo(demos.views),
+};
+
+export const Demo_dragAndDrop = {
+  name: '⭐ Demo: dragAndDrop',
+  render: renderDemo(demos.dragAndDrop),
+};
+
+export const Demo_renderEvent = {
+  name: '⭐ Demo: renderEvent',
+  render: renderDemo(demos.renderEvent),
+};
@@ -0,0 +1,79 @@
+import dayjs from 'dayjs';
+import { SchedulerEventData } from '@mantine/dates';
+
+const today = dayjs().format('YYYY-MM-DD');
+const day = (offset: number) => dayjs(today).add(offset, 'day').format('YYYY-MM-DD');
+
+export const eventsData: SchedulerEventData[] = [
+  { id: 1, title: 'Team standup', start: `${day(0)} 09:00:00`, end: `${day(0)} 09:30:00` },
+  {
+    id: 2,
+    title: 'Design review',
+    start: `${day(0)} 11:00:00`,
+    end: `${day(0)} 12:30:00`,
+    color: 'violet',
+  },
+  {
+    id: 3,
+    title: 'Lunch with Alex',
+    start: `${day(0)} 12:00:00`,
+    end: `${day(0)} 13:00:00`,
+    color: 'teal',
+  },
+  {
+    id: 4,
+    title: 'Conference',
+    start: day(2),
+    end: day(4),
+    allDay: true,
+    color: 'orange',
+  },
+  {
+    id: 5,
+    title: 'Release',
+    start: `${day(-2)} 15:00:00`,
+    end: `${day(-2)} 17:00:00`,
+    color: 'red',
+  },
+];
+
+export const eventsDataCode = `
+import dayjs from 'dayjs';
+import { SchedulerEventData } from '@mantine/dates';
+
+const today = dayjs().format('YYYY-MM-DD');
+const day = (offset: number) => dayjs(today).add(offset, 'day').format('YYYY-MM-DD');
+
+export const eventsData: SchedulerEventData[] = [
+  { id: 1, title: 'Team standup', start: \`\${day(0)} 09:00:00\`, end: \`\${day(0)} 09:30:00\` },
+  {
+    id: 2,
+    title: 'Design review',
+    start: \`\${day(0)} 11:00:00\`,
+    end: \`\${day(0)} 12:30:00\`,
+    color: 'violet',
+  },
+  {
+    id: 3,
+    title: 'Lunch with Alex',
+    start: \`\${day(0)} 12:00:00\`,
+    end: \`\${day(0)} 13:00:00\`,
+    color: 'teal',
+  },
+  {
+    id: 4,
+    title: 'Conference',
+    start: day(2),
+    end: day(4),
+    allDay: true,
+    color: 'orange',
+  },
+  {
+    id: 5,
+    title: 'Release',
+    start: \`\${day(-2)} 15:00:00\`,
+    end: \`\${day(-2)} 17:00:00\`,
+    color: 'red',
+  },
+];
+`;
@@ -0,0 +1,4 @@
+export { usage } from './Scheduler.demo.usage';
+export { views } from './Scheduler.demo.views';
+export { dragAndDrop } from './Scheduler.demo.dragAndDrop';
+export { renderEvent } from './Scheduler.demo.renderEvent';
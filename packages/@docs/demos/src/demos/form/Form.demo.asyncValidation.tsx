@@ -0,0 +1,99 @@
+/* eslint-disable no-console */
+
+import { Button, Loader, TextInput } from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useForm } from '@mantine/form';
+import { Button, Loader, TextInput } from '@mantine/core';
+
+// Emulates request to the server
+function isUsernameTaken(username: string) {
+  return new Promise<boolean>((resolve) => {
+    setTimeout(() => resolve(['admin', 'mantine'].includes(username.toLowerCase())), 800);
+  });
+}
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { username: '' },
+    validateInputOnChange: true,
+    validateInputOnChangeDebounce: 300,
+    validate: {
+      username: async (value) => {
+        if (value.trim().length < 2) {
+          return 'Username must have at least 2 letters';
+        }
+
+        return (await isUsernameTaken(value)) ? 'Username is already taken' : null;
+      },
+    },
+  });
+
+  return (
+    <form onSubmit={form.onSubmit(console.log)}>
+      <TextInput
+        label="Username"
+        description="admin and mantine usernames are taken"
+        placeholder="Username"
+        rightSection={form.isValidating('username') ? <Loader size={16} /> : null}
+        key={form.key('username')}
+        {...form.getInputProps('username')}
+      />
+      <Button type="submit" mt="sm" loading={form.isValidating()}>
+        Submit
+      </Button>
+    </form>
+  );
+}
+`;
+
+function isUsernameTaken(username: string) {
+  return new Promise<boolean>((resolve) => {
+    setTimeout(() => resolve(['admin', 'mantine'].includes(username.toLowerCase())), 800);
+  });
+}
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { username: '' },
+    validateInputOnChange: true,
+    validateInputOnChangeDebounce: 300,
+    validate: {
+      username: async (value) => {
+        if (value.trim().length < 2) {
+          return 'Username must have at least 2 letters';
+        }
+
+        return (await isUsernameTaken(value)) ? 'Username is already taken' : null;
+      },
+    },
+  });
+
+  return (
+    <form onSubmit={form.onSubmit(console.log)}>
+      <TextInput
+        label="Username"
+        description="admin and mantine usernames are taken"
+        placeholder="Username"
+        rightSection={form.isValidating('username') ? <Loader size={16} /> : null}
+        key={form.key('username')}
+        {...form.getInputProps('username')}
+      />
+      <Button type="submit" mt="sm" loading={form.isValidating()}>
+        Submit
+      </Button>
+    </form>
+  );
+}
+
+export const asyncValidation: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 340,
+};
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Button, Checkbox, Code, Group, NativeSelect, TextInput } from '@mantine/core';
+import { matches, useForm } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useState } from 'react';
+import { Button, Checkbox, Code, Group, NativeSelect, TextInput } from '@mantine/core';
+import { matches, useForm } from '@mantine/form';
+
+const EU_COUNTRIES = ['DE', 'FR', 'IT', 'ES'];
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { country: 'US', vatNumber: '', company: '', isCompany: false },
+    validate: {
+      vatNumber: matches(/^[A-Z]{2}[0-9]+$/, 'Invalid VAT number'),
+    },
+    dependencies: {
+      vatNumber: {
+        dependsOn: ['country', 'isCompany'],
+        visible: (values) => values.isCompany && EU_COUNTRIES.includes(values.country),
+        required: () => true,
+        requiredError: 'VAT number is required for EU companies',
+      },
+      company: {
+        dependsOn: ['isCompany'],
+        visible: (values) => values.isCompany,
+        required: () => true,
+        requiredError: 'Company name is required',
+      },
+    },
+    omitHiddenFields: true,
+  });
+
+  const [submittedValues, setSubmittedValues] = useState<typeof form.values | null>(null);
+
+  return (
+    <form onSubmit={form.onSubmit(setSubmittedValues)}>
+      <NativeSelect
+        label="Country"
+        data={['US', 'GB', ...EU_COUNTRIES]}
+        key={form.key('country')}
+        {...form.getInputProps('country')}
+      />
+
+      <Checkbox
+        mt="md"
+        label="I represent a company"
+        key={form.key('isCompany')}
+        {...form.getInputProps('isCompany', { type: 'checkbox' })}
+      />
+
+      {form.isFieldVisible('company') && (
+        <TextInput
+          mt="md"
+          label="Company name"
+          withAsterisk={form.isFieldRequired('company')}
+          key={form.key('company')}
+          {...form.getInputProps('company')}
+        />
+      )}
+
+      {form.isFieldVisible('vatNumber') && (
+        <TextInput
+          mt="md"
+          label="VAT number"
+          placeholder="DE123456789"
+          withAsterisk={form.isFieldRequired('vatNumber')}
+          key={form.key('vatNumber')}
+          {...form.getInputProps('vatNumber')}
+        />
+      )}
+
+      <Group justify="flex-end" mt="md">
+        <Button type="submit">Submit</Button>
+      </Group>
+
+      {submittedValues && (
+        <Code block mt="md">
+          {JSON.stringify(submittedValues, null, 2)}
+        </Code>
+      )}
+    </form>
+  );
+}
+`;
+
+const EU_COUNTRIES = ['DE', 'FR', 'IT', 'ES'];
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { country: 'US', vatNumber: '', company: '', isCompany: false },
+    validate: {
+      vatNumber: matches(/^[A-Z]{2}[0-9]+$/, 'Invalid VAT number'),
+    },
+    dependencies: {
+      vatNumber: {
+        dependsOn: ['country', 'isCompany'],
+        visible: (values) => values.isCompany && EU_COUNTRIES.includes(values.country),
+        required: () => true,
+        requiredError: 'VAT number is required for EU companies',
+      },
+      company: {
+        dependsOn: ['isCompany'],
+        visible: (values) => values.isCompany,
+        required: () => true,
+        requiredError: 'Company name is required',
+      },
+    },
+    omitHiddenFields: true,
+  });
+
+  const [submittedValues, setSubmittedValues] = useState<typeof form.values | null>(null);
+
+  return (
+    <form onSubmit={form.onSubmit(setSubmittedValues)}>
+      <NativeSelect
+        label="Country"
+        data={['US', 'GB', ...EU_COUNTRIES]}
+        key={form.key('country')}
+        {...form.getInputProps('country')}
+      />
+
+      <Checkbox
+        mt="md"
+        label="I represent a company"
+        key={form.key('isCompany')}
+        {...form.getInputProps('isCompany', { type: 'checkbox' })}
+      />
+
+      {form.isFieldVisible('company') && (
+        <TextInput
+          mt="md"
+          label="Company name"
+          withAsterisk={form.isFieldRequired('company')}
+          key={form.key('company')}
+          {...form.getInputProps('company')}
+        />
+      )}
+
+      {form.isFieldVisible('vatNumber') && (
+        <TextInput
+          mt="md"
+          label="VAT number"
+          placeholder="DE123456789"
+          withAsterisk={form.isFieldRequired('vatNumber')}
+          key={form.key('vatNumber')}
+          {...form.getInputProps('vatNumber')}
+        />
+      )}
+
+      <Group justify="flex-end" mt="md">
+        <Button type="submit">Submit</Button>
+      </Group>
+
+      {submittedValues && (
+        <Code block mt="md">
+          {JSON.stringify(submittedValues, null, 2)}
+        </Code>
+      )}
+    </form>
+  );
+}
+
+export const conditionalFields: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 340,
+};
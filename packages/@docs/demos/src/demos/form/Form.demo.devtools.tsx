@@ -0,0 +1,90 @@
+import { Button, Group, Paper, SimpleGrid, TextInput } from '@mantine/core';
+import { FormDevtools, isEmail, isNotEmpty, useForm } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { Button, Group, Paper, SimpleGrid, TextInput } from '@mantine/core';
+import { FormDevtools, isEmail, isNotEmpty, useForm } from '@mantine/form';
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { name: '', email: '' },
+    validate: {
+      name: isNotEmpty('Name is required'),
+      email: isEmail('Invalid email'),
+    },
+  });
+
+  return (
+    <SimpleGrid cols={{ base: 1, sm: 2 }}>
+      <form onSubmit={form.onSubmit(() => {})}>
+        <TextInput
+          label="Name"
+          placeholder="Name"
+          key={form.key('name')}
+          {...form.getInputProps('name')}
+        />
+        <TextInput
+          mt="md"
+          label="Email"
+          placeholder="Email"
+          key={form.key('email')}
+          {...form.getInputProps('email')}
+        />
+        <Group justify="flex-end" mt="md">
+          <Button type="submit">Submit</Button>
+        </Group>
+      </form>
+
+      <Paper withBorder p="xs" mah={500} style={{ overflow: 'auto' }}>
+        <FormDevtools form={form} />
+      </Paper>
+    </SimpleGrid>
+  );
+}
+`;
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { name: '', email: '' },
+    validate: {
+      name: isNotEmpty('Name is required'),
+      email: isEmail('Invalid email'),
+    },
+  });
+
+  return (
+    <SimpleGrid cols={{ base: 1, sm: 2 }}>
+      <form onSubmit={form.onSubmit(() => {})}>
+        <TextInput
+          label="Name"
+          placeholder="Name"
+          key={form.key('name')}
+          {...form.getInputProps('name')}
+        />
+        <TextInput
+          mt="md"
+          label="Email"
+          placeholder="Email"
+          key={form.key('email')}
+          {...form.getInputProps('email')}
+        />
+        <Group justify="flex-end" mt="md">
+          <Button type="submit">Submit</Button>
+        </Group>
+      </form>
+
+      <Paper withBorder p="xs" mah={500} style={{ overflow: 'auto' }}>
+        <FormDevtools form={form} />
+      </Paper>
+    </SimpleGrid>
+  );
+}
+
+export const devtools: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+};
@@ -0,0 +1,132 @@
+import { useRef } from 'react';
+import { Box, Text, TextInput } from '@mantine/core';
+import { useForm, UseFormReturnType, useFormSelector } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { useRef } from 'react';
+import { Box, Text, TextInput } from '@mantine/core';
+import { useForm, UseFormReturnType, useFormSelector } from '@mantine/form';
+
+interface FormValues {
+  name: string;
+  email: string;
+}
+
+function NamePreview({ form }: { form: UseFormReturnType<FormValues> }) {
+  const renders = useRef(0);
+  const name = useFormSelector(form, (state) => state.values.name);
+  renders.current += 1;
+
+  return (
+    <Text size="sm">
+      Name: {name || '–'} (renders: {renders.current})
+    </Text>
+  );
+}
+
+function EmailPreview({ form }: { form: UseFormReturnType<FormValues> }) {
+  const renders = useRef(0);
+  const email = useFormSelector(form, (state) => state.values.email);
+  renders.current += 1;
+
+  return (
+    <Text size="sm">
+      Email: {email || '–'} (renders: {renders.current})
+    </Text>
+  );
+}
+
+function Demo() {
+  const form = useForm<FormValues>({
+    mode: 'uncontrolled',
+    initialValues: { name: '', email: '' },
+  });
+
+  return (
+    <Box maw={340} mx="auto">
+      <TextInput
+        label="Name"
+        placeholder="Name"
+        key={form.key('name')}
+        {...form.getInputProps('name')}
+      />
+      <TextInput
+        mt="md"
+        label="Email"
+        placeholder="Email"
+        key={form.key('email')}
+        {...form.getInputProps('email')}
+      />
+      <Box mt="md">
+        <NamePreview form={form} />
+        <EmailPreview form={form} />
+      </Box>
+    </Box>
+  );
+}
+`;
+
+interface FormValues {
+  name: string;
+  email: string;
+}
+
+function NamePreview({ form }: { form: UseFormReturnType<FormValues> }) {
+  const renders = useRef(0);
+  const name = useFormSelector(form, (state) => state.values.name);
+  renders.current += 1;
+
+  return (
+    <Text size="sm">
+      Name: {name || '–'} (renders: {renders.current})
+    </Text>
+  );
+}
+
+function EmailPreview({ form }: { form: UseFormReturnType<FormValues> }) {
+  const renders = useRef(0);
+  const email = useFormSelector(form, (state) => state.values.email);
+  renders.current += 1;
+
+  return (
+    <Text size="sm">
+      Email: {email || '–'} (renders: {renders.current})
+    </Text>
+  );
+}
+
+function Demo() {
+  const form = useForm<FormValues>({
+    mode: 'uncontrolled',
+    initialValues: { name: '', email: '' },
+  });
+
+  return (
+    <Box maw={340} mx="auto">
+      <TextInput
+        label="Name"
+        placeholder="Name"
+        key={form.key('name')}
+        {...form.getInputProps('name')}
+      />
+      <TextInput
+        mt="md"
+        label="Email"
+        placeholder="Email"
+        key={form.key('email')}
+        {...form.getInputProps('email')}
+      />
+      <Box mt="md">
+        <NamePreview form={form} />
+        <EmailPreview form={form} />
+      </Box>
+    </Box>
+  );
+}
+
+export const formSelector: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+};
@@ -0,0 +1,90 @@
+import { Button, Group, Textarea, TextInput } from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { Button, Group, Textarea, TextInput } from '@mantine/core';
+import { useForm } from '@mantine/form';
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { title: '', content: '' },
+    history: { maxDepth: 50 },
+  });
+
+  return (
+    <>
+      <TextInput
+        label="Title"
+        placeholder="Document title"
+        key={form.key('title')}
+        {...form.getInputProps('title')}
+      />
+      <Textarea
+        mt="md"
+        label="Content"
+        placeholder="Document content"
+        autosize
+        minRows={3}
+        key={form.key('content')}
+        {...form.getInputProps('content')}
+      />
+
+      <Group justify="flex-end" mt="md">
+        <Button variant="default" onClick={form.undo} disabled={!form.canUndo}>
+          Undo
+        </Button>
+        <Button variant="default" onClick={form.redo} disabled={!form.canRedo}>
+          Redo
+        </Button>
+      </Group>
+    </>
+  );
+}
+`;
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { title: '', content: '' },
+    history: { maxDepth: 50 },
+  });
+
+  return (
+    <>
+      <TextInput
+        label="Title"
+        placeholder="Document title"
+        key={form.key('title')}
+        {...form.getInputProps('title')}
+      />
+      <Textarea
+        mt="md"
+        label="Content"
+        placeholder="Document content"
+        autosize
+        minRows={3}
+        key={form.key('content')}
+        {...form.getInputProps('content')}
+      />
+
+      <Group justify="flex-end" mt="md">
+        <Button variant="default" onClick={form.undo} disabled={!form.canUndo}>
+          Undo
+        </Button>
+        <Button variant="default" onClick={form.redo} disabled={!form.canRedo}>
+          Redo
+        </Button>
+      </Group>
+    </>
+  );
+}
+
+export const history: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 340,
+};
@@ -0,0 +1,126 @@
+import { IconArrowDown, IconArrowUp, IconCopy, IconTrash } from '@tabler/icons-react';
+import { ActionIcon, Box, Button, Group, TextInput } from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { IconArrowDown, IconArrowUp, IconCopy, IconTrash } from '@tabler/icons-react';
+import { ActionIcon, Box, Button, Group, TextInput } from '@mantine/core';
+import { useForm } from '@mantine/form';
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: {
+      employees: [{ name: 'John Doe' }, { name: 'Jane Doe' }],
+    },
+  });
+
+  const employees = form.getValues().employees;
+
+  const fields = employees.map((_, index) => (
+    <Group key={form.getListItemKey('employees', index)} mt="xs" gap="xs">
+      <TextInput
+        placeholder="Employee name"
+        style={{ flex: 1 }}
+        key={form.key(\`employees.\${index}.name\`)}
+        {...form.getInputProps(\`employees.\${index}.name\`)}
+      />
+      <ActionIcon
+        variant="default"
+        disabled={index === 0}
+        onClick={() => form.swapListItems('employees', { from: index, to: index - 1 })}
+      >
+        <IconArrowUp size={16} />
+      </ActionIcon>
+      <ActionIcon
+        variant="default"
+        disabled={index === employees.length - 1}
+        onClick={() => form.swapListItems('employees', { from: index, to: index + 1 })}
+      >
+        <IconArrowDown size={16} />
+      </ActionIcon>
+      <ActionIcon variant="default" onClick={() => form.duplicateListItem('employees', index)}>
+        <IconCopy size={16} />
+      </ActionIcon>
+      <ActionIcon color="red" onClick={() => form.removeListItem('employees', index)}>
+        <IconTrash size={16} />
+      </ActionIcon>
+    </Group>
+  ));
+
+  return (
+    <Box maw={500} mx="auto">
+      {fields}
+
+      <Group justify="center" mt="md">
+        <Button
+          onClick={() => form.appendListItems('employees', [{ name: '' }, { name: '' }])}
+        >
+          Add two employees
+        </Button>
+      </Group>
+    </Box>
+  );
+}
+`;
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: {
+      employees: [{ name: 'John Doe' }, { name: 'Jane Doe' }],
+    },
+  });
+
+  const employees = form.getValues().employees;
+
+  const fields = employees.map((_, index) => (
+    <Group key={form.getListItemKey('employees', index)} mt="xs" gap="xs">
+      <TextInput
+        placeholder="Employee name"
+        style={{ flex: 1 }}
+        key={form.key(`employees.${index}.name`)}
+        {...form.getInputProps(`employees.${index}.name`)}
+      />
+      <ActionIcon
+        variant="default"
+        disabled={index === 0}
+        onClick={() => form.swapListItems('employees', { from: index, to: index - 1 })}
+      >
+        <IconArrowUp size={16} />
+      </ActionIcon>
+      <ActionIcon
+        variant="default"
+        disabled={index === employees.length - 1}
+        onClick={() => form.swapListItems('employees', { from: index, to: index + 1 })}
+      >
+        <IconArrowDown size={16} />
+      </ActionIcon>
+      <ActionIcon variant="default" onClick={() => form.duplicateListItem('employees', index)}>
+        <IconCopy size={16} />
+      </ActionIcon>
+      <ActionIcon color="red" onClick={() => form.removeListItem('employees', index)}>
+        <IconTrash size={16} />
+      </ActionIcon>
+    </Group>
+  ));
+
+  return (
+    <Box maw={500} mx="auto">
+      {fields}
+
+      <Group justify="center" mt="md">
+        <Button onClick={() => form.appendListItems('employees', [{ name: '' }, { name: '' }])}>
+          Add two employees
+        </Button>
+      </Group>
+    </Box>
+  );
+}
+
+export const listKeys: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+};
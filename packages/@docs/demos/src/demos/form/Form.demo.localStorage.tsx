@@ -1,35 +1,21 @@
-import { useEffect } from 'react';
-import { Box, TextInput } from '@mantine/core';
+import { Box, Button, Group, TextInput } from '@mantine/core';
 import { useForm } from '@mantine/form';
 import { MantineDemo } from '@mantinex/demo';
 
 const code = `
-import { useEffect } from 'react';
 import { useForm } from '@mantine/form';
-import { TextInput, Box } from '@mantine/core';
+import { Box, Button, Group, TextInput } from '@mantine/core';
 
 function Demo() {
   const form = useForm({
+    name: 'user-form',
     mode: 'uncontrolled',
     initialValues: { name: '', occupation: '' },
-    onValuesChange: (values) => {
-      window.localStorage.setItem('user-form', JSON.stringify(values));
-    },
+    persist: true,
   });
 
-  useEffect(() => {
-    const storedValue = window.localStorage.getItem('user-form');
-    if (storedValue) {
-      try {
-        form.setValues(JSON.parse(window.localStorage.getItem('user-form')!));
-      } catch (e) {
-        console.log('Failed to parse stored value');
-      }
-    }
-  }, []);
-
   return (
-    <Box maw={340} mx="auto">
+    <Box maw={340} mx="auto" component="form" onSubmit={form.onSubmit(() => {})}>
       <TextInput
         label="Name"
         placeholder="Name"
@@ -43,6 +29,13 @@ function Demo() {
         key={form.key('occupation')}
         {...form.getInputProps('occupation')}
       />
+
+      <Group justify="flex-end" mt="md">
+        <Button variant="default" onClick={form.reset}>
+          Reset
+        </Button>
+        <Button type="submit">Submit</Button>
+      </Group>
     </Box>
   );
 }
@@ -50,27 +43,14 @@ function Demo() {
 
 function Demo() {
   const form = useForm({
+    name: 'user-form',
     mode: 'uncontrolled',
     initialValues: { name: '', occupation: '' },
-    onValuesChange: (values) => {
-      window.localStorage.setItem('user-form', JSON.stringify(values));
-    },
+    persist: true,
   });
 
-  useEffect(() => {
-    const storedValue = window.localStorage.getItem('user-form');
-    if (storedValue) {
-      try {
-        form.setValues(JSON.parse(window.localStorage.getItem('user-form')!));
-      } catch (e) {
-        // eslint-disable-next-line no-console
-        console.log('Failed to parse stored value');
-      }
-    }
-  }, []);
-
   return (
-    <Box maw={340} mx="auto">
+    <Box maw={340} mx="auto" component="form" onSubmit={form.onSubmit(() => {})}>
       <TextInput
         label="Name"
         placeholder="Name"
@@ -84,6 +64,13 @@ function Demo() {
         key={form.key('occupation')}
         {...form.getInputProps('occupation')}
       />
+
+      <Group justify="flex-end" mt="md">
+        <Button variant="default" onClick={form.reset}>
+          Reset
+        </Button>
+        <Button type="submit">Submit</Button>
+      </Group>
     </Box>
   );
 }
@@ -0,0 +1,81 @@
+/* eslint-disable no-console */
+import { Button, Group } from '@mantine/core';
+import { JsonSchema } from '@mantine/form';
+import { SchemaForm } from '@mantine/form/schema-form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { Button, Group } from '@mantine/core';
+import { JsonSchema } from '@mantine/form';
+import { SchemaForm } from '@mantine/form/schema-form';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'email', 'plan'],
+  properties: {
+    name: { type: 'string', title: 'Full name', minLength: 2 },
+    email: { type: 'string', format: 'email' },
+    seats: { type: 'integer', minimum: 1, maximum: 50, default: 1 },
+    plan: { type: 'string', enum: ['Free', 'Pro', 'Enterprise'] },
+    newsletter: { type: 'boolean', title: 'Subscribe to newsletter' },
+    company: {
+      type: 'object',
+      title: 'Company',
+      properties: {
+        name: { type: 'string' },
+        website: { type: 'string', format: 'uri' },
+      },
+    },
+    tags: { type: 'array', maxItems: 3, items: { type: 'string' } },
+  },
+};
+
+function Demo() {
+  return (
+    <SchemaForm schema={schema} onSubmit={console.log}>
+      <Group justify="flex-end">
+        <Button type="submit">Submit</Button>
+      </Group>
+    </SchemaForm>
+  );
+}
+`;
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'email', 'plan'],
+  properties: {
+    name: { type: 'string', title: 'Full name', minLength: 2 },
+    email: { type: 'string', format: 'email' },
+    seats: { type: 'integer', minimum: 1, maximum: 50, default: 1 },
+    plan: { type: 'string', enum: ['Free', 'Pro', 'Enterprise'] },
+    newsletter: { type: 'boolean', title: 'Subscribe to newsletter' },
+    company: {
+      type: 'object',
+      title: 'Company',
+      properties: {
+        name: { type: 'string' },
+        website: { type: 'string', format: 'uri' },
+      },
+    },
+    tags: { type: 'array', maxItems: 3, items: { type: 'string' } },
+  },
+};
+
+function Demo() {
+  return (
+    <SchemaForm schema={schema} onSubmit={console.log}>
+      <Group justify="flex-end">
+        <Button type="submit">Submit</Button>
+      </Group>
+    </SchemaForm>
+  );
+}
+
+export const schemaForm: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  maxWidth: 400,
+  centered: true,
+};
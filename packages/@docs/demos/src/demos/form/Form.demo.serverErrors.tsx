@@ -0,0 +1,160 @@
+import { Button, Group, Text, TextInput } from '@mantine/core';
+import { serverErrors, useForm } from '@mantine/form';
+import { MantineDemo } from '@mantinex/demo';
+
+const code = `
+import { Button, Group, Text, TextInput } from '@mantine/core';
+import { serverErrors, useForm } from '@mantine/form';
+
+// Emulates server response with RFC 7807 problem details
+function signUp(values: { username: string; email: string }) {
+  return new Promise<{ ok: boolean; body?: unknown }>((resolve) => {
+    setTimeout(() => {
+      if (values.username === 'mantine') {
+        resolve({
+          ok: false,
+          body: {
+            title: 'Validation failed',
+            detail: 'Account cannot be created',
+            status: 422,
+            'invalid-params': [{ name: 'username', reason: 'Username is already taken' }],
+          },
+        });
+      } else {
+        resolve({ ok: true });
+      }
+    }, 1000);
+  });
+}
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { username: 'mantine', email: 'user@mantine.dev' },
+  });
+
+  const handleSubmit = async (values: typeof form.values) => {
+    const response = await signUp(values);
+
+    if (!response.ok) {
+      // Maps field errors and form-level error returned by the server
+      return serverErrors(response.body);
+    }
+
+    return undefined;
+  };
+
+  return (
+    <form onSubmit={form.onSubmit(handleSubmit)}>
+      <TextInput
+        label="Username"
+        placeholder="Username"
+        key={form.key('username')}
+        {...form.getInputProps('username')}
+      />
+      <TextInput
+        mt="md"
+        label="Email"
+        placeholder="Email"
+        key={form.key('email')}
+        {...form.getInputProps('email')}
+      />
+
+      {form.rootError && (
+        <Text c="red" size="sm" mt="md">
+          {form.rootError}
+        </Text>
+      )}
+
+      <Group justify="space-between" mt="md">
+        <Text size="sm" c="dimmed">
+          Submit count: {form.submitCount}
+        </Text>
+        <Button type="submit" loading={form.submitting}>
+          Submit
+        </Button>
+      </Group>
+    </form>
+  );
+}
+`;
+
+// Emulates server response with RFC 7807 problem details
+function signUp(values: { username: string; email: string }) {
+  return new Promise<{ ok: boolean; body?: unknown }>((resolve) => {
+    setTimeout(() => {
+      if (values.username === 'mantine') {
+        resolve({
+          ok: false,
+          body: {
+            title: 'Validation failed',
+            detail: 'Account cannot be created',
+            status: 422,
+            'invalid-params': [{ name: 'username', reason: 'Username is already taken' }],
+          },
+        });
+      } else {
+        resolve({ ok: true });
+      }
+    }, 1000);
+  });
+}
+
+function Demo() {
+  const form = useForm({
+    mode: 'uncontrolled',
+    initialValues: { username: 'mantine', email: 'user@mantine.dev' },
+  });
+
+  const handleSubmit = async (values: typeof form.values) => {
+    const response = await signUp(values);
+
+    if (!response.ok) {
+      // Maps field errors and form-level error returned by the server
+      return serverErrors(response.body);
+    }
+
+    return undefined;
+  };
+
+  return (
+    <form onSubmit={form.onSubmit(handleSubmit)}>
+      <TextInput
+        label="Username"
+        placeholder="Username"
+        key={form.key('username')}
+        {...form.getInputProps('username')}
+      />
+      <TextInput
+        mt="md"
+        label="Email"
+        placeholder="Email"
+        key={form.key('email')}
+        {...form.getInputProps('email')}
+      />
+
+      {form.rootError && (
+        <Text c="red" size="sm" mt="md">
+          {form.rootError}
+        </Text>
+      )}
+
+      <Group justify="space-between" mt="md">
+        <Text size="sm" c="dimmed">
+          Submit count: {form.submitCount}
+        </Text>
+        <Button type="submit" loading={form.submitting}>
+          Submit
+        </Button>
+      </Group>
+    </form>
+  );
+}
+
+export const _serverErrors: MantineDemo = {
+  type: 'code',
+  component: Demo,
+  code,
+  centered: true,
+  maxWidth: 340,
+};
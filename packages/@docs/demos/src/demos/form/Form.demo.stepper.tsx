@@ -1,16 +1,12 @@
-import { useState } from 'react';
 import { Button, Code, Group, PasswordInput, Stepper, TextInput } from '@mantine/core';
 import { useForm } from '@mantine/form';
 import { MantineDemo } from '@mantinex/demo';
 
 const code = `
-import { useState } from 'react';
 import { Stepper, Button, Group, TextInput, PasswordInput, Code } from '@mantine/core';
 import { useForm } from '@mantine/form';
 
 function Demo() {
-  const [active, setActive] = useState(0);
-
   const form = useForm({
     mode: 'uncontrolled',
     initialValues: {
@@ -22,43 +18,24 @@ function Demo() {
       github: '',
     },
 
-    validate: (values) => {
-      if (active === 0) {
-        return {
-          username:
-            values.username.trim().length < 6
-              ? 'Username must include at least 6 characters'
-              : null,
-          password:
-            values.password.length < 6 ? 'Password must include at least 6 characters' : null,
-        };
-      }
-
-      if (active === 1) {
-        return {
-          name: values.name.trim().length < 2 ? 'Name must include at least 2 characters' : null,
-          email: /^\\S+@\\S+$/.test(values.email) ? null : 'Invalid email',
-        };
-      }
-
-      return {};
+    // Each step lists paths of fields that are validated before moving to the next step
+    steps: [{ fields: ['username', 'password'] }, { fields: ['name', 'email'] }, { fields: [] }],
+
+    validate: {
+      username: (value) =>
+        value.trim().length < 6 ? 'Username must include at least 6 characters' : null,
+      password: (value) => (value.length < 6 ? 'Password must include at least 6 characters' : null),
+      name: (value) => (value.trim().length < 2 ? 'Name must include at least 2 characters' : null),
+      email: (value) => (/^\\S+@\\S+$/.test(value) ? null : 'Invalid email'),
     },
   });
 
-  const nextStep = () =>
-    setActive((current) => {
-      if (form.validate().hasErrors) {
-        return current;
-      }
-      return current < 3 ? current + 1 : current;
-    });
-
-  const prevStep = () => setActive((current) => (current > 0 ? current - 1 : current));
+  const stepColor = (step: number) => (form.getStepStatus(step).hasErrors ? 'red' : undefined);
 
   return (
     <>
-      <Stepper active={active}>
-        <Stepper.Step label="First step" description="Profile settings">
+      <Stepper active={form.activeStep} onStepClick={form.goToStep}>
+        <Stepper.Step label="First step" description="Profile settings" color={stepColor(0)}>
           <TextInput
             label="Username"
             placeholder="Username"
@@ -74,7 +51,7 @@ function Demo() {
           />
         </Stepper.Step>
 
-        <Stepper.Step label="Second step" description="Personal information">
+        <Stepper.Step label="Second step" description="Personal information" color={stepColor(1)}>
           <TextInput
             label="Name"
             placeholder="Name"
@@ -114,12 +91,12 @@ function Demo() {
       </Stepper>
 
       <Group justify="flex-end" mt="xl">
-        {active !== 0 && (
-          <Button variant="default" onClick={prevStep}>
+        {form.activeStep !== 0 && (
+          <Button variant="default" onClick={form.prevStep}>
             Back
           </Button>
         )}
-        {active !== 3 && <Button onClick={nextStep}>Next step</Button>}
+        {form.activeStep !== 3 && <Button onClick={form.nextStep}>Next step</Button>}
       </Group>
     </>
   );
@@ -127,8 +104,6 @@ function Demo() {
 `;
 
 function Demo() {
-  const [active, setActive] = useState(0);
-
   const form = useForm({
     mode: 'uncontrolled',
     initialValues: {
@@ -140,43 +115,25 @@ function Demo() {
       github: '',
     },
 
-    validate: (values) => {
-      if (active === 0) {
-        return {
-          username:
-            values.username.trim().length < 6
-              ? 'Username must include at least 6 characters'
-              : null,
-          password:
-            values.password.length < 6 ? 'Password must include at least 6 characters' : null,
-        };
-      }
-
-      if (active === 1) {
-        return {
-          name: values.name.trim().length < 2 ? 'Name must include at least 2 characters' : null,
-          email: /^\S+@\S+$/.test(values.email) ? null : 'Invalid email',
-        };
-      }
-
-      return {};
+    // Each step lists paths of fields that are validated before moving to the next step
+    steps: [{ fields: ['username', 'password'] }, { fields: ['name', 'email'] }, { fields: [] }],
+
+    validate: {
+      username: (value) =>
+        value.trim().length < 6 ? 'Username must include at least 6 characters' : null,
+      password: (value) =>
+        value.length < 6 ? 'Password must include at least 6 characters' : null,
+      name: (value) => (value.trim().length < 2 ? 'Name must include at least 2 characters' : null),
+      email: (value) => (/^\S+@\S+$/.test(value) ? null : 'Invalid email'),
     },
   });
 
-  const nextStep = () =>
-    setActive((current) => {
-      if (form.validate().hasErrors) {
-        return current;
-      }
-      return current < 3 ? current + 1 : current;
-    });
-
-  const prevStep = () => setActive((current) => (current > 0 ? current - 1 : current));
+  const stepColor = (step: number) => (form.getStepStatus(step).hasErrors ? 'red' : undefined);
 
   return (
     <>
-      <Stepper active={active}>
-        <Stepper.Step label="First step" description="Profile settings">
+      <Stepper active={form.activeStep} onStepClick={form.goToStep}>
+        <Stepper.Step label="First step" description="Profile settings" color={stepColor(0)}>
           <TextInput
             label="Username"
             placeholder="Username"
@@ -192,7 +149,7 @@ function Demo() {
           />
         </Stepper.Step>
 
-        <Stepper.Step label="Second step" description="Personal information">
+        <Stepper.Step label="Second step" description="Personal information" color={stepColor(1)}>
           <TextInput
             label="Name"
             placeholder="Name"
@@ -232,12 +189,12 @@ function Demo() {
       </Stepper>
 
       <Group justify="flex-end" mt="xl">
-        {active !== 0 && (
-          <Button variant="default" onClick={prevStep}>
+        {form.activeStep !== 0 && (
+          <Button variant="default" onClick={form.prevStep}>
             Back
           </Button>
         )}
-        {active !== 3 && <Button onClick={nextStep}>Next step</Button>}
+        {form.activeStep !== 3 && <Button onClick={form.nextStep}>Next step</Button>}
       </Group>
     </>
   );
@@ -182,3 +182,43 @@ export const Demo_cascadeUpdates = {
   name: '⭐ Demo: cascadeUpdates',
   render: renderDemo(demos.cascadeUpdates),
 };
+
+export const Demo_asyncValidation = {
+  name: '⭐ Demo: asyncValidation',
+  render: renderDemo(demos.asyncValidation),
+};
+
+export const Demo_history = {
+  name: '⭐ Demo: history',
+  render: renderDemo(demos.history),
+};
+
+export const Demo_serverErrors = {
+  name: '⭐ Demo: serverErrors',
+  render: renderDemo(demos.serverErrors),
+};
+
+export const Demo_listKeys = {
+  name: '⭐ Demo: listKeys',
+  render: renderDemo(demos.listKeys),
+};
+
+export const Demo_conditionalFields = {
+  name: '⭐ Demo: conditionalFields',
+  render: renderDemo(demos.conditionalFields),
+};
+
+export const Demo_devtools = {
+  name: '⭐ Demo: devtools',
+  render: renderDemo(demos.devtools),
+};
+
+export const Demo_formSelector = {
+  name: '⭐ Demo: formSelector',
+  render: renderDemo(demos.formSelector),
+};
+
+export const Demo_schemaForm = {
+  name: '⭐ Demo: schemaForm',
+  render: renderDemo(demos.schemaForm),
+};
@@ -34,3 +34,11 @@ export { submitting } from './Form.demo.submitting';
 export { rootRuleObject } from './Form.demo.rootRuleObject';
 export { rootRuleArray } from './Form.demo.rootRuleArray';
 export { cascadeUpdates } from './Form.demo.cascadeUpdates';
+export { asyncValidation } from './Form.demo.asyncValidation';
+export { history } from './Form.demo.history';
+export { _serverErrors as serverErrors } from './Form.demo.serverErrors';
+export { listKeys } from './Form.demo.listKeys';
+export { conditionalFields } from './Form.demo.conditionalFields';
+export { devtools } from './Form.demo.devtools';
+export { formSelector } from './Form.demo.formSelector';
+export { schemaForm } from './Form.demo.schemaForm';
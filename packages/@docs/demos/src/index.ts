@@ -110,6 +110,7 @@ export * as FloatingIndicatorDemos from './demos/core/FloatingIndicator';
 export * as TreeDemos from './demos/core/Tree';
 export * as AngleSliderDemos from './demos/core/AngleSlider';
 export * as RangeSliderDemos from './demos/core/RangeSlider';
+export * as MultiRangeSliderDemos from './demos/core/MultiRangeSlider';
 
 // @mantine/dates
 export * as YearPickerDemos from './demos/dates/YearPicker';
@@ -118,6 +119,7 @@ export * as MonthPickerDemos from './demos/dates/MonthPicker';
 export * as MonthPickerInputDemos from './demos/dates/MonthPickerInput';
 export * as DatePickerDemos from './demos/dates/DatePicker';
 export * as DatePickerInputDemos from './demos/dates/DatePickerInput';
+export * as DateRangePickerDemos from './demos/dates/DateRangePicker';
 export * as TimeInputDemos from './demos/dates/TimeInput';
 export * as DatesProviderDemos from './demos/dates/DatesProvider';
 export * as DateTimePickerDemos from './demos/dates/DateTimePicker';
@@ -127,6 +129,8 @@ export * as TimePickerDemos from './demos/dates/TimePicker';
 export * as TimeValueDemos from './demos/dates/TimeValue';
 export * as TimeGridDemos from './demos/dates/TimeGrid';
 export * as MiniCalendarDemos from './demos/dates/MiniCalendar';
+export * as SchedulerDemos from './demos/dates/Scheduler';
+export * as RecurrenceInputDemos from './demos/dates/RecurrenceInput';
 
 // @mantine/charts
 export * as AreaChartDemos from './demos/charts/AreaChart';
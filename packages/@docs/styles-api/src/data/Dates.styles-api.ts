@@ -4,6 +4,7 @@ import type {
   DateInputFactory,
   DatePickerFactory,
   DatePickerInputFactory,
+  DateRangePickerFactory,
   DateTimePickerFactory,
   DecadeLevelGroupFactory,
   MonthFactory,
@@ -185,6 +186,54 @@ export const DatePickerStylesApi: StylesApiData<DatePickerFactory> = {
   modifiers: [...CalendarHeaderStylesApi.modifiers!, ...MonthStylesApi.modifiers!],
 };
 
+export const DateRangePickerStylesApi: StylesApiData<DateRangePickerFactory> = {
+  selectors: {
+    ...CalendarHeaderStylesApi.selectors,
+    ...DecadeLevelGroupStylesApi.selectors,
+    ...YearLevelGroupStylesApi.selectors,
+    ...MonthLevelGroupStylesApi.selectors,
+    root: 'Root element, contains presets, inputs and calendar',
+    presetsList: 'Presets wrapper element',
+    presetButton: 'Preset button',
+    body: 'Wrapper of inputs, calendar and compare checkbox',
+    inputs: 'Wrapper of start and end date inputs',
+    startInput: 'Start date input',
+    endInput: 'End date input',
+    compareCheckbox: '"Compare to previous period" checkbox',
+    compareDay: 'Day in the previous period',
+  },
+
+  vars: {
+    root: {
+      '--preset-font-size': 'Controls `font-size` of presets',
+      '--date-range-picker-compare-color': 'Controls border color of previous period days',
+      '--date-range-picker-compare-bg': 'Controls background of previous period days',
+    },
+  },
+
+  modifiers: [
+    ...CalendarHeaderStylesApi.modifiers!,
+    ...MonthStylesApi.modifiers!,
+    { modifier: 'data-active', selector: 'presetButton', condition: 'Preset value is selected' },
+    {
+      modifier: 'data-preview',
+      selector: 'day',
+      condition: 'Day is in the range of the hovered or focused preset',
+    },
+    { modifier: 'data-compare', selector: 'day', condition: 'Day is in the previous period' },
+    {
+      modifier: 'data-compare-first',
+      selector: 'day',
+      condition: 'Day is the first day of the previous period',
+    },
+    {
+      modifier: 'data-compare-last',
+      selector: 'day',
+      condition: 'Day is the last day of the previous period',
+    },
+  ],
+};
+
 export const YearPickerInputStylesApi: StylesApiData<YearPickerInputFactory> = {
   selectors: {
     ...InputBaseStylesApi.selectors,
@@ -214,6 +263,9 @@ export const DatePickerInputStylesApi: StylesApiData<DatePickerInputFactory> = {
     ...InputBaseStylesApi.selectors,
     ...DatePickerStylesApi.selectors,
     placeholder: 'Placeholder element',
+    naturalDateInput:
+      'Natural language input in the dropdown, displayed when `naturalLanguage` prop is set',
+    naturalDatePreview: 'Button with resolved natural language value',
   },
 
   vars: {},
@@ -228,6 +280,8 @@ export const DateInputStylesApi: StylesApiData<DateInputFactory> = {
     ...DecadeLevelGroupStylesApi.selectors,
     ...YearLevelGroupStylesApi.selectors,
     ...MonthLevelGroupStylesApi.selectors,
+    naturalDatePreview:
+      'Button with resolved natural language value, displayed when `naturalLanguage` prop is set',
   },
 
   vars: {},
@@ -0,0 +1,30 @@
+import type { RecurrenceInputFactory } from '@mantine/dates';
+import type { StylesApiData } from '../types';
+
+export const RecurrenceInputStylesApi: StylesApiData<RecurrenceInputFactory> = {
+  selectors: {
+    root: 'Root element',
+    section: 'Wrapper of inputs displayed in one row',
+    startInput: 'Start date input',
+    intervalInput: 'Interval number input',
+    frequencySelect: 'Frequency select',
+    weekdays: 'Wrapper of weekday controls',
+    weekday: 'Weekday control, displayed for weekly frequency',
+    patternSelect: 'Select of monthly and yearly repeat pattern',
+    endsSelect: 'Select of the rule end type',
+    countInput: 'Number of occurrences input',
+    untilInput: 'End date input',
+    calendar: 'Calendar that displays occurrences',
+    excludedDay: 'Calendar day excluded from occurrences',
+  },
+
+  vars: {
+    root: {
+      '--recurrence-input-weekday-size': 'Controls `width` and `height` of weekday controls',
+    },
+  },
+
+  modifiers: [
+    { modifier: 'data-active', selector: 'weekday', condition: 'The weekday is selected' },
+  ],
+};
@@ -0,0 +1,95 @@
+import type { SchedulerFactory } from '@mantine/dates';
+import type { StylesApiData } from '../types';
+
+export const SchedulerStylesApi: StylesApiData<SchedulerFactory> = {
+  selectors: {
+    root: 'Root element',
+    header: 'Header with navigation and view controls',
+    headerControls: 'Wrapper of today, previous and next controls',
+    headerLabel: 'Label of the displayed period',
+    viewSwitch: 'Buttons group used to switch views',
+    monthView: 'Month view table element',
+    monthWeek: 'td element of a week in month view',
+    monthWeekDays: 'Grid of days and events of a week in month view',
+    monthDay: 'Day cell in month view',
+    monthDayNumber: 'Day number button in month view',
+    more: 'Button that displays the number of hidden events in month view',
+    weekdaysRow: 'Weekdays tr element in month view',
+    weekday: 'Weekday th element in month view',
+    timeView: 'Week and day views root element',
+    timeViewHeader: 'Header with days in week and day views',
+    timeViewDay: 'Day button in week and day views header',
+    allDayRow: 'Row with all-day and multi-day events in week and day views',
+    allDayLabel: 'Label of the all-day row',
+    allDayCell: 'Day cell of the all-day row',
+    timeGrid: 'Grid of time labels and days columns',
+    timeLabels: 'Time labels column',
+    timeLabel: 'Time label element',
+    dayColumn: 'Day column in week and day views',
+    slot: 'Time slot button',
+    nowIndicator: 'Line that indicates current time',
+    event: 'Event element',
+    eventTime: 'Event time element',
+    eventTitle: 'Event title element',
+    eventResizeHandle: 'Handle used to resize events',
+    agenda: 'Agenda view root element',
+    agendaDay: 'Day with events in agenda view',
+    agendaDayLabel: 'Day label in agenda view',
+    agendaEvent: 'Event row in agenda view',
+    agendaEventTime: 'Event time in agenda view',
+    agendaEmpty: 'Message displayed when there are no events in agenda view',
+  },
+
+  vars: {
+    root: {
+      '--scheduler-slot-height': 'Controls height of time slots',
+      '--scheduler-radius': 'Controls `border-radius` of events',
+    },
+  },
+
+  modifiers: [
+    { modifier: 'data-view', selector: 'root', value: '`month`, `week`, `day` or `agenda`' },
+    {
+      modifier: 'data-today',
+      selector: ['monthDay', 'timeViewDay', 'dayColumn', 'allDayCell', 'agendaDay'],
+      condition: 'The day is the current date',
+    },
+    {
+      modifier: 'data-outside',
+      selector: 'monthDay',
+      condition: 'The day is outside of the displayed month',
+    },
+    {
+      modifier: 'data-weekend',
+      selector: ['monthDay', 'timeViewDay'],
+      condition: 'The day is a weekend day',
+    },
+    {
+      modifier: 'data-drop-target',
+      selector: ['monthDay', 'allDayCell', 'slot'],
+      condition: 'Dragged event is over the element',
+    },
+    {
+      modifier: 'data-variant',
+      selector: 'event',
+      value: '`month`, `all-day`, `time` or `agenda`',
+    },
+    { modifier: 'data-all-day', selector: 'event', condition: 'Event is an all-day event' },
+    {
+      modifier: 'data-continues-before',
+      selector: 'event',
+      condition: 'Event starts before the displayed segment',
+    },
+    {
+      modifier: 'data-continues-after',
+      selector: 'event',
+      condition: 'Event ends after the displayed segment',
+    },
+    { modifier: 'data-dragging', selector: 'event', condition: 'Event is being dragged' },
+    {
+      modifier: 'data-direction',
+      selector: 'eventResizeHandle',
+      value: '`vertical` or `horizontal`',
+    },
+  ],
+};
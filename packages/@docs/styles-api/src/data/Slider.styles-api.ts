@@ -1,4 +1,4 @@
-import type { RangeSliderFactory, SliderFactory } from '@mantine/core';
+import type { MultiRangeSliderFactory, RangeSliderFactory, SliderFactory } from '@mantine/core';
 import type { StylesApiData } from '../types';
 
 export const SliderStylesApi: StylesApiData<SliderFactory> = {
@@ -24,6 +24,7 @@ export const SliderStylesApi: StylesApiData<SliderFactory> = {
   },
 
   modifiers: [
+    { modifier: 'data-orientation', selector: 'root', value: 'Value of `orientation` prop' },
     {
       modifier: 'data-disabled',
       selector: ['trackContainer', 'track', 'bar', 'thumb', 'mark'],
@@ -40,3 +41,5 @@ export const SliderStylesApi: StylesApiData<SliderFactory> = {
 };
 
 export const RangeSliderStylesApi: StylesApiData<RangeSliderFactory> = SliderStylesApi;
+
+export const MultiRangeSliderStylesApi: StylesApiData<MultiRangeSliderFactory> = SliderStylesApi;
@@ -11,6 +11,8 @@ export const TableStylesApi: StylesApiData<TableFactory> = {
     th: '`th` element (`Table.Th` component)',
     td: '`td` element (`Table.Td` component)',
     caption: '`caption` element (`Table.Caption` component)',
+    sortButton: 'Header button of sortable column, rendered with `data.columns`',
+    resizeHandle: 'Column resize handle, rendered with `data.columns`',
   },
 
   vars: {
@@ -51,11 +53,42 @@ export const TableStylesApi: StylesApiData<TableFactory> = {
       value: 'odd | even',
       condition: '`striped` prop is set on `Table` component',
     },
+    {
+      modifier: 'data-striped-row',
+      selector: 'tr',
+      condition: 'Row rendered by `Table.VirtualizedTbody` is striped',
+    },
+    {
+      modifier: 'data-selected',
+      selector: 'tr',
+      condition: 'Row is selected, `withRowSelection` prop is set on `Table` component',
+    },
     {
       modifier: 'data-hover',
       selector: 'tr',
       condition: '`highlightOnHover` prop is set on `Table` component',
     },
+    {
+      modifier: 'data-pinned',
+      selector: ['th', 'td'],
+      value: 'left | right',
+      condition: '`pinned` is set on the column in `data.columns`',
+    },
+    {
+      modifier: 'data-sortable',
+      selector: 'th',
+      condition: '`sortable` is set on the column in `data.columns`',
+    },
+    {
+      modifier: 'data-sorted',
+      selector: 'sortButton',
+      condition: 'Records are sorted by the column',
+    },
+    {
+      modifier: 'data-resizing',
+      selector: ['th', 'resizeHandle'],
+      condition: 'Column is being resized',
+    },
     {
       modifier: 'data-size',
       selector: 'tr',
@@ -19,5 +19,17 @@ export const TreeStylesApi: StylesApiData<TreeFactory> = {
     { modifier: 'data-selected', selector: ['node', 'label'], condition: 'The node is selected' },
     { modifier: 'data-hovered', selector: ['node', 'label'], condition: 'The node is hovered' },
     { modifier: 'data-level', selector: 'node', value: 'Nesting level of the node' },
+    {
+      modifier: 'data-drag-and-drop',
+      selector: 'root',
+      condition: '`allowDragAndDrop` prop is set',
+    },
+    { modifier: 'data-dragging', selector: 'label', condition: 'The node is being dragged' },
+    {
+      modifier: 'data-drop-position',
+      selector: 'label',
+      value:
+        'Position of the dragged node relative to the node under the pointer: before, after or inside',
+    },
   ],
 };
@@ -83,9 +83,11 @@ export * from './data/RadarChart.styles-api';
 export * from './data/RadialBarChart.styles-api';
 export * from './data/Radio.styles-api';
 export * from './data/Rating.styles-api';
+export * from './data/RecurrenceInput.styles-api';
 export * from './data/RichTextEditor.styles-api';
 export * from './data/RingProgress.styles-api';
 export * from './data/ScatterChart.styles-api';
+export * from './data/Scheduler.styles-api';
 export * from './data/ScrollArea.styles-api';
 export * from './data/SegmentedControl.styles-api';
 export * from './data/Select.styles-api';
@@ -0,0 +1,121 @@
+import { act } from 'react';
+import { render, screen, tests, userEvent } from '@mantine-tests/core';
+import { SliderStylesNames } from '../Slider.context';
+import { MultiRangeSlider, MultiRangeSliderProps } from './MultiRangeSlider';
+
+const defaultProps: MultiRangeSliderProps = {
+  marks: [{ value: 0, label: 'test-mark' }],
+  labelAlwaysOn: true,
+  labelTransitionProps: { duration: 0 },
+  defaultValue: [10, 50, 90],
+  thumbLabel: (index) => `test-label-${index}`,
+};
+
+const getInputs = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('input[type="hidden"]'));
+
+const pressKey = async (thumb: HTMLElement, key: string) => {
+  act(() => thumb.focus());
+  await userEvent.keyboard(key);
+};
+
+const expectInputValues = (values: number[], container: HTMLElement) =>
+  expect(getInputs(container).map((input) => (input as HTMLInputElement).value)).toStrictEqual(
+    values.map(String)
+  );
+
+describe('@mantine/core/MultiRangeSlider', () => {
+  tests.axe([<MultiRangeSlider {...defaultProps} key="1" />]);
+  tests.itSupportsSystemProps<MultiRangeSliderProps, SliderStylesNames>({
+    component: MultiRangeSlider,
+    props: defaultProps,
+    mod: true,
+    styleProps: true,
+    extend: true,
+    withProps: true,
+    variant: true,
+    size: true,
+    classes: true,
+    id: true,
+    refType: HTMLDivElement,
+    displayName: '@mantine/core/MultiRangeSlider',
+    stylesApiName: 'MultiRangeSlider',
+    stylesApiSelectors: [
+      'root',
+      'bar',
+      'label',
+      'mark',
+      'markLabel',
+      'markWrapper',
+      'thumb',
+      'track',
+      'trackContainer',
+    ],
+  });
+
+  it('renders thumb for each value', () => {
+    render(<MultiRangeSlider defaultValue={[10, 30, 60, 90]} />);
+    expect(screen.getAllByRole('slider')).toHaveLength(4);
+  });
+
+  it('provides name and value to hidden inputs', () => {
+    const { container } = render(<MultiRangeSlider name="test-input" value={[10, 20, 30]} />);
+    expectInputValues([10, 20, 30], container);
+    expect(getInputs(container).map((input) => input.getAttribute('name'))).toStrictEqual([
+      'test-input_0',
+      'test-input_1',
+      'test-input_2',
+    ]);
+  });
+
+  it('sets thumbs aria-label with thumbLabel function', () => {
+    render(<MultiRangeSlider {...defaultProps} />);
+    expect(screen.getByRole('slider', { name: 'test-label-1' })).toHaveAttribute(
+      'aria-valuenow',
+      '50'
+    );
+  });
+
+  it('changes focused thumb value with arrows', async () => {
+    const spy = jest.fn();
+    render(<MultiRangeSlider defaultValue={[10, 50, 90]} step={5} onChange={spy} />);
+    await pressKey(screen.getAllByRole('slider')[1], '{arrowright}');
+    expect(spy).toHaveBeenLastCalledWith([10, 55, 90]);
+    await pressKey(screen.getAllByRole('slider')[1], '{arrowdown}');
+    expect(spy).toHaveBeenLastCalledWith([10, 50, 90]);
+  });
+
+  it('pushes adjacent thumbs when minRange is reached', async () => {
+    const spy = jest.fn();
+    render(<MultiRangeSlider value={[10, 20, 30]} minRange={10} step={5} onChange={spy} />);
+    await pressKey(screen.getAllByRole('slider')[0], '{arrowright}');
+    expect(spy).toHaveBeenLastCalledWith([15, 25, 35]);
+  });
+
+  it('does not push adjacent thumbs when pushOnOverlap is false', async () => {
+    const spy = jest.fn();
+    render(
+      <MultiRangeSlider
+        value={[10, 20, 40]}
+        minRange={10}
+        step={5}
+        pushOnOverlap={false}
+        onChange={spy}
+      />
+    );
+    await pressKey(screen.getAllByRole('slider')[0], '{arrowright}');
+    expect(spy).toHaveBeenLastCalledWith([10, 20, 40]);
+    await pressKey(screen.getAllByRole('slider')[1], '{arrowright}');
+    expect(spy).toHaveBeenLastCalledWith([10, 25, 40]);
+  });
+
+  it('renders bar for each colored segment', () => {
+    const { container } = render(
+      <MultiRangeSlider
+        defaultValue={[10, 50, 90]}
+        segmentColors={['red', 'blue', null, 'green']}
+      />
+    );
+    expect(container.querySelectorAll('.mantine-MultiRangeSlider-bar')).toHaveLength(4);
+  });
+});
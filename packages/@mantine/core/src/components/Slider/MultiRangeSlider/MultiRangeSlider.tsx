@@ -0,0 +1,472 @@
+import { useEffect, useRef, useState } from 'react';
+import { clamp, useMergedRef, useMove, useUncontrolled } from '@mantine/hooks';
+import {
+  BoxProps,
+  createVarsResolver,
+  ElementProps,
+  factory,
+  Factory,
+  getRadius,
+  getSize,
+  getThemeColor,
+  MantineColor,
+  MantineRadius,
+  MantineSize,
+  rem,
+  StylesApiProps,
+  useDirection,
+  useMantineTheme,
+  useProps,
+  useStyles,
+} from '../../../core';
+import { TransitionOverride } from '../../Transition';
+import { SliderCssVariables, SliderProvider, SliderStylesNames } from '../Slider.context';
+import classes from '../Slider.module.css';
+import { SliderRoot } from '../SliderRoot/SliderRoot';
+import { Thumb } from '../Thumb/Thumb';
+import { Track, TrackSegment } from '../Track/Track';
+import { getChangeValue } from '../utils/get-change-value/get-change-value';
+import { getClientPosition } from '../utils/get-client-position/get-client-position';
+import { getFloatingValue } from '../utils/get-floating-value/get-gloating-value';
+import { getNearestThumb } from '../utils/get-nearest-thumb/get-nearest-thumb';
+import { getPosition } from '../utils/get-position/get-position';
+import { getPrecision } from '../utils/get-precision/get-precision';
+import { moveThumb } from '../utils/move-thumb/move-thumb';
+
+export type MultiRangeSliderValue = number[];
+
+export interface MultiRangeSliderProps
+  extends BoxProps,
+    StylesApiProps<MultiRangeSliderFactory>,
+    ElementProps<'div', 'onChange' | 'value' | 'defaultValue'> {
+  /** Key of `theme.colors` or any valid CSS color, controls color of track and thumb @default `theme.primaryColor` */
+  color?: MantineColor;
+
+  /** Key of `theme.radius` or any valid CSS value to set `border-radius`, numbers are converted to rem @default `'xl'` */
+  radius?: MantineRadius;
+
+  /** Controls size of the track @default `'md'` */
+  size?: MantineSize | (string & {}) | number;
+
+  /** Minimal possible value @default `0` */
+  min?: number;
+
+  /** Maximum possible value @default `100` */
+  max?: number;
+
+  /** Domain of the slider, defines the full range of possible values @default `[min, max]` */
+  domain?: [number, number];
+
+  /** Number by which value will be incremented/decremented with thumb drag and arrows @default `1` */
+  step?: number;
+
+  /** Number of significant digits after the decimal point */
+  precision?: number;
+
+  /** Controlled component value, values must be sorted in ascending order */
+  value?: MultiRangeSliderValue;
+
+  /** Uncontrolled component default value, values must be sorted in ascending order */
+  defaultValue?: MultiRangeSliderValue;
+
+  /** Called when value changes */
+  onChange?: (value: MultiRangeSliderValue) => void;
+
+  /** Called when user stops dragging slider or changes value with arrows */
+  onChangeEnd?: (value: MultiRangeSliderValue) => void;
+
+  /** Hidden inputs name prefix, inputs are named `${name}_${index}`, use with uncontrolled component */
+  name?: string;
+
+  /** Marks displayed on the track */
+  marks?: { value: number; label?: React.ReactNode }[];
+
+  /** Function to generate label or any react node to render instead, set to null to disable label */
+  label?: React.ReactNode | ((value: number, index: number) => React.ReactNode);
+
+  /** Props passed down to the `Transition` component @default `{ transition: 'fade', duration: 0 }` */
+  labelTransitionProps?: TransitionOverride;
+
+  /** Determines whether the label should be visible when the slider is not being dragged or hovered @default `false` */
+  labelAlwaysOn?: boolean;
+
+  /** Determines whether the label should be displayed when the slider is hovered @default `true` */
+  showLabelOnHover?: boolean;
+
+  /** Content rendered inside thumbs, if an array is passed, each item is rendered inside the thumb with the same index */
+  thumbChildren?: React.ReactNode | React.ReactNode[];
+
+  /** Disables slider */
+  disabled?: boolean;
+
+  /** Thumb `width` and `height`, by default value is computed based on `size` prop */
+  thumbSize?: number | string;
+
+  /** A transformation function to change the scale of the slider */
+  scale?: (value: number) => number;
+
+  /** Determines whether track values representation should be inverted @default `false` */
+  inverted?: boolean;
+
+  /** Minimal distance between adjacent thumbs, if an array is passed, item at index `i` is the distance between thumbs `i` and `i + 1` @default `10` */
+  minRange?: number | number[];
+
+  /** Determines whether adjacent thumbs should be pushed by the current thumb dragging when `minRange` is reached @default `true` */
+  pushOnOverlap?: boolean;
+
+  /** Colors of track segments, item at index `0` is the segment before the first thumb, item at index `value.length` is the segment after the last thumb. Segments without color between the first and the last thumbs use `color` prop value, other segments are not filled */
+  segmentColors?: (MantineColor | null | undefined)[];
+
+  /** Function to get thumb `aria-label` based on the thumb index */
+  thumbLabel?: (index: number) => string;
+
+  /** Props passed down to the hidden inputs */
+  hiddenInputProps?: React.ComponentPropsWithoutRef<'input'>;
+
+  /** Props passed down to thumb element based on the thumb index */
+  thumbProps?: (index: number) => React.ComponentPropsWithoutRef<'div'>;
+
+  /** Slider orientation, vertical slider takes 100% of the parent height @default `'horizontal'` */
+  orientation?: 'horizontal' | 'vertical';
+}
+
+export type MultiRangeSliderFactory = Factory<{
+  props: MultiRangeSliderProps;
+  ref: HTMLDivElement;
+  stylesNames: SliderStylesNames;
+  vars: SliderCssVariables;
+}>;
+
+const varsResolver = createVarsResolver<MultiRangeSliderFactory>(
+  (theme, { size, color, thumbSize, radius }) => ({
+    root: {
+      '--slider-size': getSize(size, 'slider-size'),
+      '--slider-color': color ? getThemeColor(color, theme) : undefined,
+      '--slider-radius': radius === undefined ? undefined : getRadius(radius),
+      '--slider-thumb-size':
+        thumbSize !== undefined ? rem(thumbSize) : 'calc(var(--slider-size) * 2)',
+    },
+  })
+);
+
+const defaultProps = {
+  min: 0,
+  max: 100,
+  minRange: 10,
+  step: 1,
+  marks: [],
+  label: (f) => f,
+  labelTransitionProps: { transition: 'fade', duration: 0 },
+  labelAlwaysOn: false,
+  showLabelOnHover: true,
+  disabled: false,
+  pushOnOverlap: true,
+  scale: (v) => v,
+  size: 'md',
+  orientation: 'horizontal',
+} satisfies Partial<MultiRangeSliderProps>;
+
+export const MultiRangeSlider = factory<MultiRangeSliderFactory>((_props, ref) => {
+  const props = useProps('MultiRangeSlider', defaultProps, _props);
+  const {
+    classNames,
+    styles,
+    value,
+    onChange,
+    onChangeEnd,
+    size,
+    min,
+    max,
+    domain,
+    minRange,
+    step,
+    precision: _precision,
+    defaultValue,
+    name,
+    marks,
+    label,
+    labelTransitionProps,
+    labelAlwaysOn,
+    showLabelOnHover,
+    thumbChildren,
+    disabled,
+    unstyled,
+    scale,
+    inverted,
+    className,
+    style,
+    vars,
+    hiddenInputProps,
+    thumbProps,
+    thumbLabel,
+    pushOnOverlap,
+    segmentColors,
+    orientation,
+    attributes,
+    ...others
+  } = props;
+
+  const getStyles = useStyles<MultiRangeSliderFactory>({
+    name: 'MultiRangeSlider',
+    classes,
+    props,
+    className,
+    style,
+    classNames,
+    styles,
+    unstyled,
+    attributes,
+    vars,
+    varsResolver,
+  });
+
+  const theme = useMantineTheme();
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const { dir } = useDirection();
+  const isVertical = orientation === 'vertical';
+  const isRtl = dir === 'rtl' && !isVertical;
+  const [focused, setFocused] = useState(-1);
+  const [hovered, setHovered] = useState(false);
+  const [_value, setValue] = useUncontrolled<MultiRangeSliderValue>({
+    value,
+    defaultValue,
+    finalValue: [min, max],
+    onChange,
+  });
+  const valueRef = useRef(_value);
+  const thumbs = useRef<HTMLDivElement[]>([]);
+  const root = useRef<HTMLDivElement>(null);
+  const thumbIndex = useRef<number | undefined>(undefined);
+  const [domainMin, domainMax] = domain || [min!, max!];
+  const positions = _value.map((val) =>
+    getPosition({ value: val, min: domainMin, max: domainMax })
+  );
+  const lastIndex = _value.length - 1;
+
+  const precision = _precision ?? getPrecision(step);
+
+  const _setValue = (val: MultiRangeSliderValue) => {
+    setValue(val);
+    valueRef.current = val;
+  };
+
+  useEffect(() => {
+    if (Array.isArray(value)) {
+      valueRef.current = value;
+    }
+  }, [Array.isArray(value) ? value.join(',') : null]);
+
+  const setThumbValue = (val: number, index: number, triggerChangeEnd: boolean) => {
+    if (index === -1 || index > valueRef.current.length - 1) {
+      return;
+    }
+
+    const nextValue = moveThumb({
+      value: valueRef.current,
+      index,
+      nextValue: clamp(val, min, max),
+      min,
+      max,
+      minRange,
+      pushOnOverlap,
+    }).map((item) => getFloatingValue(item, precision));
+
+    _setValue(nextValue);
+
+    if (triggerChangeEnd) {
+      onChangeEnd?.(valueRef.current);
+    }
+  };
+
+  const handleChange = (val: number) => {
+    if (!disabled && thumbIndex.current !== undefined) {
+      const nextValue = getChangeValue({
+        value: val,
+        min: domainMin,
+        max: domainMax,
+        step,
+        precision,
+      });
+      setThumbValue(nextValue, thumbIndex.current, false);
+    }
+  };
+
+  const { ref: useMoveRef, active } = useMove(
+    ({ x, y }) => handleChange(isVertical ? 1 - y : x),
+    { onScrubEnd: () => !disabled && onChangeEnd?.(valueRef.current) },
+    isVertical ? 'ltr' : dir
+  );
+
+  const handleTrackMouseDownCapture = (
+    event: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>
+  ) => {
+    if (containerRef.current) {
+      containerRef.current.focus();
+      const rect = containerRef.current.getBoundingClientRect();
+      const changePosition = getClientPosition(event.nativeEvent, isVertical ? 'y' : 'x');
+      const containerSize = isVertical ? rect.height : rect.width;
+      const offset = isVertical ? rect.bottom - changePosition : changePosition - rect.left;
+      const changeValue = getChangeValue({
+        value: isRtl ? containerSize - offset : offset,
+        max: domainMax,
+        min: domainMin,
+        step,
+        containerWidth: containerSize,
+      });
+
+      thumbIndex.current = getNearestThumb(valueRef.current, changeValue);
+    }
+  };
+
+  const getFocusedThumbIndex = () => {
+    if (focused < 0 || focused > lastIndex) {
+      setFocused(0);
+      return 0;
+    }
+
+    return focused;
+  };
+
+  const handleTrackKeydownCapture = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (disabled) {
+      return;
+    }
+
+    const increment =
+      event.key === 'ArrowUp' ||
+      (event.key === 'ArrowRight' && !isRtl) ||
+      (event.key === 'ArrowLeft' && isRtl);
+
+    const decrement =
+      event.key === 'ArrowDown' ||
+      (event.key === 'ArrowLeft' && !isRtl) ||
+      (event.key === 'ArrowRight' && isRtl);
+
+    if (!increment && !decrement && event.key !== 'Home' && event.key !== 'End') {
+      return;
+    }
+
+    event.preventDefault();
+    const focusedIndex = getFocusedThumbIndex();
+    thumbs.current[focusedIndex]?.focus();
+    const current = valueRef.current[focusedIndex];
+
+    const nextValue =
+      event.key === 'Home'
+        ? min
+        : event.key === 'End'
+          ? max
+          : Math.min(Math.max(increment ? current + step : current - step, min), max);
+
+    setThumbValue(getFloatingValue(nextValue, precision), focusedIndex, true);
+  };
+
+  const getSegmentColor = (index: number) => {
+    const color = segmentColors?.[index];
+    return color ? getThemeColor(color, theme) : undefined;
+  };
+
+  const segments = Array.from({ length: _value.length + 1 }, (_, index) => {
+    const start = index === 0 ? 0 : positions[index - 1];
+    const end = index === _value.length ? 100 : positions[index];
+    const color = getSegmentColor(index);
+    const isInner = index > 0 && index < _value.length;
+    return color || isInner ? { offset: start, filled: end - start, color } : null;
+  }).filter(Boolean) as TrackSegment[];
+
+  const hasArrayThumbChildren = Array.isArray(thumbChildren);
+
+  return (
+    <SliderProvider value={{ getStyles, orientation }}>
+      <SliderRoot
+        {...others}
+        size={size}
+        ref={useMergedRef(ref, root)}
+        disabled={disabled}
+        orientation={orientation}
+        onMouseDownCapture={() => root.current?.focus()}
+        onKeyDownCapture={() => {
+          if (thumbs.current[0]?.parentElement?.contains(document.activeElement)) {
+            return;
+          }
+          thumbs.current[0]?.focus();
+        }}
+      >
+        <Track
+          offset={positions[0]}
+          marksOffset={_value[0]}
+          filled={positions[lastIndex] - positions[0]}
+          segments={segments}
+          marks={marks}
+          inverted={inverted}
+          min={domainMin}
+          max={domainMax}
+          value={_value[lastIndex]}
+          disabled={disabled}
+          containerProps={{
+            ref: useMergedRef(containerRef, useMoveRef) as any,
+            onMouseEnter: showLabelOnHover ? () => setHovered(true) : undefined,
+            onMouseLeave: showLabelOnHover ? () => setHovered(false) : undefined,
+            onTouchStartCapture: handleTrackMouseDownCapture,
+            onTouchEndCapture: () => {
+              thumbIndex.current = -1;
+            },
+            onMouseDownCapture: handleTrackMouseDownCapture,
+            onMouseUpCapture: () => {
+              thumbIndex.current = -1;
+            },
+            onKeyDownCapture: handleTrackKeydownCapture,
+          }}
+        >
+          {_value.map((val, index) => (
+            <Thumb
+              key={index}
+              max={max}
+              min={min}
+              labelTransitionProps={labelTransitionProps}
+              labelAlwaysOn={labelAlwaysOn}
+              onBlur={() => setFocused(-1)}
+              value={scale(val)}
+              position={positions[index]}
+              dragging={active}
+              label={
+                typeof label === 'function'
+                  ? label(getFloatingValue(scale(val), precision), index)
+                  : label
+              }
+              ref={(node) => {
+                if (node) {
+                  thumbs.current[index] = node;
+                }
+              }}
+              thumbLabel={thumbLabel?.(index)}
+              onMouseDown={() => {
+                thumbIndex.current = index;
+              }}
+              onFocus={() => setFocused(index)}
+              showLabelOnHover={showLabelOnHover}
+              isHovered={hovered}
+              disabled={disabled}
+              {...thumbProps?.(index)}
+            >
+              {hasArrayThumbChildren ? thumbChildren[index] : thumbChildren}
+            </Thumb>
+          ))}
+        </Track>
+
+        {_value.map((val, index) => (
+          <input
+            key={index}
+            type="hidden"
+            name={`${name}_${index}`}
+            value={val}
+            {...hiddenInputProps}
+          />
+        ))}
+      </SliderRoot>
+    </SliderProvider>
+  );
+});
+
+MultiRangeSlider.classes = classes;
+MultiRangeSlider.displayName = '@mantine/core/MultiRangeSlider';
@@ -1,4 +1,4 @@
-import { render, tests } from '@mantine-tests/core';
+import { render, screen, tests } from '@mantine-tests/core';
 import { SliderStylesNames } from '../Slider.context';
 import { RangeSlider, RangeSliderProps } from './RangeSlider';
 
@@ -52,4 +52,11 @@ describe('@mantine/core/RangeSlider', () => {
     expect(getInput(container, 0)).toHaveAttribute('name', 'test-input_from');
     expect(getInput(container, 1)).toHaveAttribute('name', 'test-input_to');
   });
+
+  it('supports vertical orientation', () => {
+    render(<RangeSlider orientation="vertical" value={[10, 20]} />);
+    screen.getAllByRole('slider').forEach((thumb) => {
+      expect(thumb).toHaveAttribute('aria-orientation', 'vertical');
+    });
+  });
 });
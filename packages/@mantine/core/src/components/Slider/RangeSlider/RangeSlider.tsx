@@ -135,6 +135,9 @@ export interface RangeSliderProps
 
   /** Determines whether the other thumb should be pushed by the current thumb dragging when `minRange`/`maxRange` is reached @default `true` */
   pushOnOverlap?: boolean;
+
+  /** Slider orientation, vertical slider takes 100% of the parent height @default `'horizontal'` */
+  orientation?: 'horizontal' | 'vertical';
 }
 
 export type RangeSliderFactory = Factory<{
@@ -171,6 +174,7 @@ const defaultProps = {
   scale: (v) => v,
   size: 'md',
   maxRange: Infinity,
+  orientation: 'horizontal',
 } satisfies Partial<RangeSliderProps>;
 
 export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
@@ -210,6 +214,7 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
     restrictToMarks,
     thumbProps,
     pushOnOverlap,
+    orientation,
     attributes,
     ...others
   } = props;
@@ -230,6 +235,8 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
 
   const containerRef = useRef<HTMLDivElement | null>(null);
   const { dir } = useDirection();
+  const isVertical = orientation === 'vertical';
+  const isRtl = dir === 'rtl' && !isVertical;
   const [focused, setFocused] = useState(-1);
   const [hovered, setHovered] = useState(false);
   const [_value, setValue] = useUncontrolled<RangeSliderValue>({
@@ -374,9 +381,9 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
   };
 
   const { ref: useMoveRef, active } = useMove(
-    ({ x }) => handleChange(x),
+    ({ x, y }) => handleChange(isVertical ? 1 - y : x),
     { onScrubEnd: () => !disabled && onChangeEnd?.(valueRef.current) },
-    dir
+    isVertical ? 'ltr' : dir
   );
 
   function handleThumbMouseDown(index: number) {
@@ -389,18 +396,18 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
     if (containerRef.current) {
       containerRef.current.focus();
       const rect = containerRef.current.getBoundingClientRect();
-      const changePosition = getClientPosition(event.nativeEvent);
+      const changePosition = getClientPosition(event.nativeEvent, isVertical ? 'y' : 'x');
       const changeValue = getChangeValue({
-        value: changePosition - rect.left,
+        value: isVertical ? rect.bottom - changePosition : changePosition - rect.left,
         max,
         min,
         step,
-        containerWidth: rect.width,
+        containerWidth: isVertical ? rect.height : rect.width,
       });
 
       const nearestHandle =
         Math.abs(_value[0] - changeValue) > Math.abs(_value[1] - changeValue) ? 1 : 0;
-      const _nearestHandle = dir === 'ltr' ? nearestHandle : nearestHandle === 1 ? 0 : 1;
+      const _nearestHandle = !isRtl ? nearestHandle : nearestHandle === 1 ? 0 : 1;
 
       thumbIndex.current = _nearestHandle;
     }
@@ -437,13 +444,13 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
 
           const nextValue =
             restrictToMarks && marks
-              ? (dir === 'rtl' ? getPreviousMarkValue : getNextMarkValue)(
+              ? (isRtl ? getPreviousMarkValue : getNextMarkValue)(
                   valueRef.current[focusedIndex],
                   marks
                 )
               : Math.min(
                   Math.max(
-                    dir === 'rtl'
+                    isRtl
                       ? valueRef.current[focusedIndex] - step
                       : valueRef.current[focusedIndex] + step,
                     min
@@ -474,13 +481,13 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
 
           const nextValue =
             restrictToMarks && marks
-              ? (dir === 'rtl' ? getNextMarkValue : getPreviousMarkValue)(
+              ? (isRtl ? getNextMarkValue : getPreviousMarkValue)(
                   valueRef.current[focusedIndex],
                   marks
                 )
               : Math.min(
                   Math.max(
-                    dir === 'rtl'
+                    isRtl
                       ? valueRef.current[focusedIndex] + step
                       : valueRef.current[focusedIndex] - step,
                     min
@@ -511,12 +518,13 @@ export const RangeSlider = factory<RangeSliderFactory>((_props, ref) => {
   const hasArrayThumbChildren = Array.isArray(thumbChildren);
 
   return (
-    <SliderProvider value={{ getStyles }}>
+    <SliderProvider value={{ getStyles, orientation }}>
       <SliderRoot
         {...others}
         size={size}
         ref={useMergedRef(ref, root)}
         disabled={disabled}
+        orientation={orientation}
         onMouseDownCapture={() => root.current?.focus()}
         onKeyDownCapture={() => {
           if (thumbs.current[0]?.parentElement?.contains(document.activeElement)) {
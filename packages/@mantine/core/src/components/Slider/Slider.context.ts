@@ -15,7 +15,10 @@ export type SliderCssVariables = {
   root: '--slider-size' | '--slider-color' | '--slider-thumb-size' | '--slider-radius';
 };
 
+export type SliderOrientation = 'horizontal' | 'vertical';
+
 interface SliderContextValue {
+  orientation: SliderOrientation;
   getStyles: GetStylesApi<{
     stylesNames: SliderStylesNames;
     props: any;
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { MultiRangeSlider } from './MultiRangeSlider/MultiRangeSlider';
 import { RangeSlider } from './RangeSlider/RangeSlider';
 import { Slider } from './Slider/Slider';
 
@@ -173,3 +174,31 @@ export function WithDecimalValue() {
     </div>
   );
 }
+
+export function Vertical() {
+  return (
+    <div style={{ padding: 40, display: 'flex', gap: 80, height: 300 }}>
+      <Slider orientation="vertical" defaultValue={45} marks={marks} />
+      <Slider orientation="vertical" defaultValue={45} marks={marks} inverted size="xl" />
+      <Slider orientation="vertical" defaultValue={45} marks={marks} disabled />
+      <RangeSlider orientation="vertical" defaultValue={[20, 60]} marks={marks} />
+    </div>
+  );
+}
+
+export function MultiRange() {
+  const [value, setValue] = useState([10, 30, 60, 90]);
+
+  return (
+    <div style={{ padding: 40, maxWidth: 400 }}>
+      <MultiRangeSlider value={value} onChange={setValue} marks={marks} />
+      <MultiRangeSlider
+        mt={60}
+        defaultValue={[20, 50, 80]}
+        minRange={[5, 20]}
+        segmentColors={['teal', 'yellow', 'orange', 'red']}
+      />
+      <MultiRangeSlider mt={60} defaultValue={[20, 50, 80]} pushOnOverlap={false} />
+    </div>
+  );
+}
@@ -152,4 +152,20 @@ describe('@mantine/core/Slider', () => {
       endSpy.mock.calls[endSpy.mock.calls.length - 1][0]
     );
   });
+
+  it('supports vertical orientation', async () => {
+    const spy = jest.fn();
+    const { container } = render(
+      <Slider orientation="vertical" value={50} step={10} onChange={spy} />
+    );
+    expect(container.querySelector('.mantine-Slider-root')).toHaveAttribute(
+      'data-orientation',
+      'vertical'
+    );
+    expect(screen.getByRole('slider')).toHaveAttribute('aria-orientation', 'vertical');
+    await userEvent.type(screen.getByRole('slider'), '{arrowup}');
+    expect(spy).toHaveBeenLastCalledWith(60);
+    await userEvent.type(screen.getByRole('slider'), '{arrowdown}');
+    expect(spy).toHaveBeenLastCalledWith(40);
+  });
 });
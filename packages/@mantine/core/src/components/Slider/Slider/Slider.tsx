@@ -120,6 +120,9 @@ export interface SliderProps
 
   /** Props passed down to thumb element */
   thumbProps?: React.ComponentPropsWithoutRef<'div'>;
+
+  /** Slider orientation, vertical slider takes 100% of the parent height @default `'horizontal'` */
+  orientation?: 'horizontal' | 'vertical';
 }
 
 export type SliderFactory = Factory<{
@@ -141,6 +144,7 @@ const defaultProps = {
   showLabelOnHover: true,
   scale: (v) => v,
   size: 'md',
+  orientation: 'horizontal',
 } satisfies Partial<SliderProps>;
 
 const varsResolver = createVarsResolver<SliderFactory>(
@@ -188,6 +192,7 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
     hiddenInputProps,
     restrictToMarks,
     thumbProps,
+    orientation,
     attributes,
     ...others
   } = props;
@@ -207,6 +212,8 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
   });
 
   const { dir } = useDirection();
+  const isVertical = orientation === 'vertical';
+  const isRtl = dir === 'rtl' && !isVertical;
   const [hovered, setHovered] = useState(false);
   const [_value, setValue] = useUncontrolled({
     value: typeof value === 'number' ? clamp(value, min, max) : value,
@@ -231,10 +238,10 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
   const precision = _precision ?? getPrecision(step);
 
   const handleChange = useCallback(
-    ({ x }: { x: number }) => {
+    ({ x, y }: { x: number; y: number }) => {
       if (!disabled) {
         const nextValue = getChangeValue({
-          value: x,
+          value: isVertical ? 1 - y : x,
           min: domainMin,
           max: domainMax,
           step,
@@ -252,7 +259,19 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
         valueRef.current = clampedValue;
       }
     },
-    [disabled, min, max, domainMin, domainMax, step, precision, setValue, marks, restrictToMarks]
+    [
+      disabled,
+      min,
+      max,
+      domainMin,
+      domainMax,
+      step,
+      precision,
+      setValue,
+      marks,
+      restrictToMarks,
+      isVertical,
+    ]
   );
 
   const handleScrubEnd = useCallback(() => {
@@ -268,7 +287,11 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
     }
   }, [disabled, marks, restrictToMarks]);
 
-  const { ref: container, active } = useMove(handleChange, { onScrubEnd: handleScrubEnd }, dir);
+  const { ref: container, active } = useMove(
+    handleChange,
+    { onScrubEnd: handleScrubEnd },
+    isVertical ? 'ltr' : dir
+  );
 
   const callOnChangeEnd = useCallback(
     (value: number) => {
@@ -307,15 +330,16 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
           thumb.current?.focus();
 
           if (restrictToMarks && marks) {
-            const nextValue =
-              dir === 'rtl' ? getPreviousMarkValue(_value, marks) : getNextMarkValue(_value, marks);
+            const nextValue = isRtl
+              ? getPreviousMarkValue(_value, marks)
+              : getNextMarkValue(_value, marks);
             setValue(nextValue);
             callOnChangeEnd(nextValue);
             break;
           }
 
           const nextValue = getFloatingValue(
-            Math.min(Math.max(dir === 'rtl' ? _value - step : _value + step, min), max),
+            Math.min(Math.max(isRtl ? _value - step : _value + step, min), max),
             precision
           );
           setValue(nextValue);
@@ -348,15 +372,16 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
           thumb.current?.focus();
 
           if (restrictToMarks && marks) {
-            const nextValue =
-              dir === 'rtl' ? getNextMarkValue(_value, marks) : getPreviousMarkValue(_value, marks);
+            const nextValue = isRtl
+              ? getNextMarkValue(_value, marks)
+              : getPreviousMarkValue(_value, marks);
             setValue(nextValue);
             callOnChangeEnd(nextValue);
             break;
           }
 
           const nextValue = getFloatingValue(
-            Math.min(Math.max(dir === 'rtl' ? _value + step : _value - step, min), max),
+            Math.min(Math.max(isRtl ? _value + step : _value - step, min), max),
             precision
           );
           setValue(nextValue);
@@ -402,7 +427,7 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
   };
 
   return (
-    <SliderProvider value={{ getStyles }}>
+    <SliderProvider value={{ getStyles, orientation }}>
       <SliderRoot
         {...others}
         ref={useMergedRef(ref, root)}
@@ -410,6 +435,7 @@ export const Slider = factory<SliderFactory>((_props, ref) => {
         onMouseDownCapture={() => root.current?.focus()}
         size={size}
         disabled={disabled}
+        orientation={orientation}
       >
         <Track
           inverted={inverted}
@@ -7,7 +7,7 @@ import {
   MantineRadius,
   MantineSize,
 } from '../../../core';
-import { useSliderContext } from '../Slider.context';
+import { SliderOrientation, useSliderContext } from '../Slider.context';
 
 export interface SliderRootProps extends BoxProps, ElementProps<'div'> {
   size: MantineSize | (string & {}) | number;
@@ -17,10 +17,24 @@ export interface SliderRootProps extends BoxProps, ElementProps<'div'> {
   variant?: string;
   thumbSize?: string | number;
   radius?: MantineRadius;
+  orientation?: SliderOrientation;
 }
 
 export const SliderRoot = forwardRef<HTMLDivElement, SliderRootProps>(
-  ({ size, disabled, variant, color, thumbSize, radius, ...others }: SliderRootProps, ref) => {
+  (
+    {
+      size,
+      disabled,
+      variant,
+      color,
+      thumbSize,
+      radius,
+      orientation,
+      mod,
+      ...others
+    }: SliderRootProps,
+    ref
+  ) => {
     const { getStyles } = useSliderContext();
 
     return (
@@ -29,6 +43,7 @@ export const SliderRoot = forwardRef<HTMLDivElement, SliderRootProps>(
         variant={variant}
         size={size}
         ref={ref}
+        mod={[{ orientation }, mod]}
         {...getStyles('root')}
         {...others}
       />
@@ -46,7 +46,7 @@ export const Thumb = forwardRef<HTMLDivElement, ThumbProps>(
     }: ThumbProps,
     ref
   ) => {
-    const { getStyles } = useSliderContext();
+    const { getStyles, orientation } = useSliderContext();
 
     const [focused, setFocused] = useState(false);
 
@@ -60,6 +60,7 @@ export const Thumb = forwardRef<HTMLDivElement, ThumbProps>(
         aria-valuemax={max}
         aria-valuemin={min}
         aria-valuenow={value}
+        aria-orientation={orientation}
         ref={ref}
         __vars={{ '--slider-thumb-offset': `${position}%` }}
         {...getStyles('thumb', { focusable: true })}
@@ -2,6 +2,12 @@ import { Box } from '../../../core';
 import { Marks } from '../Marks/Marks';
 import { useSliderContext } from '../Slider.context';
 
+export interface TrackSegment {
+  offset: number;
+  filled: number;
+  color?: string;
+}
+
 export interface TrackProps {
   filled: number;
   offset?: number;
@@ -14,6 +20,7 @@ export interface TrackProps {
   disabled: boolean | undefined;
   inverted: boolean | undefined;
   containerProps?: React.ComponentProps<'div'>;
+  segments?: TrackSegment[];
 }
 
 export function Track({
@@ -24,6 +31,7 @@ export function Track({
   marksOffset,
   inverted,
   containerProps,
+  segments,
   ...others
 }: TrackProps) {
   const { getStyles } = useSliderContext();
@@ -31,14 +39,18 @@ export function Track({
   return (
     <Box {...getStyles('trackContainer')} mod={{ disabled }} {...containerProps}>
       <Box {...getStyles('track')} mod={{ inverted, disabled }}>
-        <Box
-          mod={{ inverted, disabled }}
-          __vars={{
-            '--slider-bar-width': `calc(${filled}% + 2 * var(--slider-size))`,
-            '--slider-bar-offset': `calc(${offset}% - var(--slider-size))`,
-          }}
-          {...getStyles('bar')}
-        />
+        {(segments || [{ offset: offset!, filled }]).map((segment, index) => (
+          <Box
+            key={index}
+            mod={{ inverted, disabled }}
+            __vars={{
+              '--slider-bar-width': `calc(${segment.filled}% + 2 * var(--slider-size))`,
+              '--slider-bar-offset': `calc(${segment.offset}% - var(--slider-size))`,
+              '--slider-color': segment.color,
+            }}
+            {...getStyles('bar')}
+          />
+        ))}
 
         {children}
 
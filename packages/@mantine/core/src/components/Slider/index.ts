@@ -1,5 +1,6 @@
 export { Slider } from './Slider/Slider';
 export { RangeSlider } from './RangeSlider/RangeSlider';
+export { MultiRangeSlider } from './MultiRangeSlider/MultiRangeSlider';
 
 export type { SliderFactory, SliderProps } from './Slider/Slider';
 export type {
@@ -7,4 +8,9 @@ export type {
   RangeSliderProps,
   RangeSliderValue,
 } from './RangeSlider/RangeSlider';
+export type {
+  MultiRangeSliderFactory,
+  MultiRangeSliderProps,
+  MultiRangeSliderValue,
+} from './MultiRangeSlider/MultiRangeSlider';
 export type { SliderStylesNames, SliderCssVariables } from './Slider.context';
@@ -1,8 +1,10 @@
-export function getClientPosition(event: any) {
+export function getClientPosition(event: any, axis: 'x' | 'y' = 'x') {
+  const key = axis === 'x' ? 'clientX' : 'clientY';
+
   if ('TouchEvent' in window && event instanceof window.TouchEvent) {
     const touch = event.touches[0];
-    return touch.clientX;
+    return touch[key];
   }
 
-  return event.clientX;
+  return event[key];
 }
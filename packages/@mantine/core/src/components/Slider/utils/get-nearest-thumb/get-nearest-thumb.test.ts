@@ -0,0 +1,14 @@
+import { getNearestThumb } from './get-nearest-thumb';
+
+describe('@mantine/core/Slider/get-nearest-thumb', () => {
+  it('returns index of the closest thumb', () => {
+    expect(getNearestThumb([10, 50, 90], 0)).toBe(0);
+    expect(getNearestThumb([10, 50, 90], 45)).toBe(1);
+    expect(getNearestThumb([10, 50, 90], 100)).toBe(2);
+  });
+
+  it('picks thumb based on direction when thumbs overlap', () => {
+    expect(getNearestThumb([50, 50], 40)).toBe(0);
+    expect(getNearestThumb([50, 50], 60)).toBe(1);
+  });
+});
@@ -0,0 +1,15 @@
+/** Returns index of the thumb that is the closest to the given value */
+export function getNearestThumb(values: number[], target: number) {
+  let nearest = 0;
+
+  for (let i = 1; i < values.length; i += 1) {
+    const distance = Math.abs(values[i] - target);
+    const nearestDistance = Math.abs(values[nearest] - target);
+
+    if (distance < nearestDistance || (distance === nearestDistance && target > values[i])) {
+      nearest = i;
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,53 @@
+import { moveThumb } from './move-thumb';
+
+const base = { min: 0, max: 100, minRange: 10, pushOnOverlap: true };
+
+describe('@mantine/core/Slider/move-thumb', () => {
+  it('moves thumb within its neighbors', () => {
+    expect(moveThumb({ ...base, value: [10, 50, 90], index: 1, nextValue: 60 })).toStrictEqual([
+      10, 60, 90,
+    ]);
+  });
+
+  it('clamps value to min and max', () => {
+    expect(moveThumb({ ...base, value: [10, 50, 90], index: 0, nextValue: -20 })).toStrictEqual([
+      0, 50, 90,
+    ]);
+    expect(moveThumb({ ...base, value: [10, 50, 90], index: 2, nextValue: 120 })).toStrictEqual([
+      10, 50, 100,
+    ]);
+  });
+
+  it('pushes adjacent thumbs when pushOnOverlap is true', () => {
+    expect(moveThumb({ ...base, value: [10, 30, 50], index: 0, nextValue: 35 })).toStrictEqual([
+      35, 45, 55,
+    ]);
+    expect(moveThumb({ ...base, value: [10, 30, 50], index: 2, nextValue: 15 })).toStrictEqual([
+      0, 10, 20,
+    ]);
+  });
+
+  it('stops pushing when other thumbs reach min or max', () => {
+    expect(moveThumb({ ...base, value: [10, 30, 50], index: 0, nextValue: 95 })).toStrictEqual([
+      80, 90, 100,
+    ]);
+  });
+
+  it('does not move past adjacent thumbs when pushOnOverlap is false', () => {
+    expect(
+      moveThumb({ ...base, pushOnOverlap: false, value: [10, 30, 50], index: 1, nextValue: 45 })
+    ).toStrictEqual([10, 40, 50]);
+    expect(
+      moveThumb({ ...base, pushOnOverlap: false, value: [10, 30, 50], index: 1, nextValue: 5 })
+    ).toStrictEqual([10, 20, 50]);
+  });
+
+  it('supports per-thumb minRange', () => {
+    expect(
+      moveThumb({ ...base, minRange: [5, 20], value: [10, 30, 60], index: 1, nextValue: 50 })
+    ).toStrictEqual([10, 50, 70]);
+    expect(
+      moveThumb({ ...base, minRange: [5, 20], value: [10, 30, 60], index: 1, nextValue: 0 })
+    ).toStrictEqual([0, 5, 60]);
+  });
+});
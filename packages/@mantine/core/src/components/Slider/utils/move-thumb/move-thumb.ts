@@ -0,0 +1,71 @@
+interface MoveThumbInput {
+  /** Current values of all thumbs, sorted in ascending order */
+  value: number[];
+
+  /** Index of the thumb that is moved */
+  index: number;
+
+  /** Requested value of the moved thumb */
+  nextValue: number;
+  min: number;
+  max: number;
+
+  /** Minimal distance between adjacent thumbs, array item `i` is the distance between thumbs `i` and `i + 1` */
+  minRange: number | number[];
+
+  /** Determines whether adjacent thumbs should be pushed when `minRange` is reached */
+  pushOnOverlap: boolean;
+}
+
+export function getMinRange(minRange: number | number[], index: number) {
+  return Array.isArray(minRange) ? (minRange[index] ?? 0) : minRange;
+}
+
+function sumMinRange(minRange: number | number[], from: number, to: number) {
+  let result = 0;
+
+  for (let i = from; i < to; i += 1) {
+    result += getMinRange(minRange, i);
+  }
+
+  return result;
+}
+
+export function moveThumb({
+  value,
+  index,
+  nextValue,
+  min,
+  max,
+  minRange,
+  pushOnOverlap,
+}: MoveThumbInput) {
+  const result = [...value];
+  const last = value.length - 1;
+
+  if (pushOnOverlap) {
+    const lowerBound = min + sumMinRange(minRange, 0, index);
+    const upperBound = max - sumMinRange(minRange, index, last);
+    result[index] = Math.min(Math.max(nextValue, lowerBound), upperBound);
+
+    for (let i = index + 1; i <= last; i += 1) {
+      result[i] = Math.max(result[i], result[i - 1] + getMinRange(minRange, i - 1));
+    }
+
+    for (let i = index - 1; i >= 0; i -= 1) {
+      result[i] = Math.min(result[i], result[i + 1] - getMinRange(minRange, i));
+    }
+
+    return result;
+  }
+
+  const lowerBound = index === 0 ? min : value[index - 1] + getMinRange(minRange, index - 1);
+  const upperBound = index === last ? max : value[index + 1] - getMinRange(minRange, index);
+
+  if (lowerBound > upperBound) {
+    return result;
+  }
+
+  result[index] = Math.min(Math.max(nextValue, lowerBound), upperBound);
+  return result;
+}
@@ -1,7 +1,9 @@
+import { useRef, useState } from 'react';
 import { Stack } from '../Stack';
 import { Text } from '../Text';
 import { Title } from '../Title';
-import { Table } from './Table';
+import { Table, TableColumn, TableSortStatus } from './Table';
+import { TableScrollToIndex } from './TableVirtualizedTbody';
 
 export default { title: 'Table' };
 
@@ -334,3 +336,131 @@ export function NestedTable() {
     </Stack>
   );
 }
+
+export function Columns() {
+  const [sortStatus, setSortStatus] = useState<TableSortStatus | null>({
+    columnId: 'name',
+    direction: 'asc',
+  });
+
+  const columns: TableColumn<(typeof elements)[number]>[] = [
+    { accessor: 'name', header: 'Element name', sortable: true, pinned: 'left', width: 160 },
+    { accessor: 'position', header: 'Position', sortable: true, resizable: true, width: 240 },
+    { accessor: 'symbol', header: 'Symbol', resizable: true, width: 240 },
+    { accessor: 'mass', header: 'Atomic mass', sortable: true, resizable: true, width: 240 },
+    { id: 'actions', accessor: () => null, header: 'Actions', pinned: 'right', width: 100 },
+  ];
+
+  return (
+    <div style={{ padding: 40 }}>
+      <Table.ScrollContainer minWidth={1000}>
+        <Table
+          layout="fixed"
+          striped
+          highlightOnHover
+          withColumnBorders
+          data={{ columns, records: elements }}
+          sortStatus={sortStatus}
+          onSortStatusChange={setSortStatus}
+          onColumnResize={(columnId, width) => console.log(columnId, width)}
+        />
+      </Table.ScrollContainer>
+    </div>
+  );
+}
+
+const logs = Array(50000)
+  .fill(0)
+  .map((_, index) => ({
+    id: index + 1,
+    message:
+      index % 5 === 0 ? `Multiline log message #${index + 1}\nwith details` : `Log #${index + 1}`,
+  }));
+
+export function RowSelection() {
+  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+
+  const columns: TableColumn<(typeof elements)[number]>[] = [
+    { accessor: 'name', header: 'Element name', sortable: true, pinned: 'left' },
+    { accessor: 'position', header: 'Position', sortable: true },
+    { accessor: 'symbol', header: 'Symbol' },
+    { accessor: 'mass', header: 'Atomic mass', sortable: true },
+  ];
+
+  return (
+    <div style={{ padding: 40 }}>
+      <Table
+        striped
+        highlightOnHover
+        data={{ columns, records: elements }}
+        withRowSelection
+        getRowId={(record) => record.symbol}
+        selectedRows={selectedRows}
+        onSelectedRowsChange={setSelectedRows}
+      />
+      <Text mt="md">Selected: {selectedRows.join(', ')}</Text>
+    </div>
+  );
+}
+
+export function Virtualized() {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const scrollToIndexRef = useRef<TableScrollToIndex>(null);
+
+  return (
+    <div style={{ padding: 40 }}>
+      <button type="button" onClick={() => scrollToIndexRef.current?.(25000, { align: 'center' })}>
+        Scroll to 25000
+      </button>
+
+      <Table.ScrollContainer minWidth={500} maxHeight={400} scrollAreaProps={{ viewportRef }}>
+        <Table stickyHeader striped highlightOnHover>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Id</Table.Th>
+              <Table.Th>Message</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.VirtualizedTbody
+            rowsCount={logs.length}
+            rowHeight={37}
+            scrollParentRef={viewportRef}
+            scrollToIndexRef={scrollToIndexRef}
+            renderRow={(index) => (
+              <>
+                <Table.Td>{logs[index].id}</Table.Td>
+                <Table.Td>{logs[index].message}</Table.Td>
+              </>
+            )}
+          />
+        </Table>
+      </Table.ScrollContainer>
+    </div>
+  );
+}
+
+export function VirtualizedMeasuredRows() {
+  return (
+    <div style={{ padding: 40, height: 400, overflow: 'auto' }}>
+      <Table stickyHeader striped withColumnBorders>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Id</Table.Th>
+            <Table.Th>Message</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.VirtualizedTbody
+          rowsCount={logs.length}
+          rowHeight={37}
+          measureRows
+          renderRow={(index) => (
+            <>
+              <Table.Td>{logs[index].id}</Table.Td>
+              <Table.Td style={{ whiteSpace: 'pre-line' }}>{logs[index].message}</Table.Td>
+            </>
+          )}
+        />
+      </Table>
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import { TableProvider } from './Table.context';
 import classes from './Table.module.css';
 import { TableDataRenderer } from './TableDataRenderer';
 import { TableScrollContainer } from './TableScrollContainer';
+import { TableVirtualizedTbody } from './TableVirtualizedTbody';
 
 export type TableVariant = 'default' | 'vertical';
 
@@ -38,7 +39,9 @@ export type TableStylesNames =
   | 'tr'
   | 'th'
   | 'td'
-  | 'caption';
+  | 'caption'
+  | 'sortButton'
+  | 'resizeHandle';
 
 export type TableCssVariables = {
   table:
@@ -52,11 +55,66 @@ export type TableCssVariables = {
     | '--table-sticky-header-offset';
 };
 
+interface TableColumnBase<Record = any> {
+  /** Content of the header cell */
+  header?: React.ReactNode;
+
+  /** Renders cell content, by default the value returned by `accessor` is rendered */
+  render?: (record: Record, index: number) => React.ReactNode;
+
+  /** If set, the column can be sorted by clicking its header @default `false` */
+  sortable?: boolean;
+
+  /** Initial column width in px */
+  width?: number;
+
+  /** Minimum column width in px, used as a limit when the column is resized @default `50` */
+  minWidth?: number;
+
+  /** If set, the column can be resized by dragging its header border @default `false` */
+  resizable?: boolean;
+
+  /** If set, the column sticks to the given side of `Table.ScrollContainer` when scrolled horizontally */
+  pinned?: 'left' | 'right';
+}
+
+interface TableKeyColumn<Record = any> extends TableColumnBase<Record> {
+  /** Key of the record, the value is used to render and sort the column */
+  accessor: keyof Record & string;
+
+  /** Unique column id @default `accessor` */
+  id?: string;
+}
+
+interface TableFunctionColumn<Record = any> extends TableColumnBase<Record> {
+  /** Function that returns cell value, the value is used to render and sort the column */
+  accessor: (record: Record) => any;
+
+  /** Unique column id, used as sort `columnId` and React key */
+  id: string;
+}
+
+export type TableColumn<Record = any> = TableKeyColumn<Record> | TableFunctionColumn<Record>;
+
+export interface TableSortStatus {
+  /** Id of the sorted column */
+  columnId: string;
+
+  /** Sort direction */
+  direction: 'asc' | 'desc';
+}
+
 export interface TableData {
   head?: React.ReactNode[];
   body?: React.ReactNode[][];
   foot?: React.ReactNode[];
   caption?: string;
+
+  /** Columns definitions, if set, `head` and `body` are generated from `columns` and `records` */
+  columns?: TableColumn[];
+
+  /** Records rendered as table rows, used with `columns` */
+  records?: any[];
 }
 
 export interface TableProps extends BoxProps, StylesApiProps<TableFactory>, ElementProps<'table'> {
@@ -107,6 +165,33 @@ export interface TableProps extends BoxProps, StylesApiProps<TableFactory>, Elem
 
   /** If set, `font-variant-numeric: tabular-nums` style is applied @default `false` */
   tabularNums?: boolean;
+
+  /** Controlled sort status of `data.columns` */
+  sortStatus?: TableSortStatus | null;
+
+  /** Uncontrolled sort status of `data.columns` */
+  defaultSortStatus?: TableSortStatus | null;
+
+  /** Called when `data.columns` sort status changes */
+  onSortStatusChange?: (sortStatus: TableSortStatus | null) => void;
+
+  /** Called when one of `data.columns` is resized */
+  onColumnResize?: (columnId: string, width: number) => void;
+
+  /** If set, a column with checkboxes is added before `data.columns` to select rows @default `false` */
+  withRowSelection?: boolean;
+
+  /** Controlled ids of selected rows, used with `withRowSelection` */
+  selectedRows?: string[];
+
+  /** Uncontrolled ids of selected rows, used with `withRowSelection` */
+  defaultSelectedRows?: string[];
+
+  /** Called when selected rows change */
+  onSelectedRowsChange?: (selectedRows: string[]) => void;
+
+  /** Returns id of the row used in `selectedRows` and as row key, by default index of the record in `data.records` is used */
+  getRowId?: (record: any, index: number) => string;
 }
 
 export type TableFactory = Factory<{
@@ -118,6 +203,7 @@ export type TableFactory = Factory<{
   staticComponents: {
     Thead: typeof TableThead;
     Tbody: typeof TableTbody;
+    VirtualizedTbody: typeof TableVirtualizedTbody;
     Tfoot: typeof TableTfoot;
     Td: typeof TableTd;
     Th: typeof TableTh;
@@ -195,6 +281,15 @@ export const Table = factory<TableFactory>((_props, ref) => {
     stickyHeaderOffset,
     mod,
     tabularNums,
+    sortStatus,
+    defaultSortStatus,
+    onSortStatusChange,
+    onColumnResize,
+    withRowSelection,
+    selectedRows,
+    defaultSelectedRows,
+    onSelectedRowsChange,
+    getRowId,
     attributes,
     ...others
   } = props;
@@ -234,7 +329,21 @@ export const Table = factory<TableFactory>((_props, ref) => {
         {...getStyles('table')}
         {...others}
       >
-        {children || (!!data && <TableDataRenderer data={data} />)}
+        {children ||
+          (!!data && (
+            <TableDataRenderer
+              data={data}
+              sortStatus={sortStatus}
+              defaultSortStatus={defaultSortStatus}
+              onSortStatusChange={onSortStatusChange}
+              onColumnResize={onColumnResize}
+              withRowSelection={withRowSelection}
+              selectedRows={selectedRows}
+              defaultSelectedRows={defaultSelectedRows}
+              onSelectedRowsChange={onSelectedRowsChange}
+              getRowId={getRowId}
+            />
+          ))}
       </Box>
     </TableProvider>
   );
@@ -247,6 +356,7 @@ Table.Th = TableTh;
 Table.Tr = TableTr;
 Table.Thead = TableThead;
 Table.Tbody = TableTbody;
+Table.VirtualizedTbody = TableVirtualizedTbody;
 Table.Tfoot = TableTfoot;
 Table.Caption = TableCaption;
 Table.ScrollContainer = TableScrollContainer;
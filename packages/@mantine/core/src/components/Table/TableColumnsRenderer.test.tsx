@@ -0,0 +1,219 @@
+import { fireEvent } from '@testing-library/react';
+import { render, screen, userEvent } from '@mantine-tests/core';
+import { Table, TableColumn } from './Table';
+
+interface Element {
+  name: string;
+  symbol: string;
+  mass: number;
+}
+
+const records: Element[] = [
+  { name: 'Carbon', symbol: 'C', mass: 12.011 },
+  { name: 'Nitrogen', symbol: 'N', mass: 14.007 },
+  { name: 'Boron', symbol: 'B', mass: 10.811 },
+];
+
+const columns: TableColumn<Element>[] = [
+  { accessor: 'name', header: 'Name', sortable: true, pinned: 'left' },
+  { accessor: 'symbol', header: 'Symbol', render: (record) => `[${record.symbol}]` },
+  { accessor: 'mass', header: 'Mass', sortable: true, resizable: true, width: 120 },
+];
+
+const getColumnValues = (index: number) =>
+  Array.from(document.querySelectorAll('tbody tr')).map(
+    (row) => row.querySelectorAll('td')[index].textContent
+  );
+
+describe('@mantine/core/TableColumnsRenderer', () => {
+  it('renders head and body based on columns and records', () => {
+    render(<Table data={{ columns, records }} />);
+    expect(
+      Array.from(document.querySelectorAll('thead th')).map((th) => th.textContent)
+    ).toStrictEqual(['Name', 'Symbol', 'Mass']);
+    expect(getColumnValues(0)).toStrictEqual(['Carbon', 'Nitrogen', 'Boron']);
+    expect(getColumnValues(1)).toStrictEqual(['[C]', '[N]', '[B]']);
+  });
+
+  it('sorts records when sortable column header is clicked', async () => {
+    render(<Table data={{ columns, records }} />);
+    const header = screen.getByRole('columnheader', { name: 'Name' });
+    expect(header).toHaveAttribute('aria-sort', 'none');
+    expect(screen.getByRole('columnheader', { name: 'Symbol' })).not.toHaveAttribute('aria-sort');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Name' }));
+    expect(header).toHaveAttribute('aria-sort', 'ascending');
+    expect(getColumnValues(0)).toStrictEqual(['Boron', 'Carbon', 'Nitrogen']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Name' }));
+    expect(header).toHaveAttribute('aria-sort', 'descending');
+    expect(getColumnValues(0)).toStrictEqual(['Nitrogen', 'Carbon', 'Boron']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Name' }));
+    expect(header).toHaveAttribute('aria-sort', 'none');
+    expect(getColumnValues(0)).toStrictEqual(['Carbon', 'Nitrogen', 'Boron']);
+  });
+
+  it('keeps rows state attached to records when records are sorted', async () => {
+    render(
+      <Table
+        data={{
+          columns: [
+            ...columns,
+            {
+              id: 'note',
+              accessor: () => null,
+              render: (record) => <input aria-label={`${record.name} note`} />,
+            },
+          ],
+          records,
+        }}
+      />
+    );
+
+    const input = screen.getByRole('textbox', { name: 'Carbon note' });
+    fireEvent.change(input, { target: { value: 'organic' } });
+    await userEvent.click(screen.getByRole('button', { name: 'Name' }));
+
+    expect(screen.getByRole('textbox', { name: 'Carbon note' })).toBe(input);
+    expect(screen.getByRole('textbox', { name: 'Carbon note' })).toHaveValue('organic');
+    expect(screen.getByRole('textbox', { name: 'Boron note' })).toHaveValue('');
+  });
+
+  it('supports controlled sort status', async () => {
+    const spy = jest.fn();
+    render(
+      <Table
+        data={{ columns, records }}
+        sortStatus={{ columnId: 'mass', direction: 'desc' }}
+        onSortStatusChange={spy}
+      />
+    );
+    expect(getColumnValues(0)).toStrictEqual(['Nitrogen', 'Carbon', 'Boron']);
+    await userEvent.click(screen.getByRole('button', { name: 'Name' }));
+    expect(spy).toHaveBeenCalledWith({ columnId: 'name', direction: 'asc' });
+    expect(getColumnValues(0)).toStrictEqual(['Nitrogen', 'Carbon', 'Boron']);
+  });
+
+  it('resizes columns with keyboard', () => {
+    const spy = jest.fn();
+    render(<Table data={{ columns, records }} onColumnResize={spy} />);
+    const handle = screen.getByRole('separator');
+    expect(handle).toHaveAttribute('aria-valuenow', '120');
+
+    fireEvent.keyDown(handle, { key: 'ArrowRight' });
+    expect(spy).toHaveBeenLastCalledWith('mass', 130);
+    expect(handle).toHaveAttribute('aria-valuenow', '130');
+
+    fireEvent.keyDown(handle, { key: 'ArrowLeft' });
+    expect(spy).toHaveBeenLastCalledWith('mass', 120);
+  });
+
+  it('resizes columns by dragging the handle', () => {
+    const spy = jest.fn();
+    render(<Table data={{ columns, records }} onColumnResize={spy} />);
+    const handle = screen.getByRole('separator');
+    fireEvent.mouseDown(handle, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 140 });
+    expect(screen.getByRole('columnheader', { name: 'Mass' })).toHaveStyle({ width: '160px' });
+    fireEvent.mouseUp(document);
+    expect(spy).toHaveBeenCalledWith('mass', 160);
+  });
+
+  it('does not resize columns below minWidth', () => {
+    const spy = jest.fn();
+    render(<Table data={{ columns, records }} onColumnResize={spy} />);
+    fireEvent.mouseDown(screen.getByRole('separator'), { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 0 });
+    fireEvent.mouseUp(document);
+    expect(spy).toHaveBeenCalledWith('mass', 50);
+  });
+
+  it('sets data-pinned attribute on pinned column cells', () => {
+    render(<Table data={{ columns, records }} />);
+    expect(screen.getByRole('columnheader', { name: 'Name' })).toHaveAttribute(
+      'data-pinned',
+      'left'
+    );
+    expect(screen.getByRole('cell', { name: 'Carbon' })).toHaveAttribute('data-pinned', 'left');
+    expect(screen.getByRole('cell', { name: '[C]' })).not.toHaveAttribute('data-pinned');
+  });
+
+  it('adds checkbox column when withRowSelection is set', async () => {
+    const spy = jest.fn();
+    render(<Table data={{ columns, records }} withRowSelection onSelectedRowsChange={spy} />);
+    const rowsCheckboxes = screen.getAllByRole('checkbox', { name: 'Select row' });
+    expect(rowsCheckboxes).toHaveLength(3);
+    expect(screen.getByRole('cell', { name: 'Carbon' })).toHaveAttribute('data-pinned', 'left');
+
+    await userEvent.click(rowsCheckboxes[1]);
+    expect(spy).toHaveBeenLastCalledWith(['1']);
+    expect(rowsCheckboxes[1]).toBeChecked();
+    expect(document.querySelectorAll('tbody tr')[1]).toHaveAttribute('data-selected');
+  });
+
+  it('sets indeterminate state of select all checkbox', async () => {
+    const spy = jest.fn();
+    render(
+      <Table
+        data={{ columns, records }}
+        withRowSelection
+        selectedRows={['0']}
+        onSelectedRowsChange={spy}
+      />
+    );
+    const selectAll = screen.getByRole('checkbox', { name: 'Select all rows' });
+    expect(selectAll).toHaveAttribute('data-indeterminate', 'true');
+    expect(selectAll).not.toBeChecked();
+
+    await userEvent.click(selectAll);
+    expect(spy).toHaveBeenLastCalledWith(['0', '1', '2']);
+  });
+
+  it('deselects all rows when all rows are selected', async () => {
+    const spy = jest.fn();
+    render(
+      <Table
+        data={{ columns, records }}
+        withRowSelection
+        selectedRows={['0', '1', '2']}
+        onSelectedRowsChange={spy}
+      />
+    );
+    const selectAll = screen.getByRole('checkbox', { name: 'Select all rows' });
+    expect(selectAll).toBeChecked();
+    await userEvent.click(selectAll);
+    expect(spy).toHaveBeenLastCalledWith([]);
+  });
+
+  it('selects range of rows with shift click', async () => {
+    const spy = jest.fn();
+    render(
+      <Table
+        data={{ columns, records }}
+        withRowSelection
+        getRowId={(record) => record.symbol}
+        defaultSortStatus={{ columnId: 'name', direction: 'asc' }}
+        onSelectedRowsChange={spy}
+      />
+    );
+    const rowsCheckboxes = screen.getAllByRole('checkbox', { name: 'Select row' });
+    await userEvent.click(rowsCheckboxes[0]);
+    expect(spy).toHaveBeenLastCalledWith(['B']);
+
+    fireEvent.click(rowsCheckboxes[2], { shiftKey: true });
+    expect(spy).toHaveBeenLastCalledWith(['B', 'C', 'N']);
+
+    fireEvent.click(rowsCheckboxes[1], { shiftKey: true });
+    expect(spy).toHaveBeenLastCalledWith(['B']);
+  });
+
+  it('selects range of rows with Shift + Space', async () => {
+    const spy = jest.fn();
+    render(<Table data={{ columns, records }} withRowSelection onSelectedRowsChange={spy} />);
+    const rowsCheckboxes = screen.getAllByRole('checkbox', { name: 'Select row' });
+    await userEvent.click(rowsCheckboxes[0]);
+    fireEvent.keyDown(rowsCheckboxes[2], { key: ' ', shiftKey: true });
+    expect(spy).toHaveBeenLastCalledWith(['0', '1', '2']);
+  });
+});
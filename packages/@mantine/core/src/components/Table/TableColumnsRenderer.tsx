@@ -0,0 +1,374 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useIsomorphicEffect, useUncontrolled } from '@mantine/hooks';
+import { Box, getSelectionRange, rem, useDirection } from '../../core';
+import { Checkbox } from '../Checkbox';
+import { UnstyledButton } from '../UnstyledButton';
+import {
+  getColumnId,
+  getColumnValue,
+  getNextSortStatus,
+  sortTableRecords,
+} from './sort-table-records/sort-table-records';
+import type { TableColumn, TableData, TableSortStatus } from './Table';
+import {
+  TableCaption,
+  TableTbody,
+  TableTd,
+  TableTfoot,
+  TableTh,
+  TableThead,
+  TableTr,
+} from './Table.components';
+import { useTableContext } from './Table.context';
+
+const SELECTION_COLUMN_ID = '__selection';
+const DEFAULT_MIN_WIDTH = 50;
+const KEYBOARD_RESIZE_STEP = 10;
+
+const SORT_ICON_PATHS = {
+  asc: 'M3.13523 8.84197C3.3241 9.04343 3.64052 9.05363 3.84197 8.86477L7.5 5.43536L11.158 8.86477C11.3595 9.05363 11.6759 9.04343 11.8648 8.84197C12.0536 8.64051 12.0434 8.32409 11.842 8.13523L7.84197 4.38523C7.64964 4.20492 7.35036 4.20492 7.15803 4.38523L3.15803 8.13523C2.95657 8.32409 2.94637 8.64051 3.13523 8.84197Z',
+  desc: 'M3.13523 6.15803C3.3241 5.95657 3.64052 5.94637 3.84197 6.13523L7.5 9.56464L11.158 6.13523C11.3595 5.94637 11.6759 5.95657 11.8648 6.15803C12.0536 6.35949 12.0434 6.67591 11.842 6.86477L7.84197 10.6148C7.64964 10.7951 7.35036 10.7951 7.15803 10.6148L3.15803 6.86477C2.95657 6.67591 2.94637 6.35949 3.13523 6.15803Z',
+  none: 'M4.93179 5.43179C4.75605 5.60753 4.75605 5.89245 4.93179 6.06819C5.10753 6.24392 5.39245 6.24392 5.56819 6.06819L7.49999 4.13638L9.43179 6.06819C9.60753 6.24392 9.89245 6.24392 10.0682 6.06819C10.2439 5.89245 10.2439 5.60753 10.0682 5.43179L7.81819 3.18179C7.73379 3.0974 7.61933 3.04999 7.49999 3.04999C7.38064 3.04999 7.26618 3.0974 7.18179 3.18179L4.93179 5.43179ZM10.0682 9.56819C10.2439 9.39245 10.2439 9.10753 10.0682 8.93179C9.89245 8.75606 9.60753 8.75606 9.43179 8.93179L7.49999 10.8636L5.56819 8.93179C5.39245 8.75606 5.10753 8.75606 4.93179 8.93179C4.75605 9.10753 4.75605 9.39245 4.93179 9.56819L7.18179 11.8182C7.35753 11.9939 7.64245 11.9939 7.81819 11.8182L10.0682 9.56819Z',
+};
+
+function TableSortIcon({ direction }: { direction: 'asc' | 'desc' | 'none' }) {
+  return (
+    <svg
+      viewBox="0 0 15 15"
+      fill="none"
+      xmlns="http://www.w3.org/2000/svg"
+      style={{ width: rem(14), height: rem(14), display: 'block', flexShrink: 0 }}
+      aria-hidden
+    >
+      <path
+        d={SORT_ICON_PATHS[direction]}
+        fill="currentColor"
+        fillRule="evenodd"
+        clipRule="evenodd"
+      />
+    </svg>
+  );
+}
+
+function getAriaSort(column: TableColumn, direction: 'asc' | 'desc' | 'none') {
+  if (!column.sortable) {
+    return undefined;
+  }
+
+  return direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none';
+}
+
+export interface TableColumnsRendererProps {
+  data: TableData;
+  columns: TableColumn[];
+  sortStatus?: TableSortStatus | null;
+  defaultSortStatus?: TableSortStatus | null;
+  onSortStatusChange?: (sortStatus: TableSortStatus | null) => void;
+  onColumnResize?: (columnId: string, width: number) => void;
+  withRowSelection?: boolean;
+  selectedRows?: string[];
+  defaultSelectedRows?: string[];
+  onSelectedRowsChange?: (selectedRows: string[]) => void;
+  getRowId?: (record: any, index: number) => string;
+}
+
+export function TableColumnsRenderer({
+  data,
+  columns,
+  sortStatus,
+  defaultSortStatus,
+  onSortStatusChange,
+  onColumnResize,
+  withRowSelection,
+  selectedRows,
+  defaultSelectedRows,
+  onSelectedRowsChange,
+  getRowId,
+}: TableColumnsRendererProps) {
+  const ctx = useTableContext();
+  const { dir } = useDirection();
+  const headerRefs = useRef<Record<string, HTMLTableCellElement | null>>({});
+  const stopResizeRef = useRef<(() => void) | null>(null);
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [resizing, setResizing] = useState<string | null>(null);
+  const [offsets, setOffsets] = useState<Record<string, number>>({});
+  const [widths, setWidths] = useState<Record<string, number>>(() =>
+    columns.reduce<Record<string, number>>((acc, column) => {
+      if (column.width !== undefined) {
+        acc[getColumnId(column)] = column.width;
+      }
+      return acc;
+    }, {})
+  );
+
+  const [_sortStatus, setSortStatus] = useUncontrolled<TableSortStatus | null>({
+    value: sortStatus,
+    defaultValue: defaultSortStatus,
+    finalValue: null,
+    onChange: onSortStatusChange,
+  });
+
+  const [_selectedRows, setSelectedRows] = useUncontrolled<string[]>({
+    value: selectedRows,
+    defaultValue: defaultSelectedRows,
+    finalValue: [],
+    onChange: onSelectedRowsChange,
+  });
+
+  const records = useMemo(
+    () => sortTableRecords(data.records || [], columns, _sortStatus),
+    [data.records, columns, _sortStatus]
+  );
+
+  const rowsIds = useMemo(
+    () =>
+      new Map(
+        (data.records || []).map((record, index) => [
+          record,
+          getRowId ? getRowId(record, index) : String(index),
+        ])
+      ),
+    [data.records, getRowId]
+  );
+
+  const visibleRowsIds = records.map((record) => rowsIds.get(record)!);
+  const selectedRowsSet = new Set(_selectedRows);
+  const selectedVisibleCount = visibleRowsIds.filter((id) => selectedRowsSet.has(id)).length;
+  const allRowsSelected =
+    visibleRowsIds.length > 0 && selectedVisibleCount === visibleRowsIds.length;
+
+  const toggleAllRows = () => {
+    const visibleRowsSet = new Set(visibleRowsIds);
+    setSelectedRows(
+      allRowsSelected
+        ? _selectedRows.filter((id) => !visibleRowsSet.has(id))
+        : Array.from(new Set([..._selectedRows, ...visibleRowsIds]))
+    );
+  };
+
+  const toggleRow = (id: string, withRange: boolean) => {
+    const range = withRange
+      ? getSelectionRange(selectionAnchorRef.current, id, visibleRowsIds)
+      : [];
+    const rangeSet = new Set(range.length > 0 ? range : [id]);
+    selectionAnchorRef.current = id;
+
+    setSelectedRows(
+      selectedRowsSet.has(id)
+        ? _selectedRows.filter((rowId) => !rangeSet.has(rowId))
+        : Array.from(new Set([..._selectedRows, ...rangeSet]))
+    );
+  };
+
+  const selectionColumn: TableColumn = {
+    id: SELECTION_COLUMN_ID,
+    accessor: () => null,
+    pinned: columns[0]?.pinned === 'left' ? 'left' : undefined,
+    header: (
+      <Checkbox
+        aria-label="Select all rows"
+        checked={allRowsSelected}
+        indeterminate={selectedVisibleCount > 0 && !allRowsSelected}
+        onChange={toggleAllRows}
+      />
+    ),
+    render: (record) => {
+      const id = rowsIds.get(record)!;
+      return (
+        <Checkbox
+          aria-label="Select row"
+          checked={selectedRowsSet.has(id)}
+          onChange={(event) => toggleRow(id, (event.nativeEvent as MouseEvent).shiftKey)}
+          onKeyDown={(event) => {
+            if (event.key === ' ' && event.shiftKey) {
+              event.preventDefault();
+              toggleRow(id, true);
+            }
+          }}
+        />
+      );
+    },
+  };
+
+  const renderedColumns = withRowSelection ? [selectionColumn, ...columns] : columns;
+
+  useIsomorphicEffect(() => {
+    const nextOffsets: Record<string, number> = {};
+    const measure = (pinnedColumns: TableColumn[]) =>
+      pinnedColumns.reduce((offset, column) => {
+        const id = getColumnId(column);
+        nextOffsets[id] = offset;
+        return offset + (headerRefs.current[id]?.offsetWidth || 0);
+      }, 0);
+
+    measure(renderedColumns.filter((column) => column.pinned === 'left'));
+    measure(renderedColumns.filter((column) => column.pinned === 'right').reverse());
+
+    const changed =
+      Object.keys(nextOffsets).length !== Object.keys(offsets).length ||
+      Object.keys(nextOffsets).some((id) => nextOffsets[id] !== offsets[id]);
+
+    if (changed) {
+      setOffsets(nextOffsets);
+    }
+  }, [columns, withRowSelection, records, widths]);
+
+  useEffect(() => () => stopResizeRef.current?.(), []);
+
+  const getColumnWidth = (id: string) =>
+    widths[id] ?? headerRefs.current[id]?.getBoundingClientRect().width ?? 0;
+
+  const setColumnWidth = (column: TableColumn, width: number) => {
+    const id = getColumnId(column);
+    const nextWidth = Math.max(column.minWidth ?? DEFAULT_MIN_WIDTH, Math.round(width));
+    setWidths((current) => ({ ...current, [id]: nextWidth }));
+    return nextWidth;
+  };
+
+  const startResize = (column: TableColumn, startPosition: number) => {
+    const id = getColumnId(column);
+    const startWidth = getColumnWidth(id);
+    let width = startWidth;
+    setResizing(id);
+
+    const handleMove = (position: number) => {
+      const delta = (position - startPosition) * (dir === 'rtl' ? -1 : 1);
+      width = setColumnWidth(column, startWidth + delta);
+    };
+
+    const handleMouseMove = (event: MouseEvent) => handleMove(event.clientX);
+    const handleTouchMove = (event: TouchEvent) => handleMove(event.touches[0].clientX);
+
+    const stopResize = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', stopResize);
+      document.removeEventListener('touchmove', handleTouchMove);
+      document.removeEventListener('touchend', stopResize);
+      stopResizeRef.current = null;
+      setResizing(null);
+      onColumnResize?.(id, width);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', stopResize);
+    document.addEventListener('touchmove', handleTouchMove);
+    document.addEventListener('touchend', stopResize);
+    stopResizeRef.current = stopResize;
+  };
+
+  const handleResizeKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, column: TableColumn) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') {
+      return;
+    }
+
+    event.preventDefault();
+    const increase = (event.key === 'ArrowRight') === (dir === 'ltr');
+    const id = getColumnId(column);
+    const width = setColumnWidth(
+      column,
+      getColumnWidth(id) + (increase ? KEYBOARD_RESIZE_STEP : -KEYBOARD_RESIZE_STEP)
+    );
+    onColumnResize?.(id, width);
+  };
+
+  const getPinnedProps = (column: TableColumn) =>
+    column.pinned
+      ? { __vars: { '--table-pinned-offset': rem(offsets[getColumnId(column)] || 0) } }
+      : {};
+
+  return (
+    <>
+      {data.caption && <TableCaption>{data.caption}</TableCaption>}
+
+      <TableThead>
+        <TableTr>
+          {renderedColumns.map((column) => {
+            const id = getColumnId(column);
+            const direction = _sortStatus?.columnId === id ? _sortStatus.direction : 'none';
+
+            return (
+              <TableTh
+                key={id}
+                ref={(node) => {
+                  headerRefs.current[id] = node;
+                }}
+                aria-sort={getAriaSort(column, direction)}
+                mod={{
+                  sortable: column.sortable,
+                  resizable: column.resizable,
+                  resizing: resizing === id,
+                  pinned: column.pinned,
+                }}
+                style={{ width: widths[id], minWidth: column.minWidth }}
+                {...getPinnedProps(column)}
+              >
+                {column.sortable ? (
+                  <UnstyledButton
+                    {...ctx.getStyles('sortButton')}
+                    mod={{ sorted: direction !== 'none' }}
+                    onClick={() => setSortStatus(getNextSortStatus(_sortStatus, id))}
+                  >
+                    {column.header}
+                    <TableSortIcon direction={direction} />
+                  </UnstyledButton>
+                ) : (
+                  column.header
+                )}
+
+                {column.resizable && (
+                  <Box
+                    {...ctx.getStyles('resizeHandle')}
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-valuenow={widths[id]}
+                    aria-valuemin={column.minWidth ?? DEFAULT_MIN_WIDTH}
+                    tabIndex={0}
+                    mod={{ resizing: resizing === id }}
+                    onMouseDown={(event) => {
+                      event.preventDefault();
+                      startResize(column, event.clientX);
+                    }}
+                    onTouchStart={(event) => startResize(column, event.touches[0].clientX)}
+                    onKeyDown={(event) => handleResizeKeyDown(event, column)}
+                    onClick={(event) => event.stopPropagation()}
+                  />
+                )}
+              </TableTh>
+            );
+          })}
+        </TableTr>
+      </TableThead>
+
+      <TableTbody>
+        {records.map((record, rowIndex) => (
+          <TableTr
+            key={rowsIds.get(record)}
+            mod={{ selected: withRowSelection && selectedRowsSet.has(rowsIds.get(record)!) }}
+          >
+            {renderedColumns.map((column) => (
+              <TableTd
+                key={getColumnId(column)}
+                mod={{ pinned: column.pinned }}
+                {...getPinnedProps(column)}
+              >
+                {column.render ? column.render(record, rowIndex) : getColumnValue(record, column)}
+              </TableTd>
+            ))}
+          </TableTr>
+        ))}
+      </TableTbody>
+
+      {data.foot && (
+        <TableTfoot>
+          <TableTr>
+            {data.foot.map((item, index) => (
+              <TableTh key={index}>{item}</TableTh>
+            ))}
+          </TableTr>
+        </TableTfoot>
+      )}
+    </>
+  );
+}
+
+TableColumnsRenderer.displayName = '@mantine/core/TableColumnsRenderer';
@@ -1,4 +1,4 @@
-import type { TableData } from './Table';
+import type { TableData, TableSortStatus } from './Table';
 import {
   TableCaption,
   TableTbody,
@@ -8,12 +8,26 @@ import {
   TableThead,
   TableTr,
 } from './Table.components';
+import { TableColumnsRenderer } from './TableColumnsRenderer';
 
 export interface TableDataRendererProps {
   data: TableData;
+  sortStatus?: TableSortStatus | null;
+  defaultSortStatus?: TableSortStatus | null;
+  onSortStatusChange?: (sortStatus: TableSortStatus | null) => void;
+  onColumnResize?: (columnId: string, width: number) => void;
+  withRowSelection?: boolean;
+  selectedRows?: string[];
+  defaultSelectedRows?: string[];
+  onSelectedRowsChange?: (selectedRows: string[]) => void;
+  getRowId?: (record: any, index: number) => string;
 }
 
-export function TableDataRenderer({ data }: TableDataRendererProps) {
+export function TableDataRenderer({ data, ...others }: TableDataRendererProps) {
+  if (data.columns) {
+    return <TableColumnsRenderer data={data} columns={data.columns} {...others} />;
+  }
+
   return (
     <>
       {data.caption && <TableCaption>{data.caption}</TableCaption>}
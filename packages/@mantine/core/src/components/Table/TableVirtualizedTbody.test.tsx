@@ -0,0 +1,101 @@
+import { createRef } from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { render, screen } from '@mantine-tests/core';
+import { Table } from './Table';
+import { TableScrollToIndex, TableVirtualizedTbodyProps } from './TableVirtualizedTbody';
+
+const VIEWPORT_HEIGHT = 100;
+const ROW_HEIGHT = 20;
+
+function renderVirtualized(props: Partial<TableVirtualizedTbodyProps> = {}) {
+  const scrollParentRef = createRef<HTMLDivElement>();
+
+  const result = render(
+    <div ref={scrollParentRef} data-testid="scroll-parent">
+      <Table striped>
+        <Table.VirtualizedTbody
+          rowsCount={1000}
+          rowHeight={ROW_HEIGHT}
+          renderRow={(index) => <Table.Td>row-{index}</Table.Td>}
+          scrollParentRef={scrollParentRef}
+          {...props}
+        />
+      </Table>
+    </div>
+  );
+
+  return { ...result, scrollParent: scrollParentRef.current! };
+}
+
+const getRenderedIndices = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('tr[data-index]')).map((row) =>
+    Number(row.getAttribute('data-index'))
+  );
+
+describe('@mantine/core/TableVirtualizedTbody', () => {
+  let scrollTop = 0;
+
+  beforeEach(() => {
+    scrollTop = 0;
+    jest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(VIEWPORT_HEIGHT);
+    jest
+      .spyOn(HTMLTableSectionElement.prototype, 'getBoundingClientRect')
+      .mockImplementation(() => ({ top: -scrollTop, height: 0 }) as DOMRect);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders only visible rows and overscan', () => {
+    const { container } = renderVirtualized();
+    expect(getRenderedIndices(container)).toStrictEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(screen.getByText('row-0')).toBeInTheDocument();
+    expect(screen.queryByText('row-10')).not.toBeInTheDocument();
+  });
+
+  it('updates rendered rows on scroll', () => {
+    const { container, scrollParent } = renderVirtualized({ overscan: 2 });
+
+    scrollTop = 1000;
+    act(() => {
+      fireEvent.scroll(scrollParent);
+    });
+
+    expect(getRenderedIndices(container)).toStrictEqual([48, 49, 50, 51, 52, 53, 54, 55, 56]);
+    expect(container.querySelector('tr[aria-hidden]')).toHaveStyle({ height: '960px' });
+  });
+
+  it('sets striped attribute based on row index', () => {
+    const { container, scrollParent } = renderVirtualized({ overscan: 0 });
+
+    scrollTop = 20;
+    act(() => {
+      fireEvent.scroll(scrollParent);
+    });
+
+    expect(container.querySelector('tr[data-index="1"]')).not.toHaveAttribute('data-striped-row');
+    expect(container.querySelector('tr[data-index="2"]')).toHaveAttribute('data-striped-row');
+    expect(container.querySelector('tr[data-index="2"]')).not.toHaveAttribute('data-striped');
+  });
+
+  it('assigns scrollToIndex function to scrollToIndexRef', () => {
+    const scrollToIndexRef = createRef<TableScrollToIndex>();
+    const { container, scrollParent } = renderVirtualized({ scrollToIndexRef, overscan: 0 });
+
+    scrollParent.scrollTop = 0;
+    act(() => scrollToIndexRef.current!(500, { align: 'start' }));
+    expect(scrollParent.scrollTop).toBe(10000);
+
+    scrollTop = 10000;
+    act(() => {
+      fireEvent.scroll(scrollParent);
+    });
+    expect(getRenderedIndices(container)[0]).toBe(500);
+  });
+
+  it('passes props returned by getRowProps to rows', () => {
+    renderVirtualized({ getRowProps: (index) => ({ 'aria-label': `row ${index}` }) });
+    expect(screen.getByLabelText('row 3')).toBeInTheDocument();
+  });
+});
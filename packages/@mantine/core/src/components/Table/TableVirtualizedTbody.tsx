@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { assignRef, useIsomorphicEffect, useMergedRef } from '@mantine/hooks';
+import { Box, ElementProps, factory, Factory, useProps } from '../../core';
+import {
+  getRowsOffsets,
+  getScrollToIndexOffset,
+  getVisibleRowsRange,
+  TableScrollAlign,
+} from './get-virtual-rows/get-virtual-rows';
+import { TableElementProps, TableTr, TableTrProps } from './Table.components';
+import { TableProvider, useTableContext } from './Table.context';
+import classes from './Table.module.css';
+
+export type TableScrollToIndex = (index: number, options?: { align?: TableScrollAlign }) => void;
+
+export interface TableVirtualizedTbodyProps
+  extends TableElementProps<'tbody'>,
+    Omit<ElementProps<'tbody'>, 'children'> {
+  /** Total number of rows */
+  rowsCount: number;
+
+  /** Renders cells of the row with the given index */
+  renderRow: (index: number) => React.ReactNode;
+
+  /** Height of each row in px, used as an estimated height when `measureRows` is set */
+  rowHeight: number;
+
+  /** If set, rows are measured after render, use it when rows have different heights @default `false` */
+  measureRows?: boolean;
+
+  /** Number of rows rendered above and below the visible area @default `5` */
+  overscan?: number;
+
+  /** Props passed down to `Table.Tr` of the row with the given index */
+  getRowProps?: (index: number) => TableTrProps;
+
+  /** Returns key of the row with the given index, by default index is used */
+  getRowKey?: (index: number) => React.Key;
+
+  /** Scrollable element that contains the table, for example, `viewportRef` of `ScrollArea`. If not set, the closest scrollable parent is used. */
+  scrollParentRef?: React.RefObject<HTMLElement | null>;
+
+  /** Assigns function that scrolls the row with the given index into view */
+  scrollToIndexRef?: React.Ref<TableScrollToIndex>;
+}
+
+export type TableVirtualizedTbodyFactory = Factory<{
+  props: TableVirtualizedTbodyProps;
+  ref: HTMLTableSectionElement;
+  stylesNames: 'tbody';
+  compound: true;
+}>;
+
+const defaultProps = {
+  overscan: 5,
+} satisfies Partial<TableVirtualizedTbodyProps>;
+
+function getScrollParent(node: HTMLElement) {
+  let parent = node.parentElement;
+
+  while (parent) {
+    if (/(auto|scroll|overlay)/.test(window.getComputedStyle(parent).overflowY)) {
+      return parent;
+    }
+
+    parent = parent.parentElement;
+  }
+
+  return null;
+}
+
+function getScrollMetrics(
+  tbody: HTMLTableSectionElement,
+  scrollParent: HTMLElement | null,
+  stickyHeader: boolean | undefined
+) {
+  const table = tbody.parentElement as HTMLTableElement | null;
+  const headerHeight = stickyHeader ? table?.tHead?.getBoundingClientRect().height || 0 : 0;
+  const viewportTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+  const viewportHeight = scrollParent ? scrollParent.clientHeight : window.innerHeight;
+
+  return {
+    scrollOffset: viewportTop + headerHeight - tbody.getBoundingClientRect().top,
+    viewportHeight: Math.max(0, viewportHeight - headerHeight),
+  };
+}
+
+function isStripedRow(index: number, striped: 'odd' | 'even' | undefined) {
+  return striped === 'odd' ? index % 2 === 0 : striped === 'even' ? index % 2 === 1 : false;
+}
+
+function TableVirtualSpacer({ height }: { height: number }) {
+  return height > 0 ? (
+    <tr aria-hidden style={{ height }}>
+      <td style={{ padding: 0, border: 0 }} />
+    </tr>
+  ) : null;
+}
+
+export const TableVirtualizedTbody = factory<TableVirtualizedTbodyFactory>((_props, ref) => {
+  const props = useProps('TableVirtualizedTbody', defaultProps, _props);
+  const {
+    classNames,
+    className,
+    style,
+    styles,
+    rowsCount,
+    renderRow,
+    rowHeight,
+    measureRows,
+    overscan,
+    getRowProps,
+    getRowKey,
+    scrollParentRef,
+    scrollToIndexRef,
+    ...others
+  } = props;
+
+  const ctx = useTableContext();
+  const tbodyRef = useRef<HTMLTableSectionElement>(null);
+  const mergedRef = useMergedRef(ref, tbodyRef);
+  const measuredHeights = useRef<Record<number, number>>({});
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [range, setRange] = useState(() => ({ start: 0, end: Math.min(rowsCount, overscan) }));
+
+  const offsets = useMemo(
+    () =>
+      getRowsOffsets(rowsCount, (index) =>
+        measureRows ? (measuredHeights.current[index] ?? rowHeight) : rowHeight
+      ),
+    [rowsCount, rowHeight, measureRows, measureVersion]
+  );
+
+  const getScrollElement = () =>
+    scrollParentRef?.current || (tbodyRef.current ? getScrollParent(tbodyRef.current) : null);
+
+  const updateRange = () => {
+    if (!tbodyRef.current || (scrollParentRef && !scrollParentRef.current)) {
+      return;
+    }
+
+    const metrics = getScrollMetrics(tbodyRef.current, getScrollElement(), ctx.stickyHeader);
+    const next = getVisibleRowsRange({ offsets, overscan, ...metrics });
+    setRange((current) =>
+      current.start === next.start && current.end === next.end ? current : next
+    );
+  };
+
+  const updateRangeRef = useRef(updateRange);
+  updateRangeRef.current = updateRange;
+
+  const scrollToIndex: TableScrollToIndex = (index, { align = 'auto' } = {}) => {
+    if (!tbodyRef.current) {
+      return;
+    }
+
+    const scrollElement = getScrollElement();
+    const metrics = getScrollMetrics(tbodyRef.current, scrollElement, ctx.stickyHeader);
+    const scrollOffset = getScrollToIndexOffset({ offsets, index, align, ...metrics });
+
+    if (scrollOffset === null) {
+      return;
+    }
+
+    const delta = scrollOffset - metrics.scrollOffset;
+
+    if (scrollElement) {
+      scrollElement.scrollTop += delta;
+    } else {
+      window.scrollTo({ top: window.scrollY + delta });
+    }
+
+    updateRange();
+  };
+
+  assignRef(scrollToIndexRef, scrollToIndex);
+
+  useEffect(() => {
+    const scrollElement = getScrollElement();
+    const target = scrollElement || window;
+    const handleChange = () => updateRangeRef.current();
+
+    target.addEventListener('scroll', handleChange, { passive: true });
+    window.addEventListener('resize', handleChange);
+
+    const observer =
+      scrollElement && typeof ResizeObserver !== 'undefined'
+        ? new ResizeObserver(handleChange)
+        : null;
+    observer?.observe(scrollElement!);
+    handleChange();
+
+    return () => {
+      target.removeEventListener('scroll', handleChange);
+      window.removeEventListener('resize', handleChange);
+      observer?.disconnect();
+    };
+  }, [scrollParentRef]);
+
+  useIsomorphicEffect(() => {
+    updateRange();
+  }, [offsets, overscan, ctx.stickyHeader]);
+
+  useIsomorphicEffect(() => {
+    if (!measureRows || !tbodyRef.current) {
+      return;
+    }
+
+    let changed = false;
+    Array.from(tbodyRef.current.rows).forEach((row) => {
+      if (row.dataset.index === undefined) {
+        return;
+      }
+
+      const index = Number(row.dataset.index);
+      const height = row.getBoundingClientRect().height;
+
+      if (height > 0 && measuredHeights.current[index] !== height) {
+        measuredHeights.current[index] = height;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      setMeasureVersion((current) => current + 1);
+    }
+  });
+
+  const start = Math.min(range.start, rowsCount);
+  const end = Math.min(range.end, rowsCount);
+  const rows: React.ReactNode[] = [];
+
+  for (let index = start; index < end; index += 1) {
+    const rowProps = getRowProps?.(index);
+    rows.push(
+      <TableTr
+        key={getRowKey ? getRowKey(index) : index}
+        data-index={index}
+        {...rowProps}
+        mod={[{ 'striped-row': isStripedRow(index, ctx.striped) }, rowProps?.mod]}
+      >
+        {renderRow(index)}
+      </TableTr>
+    );
+  }
+
+  return (
+    <Box
+      component="tbody"
+      ref={mergedRef}
+      {...ctx.getStyles('tbody', { className, classNames, style, styles, props })}
+      {...others}
+    >
+      <TableVirtualSpacer height={offsets[start]} />
+      <TableProvider value={{ ...ctx, striped: undefined }}>{rows}</TableProvider>
+      <TableVirtualSpacer height={offsets[rowsCount] - offsets[end]} />
+    </Box>
+  );
+});
+
+TableVirtualizedTbody.displayName = '@mantine/core/TableVirtualizedTbody';
+TableVirtualizedTbody.classes = classes;
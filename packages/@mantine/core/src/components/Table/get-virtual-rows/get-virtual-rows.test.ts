@@ -0,0 +1,58 @@
+import {
+  getRowIndexAtOffset,
+  getRowsOffsets,
+  getScrollToIndexOffset,
+  getVisibleRowsRange,
+} from './get-virtual-rows';
+
+describe('@mantine/core/Table/get-virtual-rows', () => {
+  it('returns rows offsets', () => {
+    expect(getRowsOffsets(3, () => 10)).toStrictEqual([0, 10, 20, 30]);
+    expect(getRowsOffsets(3, (index) => (index + 1) * 10)).toStrictEqual([0, 10, 30, 60]);
+    expect(getRowsOffsets(0, () => 10)).toStrictEqual([0]);
+  });
+
+  it('returns row index at given offset', () => {
+    const offsets = [0, 10, 30, 60];
+    expect(getRowIndexAtOffset(offsets, 0)).toBe(0);
+    expect(getRowIndexAtOffset(offsets, 9)).toBe(0);
+    expect(getRowIndexAtOffset(offsets, 10)).toBe(1);
+    expect(getRowIndexAtOffset(offsets, 45)).toBe(2);
+    expect(getRowIndexAtOffset(offsets, 1000)).toBe(2);
+  });
+
+  it('returns visible rows range with overscan', () => {
+    const offsets = getRowsOffsets(100, () => 10);
+    expect(
+      getVisibleRowsRange({ offsets, scrollOffset: 0, viewportHeight: 50, overscan: 2 })
+    ).toStrictEqual({ start: 0, end: 7 });
+    expect(
+      getVisibleRowsRange({ offsets, scrollOffset: 205, viewportHeight: 50, overscan: 2 })
+    ).toStrictEqual({ start: 18, end: 28 });
+    expect(
+      getVisibleRowsRange({ offsets, scrollOffset: 980, viewportHeight: 50, overscan: 2 })
+    ).toStrictEqual({ start: 96, end: 100 });
+  });
+
+  it('returns empty range when there are no rows', () => {
+    expect(
+      getVisibleRowsRange({ offsets: [0], scrollOffset: 0, viewportHeight: 50, overscan: 2 })
+    ).toStrictEqual({ start: 0, end: 0 });
+  });
+
+  it('returns scroll offset for each align', () => {
+    const offsets = getRowsOffsets(100, () => 10);
+    const input = { offsets, index: 50, scrollOffset: 0, viewportHeight: 100 };
+    expect(getScrollToIndexOffset({ ...input, align: 'start' })).toBe(500);
+    expect(getScrollToIndexOffset({ ...input, align: 'end' })).toBe(410);
+    expect(getScrollToIndexOffset({ ...input, align: 'center' })).toBe(455);
+  });
+
+  it('scrolls only when row is not visible with auto align', () => {
+    const offsets = getRowsOffsets(100, () => 10);
+    const input = { offsets, viewportHeight: 100, align: 'auto' as const };
+    expect(getScrollToIndexOffset({ ...input, index: 5, scrollOffset: 0 })).toBe(null);
+    expect(getScrollToIndexOffset({ ...input, index: 50, scrollOffset: 0 })).toBe(410);
+    expect(getScrollToIndexOffset({ ...input, index: 5, scrollOffset: 200 })).toBe(50);
+  });
+});
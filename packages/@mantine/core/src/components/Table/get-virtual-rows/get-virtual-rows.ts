@@ -0,0 +1,124 @@
+export type TableScrollAlign = 'start' | 'center' | 'end' | 'auto';
+
+/** Returns offsets of all rows, the last item is the total height of all rows */
+export function getRowsOffsets(rowsCount: number, getRowHeight: (index: number) => number) {
+  const offsets = new Array<number>(rowsCount + 1);
+  offsets[0] = 0;
+
+  for (let index = 0; index < rowsCount; index += 1) {
+    offsets[index + 1] = offsets[index] + getRowHeight(index);
+  }
+
+  return offsets;
+}
+
+/** Returns index of the row that contains given offset */
+export function getRowIndexAtOffset(offsets: number[], offset: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return Math.max(0, low);
+}
+
+interface GetVisibleRowsRangeInput {
+  /** Rows offsets returned by `getRowsOffsets` */
+  offsets: number[];
+
+  /** Scroll offset of the viewport relative to the first row */
+  scrollOffset: number;
+
+  /** Height of the visible area */
+  viewportHeight: number;
+
+  /** Number of rows rendered outside of the visible area on each side */
+  overscan: number;
+}
+
+/** Returns range of rows that should be rendered, `end` is not included */
+export function getVisibleRowsRange({
+  offsets,
+  scrollOffset,
+  viewportHeight,
+  overscan,
+}: GetVisibleRowsRangeInput) {
+  const rowsCount = offsets.length - 1;
+
+  if (rowsCount <= 0) {
+    return { start: 0, end: 0 };
+  }
+
+  const first = getRowIndexAtOffset(offsets, Math.max(0, scrollOffset));
+  const last = getRowIndexAtOffset(offsets, Math.max(0, scrollOffset + viewportHeight - 1));
+
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(rowsCount, last + overscan + 1),
+  };
+}
+
+interface GetScrollToIndexOffsetInput {
+  /** Rows offsets returned by `getRowsOffsets` */
+  offsets: number[];
+
+  /** Index of the row that should be scrolled into view */
+  index: number;
+
+  /** Current scroll offset of the viewport relative to the first row */
+  scrollOffset: number;
+
+  /** Height of the visible area, sticky header height must be subtracted */
+  viewportHeight: number;
+
+  /** Position of the row in the visible area */
+  align: TableScrollAlign;
+}
+
+/** Returns scroll offset relative to the first row at which given row is visible, `null` if scroll is not required */
+export function getScrollToIndexOffset({
+  offsets,
+  index,
+  scrollOffset,
+  viewportHeight,
+  align,
+}: GetScrollToIndexOffsetInput) {
+  const rowsCount = offsets.length - 1;
+
+  if (rowsCount <= 0) {
+    return null;
+  }
+
+  const clampedIndex = Math.min(Math.max(index, 0), rowsCount - 1);
+  const rowStart = offsets[clampedIndex];
+  const rowEnd = offsets[clampedIndex + 1];
+
+  if (align === 'start') {
+    return rowStart;
+  }
+
+  if (align === 'end') {
+    return rowEnd - viewportHeight;
+  }
+
+  if (align === 'center') {
+    return rowStart - (viewportHeight - (rowEnd - rowStart)) / 2;
+  }
+
+  if (rowStart < scrollOffset) {
+    return rowStart;
+  }
+
+  if (rowEnd > scrollOffset + viewportHeight) {
+    return rowEnd - viewportHeight;
+  }
+
+  return null;
+}
@@ -9,6 +9,7 @@ export {
   TableThead,
 } from './Table.components';
 export { TableScrollContainer } from './TableScrollContainer';
+export { TableVirtualizedTbody } from './TableVirtualizedTbody';
 
 export type {
   TableProps,
@@ -16,6 +17,8 @@ export type {
   TableCssVariables,
   TableFactory,
   TableData,
+  TableColumn,
+  TableSortStatus,
 } from './Table';
 
 export type {
@@ -29,3 +32,6 @@ export type {
 } from './Table.components';
 
 export type { TableScrollContainerProps } from './TableScrollContainer';
+
+export type { TableVirtualizedTbodyProps, TableScrollToIndex } from './TableVirtualizedTbody';
+export type { TableScrollAlign } from './get-virtual-rows/get-virtual-rows';
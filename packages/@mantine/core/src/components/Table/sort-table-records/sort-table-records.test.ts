@@ -0,0 +1,63 @@
+import { getNextSortStatus, sortTableRecords } from './sort-table-records';
+
+const records = [
+  { name: 'Carbon', weight: 12.011, group: null },
+  { name: 'Nitrogen', weight: 14.007, group: 15 },
+  { name: 'Boron', weight: 10.811, group: 13 },
+];
+
+const columns = [
+  { accessor: 'name' as const },
+  { accessor: 'weight' as const },
+  { accessor: 'group' as const },
+  { id: 'length', accessor: (record: (typeof records)[number]) => record.name.length },
+];
+
+describe('@mantine/core/Table/sort-table-records', () => {
+  it('returns records as is when sort status is not set', () => {
+    expect(sortTableRecords(records, columns, null)).toBe(records);
+  });
+
+  it('sorts records by string and number values', () => {
+    expect(
+      sortTableRecords(records, columns, { columnId: 'name', direction: 'asc' }).map((r) => r.name)
+    ).toStrictEqual(['Boron', 'Carbon', 'Nitrogen']);
+    expect(
+      sortTableRecords(records, columns, { columnId: 'weight', direction: 'desc' }).map(
+        (r) => r.name
+      )
+    ).toStrictEqual(['Nitrogen', 'Carbon', 'Boron']);
+  });
+
+  it('sorts records by accessor function value', () => {
+    expect(
+      sortTableRecords(records, columns, { columnId: 'length', direction: 'asc' }).map(
+        (r) => r.name
+      )
+    ).toStrictEqual(['Boron', 'Carbon', 'Nitrogen']);
+  });
+
+  it('places empty values last regardless of direction', () => {
+    expect(
+      sortTableRecords(records, columns, { columnId: 'group', direction: 'asc' }).map((r) => r.name)
+    ).toStrictEqual(['Boron', 'Nitrogen', 'Carbon']);
+    expect(
+      sortTableRecords(records, columns, { columnId: 'group', direction: 'desc' }).map(
+        (r) => r.name
+      )
+    ).toStrictEqual(['Nitrogen', 'Boron', 'Carbon']);
+  });
+
+  it('cycles sort status', () => {
+    expect(getNextSortStatus(null, 'name')).toStrictEqual({ columnId: 'name', direction: 'asc' });
+    expect(getNextSortStatus({ columnId: 'name', direction: 'asc' }, 'name')).toStrictEqual({
+      columnId: 'name',
+      direction: 'desc',
+    });
+    expect(getNextSortStatus({ columnId: 'name', direction: 'desc' }, 'name')).toBe(null);
+    expect(getNextSortStatus({ columnId: 'name', direction: 'desc' }, 'weight')).toStrictEqual({
+      columnId: 'weight',
+      direction: 'asc',
+    });
+  });
+});
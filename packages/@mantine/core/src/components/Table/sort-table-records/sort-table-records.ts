@@ -0,0 +1,75 @@
+import type { TableColumn, TableSortStatus } from '../Table';
+
+export function getColumnId(column: TableColumn) {
+  return column.id ?? String(column.accessor);
+}
+
+export function getColumnValue(record: any, column: TableColumn) {
+  return typeof column.accessor === 'function'
+    ? column.accessor(record)
+    : record?.[column.accessor as keyof typeof record];
+}
+
+function compareValues(a: unknown, b: unknown) {
+  if (a === b) {
+    return 0;
+  }
+
+  if (a === null || a === undefined) {
+    return 1;
+  }
+
+  if (b === null || b === undefined) {
+    return -1;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+export function sortTableRecords<Record>(
+  records: Record[],
+  columns: TableColumn<Record>[],
+  sortStatus: TableSortStatus | null | undefined
+) {
+  if (!sortStatus) {
+    return records;
+  }
+
+  const column = columns.find((item) => getColumnId(item) === sortStatus.columnId);
+
+  if (!column) {
+    return records;
+  }
+
+  const modifier = sortStatus.direction === 'desc' ? -1 : 1;
+
+  return [...records].sort((a, b) => {
+    const aValue = getColumnValue(a, column);
+    const bValue = getColumnValue(b, column);
+
+    if (aValue === null || aValue === undefined || bValue === null || bValue === undefined) {
+      return compareValues(aValue, bValue);
+    }
+
+    return compareValues(aValue, bValue) * modifier;
+  });
+}
+
+export function getNextSortStatus(
+  sortStatus: TableSortStatus | null | undefined,
+  columnId: string
+): TableSortStatus | null {
+  if (!sortStatus || sortStatus.columnId !== columnId) {
+    return { columnId, direction: 'asc' };
+  }
+
+  return sortStatus.direction === 'asc' ? { columnId, direction: 'desc' } : null;
+}
@@ -1,6 +1,9 @@
+import { useState } from 'react';
 import { IconChevronDown } from '@tabler/icons-react';
 import { Button } from '../Button';
 import { Group } from '../Group';
+import { TextInput } from '../TextInput';
+import { moveTreeNode } from './move-tree-node/move-tree-node';
 import { Tree, TreeNodeData } from './Tree';
 import { useTree } from './use-tree';
 
@@ -146,3 +149,148 @@ export function SelectOnClick() {
     </div>
   );
 }
+
+const lazyData: TreeNodeData[] = [
+  { value: 'src', label: 'src', hasChildren: true },
+  { value: 'lib', label: 'lib (fails on first attempt)', hasChildren: true },
+  { value: 'package.json', label: 'package.json' },
+];
+
+const attempts: Record<string, number> = {};
+
+function loadChildren(node: TreeNodeData): Promise<TreeNodeData[]> {
+  attempts[node.value] = (attempts[node.value] || 0) + 1;
+
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (node.value === 'lib' && attempts[node.value] === 1) {
+        reject(new Error('Failed to load'));
+        return;
+      }
+
+      resolve([
+        { value: `${node.value}/nested`, label: 'nested', hasChildren: true },
+        { value: `${node.value}/file.ts`, label: 'file.ts' },
+      ]);
+    }, 800);
+  });
+}
+
+export function LazyLoading() {
+  const tree = useTree({ loadChildren });
+
+  return (
+    <div style={{ padding: 40 }}>
+      <Tree
+        data={lazyData}
+        tree={tree}
+        renderNode={({ node, expanded, hasChildren, loading, error, elementProps }) => (
+          <Group gap={5} {...elementProps}>
+            {hasChildren && (
+              <IconChevronDown
+                size={18}
+                style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+              />
+            )}
+            <span>{node.label}</span>
+            {loading && <span>loading...</span>}
+            {!!error && (
+              <Button
+                size="compact-xs"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  tree.loadNodeChildren(node.value);
+                }}
+              >
+                Retry
+              </Button>
+            )}
+          </Group>
+        )}
+      />
+    </div>
+  );
+}
+
+export function DragAndDrop() {
+  const [treeData, setTreeData] = useState(data);
+
+  return (
+    <div style={{ padding: 40 }}>
+      <Tree
+        data={treeData}
+        allowDragAndDrop
+        onNodeMove={(payload) => setTreeData((current) => moveTreeNode(current, payload))}
+        canDrop={({ target, position }) => position !== 'inside' || !!target.children}
+        renderNode={({ node, expanded, hasChildren, elementProps }) => (
+          <Group gap={5} {...elementProps}>
+            {hasChildren && (
+              <IconChevronDown
+                size={18}
+                style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+              />
+            )}
+            <span>{node.label}</span>
+          </Group>
+        )}
+      />
+    </div>
+  );
+}
+
+const largeData: TreeNodeData[] = Array.from({ length: 500 }, (_, folderIndex) => ({
+  label: `Folder ${folderIndex + 1}`,
+  value: `folder-${folderIndex}`,
+  children: Array.from({ length: 99 }, (__, fileIndex) => ({
+    label: `File ${fileIndex + 1}`,
+    value: `folder-${folderIndex}/file-${fileIndex}`,
+  })),
+}));
+
+export function Virtualized() {
+  const tree = useTree({ multiple: true });
+
+  return (
+    <div style={{ padding: 40 }}>
+      <Group mb="md">
+        <Button onClick={() => tree.expandAllNodes()}>Expand all</Button>
+        <Button onClick={() => tree.collapseAllNodes()}>Collapse all</Button>
+      </Group>
+
+      <Tree
+        data={largeData}
+        tree={tree}
+        virtualized
+        h={400}
+        selectOnClick
+        renderNode={({ node, expanded, hasChildren, elementProps }) => (
+          <Group gap={5} {...elementProps}>
+            {hasChildren && (
+              <IconChevronDown
+                size={18}
+                style={{ transform: expanded ? 'rotate(180deg)' : 'rotate(0deg)' }}
+              />
+            )}
+            <span>{node.label}</span>
+          </Group>
+        )}
+      />
+    </div>
+  );
+}
+
+export function Filter() {
+  const tree = useTree();
+
+  return (
+    <div style={{ padding: 40 }}>
+      <TextInput
+        placeholder="Filter"
+        value={tree.filterQuery}
+        onChange={(event) => tree.setFilterQuery(event.currentTarget.value)}
+        mb="md"
+      />
+      <Tree data={data} tree={tree} />
+    </div>
+  );
+}
@@ -1,5 +1,131 @@
-import { tests } from '@mantine-tests/core';
-import { Tree, TreeProps, TreeStylesNames } from './Tree';
+import { StrictMode, useState } from 'react';
+import { act, fireEvent } from '@testing-library/react';
+import { render, screen, tests, userEvent } from '@mantine-tests/core';
+import { moveTreeNode, TreeNodeMovePayload } from './move-tree-node/move-tree-node';
+import { Tree, TreeNodeData, TreeProps, TreeStylesNames } from './Tree';
+import { useTree, UseTreeInput } from './use-tree';
+
+const lazyData: TreeNodeData[] = [
+  { value: 'src', label: 'src', hasChildren: true },
+  { value: 'readme', label: 'readme' },
+];
+
+function LazyTree({
+  loadChildren,
+  initialCheckedState,
+  onNodeExpand,
+}: Pick<UseTreeInput, 'loadChildren' | 'initialCheckedState' | 'onNodeExpand'>) {
+  const tree = useTree({ loadChildren, initialCheckedState, onNodeExpand });
+  return (
+    <Tree
+      data={lazyData}
+      tree={tree}
+      renderNode={({ node, elementProps, loading, error, hasChildren }) => (
+        <div {...elementProps}>
+          {node.label}
+          {hasChildren && ' +'}
+          {loading && ' loading'}
+          {!!error && (
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                tree.loadNodeChildren(node.value);
+              }}
+            >
+              retry
+            </button>
+          )}
+          {tree.isNodeChecked(node.value) && ' checked'}
+        </div>
+      )}
+    />
+  );
+}
+
+function createDeferred() {
+  let resolve: (children: TreeNodeData[]) => void = () => {};
+  let reject: (error: Error) => void = () => {};
+  const promise = new Promise<TreeNodeData[]>((_resolve, _reject) => {
+    resolve = _resolve;
+    reject = _reject;
+  });
+  return { promise, resolve, reject };
+}
+
+const dndData: TreeNodeData[] = [
+  {
+    value: 'src',
+    label: 'src',
+    children: [
+      { value: 'src/a.ts', label: 'a.ts' },
+      { value: 'src/b.ts', label: 'b.ts' },
+    ],
+  },
+  { value: 'lib', label: 'lib', children: [] },
+  { value: 'readme', label: 'readme' },
+];
+
+function DragAndDropTree({
+  onNodeMove,
+  canDrop,
+}: {
+  onNodeMove?: (payload: TreeNodeMovePayload) => void;
+  canDrop?: (payload: TreeNodeMovePayload) => boolean;
+}) {
+  const [data, setData] = useState(dndData);
+  const tree = useTree({ initialExpandedState: { src: true } });
+
+  return (
+    <Tree
+      data={data}
+      tree={tree}
+      allowDragAndDrop
+      canDrop={canDrop}
+      onNodeMove={(payload) => {
+        onNodeMove?.(payload);
+        setData((current) => moveTreeNode(current, payload));
+      }}
+    />
+  );
+}
+
+const getTreeValues = () =>
+  screen.getAllByRole('treeitem').map((item) => item.getAttribute('data-value'));
+
+const virtualizedData: TreeNodeData[] = Array.from({ length: 100 }, (_, index) => ({
+  value: `node-${index}`,
+  label: `node-${index}`,
+  children:
+    index === 0
+      ? Array.from({ length: 10 }, (__, childIndex) => ({
+          value: `node-0-${childIndex}`,
+          label: `node-0-${childIndex}`,
+        }))
+      : undefined,
+}));
+
+function VirtualizedTree({ initialExpandedState }: Pick<UseTreeInput, 'initialExpandedState'>) {
+  const tree = useTree({ initialExpandedState });
+  return (
+    <Tree data={virtualizedData} tree={tree} virtualized nodeHeight={20} overscan={0} h={100} />
+  );
+}
+
+function FilterTree() {
+  const tree = useTree();
+
+  return (
+    <>
+      <input
+        aria-label="Filter"
+        value={tree.filterQuery}
+        onChange={(event) => tree.setFilterQuery(event.currentTarget.value)}
+      />
+      <Tree data={dndData} tree={tree} />
+    </>
+  );
+}
 
 const defaultProps: TreeProps = {
   data: [
@@ -25,4 +151,309 @@ describe('@mantine/core/Tree', () => {
     displayName: '@mantine/core/Tree',
     stylesApiSelectors: ['root', 'label', 'node'],
   });
+
+  it('loads children when node with hasChildren is expanded', async () => {
+    const deferred = createDeferred();
+    const loadChildren = jest.fn(() => deferred.promise);
+    render(<LazyTree loadChildren={loadChildren} />);
+
+    expect(screen.getByText(/src/)).toHaveTextContent('src +');
+    await userEvent.click(screen.getByText(/src/));
+    expect(loadChildren).toHaveBeenCalledWith(lazyData[0]);
+    expect(screen.getAllByRole('treeitem')[0]).toHaveAttribute('aria-busy', 'true');
+    expect(screen.getByText(/src/)).toHaveTextContent('loading');
+
+    await act(async () => {
+      deferred.resolve([{ value: 'src/index.ts', label: 'index.ts' }]);
+    });
+
+    expect(screen.getAllByRole('treeitem')[0]).not.toHaveAttribute('aria-busy');
+    expect(screen.getByText('index.ts')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByText(/src/));
+    await userEvent.click(screen.getByText(/src/));
+    expect(loadChildren).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('index.ts')).toBeInTheDocument();
+  });
+
+  it('loads children once in StrictMode', async () => {
+    const deferred = createDeferred();
+    const loadChildren = jest.fn(() => deferred.promise);
+    const onNodeExpand = jest.fn();
+    render(
+      <StrictMode>
+        <LazyTree loadChildren={loadChildren} onNodeExpand={onNodeExpand} />
+      </StrictMode>
+    );
+
+    await userEvent.click(screen.getByText(/src/));
+    expect(loadChildren).toHaveBeenCalledTimes(1);
+    expect(onNodeExpand).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      deferred.resolve([{ value: 'src/index.ts', label: 'index.ts' }]);
+    });
+
+    expect(screen.getByText('index.ts')).toBeInTheDocument();
+  });
+
+  it('allows retrying when loadChildren is rejected', async () => {
+    const deferred = createDeferred();
+    const loadChildren = jest
+      .fn()
+      .mockImplementationOnce(() => Promise.reject(new Error('Network error')))
+      .mockImplementationOnce(() => deferred.promise);
+
+    render(<LazyTree loadChildren={loadChildren} />);
+    await userEvent.click(screen.getByText(/src/));
+    await userEvent.click(await screen.findByRole('button', { name: 'retry' }));
+    expect(loadChildren).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      deferred.resolve([{ value: 'src/index.ts', label: 'index.ts' }]);
+    });
+
+    expect(screen.queryByRole('button', { name: 'retry' })).not.toBeInTheDocument();
+    expect(screen.getByText('index.ts')).toBeInTheDocument();
+  });
+
+  it('keeps checked state of the node when its children are loaded', async () => {
+    const loadChildren = () =>
+      Promise.resolve([
+        { value: 'src/index.ts', label: 'index.ts' },
+        { value: 'src/utils.ts', label: 'utils.ts' },
+      ]);
+
+    render(<LazyTree loadChildren={loadChildren} initialCheckedState={['src']} />);
+    expect(screen.getByText(/src/)).toHaveTextContent('checked');
+
+    await userEvent.click(screen.getByText(/src/));
+    expect(await screen.findByText(/index\.ts/)).toHaveTextContent('checked');
+    expect(screen.getByText(/utils\.ts/)).toHaveTextContent('checked');
+    expect(screen.getByText(/src/)).toHaveTextContent('checked');
+  });
+
+  it('moves nodes with Alt + arrow keys', async () => {
+    const spy = jest.fn();
+    render(<DragAndDropTree onNodeMove={spy} />);
+    expect(getTreeValues()).toStrictEqual(['src', 'src/a.ts', 'src/b.ts', 'lib', 'readme']);
+
+    act(() => screen.getByText('b.ts').closest('li')!.focus());
+    await userEvent.keyboard('{Alt>}{ArrowUp}{/Alt}');
+    expect(spy).toHaveBeenLastCalledWith({
+      node: dndData[0].children![1],
+      target: dndData[0].children![0],
+      position: 'before',
+    });
+    expect(getTreeValues()).toStrictEqual(['src', 'src/b.ts', 'src/a.ts', 'lib', 'readme']);
+    expect(screen.getByText('b.ts').closest('li')).toHaveFocus();
+
+    await userEvent.keyboard('{Alt>}{ArrowLeft}{/Alt}');
+    expect(getTreeValues()).toStrictEqual(['src', 'src/a.ts', 'src/b.ts', 'lib', 'readme']);
+    expect(spy).toHaveBeenLastCalledWith(expect.objectContaining({ position: 'after' }));
+
+    await userEvent.keyboard('{Alt>}{ArrowDown}{/Alt}');
+    await userEvent.keyboard('{Alt>}{ArrowRight}{/Alt}');
+    expect(spy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ target: dndData[1], position: 'inside' })
+    );
+    expect(getTreeValues()).toStrictEqual(['src', 'src/a.ts', 'lib', 'src/b.ts', 'readme']);
+  });
+
+  it('does not move nodes when canDrop returns false', async () => {
+    const spy = jest.fn();
+    render(<DragAndDropTree onNodeMove={spy} canDrop={({ position }) => position !== 'inside'} />);
+    act(() => screen.getByText('readme').closest('li')!.focus());
+    await userEvent.keyboard('{Alt>}{ArrowRight}{/Alt}');
+    expect(spy).not.toHaveBeenCalled();
+    await userEvent.keyboard('{Alt>}{ArrowUp}{/Alt}');
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  describe('pointer drag and drop', () => {
+    const originalPointerEvent = window.PointerEvent;
+    const originalElementFromPoint = document.elementFromPoint;
+
+    beforeAll(() => {
+      // jsdom does not implement PointerEvent, MouseEvent has all properties used by the tree
+      window.PointerEvent = (originalPointerEvent || MouseEvent) as typeof PointerEvent;
+    });
+
+    afterAll(() => {
+      window.PointerEvent = originalPointerEvent;
+      document.elementFromPoint = originalElementFromPoint;
+    });
+
+    it('moves nodes with pointer drag and drop', () => {
+      const spy = jest.fn();
+      render(<DragAndDropTree onNodeMove={spy} />);
+      const source = screen.getByText('readme');
+      const target = screen.getByText('a.ts');
+      jest
+        .spyOn(target, 'getBoundingClientRect')
+        .mockReturnValue({ top: 100, bottom: 120, height: 20 } as DOMRect);
+      document.elementFromPoint = jest.fn(() => target);
+
+      fireEvent.pointerDown(source, { button: 0, clientX: 0, clientY: 200 });
+      fireEvent.pointerMove(document, { clientX: 0, clientY: 101 });
+      expect(source).toHaveAttribute('data-dragging');
+      expect(target).toHaveAttribute('data-drop-position', 'before');
+
+      fireEvent.pointerMove(document, { clientX: 0, clientY: 119 });
+      expect(target).toHaveAttribute('data-drop-position', 'after');
+
+      fireEvent.pointerUp(document);
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          node: dndData[2],
+          target: dndData[0].children![0],
+          position: 'after',
+        })
+      );
+      expect(getTreeValues()).toStrictEqual(['src', 'src/a.ts', 'readme', 'src/b.ts', 'lib']);
+      expect(screen.getByText('readme')).not.toHaveAttribute('data-dragging');
+    });
+
+    it('does not allow dropping node inside its own subtree', () => {
+      render(<DragAndDropTree />);
+      const source = screen.getByText('src');
+      const target = screen.getByText('a.ts');
+      jest
+        .spyOn(target, 'getBoundingClientRect')
+        .mockReturnValue({ top: 100, bottom: 120, height: 20 } as DOMRect);
+      document.elementFromPoint = jest.fn(() => target);
+
+      fireEvent.pointerDown(source, { button: 0, clientX: 0, clientY: 0 });
+      fireEvent.pointerMove(document, { clientX: 0, clientY: 110 });
+      expect(target).not.toHaveAttribute('data-drop-position');
+      fireEvent.pointerUp(document);
+      expect(getTreeValues()).toStrictEqual(['src', 'src/a.ts', 'src/b.ts', 'lib', 'readme']);
+    });
+  });
+
+  describe('virtualized', () => {
+    beforeEach(() => {
+      jest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(100);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('renders only nodes that are visible in the viewport', () => {
+      render(<VirtualizedTree />);
+      expect(getTreeValues()).toStrictEqual(['node-0', 'node-1', 'node-2', 'node-3', 'node-4']);
+
+      const root = screen.getByRole('tree');
+      root.scrollTop = 400;
+      act(() => {
+        fireEvent.scroll(root);
+      });
+
+      expect(getTreeValues()).toStrictEqual([
+        'node-20',
+        'node-21',
+        'node-22',
+        'node-23',
+        'node-24',
+      ]);
+      expect(root.firstElementChild).toHaveStyle({ height: '400px' });
+    });
+
+    it('sets aria attributes that describe nodes hierarchy', () => {
+      render(<VirtualizedTree initialExpandedState={{ 'node-0': true }} />);
+      expect(getTreeValues()).toStrictEqual([
+        'node-0',
+        'node-0-0',
+        'node-0-1',
+        'node-0-2',
+        'node-0-3',
+      ]);
+
+      const parent = screen.getAllByRole('treeitem')[0];
+      expect(parent).toHaveAttribute('aria-level', '1');
+      expect(parent).toHaveAttribute('aria-expanded', 'true');
+      expect(parent).toHaveAttribute('aria-setsize', '100');
+
+      const child = screen.getAllByRole('treeitem')[2];
+      expect(child).toHaveAttribute('aria-level', '2');
+      expect(child).toHaveAttribute('aria-posinset', '2');
+      expect(child).toHaveAttribute('aria-setsize', '10');
+      expect(child).not.toHaveAttribute('aria-expanded');
+    });
+
+    it('scrolls to nodes that are not rendered on keyboard navigation', async () => {
+      render(<VirtualizedTree initialExpandedState={{ 'node-0': true }} />);
+      const root = screen.getByRole('tree');
+
+      act(() => screen.getAllByRole('treeitem')[4].focus());
+      await userEvent.keyboard('{ArrowDown}');
+      expect(root.scrollTop).toBe(20);
+      expect(document.activeElement).toHaveAttribute('data-value', 'node-0-4');
+
+      root.scrollTop = 120;
+      act(() => {
+        fireEvent.scroll(root);
+      });
+      act(() => screen.getAllByRole('treeitem')[0].focus());
+      expect(document.activeElement).toHaveAttribute('data-value', 'node-0-5');
+
+      await userEvent.keyboard('{ArrowLeft}');
+      expect(root.scrollTop).toBe(0);
+      expect(document.activeElement).toHaveAttribute('data-value', 'node-0');
+    });
+  });
+
+  it('focuses node that starts with typed characters', async () => {
+    render(<Tree data={dndData} />);
+    act(() => screen.getByText('src').closest('li')!.focus());
+
+    await userEvent.keyboard('r');
+    expect(document.activeElement).toHaveAttribute('data-value', 'readme');
+
+    await userEvent.keyboard('s');
+    expect(document.activeElement).toHaveAttribute('data-value', 'readme');
+
+    await new Promise((resolve) => setTimeout(resolve, 550));
+    await userEvent.keyboard('L');
+    expect(document.activeElement).toHaveAttribute('data-value', 'lib');
+  });
+
+  it('does not handle typed characters in elements rendered inside nodes', async () => {
+    render(
+      <Tree
+        data={dndData}
+        renderNode={({ node, elementProps }) => (
+          <>
+            <div {...elementProps}>{node.label}</div>
+            <input aria-label={`rename ${node.value}`} />
+          </>
+        )}
+      />
+    );
+
+    const input = screen.getByRole('textbox', { name: 'rename src' });
+    await userEvent.type(input, 'readme');
+    expect(input).toHaveValue('readme');
+    expect(input).toHaveFocus();
+  });
+
+  it('does not focus nodes with typed characters when allowTypeAhead is false', async () => {
+    render(<Tree data={dndData} allowTypeAhead={false} />);
+    act(() => screen.getByText('src').closest('li')!.focus());
+
+    await userEvent.keyboard('r');
+    expect(document.activeElement).toHaveAttribute('data-value', 'src');
+  });
+
+  it('hides nodes that do not match filter query and expands their ancestors', async () => {
+    render(<FilterTree />);
+    await userEvent.type(screen.getByLabelText('Filter'), 'b.ts');
+    expect(getTreeValues()).toStrictEqual(['src', 'src/b.ts']);
+    expect(screen.getByText('b.ts', { selector: 'mark' })).toBeInTheDocument();
+
+    await userEvent.clear(screen.getByLabelText('Filter'));
+    expect(getTreeValues()).toStrictEqual(['src', 'src/a.ts', 'src/b.ts', 'lib', 'readme']);
+    expect(document.querySelector('mark')).not.toBeInTheDocument();
+  });
 });
@@ -13,15 +13,24 @@ import {
   useProps,
   useStyles,
 } from '../../core';
+import { filterTreeData } from './filter-tree-data/filter-tree-data';
+import { mergeLoadedChildren } from './merge-loaded-children/merge-loaded-children';
+import type { TreeNodeMovePayload } from './move-tree-node/move-tree-node';
 import classes from './Tree.module.css';
 import { TreeNode } from './TreeNode';
 import { TreeController, useTree } from './use-tree';
+import { useTreeDragAndDrop } from './use-tree-drag-and-drop';
+import { useTreeTypeAhead } from './use-tree-type-ahead';
+import { useTreeVirtualizer } from './use-tree-virtualizer';
 
 export interface TreeNodeData {
   label: React.ReactNode;
   value: string;
   nodeProps?: Record<string, any>;
   children?: TreeNodeData[];
+
+  /** If set, the node has children that are loaded with `loadChildren` of `useTree` when the node is expanded */
+  hasChildren?: boolean;
 }
 
 export interface RenderTreeNodePayload {
@@ -31,9 +40,15 @@ export interface RenderTreeNodePayload {
   /** `true` if the node is expanded, applicable only for nodes with `children` */
   expanded: boolean;
 
-  /** `true` if the node has non-empty `children` array */
+  /** `true` if the node has non-empty `children` array or `hasChildren: true` and its children are not loaded yet */
   hasChildren: boolean;
 
+  /** `true` if children of the node are being loaded with `loadChildren` */
+  loading: boolean;
+
+  /** Error that `loadChildren` was rejected with, `tree.loadNodeChildren(node.value)` can be used to retry */
+  error: unknown;
+
   /** `true` if the node is selected */
   selected: boolean;
 
@@ -51,6 +66,9 @@ export interface RenderTreeNodePayload {
     'data-selected': boolean | undefined;
     'data-value': string;
     'data-hovered': boolean | undefined;
+    'data-dragging': boolean | undefined;
+    'data-drop-position': 'before' | 'after' | 'inside' | undefined;
+    onPointerDown: ((event: React.PointerEvent) => void) | undefined;
   };
 }
 
@@ -91,6 +109,27 @@ export interface TreeProps extends BoxProps, StylesApiProps<TreeFactory>, Elemen
 
   /** If set, tree nodes range can be selected with click when `Shift` key is pressed @default `true` */
   allowRangeSelection?: boolean;
+
+  /** If set, focus is moved to the node with label that starts with typed characters @default `true` */
+  allowTypeAhead?: boolean;
+
+  /** If set, nodes can be moved with drag-and-drop or with `Alt` + arrow keys, use with `onNodeMove` @default `false` */
+  allowDragAndDrop?: boolean;
+
+  /** Called when a node is moved, use `moveTreeNode` function to apply the move to `data`, pass `tree.loadedChildren` to it if children are loaded with `loadChildren` */
+  onNodeMove?: (payload: TreeNodeMovePayload) => void;
+
+  /** Determines whether a node can be dropped at the given position, by default any node can be dropped anywhere except its own subtree */
+  canDrop?: (payload: TreeNodeMovePayload) => boolean;
+
+  /** If set, only nodes that are visible in the tree viewport are rendered, the tree must have fixed height, for example, set with `h` prop @default `false` */
+  virtualized?: boolean;
+
+  /** Height of each node in px, used only when `virtualized` is set @default `30` */
+  nodeHeight?: number;
+
+  /** Number of nodes rendered above and below the visible area, used only when `virtualized` is set @default `5` */
+  overscan?: number;
 }
 
 function getFlatValues(data: TreeNodeData[]): string[] {
@@ -113,7 +152,10 @@ export type TreeFactory = Factory<{
 const defaultProps = {
   expandOnClick: true,
   allowRangeSelection: true,
+  allowTypeAhead: true,
   expandOnSpace: true,
+  nodeHeight: 30,
+  overscan: 5,
 } satisfies Partial<TreeProps>;
 
 const varsResolver = createVarsResolver<TreeFactory>((_theme, { levelOffset }) => ({
@@ -122,6 +164,10 @@ const varsResolver = createVarsResolver<TreeFactory>((_theme, { levelOffset }) =
   },
 }));
 
+function TreeVirtualSpacer({ height }: { height: number }) {
+  return height > 0 ? <li aria-hidden style={{ height, listStyle: 'none' }} /> : null;
+}
+
 export const Tree = factory<TreeFactory>((_props, ref) => {
   const props = useProps('Tree', defaultProps, _props);
   const {
@@ -138,9 +184,16 @@ export const Tree = factory<TreeFactory>((_props, ref) => {
     selectOnClick,
     clearSelectionOnOutsideClick,
     allowRangeSelection,
+    allowTypeAhead,
     expandOnSpace,
     levelOffset,
     checkOnSpace,
+    allowDragAndDrop,
+    onNodeMove,
+    canDrop,
+    virtualized,
+    nodeHeight,
+    overscan,
     attributes,
     ...others
   } = props;
@@ -166,30 +219,86 @@ export const Tree = factory<TreeFactory>((_props, ref) => {
     () => clearSelectionOnOutsideClick && controller.clearSelected()
   );
 
-  const mergedRef = useMergedRef(ref, clickOutsideRef);
+  const treeData = useMemo(
+    () => mergeLoadedChildren(data, controller.loadedChildren),
+    [data, controller.loadedChildren]
+  );
+
+  const visibleData = useMemo(
+    () =>
+      controller.filterQuery.trim() === ''
+        ? treeData
+        : filterTreeData(treeData, controller.isNodeMatching),
+    [treeData, controller.filterQuery]
+  );
 
-  const flatValues = useMemo(() => getFlatValues(data), [data]);
+  const dragAndDrop = useTreeDragAndDrop({
+    enabled: allowDragAndDrop,
+    data: treeData,
+    controller,
+    onNodeMove,
+    canDrop,
+  });
+
+  const virtualizer = useTreeVirtualizer({
+    enabled: virtualized,
+    data: visibleData,
+    expandedState: controller.expandedState,
+    nodeHeight,
+    overscan,
+  });
+
+  const typeAhead = useTreeTypeAhead({
+    enabled: allowTypeAhead,
+    data: visibleData,
+    expandedState: controller.expandedState,
+    virtualizer,
+  });
+
+  const mergedRef = useMergedRef(ref, clickOutsideRef, dragAndDrop.rootRef, virtualizer.rootRef);
+
+  const flatValues = useMemo(() => getFlatValues(visibleData), [visibleData]);
 
   useEffect(() => {
     controller.initialize(data);
   }, [data]);
 
-  const nodes = data.map((node, index) => (
-    <TreeNode
-      key={node.value}
-      node={node}
-      getStyles={getStyles}
-      rootIndex={index}
-      expandOnClick={expandOnClick}
-      selectOnClick={selectOnClick}
-      controller={controller}
-      renderNode={renderNode}
-      flatValues={flatValues}
-      allowRangeSelection={allowRangeSelection}
-      expandOnSpace={expandOnSpace}
-      checkOnSpace={checkOnSpace}
-    />
-  ));
+  const sharedNodeProps = {
+    getStyles,
+    expandOnClick,
+    selectOnClick,
+    controller,
+    renderNode,
+    flatValues,
+    allowRangeSelection,
+    expandOnSpace,
+    checkOnSpace,
+    dragAndDrop,
+    virtualizer,
+    typeAhead,
+  };
+
+  const nodes = virtualized ? (
+    <>
+      <TreeVirtualSpacer height={virtualizer.offsetTop} />
+      {virtualizer.nodes.map((flatNode, index) => (
+        <TreeNode
+          key={flatNode.node.value}
+          node={flatNode.node}
+          rootIndex={index}
+          level={flatNode.level}
+          isSubtree={flatNode.level > 1}
+          flatNode={flatNode}
+          {...sharedNodeProps}
+        />
+      ))}
+      <TreeVirtualSpacer height={virtualizer.offsetBottom} />
+    </>
+  ) : (
+    visibleData.map((node, index) => (
+      <TreeNode key={node.value} node={node} rootIndex={index} {...sharedNodeProps} />
+    ))
+  );
 
   return (
     <Box
@@ -200,6 +309,8 @@ export const Tree = factory<TreeFactory>((_props, ref) => {
       role="tree"
       aria-multiselectable={controller.multiple}
       data-tree-root
+      data-drag-and-drop={allowDragAndDrop || undefined}
+      data-virtualized={virtualized || undefined}
     >
       {nodes}
     </Box>
@@ -1,20 +1,12 @@
 import { useRef } from 'react';
-import { Box, findElementAncestor, GetStylesApi } from '../../core';
+import { Box, findElementAncestor, getSelectionRange, GetStylesApi } from '../../core';
+import { Highlight } from '../Highlight';
+import type { FlatTreeNode } from './get-flat-tree-nodes/get-flat-tree-nodes';
 import type { RenderNode, TreeFactory, TreeNodeData } from './Tree';
 import type { TreeController } from './use-tree';
-
-function getValuesRange(anchor: string | null, value: string | undefined, flatValues: string[]) {
-  if (!anchor || !value) {
-    return [];
-  }
-
-  const anchorIndex = flatValues.indexOf(anchor);
-  const valueIndex = flatValues.indexOf(value);
-  const start = Math.min(anchorIndex, valueIndex);
-  const end = Math.max(anchorIndex, valueIndex);
-
-  return flatValues.slice(start, end + 1);
-}
+import type { TreeDragAndDrop } from './use-tree-drag-and-drop';
+import type { TreeTypeAhead } from './use-tree-type-ahead';
+import type { TreeVirtualizer } from './use-tree-virtualizer';
 
 interface TreeNodeProps {
   node: TreeNodeData;
@@ -30,6 +22,10 @@ interface TreeNodeProps {
   allowRangeSelection: boolean | undefined;
   expandOnSpace: boolean | undefined;
   checkOnSpace: boolean | undefined;
+  dragAndDrop: TreeDragAndDrop;
+  virtualizer: TreeVirtualizer;
+  typeAhead: TreeTypeAhead;
+  flatNode?: FlatTreeNode;
 }
 
 export function TreeNode({
@@ -46,9 +42,19 @@ export function TreeNode({
   allowRangeSelection,
   expandOnSpace,
   checkOnSpace,
+  dragAndDrop,
+  virtualizer,
+  typeAhead,
+  flatNode,
 }: TreeNodeProps) {
   const ref = useRef<HTMLLIElement>(null);
-  const nested = (node.children || []).map((child) => (
+  const loadingState = controller.loadingState[node.value];
+  const loading = loadingState?.status === 'loading';
+  const hasChildren =
+    (Array.isArray(node.children) && node.children.length > 0) ||
+    (!!node.hasChildren && !Array.isArray(node.children));
+  const expanded = controller.expandedState[node.value] || false;
+  const nested = (flatNode ? [] : node.children || []).map((child) => (
     <TreeNode
       key={child.value}
       node={child}
@@ -64,15 +70,24 @@ export function TreeNode({
       allowRangeSelection={allowRangeSelection}
       expandOnSpace={expandOnSpace}
       checkOnSpace={checkOnSpace}
+      dragAndDrop={dragAndDrop}
+      virtualizer={virtualizer}
+      typeAhead={typeAhead}
     />
   ));
 
   const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (dragAndDrop.onKeyboardMove(event, node) || typeAhead.onKeyDown(event, node)) {
+      return;
+    }
+
     if (event.nativeEvent.code === 'ArrowRight') {
       event.stopPropagation();
       event.preventDefault();
 
-      if (controller.expandedState[node.value]) {
+      if (expanded && flatNode) {
+        node.children?.[0] && virtualizer.focusNode(node.children[0].value);
+      } else if (expanded) {
         event.currentTarget.querySelector<HTMLLIElement>('[role=treeitem]')?.focus();
       } else {
         controller.expand(node.value);
@@ -82,8 +97,10 @@ export function TreeNode({
     if (event.nativeEvent.code === 'ArrowLeft') {
       event.stopPropagation();
       event.preventDefault();
-      if (controller.expandedState[node.value] && (node.children || []).length > 0) {
+      if (expanded && hasChildren) {
         controller.collapse(node.value);
+      } else if (flatNode) {
+        flatNode.parent !== null && virtualizer.focusNode(flatNode.parent);
       } else if (isSubtree) {
         findElementAncestor(event.currentTarget as HTMLElement, '[role=treeitem]')?.focus();
       }
@@ -98,24 +115,28 @@ export function TreeNode({
 
       event.stopPropagation();
       event.preventDefault();
-      const nodes = Array.from(root.querySelectorAll<HTMLLIElement>('[role=treeitem]'));
-      const index = nodes.indexOf(event.currentTarget as HTMLLIElement);
+      const offset = event.nativeEvent.code === 'ArrowDown' ? 1 : -1;
+      let nextValue: string | undefined;
 
-      if (index === -1) {
-        return;
-      }
+      if (flatNode) {
+        nextValue = virtualizer.getAdjacentNodeValue(node.value, offset);
+        nextValue !== undefined && virtualizer.focusNode(nextValue);
+      } else {
+        const nodes = Array.from(root.querySelectorAll<HTMLLIElement>('[role=treeitem]'));
+        const index = nodes.indexOf(event.currentTarget as HTMLLIElement);
 
-      const nextIndex = event.nativeEvent.code === 'ArrowDown' ? index + 1 : index - 1;
-      nodes[nextIndex]?.focus();
+        if (index === -1) {
+          return;
+        }
 
-      if (event.shiftKey) {
-        const selectNode = nodes[nextIndex];
+        nodes[index + offset]?.focus();
+        nextValue = nodes[index + offset]?.dataset.value;
+      }
 
-        if (selectNode) {
-          controller.setSelectedState(
-            getValuesRange(controller.anchorNode, selectNode.dataset.value, flatValues)
-          );
-        }
+      if (event.shiftKey && nextValue !== undefined) {
+        controller.setSelectedState(
+          getSelectionRange(controller.anchorNode, nextValue, flatValues)
+        );
       }
     }
 
@@ -140,7 +161,7 @@ export function TreeNode({
     event.stopPropagation();
 
     if (allowRangeSelection && event.shiftKey && controller.anchorNode) {
-      controller.setSelectedState(getValuesRange(controller.anchorNode, node.value, flatValues));
+      controller.setSelectedState(getSelectionRange(controller.anchorNode, node.value, flatValues));
       ref.current?.focus();
     } else {
       expandOnClick && controller.toggleExpanded(node.value);
@@ -156,19 +177,34 @@ export function TreeNode({
     'data-selected': selected || undefined,
     'data-value': node.value,
     'data-hovered': controller.hoveredNode === node.value || undefined,
+    'data-dragging': dragAndDrop.draggedNode === node.value || undefined,
+    'data-drop-position':
+      dragAndDrop.dropTarget?.value === node.value ? dragAndDrop.dropTarget.position : undefined,
+    onPointerDown: dragAndDrop.enabled
+      ? (event: React.PointerEvent) => dragAndDrop.onPointerDown(event, node)
+      : undefined,
   };
 
   return (
     <li
       {...getStyles('node', {
-        style: { '--label-offset': `calc(var(--level-offset) * ${level - 1})` },
+        style: {
+          '--label-offset': `calc(var(--level-offset) * ${level - 1})`,
+          height: flatNode ? virtualizer.nodeHeight : undefined,
+        },
       })}
       role="treeitem"
       aria-selected={selected}
+      aria-level={flatNode?.level}
+      aria-setsize={flatNode?.setSize}
+      aria-posinset={flatNode?.posInSet}
+      aria-expanded={flatNode && hasChildren ? expanded : undefined}
       data-value={node.value}
       data-selected={selected || undefined}
       data-hovered={controller.hoveredNode === node.value || undefined}
       data-level={level}
+      data-loading={loading || undefined}
+      aria-busy={loading || undefined}
       tabIndex={rootIndex === 0 ? 0 : -1}
       onKeyDown={handleKeyDown}
       ref={ref}
@@ -187,15 +223,25 @@ export function TreeNode({
           level,
           selected,
           tree: controller,
-          expanded: controller.expandedState[node.value] || false,
-          hasChildren: Array.isArray(node.children) && node.children.length > 0,
+          expanded,
+          hasChildren,
+          loading,
+          error: loadingState?.error,
           elementProps,
         })
       ) : (
-        <div {...elementProps}>{node.label}</div>
+        <div {...elementProps}>
+          {controller.filterQuery.trim() !== '' && typeof node.label === 'string' ? (
+            <Highlight component="span" inherit highlight={controller.filterQuery.trim()}>
+              {node.label}
+            </Highlight>
+          ) : (
+            node.label
+          )}
+        </div>
       )}
 
-      {controller.expandedState[node.value] && nested.length > 0 && (
+      {expanded && nested.length > 0 && (
         <Box component="ul" role="group" {...getStyles('subtree')} data-level={level}>
           {nested}
         </Box>
@@ -0,0 +1,75 @@
+import { TreeNodeData } from '../Tree';
+import {
+  defaultTreeFilter,
+  filterTreeData,
+  getFilteredTreeParents,
+  getTreeNodeText,
+} from './filter-tree-data';
+
+const data: TreeNodeData[] = [
+  {
+    value: 'src',
+    label: 'src',
+    children: [
+      {
+        value: 'src/components',
+        label: 'components',
+        children: [
+          { value: 'src/components/Button.tsx', label: 'Button.tsx' },
+          { value: 'src/components/Tree.tsx', label: 'Tree.tsx' },
+        ],
+      },
+      { value: 'src/index.ts', label: 'index.ts' },
+    ],
+  },
+  { value: 'package.json', label: 'package.json' },
+];
+
+const matchQuery = (query: string) => (node: TreeNodeData) => defaultTreeFilter(node, query);
+
+describe('@mantine/core/Tree/filter-tree-data', () => {
+  it('keeps matching nodes and their ancestors', () => {
+    expect(filterTreeData(data, matchQuery('tree'))).toStrictEqual([
+      {
+        value: 'src',
+        label: 'src',
+        children: [
+          {
+            value: 'src/components',
+            label: 'components',
+            children: [{ value: 'src/components/Tree.tsx', label: 'Tree.tsx' }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('removes non-matching children of matching nodes', () => {
+    expect(filterTreeData(data, matchQuery('components'))).toStrictEqual([
+      {
+        value: 'src',
+        label: 'src',
+        children: [{ value: 'src/components', label: 'components', children: [] }],
+      },
+    ]);
+  });
+
+  it('returns the same node objects when nothing is filtered out', () => {
+    const result = filterTreeData(data, () => true);
+    expect(result[0]).toBe(data[0]);
+    expect(result[1]).toBe(data[1]);
+  });
+
+  it('returns values of ancestors of matching nodes', () => {
+    expect(getFilteredTreeParents(filterTreeData(data, matchQuery('.tsx')))).toStrictEqual([
+      'src',
+      'src/components',
+    ]);
+  });
+
+  it('uses node value for non-string labels', () => {
+    expect(getTreeNodeText({ value: 'value', label: 'label' })).toBe('label');
+    expect(getTreeNodeText({ value: 'value', label: null })).toBe('value');
+    expect(defaultTreeFilter({ value: 'Value', label: 'Label' }, '  lab ')).toBe(true);
+  });
+});
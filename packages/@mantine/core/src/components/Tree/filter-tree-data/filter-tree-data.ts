@@ -0,0 +1,45 @@
+import type { TreeNodeData } from '../Tree';
+
+export type TreeFilter = (node: TreeNodeData, query: string) => boolean;
+
+// Text used to match node with filter query and type-ahead, node value is used for non-string labels
+export function getTreeNodeText(node: TreeNodeData) {
+  return typeof node.label === 'string' || typeof node.label === 'number'
+    ? String(node.label)
+    : node.value;
+}
+
+export const defaultTreeFilter: TreeFilter = (node, query) =>
+  getTreeNodeText(node).toLowerCase().includes(query.trim().toLowerCase());
+
+// Keeps nodes that match the filter and their ancestors, all other nodes are removed
+export function filterTreeData(
+  data: TreeNodeData[],
+  isMatching: (node: TreeNodeData) => boolean
+): TreeNodeData[] {
+  return data.reduce<TreeNodeData[]>((acc, node) => {
+    const children = Array.isArray(node.children)
+      ? filterTreeData(node.children, isMatching)
+      : undefined;
+
+    if (children && children.length > 0) {
+      acc.push(children.length === node.children!.length ? node : { ...node, children });
+    } else if (isMatching(node)) {
+      acc.push(children ? { ...node, children } : node);
+    }
+
+    return acc;
+  }, []);
+}
+
+// Returns values of nodes that have children in filtered data – ancestors of matching nodes
+export function getFilteredTreeParents(data: TreeNodeData[], acc: string[] = []): string[] {
+  data.forEach((node) => {
+    if (Array.isArray(node.children) && node.children.length > 0) {
+      acc.push(node.value);
+      getFilteredTreeParents(node.children, acc);
+    }
+  });
+
+  return acc;
+}
@@ -1,4 +1,4 @@
-import { getAllCheckedNodes } from './get-all-checked-nodes';
+import { getAllCheckedNodes, getCheckedNodesIndex } from './get-all-checked-nodes';
 
 describe('@mantine/core/Tree/get-all-checked-nodes', () => {
   it('returns all checked nodes for a flat tree', () => {
@@ -65,4 +65,34 @@ describe('@mantine/core/Tree/get-all-checked-nodes', () => {
       { checked: false, indeterminate: true, value: '1', hasChildren: true },
     ]);
   });
+
+  it('marks parent as checked when all nested nodes are checked', () => {
+    const data = [
+      {
+        value: '1',
+        label: '1',
+        children: [
+          { value: '2', label: '2', children: [{ value: '3', label: '3' }] },
+          { value: '4', label: '4' },
+        ],
+      },
+    ];
+
+    const { result } = getAllCheckedNodes(data, ['3', '4']);
+
+    expect(result).toStrictEqual([
+      { checked: true, indeterminate: false, value: '3', hasChildren: false },
+      { checked: true, indeterminate: false, value: '2', hasChildren: true },
+      { checked: true, indeterminate: false, value: '4', hasChildren: false },
+      { checked: true, indeterminate: false, value: '1', hasChildren: true },
+    ]);
+  });
+
+  it('reuses computed statuses for the same data and checked state', () => {
+    const data = [{ value: '1', label: '1' }];
+    const checkedState = ['1'];
+
+    expect(getCheckedNodesIndex(data, checkedState)).toBe(getCheckedNodesIndex(data, checkedState));
+    expect(getCheckedNodesIndex(data, ['1'])).not.toBe(getCheckedNodesIndex(data, checkedState));
+  });
 });
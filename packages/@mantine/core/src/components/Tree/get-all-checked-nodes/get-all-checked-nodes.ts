@@ -1,3 +1,4 @@
+import { getTreeIndex } from '../get-tree-index/get-tree-index';
 import type { TreeNodeData } from '../Tree';
 
 export interface CheckedNodeStatus {
@@ -7,42 +8,65 @@ export interface CheckedNodeStatus {
   value: string;
 }
 
-export function getAllCheckedNodes(
+interface CheckedNodesIndex {
+  checkedValues: Set<string>;
+  statuses: Map<string, CheckedNodeStatus>;
+}
+
+const checkedCache = new WeakMap<TreeNodeData[], WeakMap<string[], CheckedNodesIndex>>();
+
+// Computes status of all nodes in a single pass, children are processed before their parent
+export function getCheckedNodesIndex(
   data: TreeNodeData[],
-  checkedState: string[],
-  acc: CheckedNodeStatus[] = []
-) {
-  const currentTreeChecked: CheckedNodeStatus[] = [];
+  checkedState: string[]
+): CheckedNodesIndex {
+  const dataCache = checkedCache.get(data) || new WeakMap<string[], CheckedNodesIndex>();
+  checkedCache.set(data, dataCache);
+
+  const cached = dataCache.get(checkedState);
+  if (cached) {
+    return cached;
+  }
+
+  const { nodes, postOrder } = getTreeIndex(data);
+  const checkedValues = new Set(checkedState);
+  const statuses = new Map<string, CheckedNodeStatus>();
+
+  for (const value of postOrder) {
+    const node = nodes.get(value)!;
 
-  for (const node of data) {
     if (Array.isArray(node.children) && node.children.length > 0) {
-      const innerChecked = getAllCheckedNodes(node.children, checkedState, acc);
-      if (innerChecked.currentTreeChecked.length === node.children.length) {
-        const isChecked = innerChecked.currentTreeChecked.every((item) => item.checked);
-        const item = {
-          checked: isChecked,
-          indeterminate: !isChecked,
-          value: node.value,
-          hasChildren: true,
-        };
-        currentTreeChecked.push(item);
-        acc.push(item);
-      } else if (innerChecked.currentTreeChecked.length > 0) {
-        const item = { checked: false, indeterminate: true, value: node.value, hasChildren: true };
-        currentTreeChecked.push(item);
-        acc.push(item);
+      const childrenStatuses = node.children
+        .map((child) => statuses.get(child.value))
+        .filter((status) => !!status);
+
+      if (childrenStatuses.length > 0) {
+        const checked =
+          childrenStatuses.length === node.children.length &&
+          childrenStatuses.every((status) => status.checked);
+        statuses.set(value, { checked, indeterminate: !checked, value, hasChildren: true });
       }
-    } else if (checkedState.includes(node.value)) {
-      const item: CheckedNodeStatus = {
-        checked: true,
-        indeterminate: false,
-        value: node.value,
-        hasChildren: false,
-      };
-      currentTreeChecked.push(item);
-      acc.push(item);
+    } else if (checkedValues.has(value)) {
+      statuses.set(value, { checked: true, indeterminate: false, value, hasChildren: false });
     }
   }
 
+  const result = { checkedValues, statuses };
+  dataCache.set(checkedState, result);
+  return result;
+}
+
+export function getAllCheckedNodes(
+  data: TreeNodeData[],
+  checkedState: string[],
+  acc: CheckedNodeStatus[] = []
+) {
+  const { statuses } = getCheckedNodesIndex(data, checkedState);
+  acc.push(...statuses.values());
+
+  const currentTreeChecked = data
+    .map((node) => statuses.get(node.value))
+    .filter((status) => !!status);
+
   return { result: acc, currentTreeChecked };
 }
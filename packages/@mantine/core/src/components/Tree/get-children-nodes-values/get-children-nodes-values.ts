@@ -1,20 +1,20 @@
+import { getTreeIndex } from '../get-tree-index/get-tree-index';
 import type { TreeNodeData } from '../Tree';
 
 export function findTreeNode(value: string, data: TreeNodeData[]): TreeNodeData | null {
-  for (const node of data) {
-    if (node.value === value) {
-      return node;
-    }
+  return getTreeIndex(data).nodes.get(value) ?? null;
+}
 
-    if (Array.isArray(node.children)) {
-      const childNode = findTreeNode(value, node.children);
-      if (childNode) {
-        return childNode;
-      }
+function collectLeafValues(data: TreeNodeData[], acc: string[]) {
+  for (const node of data) {
+    if (Array.isArray(node.children) && node.children.length > 0) {
+      collectLeafValues(node.children, acc);
+    } else {
+      acc.push(node.value);
     }
   }
 
-  return null;
+  return acc;
 }
 
 // Returns values for all nested nodes which do not have children
@@ -32,25 +32,9 @@ export function getChildrenNodesValues(
     return [node.value];
   }
 
-  node.children.forEach((child) => {
-    if (Array.isArray(child.children) && child.children.length > 0) {
-      getChildrenNodesValues(child.value, data, acc);
-    } else {
-      acc.push(child.value);
-    }
-  });
-
-  return acc;
+  return collectLeafValues(node.children, acc);
 }
 
 export function getAllChildrenNodes(data: TreeNodeData[]) {
-  return data.reduce((acc, node) => {
-    if (Array.isArray(node.children) && node.children.length > 0) {
-      acc.push(...getAllChildrenNodes(node.children));
-    } else {
-      acc.push(node.value);
-    }
-
-    return acc;
-  }, [] as string[]);
+  return collectLeafValues(data, []);
 }
@@ -0,0 +1,40 @@
+import { getFlatTreeNodes } from './get-flat-tree-nodes';
+
+const data = [
+  {
+    value: '1',
+    label: '1',
+    children: [
+      { value: '1-1', label: '1-1', children: [{ value: '1-1-1', label: '1-1-1' }] },
+      { value: '1-2', label: '1-2' },
+    ],
+  },
+  { value: '2', label: '2', children: [{ value: '2-1', label: '2-1' }] },
+];
+
+const getValues = (expandedState: Record<string, boolean>) =>
+  getFlatTreeNodes(data, expandedState).map((item) => item.node.value);
+
+describe('@mantine/core/Tree/get-flat-tree-nodes', () => {
+  it('returns only root nodes when nothing is expanded', () => {
+    expect(getValues({})).toStrictEqual(['1', '2']);
+  });
+
+  it('returns children of expanded nodes in display order', () => {
+    expect(getValues({ '1': true, '1-1': true })).toStrictEqual(['1', '1-1', '1-1-1', '1-2', '2']);
+  });
+
+  it('does not return children of expanded nodes with collapsed parent', () => {
+    expect(getValues({ '1-1': true, '2': true })).toStrictEqual(['1', '2', '2-1']);
+  });
+
+  it('returns level, parent and position of each node', () => {
+    expect(getFlatTreeNodes(data, { '1': true })[2]).toStrictEqual({
+      node: data[0].children[1],
+      level: 2,
+      parent: '1',
+      setSize: 2,
+      posInSet: 2,
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import type { TreeNodeData } from '../Tree';
+import type { TreeExpandedState } from '../use-tree';
+
+export interface FlatTreeNode {
+  /** Node data */
+  node: TreeNodeData;
+
+  /** Node level in the tree, starts from `1` */
+  level: number;
+
+  /** Value of the parent node, `null` for root nodes */
+  parent: string | null;
+
+  /** Number of nodes on the same level with the same parent */
+  setSize: number;
+
+  /** Position of the node among its siblings, starts from `1` */
+  posInSet: number;
+}
+
+// Returns nodes that are currently visible (all ancestors are expanded) in the order they are displayed
+export function getFlatTreeNodes(
+  data: TreeNodeData[],
+  expandedState: TreeExpandedState,
+  level = 1,
+  parent: string | null = null,
+  acc: FlatTreeNode[] = []
+): FlatTreeNode[] {
+  data.forEach((node, index) => {
+    acc.push({ node, level, parent, setSize: data.length, posInSet: index + 1 });
+
+    if (expandedState[node.value] && Array.isArray(node.children)) {
+      getFlatTreeNodes(node.children, expandedState, level + 1, node.value, acc);
+    }
+  });
+
+  return acc;
+}
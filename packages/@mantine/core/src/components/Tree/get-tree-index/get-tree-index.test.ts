@@ -0,0 +1,28 @@
+import { getTreeIndex } from './get-tree-index';
+
+const data = [
+  {
+    value: '1',
+    label: '1',
+    children: [
+      { value: '1-1', label: '1-1', children: [{ value: '1-1-1', label: '1-1-1' }] },
+      { value: '1-2', label: '1-2' },
+    ],
+  },
+  { value: '2', label: '2' },
+];
+
+describe('@mantine/core/Tree/get-tree-index', () => {
+  it('indexes nodes and their parents', () => {
+    const index = getTreeIndex(data);
+    expect(index.nodes.get('1-1-1')).toBe(data[0].children![0].children![0]);
+    expect(index.parents.get('1-1-1')).toBe('1-1');
+    expect(index.parents.get('1')).toBe(null);
+    expect(index.postOrder).toStrictEqual(['1-1-1', '1-1', '1-2', '1', '2']);
+  });
+
+  it('reuses index for the same data array', () => {
+    expect(getTreeIndex(data)).toBe(getTreeIndex(data));
+    expect(getTreeIndex([...data])).not.toBe(getTreeIndex(data));
+  });
+});
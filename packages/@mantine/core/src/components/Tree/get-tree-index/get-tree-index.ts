@@ -0,0 +1,42 @@
+import type { TreeNodeData } from '../Tree';
+
+export interface TreeIndex {
+  /** Nodes by value */
+  nodes: Map<string, TreeNodeData>;
+
+  /** Parent node value by node value, `null` for root nodes */
+  parents: Map<string, string | null>;
+
+  /** Values of all nodes, children are listed before their parent */
+  postOrder: string[];
+}
+
+const indexCache = new WeakMap<TreeNodeData[], TreeIndex>();
+
+function indexNodes(data: TreeNodeData[], parent: string | null, index: TreeIndex) {
+  for (const node of data) {
+    if (!index.nodes.has(node.value)) {
+      index.nodes.set(node.value, node);
+      index.parents.set(node.value, parent);
+    }
+
+    if (Array.isArray(node.children)) {
+      indexNodes(node.children, node.value, index);
+    }
+
+    index.postOrder.push(node.value);
+  }
+}
+
+// Index is built once per data array and reused until data changes
+export function getTreeIndex(data: TreeNodeData[]): TreeIndex {
+  const cached = indexCache.get(data);
+  if (cached) {
+    return cached;
+  }
+
+  const index: TreeIndex = { nodes: new Map(), parents: new Map(), postOrder: [] };
+  indexNodes(data, null, index);
+  indexCache.set(data, index);
+  return index;
+}
@@ -1,5 +1,6 @@
 export { Tree } from './Tree';
 export { useTree, getTreeExpandedState } from './use-tree';
+export { moveTreeNode } from './move-tree-node/move-tree-node';
 export type {
   TreeCssVariables,
   TreeFactory,
@@ -8,5 +9,7 @@ export type {
   TreeNodeData,
   RenderTreeNodePayload,
 } from './Tree';
-export type { UseTreeInput, UseTreeReturnType } from './use-tree';
+export type { UseTreeInput, UseTreeReturnType, TreeNodeLoadingState } from './use-tree';
 export type { CheckedNodeStatus } from './get-all-checked-nodes/get-all-checked-nodes';
+export type { TreeFilter } from './filter-tree-data/filter-tree-data';
+export type { TreeNodeMovePayload, TreeDropPosition } from './move-tree-node/move-tree-node';
@@ -1,5 +1,4 @@
-import { memoize } from '../../../core';
-import { getAllCheckedNodes } from '../get-all-checked-nodes/get-all-checked-nodes';
+import { getCheckedNodesIndex } from '../get-all-checked-nodes/get-all-checked-nodes';
 import type { TreeNodeData } from '../Tree';
 
 export function isNodeChecked(
@@ -11,12 +10,6 @@ export function isNodeChecked(
     return false;
   }
 
-  if (checkedState.includes(value)) {
-    return true;
-  }
-
-  const checkedNodes = getAllCheckedNodes(data, checkedState).result;
-  return checkedNodes.some((node) => node.value === value && node.checked);
+  const { checkedValues, statuses } = getCheckedNodesIndex(data, checkedState);
+  return checkedValues.has(value) || !!statuses.get(value)?.checked;
 }
-
-export const memoizedIsNodeChecked = memoize(isNodeChecked);
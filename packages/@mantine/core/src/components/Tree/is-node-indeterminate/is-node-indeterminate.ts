@@ -1,5 +1,4 @@
-import { memoize } from '../../../core';
-import { getAllCheckedNodes } from '../get-all-checked-nodes/get-all-checked-nodes';
+import { getCheckedNodesIndex } from '../get-all-checked-nodes/get-all-checked-nodes';
 import type { TreeNodeData } from '../Tree';
 
 export function isNodeIndeterminate(
@@ -11,8 +10,5 @@ export function isNodeIndeterminate(
     return false;
   }
 
-  const checkedNodes = getAllCheckedNodes(data, checkedState).result;
-  return checkedNodes.some((node) => node.value === value && node.indeterminate);
+  return !!getCheckedNodesIndex(data, checkedState).statuses.get(value)?.indeterminate;
 }
-
-export const memoizedIsNodeIndeterminate = memoize(isNodeIndeterminate);
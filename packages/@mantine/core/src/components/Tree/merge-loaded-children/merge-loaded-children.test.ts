@@ -0,0 +1,46 @@
+import { mergeLoadedChildren } from './merge-loaded-children';
+
+const data = [
+  { value: 'src', label: 'src', hasChildren: true },
+  {
+    value: 'docs',
+    label: 'docs',
+    children: [{ value: 'docs/api', label: 'api', hasChildren: true }],
+  },
+  { value: 'readme', label: 'readme' },
+];
+
+describe('@mantine/core/Tree/merge-loaded-children', () => {
+  it('returns the same data if nothing was loaded', () => {
+    expect(mergeLoadedChildren(data, {})).toBe(data);
+  });
+
+  it('adds loaded children to root and nested nodes', () => {
+    const result = mergeLoadedChildren(data, {
+      src: [{ value: 'src/index.ts', label: 'index.ts' }],
+      'docs/api': [{ value: 'docs/api/tree.md', label: 'tree.md' }],
+    });
+
+    expect(result[0].children).toStrictEqual([{ value: 'src/index.ts', label: 'index.ts' }]);
+    expect(result[1].children![0].children).toStrictEqual([
+      { value: 'docs/api/tree.md', label: 'tree.md' },
+    ]);
+    expect(result[2]).toBe(data[2]);
+  });
+
+  it('adds children to nodes that were loaded', () => {
+    const result = mergeLoadedChildren(data, {
+      src: [{ value: 'src/components', label: 'components', hasChildren: true }],
+      'src/components': [{ value: 'src/components/Tree.tsx', label: 'Tree.tsx' }],
+    });
+
+    expect(result[0].children![0].children).toStrictEqual([
+      { value: 'src/components/Tree.tsx', label: 'Tree.tsx' },
+    ]);
+  });
+
+  it('does not override children that are set in data', () => {
+    const result = mergeLoadedChildren(data, { docs: [{ value: 'other', label: 'other' }] });
+    expect(result[1].children).toStrictEqual(data[1].children);
+  });
+});
@@ -0,0 +1,21 @@
+import type { TreeNodeData } from '../Tree';
+
+// Adds children loaded with `loadChildren` to nodes that do not have `children`
+export function mergeLoadedChildren(
+  data: TreeNodeData[],
+  loadedChildren: Record<string, TreeNodeData[]>
+): TreeNodeData[] {
+  if (Object.keys(loadedChildren).length === 0) {
+    return data;
+  }
+
+  return data.map((node) => {
+    const children = Array.isArray(node.children) ? node.children : loadedChildren[node.value];
+
+    if (!Array.isArray(children)) {
+      return node;
+    }
+
+    return { ...node, children: mergeLoadedChildren(children, loadedChildren) };
+  });
+}
@@ -0,0 +1,150 @@
+import type { TreeNodeData } from '../Tree';
+import { isTreeNodeMoveAllowed, moveTreeNode } from './move-tree-node';
+
+const data: TreeNodeData[] = [
+  {
+    value: 'src',
+    label: 'src',
+    children: [
+      { value: 'src/components', label: 'components', children: [] },
+      { value: 'src/index.ts', label: 'index.ts' },
+    ],
+  },
+  { value: 'package.json', label: 'package.json' },
+  { value: 'README.md', label: 'README.md' },
+];
+
+const getValues = (nodes: TreeNodeData[]): any[] =>
+  nodes.map((node) =>
+    Array.isArray(node.children) ? [node.value, getValues(node.children)] : node.value
+  );
+
+const node = (value: string) => ({ value, label: value });
+
+describe('@mantine/core/Tree/move-tree-node', () => {
+  it('moves node before target', () => {
+    expect(
+      getValues(
+        moveTreeNode(data, { node: node('README.md'), target: node('src'), position: 'before' })
+      )
+    ).toStrictEqual([
+      'README.md',
+      ['src', [['src/components', []], 'src/index.ts']],
+      'package.json',
+    ]);
+  });
+
+  it('moves node after target in another parent', () => {
+    expect(
+      getValues(
+        moveTreeNode(data, {
+          node: node('src/index.ts'),
+          target: node('package.json'),
+          position: 'after',
+        })
+      )
+    ).toStrictEqual([
+      ['src', [['src/components', []]]],
+      'package.json',
+      'src/index.ts',
+      'README.md',
+    ]);
+  });
+
+  it('moves node inside target as the last child', () => {
+    expect(
+      getValues(
+        moveTreeNode(data, {
+          node: node('package.json'),
+          target: node('src/components'),
+          position: 'inside',
+        })
+      )
+    ).toStrictEqual([['src', [['src/components', ['package.json']], 'src/index.ts']], 'README.md']);
+
+    expect(
+      getValues(
+        moveTreeNode(data, { node: node('src'), target: node('README.md'), position: 'inside' })
+      )
+    ).toStrictEqual([
+      'package.json',
+      ['README.md', [['src', [['src/components', []], 'src/index.ts']]]],
+    ]);
+  });
+
+  it('keeps subtree of the moved node', () => {
+    const result = moveTreeNode(data, {
+      node: node('src'),
+      target: node('README.md'),
+      position: 'after',
+    });
+    expect(result[2]).toStrictEqual(data[0]);
+  });
+
+  it('returns data unchanged when the move is not allowed', () => {
+    expect(moveTreeNode(data, { node: node('src'), target: node('src'), position: 'inside' })).toBe(
+      data
+    );
+    expect(
+      moveTreeNode(data, { node: node('src'), target: node('src/components'), position: 'inside' })
+    ).toBe(data);
+    expect(
+      moveTreeNode(data, { node: node('unknown'), target: node('src'), position: 'before' })
+    ).toBe(data);
+  });
+
+  it('moves nodes loaded with loadChildren', () => {
+    const lazyData: TreeNodeData[] = [
+      { value: 'src', label: 'src', hasChildren: true },
+      { value: 'README.md', label: 'README.md' },
+    ];
+
+    expect(
+      getValues(
+        moveTreeNode(
+          lazyData,
+          { node: node('src/index.ts'), target: node('README.md'), position: 'after' },
+          { src: [node('src/index.ts'), node('src/utils.ts')] }
+        )
+      )
+    ).toStrictEqual([['src', ['src/utils.ts']], 'README.md', 'src/index.ts']);
+    expect(
+      moveTreeNode(lazyData, {
+        node: node('src/index.ts'),
+        target: node('README.md'),
+        position: 'after',
+      })
+    ).toBe(lazyData);
+  });
+
+  it('does not move nodes inside nodes with children that are not loaded', () => {
+    const lazyData: TreeNodeData[] = [
+      { value: 'src', label: 'src', hasChildren: true },
+      { value: 'README.md', label: 'README.md' },
+    ];
+
+    expect(
+      moveTreeNode(lazyData, { node: node('README.md'), target: node('src'), position: 'inside' })
+    ).toBe(lazyData);
+    expect(
+      getValues(
+        moveTreeNode(
+          lazyData,
+          { node: node('README.md'), target: node('src'), position: 'inside' },
+          { src: [node('src/index.ts')] }
+        )
+      )
+    ).toStrictEqual([['src', ['src/index.ts', 'README.md']]]);
+  });
+
+  it('detects whether the move is allowed', () => {
+    expect(isTreeNodeMoveAllowed(data[0], data[1], 'before')).toBe(true);
+    expect(isTreeNodeMoveAllowed(data[0], data[0], 'before')).toBe(false);
+    expect(isTreeNodeMoveAllowed(data[0], data[0].children![1], 'inside')).toBe(false);
+    expect(isTreeNodeMoveAllowed(data[1], { ...data[0], hasChildren: true }, 'inside')).toBe(true);
+
+    const lazyNode = { value: 'lazy', label: 'lazy', hasChildren: true };
+    expect(isTreeNodeMoveAllowed(data[1], lazyNode, 'inside')).toBe(false);
+    expect(isTreeNodeMoveAllowed(data[1], lazyNode, 'after')).toBe(true);
+  });
+});
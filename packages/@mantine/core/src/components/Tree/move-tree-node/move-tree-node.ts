@@ -0,0 +1,90 @@
+import { findTreeNode } from '../get-children-nodes-values/get-children-nodes-values';
+import { mergeLoadedChildren } from '../merge-loaded-children/merge-loaded-children';
+import type { TreeNodeData } from '../Tree';
+
+export type TreeDropPosition = 'before' | 'after' | 'inside';
+
+export interface TreeNodeMovePayload {
+  /** Node that is moved */
+  node: TreeNodeData;
+
+  /** Node relative to which `node` is moved */
+  target: TreeNodeData;
+
+  /** `before` and `after` – `node` becomes a sibling of `target`, `inside` – `node` becomes the last child of `target` */
+  position: TreeDropPosition;
+}
+
+function removeTreeNode(data: TreeNodeData[], value: string): TreeNodeData[] {
+  return data
+    .filter((node) => node.value !== value)
+    .map((node) =>
+      Array.isArray(node.children)
+        ? { ...node, children: removeTreeNode(node.children, value) }
+        : node
+    );
+}
+
+function insertTreeNode(
+  data: TreeNodeData[],
+  node: TreeNodeData,
+  target: string,
+  position: TreeDropPosition
+): TreeNodeData[] {
+  return data.reduce<TreeNodeData[]>((acc, item) => {
+    if (item.value !== target) {
+      acc.push(
+        Array.isArray(item.children)
+          ? { ...item, children: insertTreeNode(item.children, node, target, position) }
+          : item
+      );
+      return acc;
+    }
+
+    if (position === 'inside') {
+      acc.push({ ...item, children: [...(item.children || []), node] });
+    } else if (position === 'before') {
+      acc.push(node, item);
+    } else {
+      acc.push(item, node);
+    }
+
+    return acc;
+  }, []);
+}
+
+/**
+ * Returns `true` if `node` can be moved relative to `target`: nodes must be different, `target` must not be a descendant of `node`
+ * and nodes cannot be moved inside `target` with `hasChildren: true` until its children are loaded
+ */
+export function isTreeNodeMoveAllowed(
+  node: TreeNodeData,
+  target: TreeNodeData,
+  position: TreeDropPosition
+) {
+  if (position === 'inside' && target.hasChildren && !Array.isArray(target.children)) {
+    return false;
+  }
+
+  return node.value !== target.value && !findTreeNode(target.value, node.children || []);
+}
+
+/**
+ * Returns new data with `node` moved relative to `target`, returns `data` unchanged if the move is not possible.
+ * Pass `tree.loadedChildren` to move nodes that were loaded with `loadChildren`, they are merged into the result.
+ */
+export function moveTreeNode(
+  data: TreeNodeData[],
+  { node, target, position }: TreeNodeMovePayload,
+  loadedChildren: Record<string, TreeNodeData[]> = {}
+): TreeNodeData[] {
+  const mergedData = mergeLoadedChildren(data, loadedChildren);
+  const sourceNode = findTreeNode(node.value, mergedData);
+  const targetNode = findTreeNode(target.value, mergedData);
+
+  if (!sourceNode || !targetNode || !isTreeNodeMoveAllowed(sourceNode, targetNode, position)) {
+    return data;
+  }
+
+  return insertTreeNode(removeTreeNode(mergedData, node.value), sourceNode, target.value, position);
+}
@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from 'react';
+import { findTreeNode } from './get-children-nodes-values/get-children-nodes-values';
+import {
+  isTreeNodeMoveAllowed,
+  TreeDropPosition,
+  TreeNodeMovePayload,
+} from './move-tree-node/move-tree-node';
+import type { TreeNodeData } from './Tree';
+import type { TreeController } from './use-tree';
+
+const DRAG_THRESHOLD = 5;
+const AUTO_EXPAND_DELAY = 500;
+
+export interface TreeDropTarget {
+  value: string;
+  position: TreeDropPosition;
+}
+
+interface UseTreeDragAndDropInput {
+  enabled: boolean | undefined;
+  data: TreeNodeData[];
+  controller: TreeController;
+  onNodeMove: ((payload: TreeNodeMovePayload) => void) | undefined;
+  canDrop: ((payload: TreeNodeMovePayload) => boolean) | undefined;
+}
+
+function getDropPosition(element: HTMLElement, clientY: number): TreeDropPosition {
+  const rect = element.getBoundingClientRect();
+  const edge = rect.height / 4;
+
+  if (clientY < rect.top + edge) {
+    return 'before';
+  }
+
+  if (clientY > rect.bottom - edge) {
+    return 'after';
+  }
+
+  return 'inside';
+}
+
+function getNodeSiblings(
+  value: string,
+  data: TreeNodeData[],
+  parent: TreeNodeData | null = null
+): { parent: TreeNodeData | null; siblings: TreeNodeData[]; index: number } | null {
+  const index = data.findIndex((node) => node.value === value);
+
+  if (index !== -1) {
+    return { parent, siblings: data, index };
+  }
+
+  for (const node of data) {
+    const result = Array.isArray(node.children)
+      ? getNodeSiblings(value, node.children, node)
+      : null;
+    if (result) {
+      return result;
+    }
+  }
+
+  return null;
+}
+
+function getKeyboardMove(
+  code: string,
+  value: string,
+  data: TreeNodeData[]
+): { target: TreeNodeData | null; position: TreeDropPosition } | null {
+  const location = getNodeSiblings(value, data);
+
+  if (!location) {
+    return null;
+  }
+
+  const { parent, siblings, index } = location;
+
+  switch (code) {
+    case 'ArrowUp':
+      return { target: index > 0 ? siblings[index - 1] : parent, position: 'before' };
+    case 'ArrowDown':
+      return {
+        target: index < siblings.length - 1 ? siblings[index + 1] : parent,
+        position: 'after',
+      };
+    case 'ArrowRight':
+      return { target: index > 0 ? siblings[index - 1] : null, position: 'inside' };
+    case 'ArrowLeft':
+      return { target: parent, position: 'after' };
+    default:
+      return null;
+  }
+}
+
+export function useTreeDragAndDrop({
+  enabled,
+  data,
+  controller,
+  onNodeMove,
+  canDrop,
+}: UseTreeDragAndDropInput) {
+  const [draggedNode, setDraggedNode] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TreeDropTarget | null>(null);
+  const rootRef = useRef<HTMLUListElement>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+  const focusAfterMoveRef = useRef<string | null>(null);
+  const latest = useRef({ data, controller, onNodeMove, canDrop });
+  latest.current = { data, controller, onNodeMove, canDrop };
+
+  const getMovePayload = (
+    nodeValue: string,
+    targetValue: string,
+    position: TreeDropPosition
+  ): TreeNodeMovePayload | null => {
+    const node = findTreeNode(nodeValue, latest.current.data);
+    const target = findTreeNode(targetValue, latest.current.data);
+
+    if (!node || !target || !isTreeNodeMoveAllowed(node, target, position)) {
+      return null;
+    }
+
+    const payload = { node, target, position };
+    return latest.current.canDrop?.(payload) === false ? null : payload;
+  };
+
+  const moveNode = (payload: TreeNodeMovePayload) => {
+    if (payload.position === 'inside') {
+      latest.current.controller.expand(payload.target.value);
+    }
+
+    focusAfterMoveRef.current = payload.node.value;
+    latest.current.onNodeMove?.(payload);
+  };
+
+  const onPointerDown = (event: React.PointerEvent, node: TreeNodeData) => {
+    if (!enabled || event.button !== 0) {
+      return;
+    }
+
+    cleanupRef.current?.();
+
+    const startX = event.clientX;
+    const startY = event.clientY;
+    let dragging = false;
+    let currentTarget: TreeDropTarget | null = null;
+    let expandTimeout = -1;
+
+    const scheduleExpand = (target: TreeDropTarget | null) => {
+      window.clearTimeout(expandTimeout);
+
+      if (target?.position === 'inside' && !latest.current.controller.expandedState[target.value]) {
+        expandTimeout = window.setTimeout(
+          () => latest.current.controller.expand(target.value),
+          AUTO_EXPAND_DELAY
+        );
+      }
+    };
+
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      if (!dragging) {
+        if (Math.hypot(moveEvent.clientX - startX, moveEvent.clientY - startY) < DRAG_THRESHOLD) {
+          return;
+        }
+
+        dragging = true;
+        setDraggedNode(node.value);
+      }
+
+      const element = document.elementFromPoint(moveEvent.clientX, moveEvent.clientY);
+      const item = element?.closest<HTMLElement>('[role=treeitem]');
+      const label = item && rootRef.current?.contains(item) ? item.firstElementChild : null;
+      const value = item?.dataset.value;
+      const position = label ? getDropPosition(label as HTMLElement, moveEvent.clientY) : null;
+      const next =
+        value && position && getMovePayload(node.value, value, position)
+          ? { value, position }
+          : null;
+
+      if (next?.value !== currentTarget?.value || next?.position !== currentTarget?.position) {
+        currentTarget = next;
+        setDropTarget(next);
+        scheduleExpand(next);
+      }
+    };
+
+    const suppressClick = (clickEvent: MouseEvent) => {
+      clickEvent.stopPropagation();
+      clickEvent.preventDefault();
+    };
+
+    const handlePointerUp = () => {
+      const payload =
+        dragging && currentTarget
+          ? getMovePayload(node.value, currentTarget.value, currentTarget.position)
+          : null;
+
+      cleanup();
+
+      if (dragging) {
+        window.addEventListener('click', suppressClick, { capture: true, once: true });
+        window.setTimeout(
+          () => window.removeEventListener('click', suppressClick, { capture: true }),
+          0
+        );
+      }
+
+      payload && moveNode(payload);
+    };
+
+    const handleKeyDown = (keyboardEvent: KeyboardEvent) => {
+      if (keyboardEvent.key === 'Escape') {
+        cleanup();
+      }
+    };
+
+    const cleanup = () => {
+      window.clearTimeout(expandTimeout);
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', cleanup);
+      document.removeEventListener('keydown', handleKeyDown);
+      cleanupRef.current = null;
+      setDraggedNode(null);
+      setDropTarget(null);
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', cleanup);
+    document.addEventListener('keydown', handleKeyDown);
+    cleanupRef.current = cleanup;
+  };
+
+  const onKeyboardMove = (event: React.KeyboardEvent, node: TreeNodeData) => {
+    if (!enabled || !event.altKey) {
+      return false;
+    }
+
+    const move = getKeyboardMove(event.nativeEvent.code, node.value, latest.current.data);
+
+    if (!move) {
+      return false;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const payload = move.target
+      ? getMovePayload(node.value, move.target.value, move.position)
+      : null;
+    payload && moveNode(payload);
+    return true;
+  };
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  useEffect(() => {
+    const value = focusAfterMoveRef.current;
+
+    if (value && rootRef.current) {
+      focusAfterMoveRef.current = null;
+      Array.from(rootRef.current.querySelectorAll<HTMLElement>('[role=treeitem]'))
+        .find((item) => item.dataset.value === value)
+        ?.focus();
+    }
+  }, [data]);
+
+  return { enabled, draggedNode, dropTarget, rootRef, onPointerDown, onKeyboardMove };
+}
+
+export type TreeDragAndDrop = ReturnType<typeof useTreeDragAndDrop>;
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from 'react';
+import { findElementAncestor } from '../../core';
+import { getTreeNodeText } from './filter-tree-data/filter-tree-data';
+import { getFlatTreeNodes } from './get-flat-tree-nodes/get-flat-tree-nodes';
+import type { TreeNodeData } from './Tree';
+import type { TreeExpandedState } from './use-tree';
+import type { TreeVirtualizer } from './use-tree-virtualizer';
+
+const TYPE_AHEAD_TIMEOUT = 500;
+
+interface UseTreeTypeAheadInput {
+  enabled: boolean | undefined;
+  data: TreeNodeData[];
+  expandedState: TreeExpandedState;
+  virtualizer: TreeVirtualizer;
+}
+
+export function useTreeTypeAhead({
+  enabled,
+  data,
+  expandedState,
+  virtualizer,
+}: UseTreeTypeAheadInput) {
+  const searchRef = useRef('');
+  const timeoutRef = useRef(-1);
+
+  const focusNode = (element: HTMLElement, value: string) => {
+    if (virtualizer.enabled) {
+      virtualizer.focusNode(value);
+      return;
+    }
+
+    const root = findElementAncestor(element, '[data-tree-root]');
+    Array.from(root?.querySelectorAll<HTMLElement>('[role=treeitem]') || [])
+      .find((item) => item.dataset.value === value)
+      ?.focus();
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent, node: TreeNodeData) => {
+    // Keys typed into inputs and other elements rendered inside the node are not handled
+    if (!enabled || event.target !== event.currentTarget) {
+      return false;
+    }
+
+    const isPrintable = event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+
+    // Space is used to expand and check nodes, it is a part of the search only after other characters
+    if (!isPrintable || (event.key === ' ' && searchRef.current === '')) {
+      return false;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    window.clearTimeout(timeoutRef.current);
+    timeoutRef.current = window.setTimeout(() => {
+      searchRef.current = '';
+    }, TYPE_AHEAD_TIMEOUT);
+    searchRef.current += event.key.toLowerCase();
+
+    const nodes = getFlatTreeNodes(data, expandedState);
+    const currentIndex = Math.max(
+      0,
+      nodes.findIndex((item) => item.node.value === node.value)
+    );
+
+    // The first character moves focus to the next matching node,
+    // next characters keep focus on the current node while it matches
+    const startIndex = searchRef.current.length === 1 ? currentIndex + 1 : currentIndex;
+
+    for (let offset = 0; offset < nodes.length; offset += 1) {
+      const candidate = nodes[(startIndex + offset) % nodes.length].node;
+
+      if (getTreeNodeText(candidate).toLowerCase().startsWith(searchRef.current)) {
+        candidate.value !== node.value &&
+          focusNode(event.currentTarget as HTMLElement, candidate.value);
+        break;
+      }
+    }
+
+    return true;
+  };
+
+  useEffect(() => () => window.clearTimeout(timeoutRef.current), []);
+
+  return { onKeyDown };
+}
+
+export type TreeTypeAhead = ReturnType<typeof useTreeTypeAhead>;
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getFlatTreeNodes } from './get-flat-tree-nodes/get-flat-tree-nodes';
+import type { TreeNodeData } from './Tree';
+import type { TreeExpandedState } from './use-tree';
+
+interface UseTreeVirtualizerInput {
+  enabled: boolean | undefined;
+  data: TreeNodeData[];
+  expandedState: TreeExpandedState;
+  nodeHeight: number;
+  overscan: number;
+}
+
+function findRenderedNode(root: HTMLElement, value: string) {
+  return Array.from(root.querySelectorAll<HTMLElement>('[role=treeitem]')).find(
+    (item) => item.dataset.value === value
+  );
+}
+
+export function useTreeVirtualizer({
+  enabled,
+  data,
+  expandedState,
+  nodeHeight,
+  overscan,
+}: UseTreeVirtualizerInput) {
+  const rootRef = useRef<HTMLUListElement>(null);
+  const pendingFocusRef = useRef<string | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  const flatNodes = useMemo(
+    () => (enabled ? getFlatTreeNodes(data, expandedState) : []),
+    [enabled, data, expandedState]
+  );
+
+  const flatIndices = useMemo(
+    () => new Map(flatNodes.map((item, index) => [item.node.value, index])),
+    [flatNodes]
+  );
+
+  const updateViewport = () => {
+    const root = rootRef.current;
+
+    if (!root) {
+      return;
+    }
+
+    setViewport((current) =>
+      current.scrollTop === root.scrollTop && current.height === root.clientHeight
+        ? current
+        : { scrollTop: root.scrollTop, height: root.clientHeight }
+    );
+  };
+
+  const start = Math.max(0, Math.floor(viewport.scrollTop / nodeHeight) - overscan);
+  const end = Math.min(
+    flatNodes.length,
+    Math.ceil((viewport.scrollTop + viewport.height) / nodeHeight) + overscan
+  );
+
+  const getAdjacentNodeValue = (value: string, offset: number) => {
+    const index = flatIndices.get(value);
+    return index === undefined ? undefined : flatNodes[index + offset]?.node.value;
+  };
+
+  const focusNode = (value: string) => {
+    const index = flatIndices.get(value);
+    const root = rootRef.current;
+
+    if (index === undefined || !root) {
+      return;
+    }
+
+    const top = index * nodeHeight;
+
+    if (top < root.scrollTop) {
+      root.scrollTop = top;
+    } else if (top + nodeHeight > root.scrollTop + root.clientHeight) {
+      root.scrollTop = top + nodeHeight - root.clientHeight;
+    }
+
+    const element = findRenderedNode(root, value);
+
+    if (element) {
+      element.focus();
+    } else {
+      pendingFocusRef.current = value;
+      updateViewport();
+    }
+  };
+
+  useEffect(() => {
+    const root = rootRef.current;
+
+    if (!enabled || !root) {
+      return undefined;
+    }
+
+    root.addEventListener('scroll', updateViewport, { passive: true });
+    const observer =
+      typeof ResizeObserver !== 'undefined' ? new ResizeObserver(updateViewport) : null;
+    observer?.observe(root);
+    updateViewport();
+
+    return () => {
+      root.removeEventListener('scroll', updateViewport);
+      observer?.disconnect();
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const value = pendingFocusRef.current;
+
+    if (value && rootRef.current) {
+      const element = findRenderedNode(rootRef.current, value);
+
+      if (element) {
+        pendingFocusRef.current = null;
+        element.focus();
+      }
+    }
+  });
+
+  return {
+    enabled,
+    rootRef,
+    nodeHeight,
+    start,
+    nodes: flatNodes.slice(start, end),
+    offsetTop: start * nodeHeight,
+    offsetBottom: Math.max(0, flatNodes.length - end) * nodeHeight,
+    focusNode,
+    getAdjacentNodeValue,
+  };
+}
+
+export type TreeVirtualizer = ReturnType<typeof useTreeVirtualizer>;
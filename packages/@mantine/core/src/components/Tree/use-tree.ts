@@ -1,18 +1,34 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  defaultTreeFilter,
+  filterTreeData,
+  getFilteredTreeParents,
+  TreeFilter,
+} from './filter-tree-data/filter-tree-data';
 import {
   CheckedNodeStatus,
   getAllCheckedNodes,
 } from './get-all-checked-nodes/get-all-checked-nodes';
 import {
+  findTreeNode,
   getAllChildrenNodes,
   getChildrenNodesValues,
 } from './get-children-nodes-values/get-children-nodes-values';
-import { memoizedIsNodeChecked } from './is-node-checked/is-node-checked';
-import { memoizedIsNodeIndeterminate } from './is-node-indeterminate/is-node-indeterminate';
+import { isNodeChecked as _isNodeChecked } from './is-node-checked/is-node-checked';
+import { isNodeIndeterminate as _isNodeIndeterminate } from './is-node-indeterminate/is-node-indeterminate';
+import { mergeLoadedChildren } from './merge-loaded-children/merge-loaded-children';
 import type { TreeNodeData } from './Tree';
 
 export type TreeExpandedState = Record<string, boolean>;
 
+export interface TreeNodeLoadingState {
+  /** `loading` – `loadChildren` is pending, `loaded` – children were loaded, `error` – `loadChildren` was rejected */
+  status: 'loading' | 'loaded' | 'error';
+
+  /** Error that `loadChildren` was rejected with, set only when `status` is `error` */
+  error?: unknown;
+}
+
 function getInitialTreeExpandedState(
   initialState: TreeExpandedState,
   data: TreeNodeData[],
@@ -70,6 +86,12 @@ export interface UseTreeInput {
 
   /** Called with the node value when it is collapsed */
   onNodeCollapse?: (value: string) => void;
+
+  /** Called when a node with `hasChildren: true` and without `children` is expanded, must return a promise that resolves with children of the node */
+  loadChildren?: (node: TreeNodeData) => Promise<TreeNodeData[]>;
+
+  /** Determines whether the node matches `filterQuery`, by default node label is matched case-insensitively */
+  filter?: TreeFilter;
 }
 
 export interface UseTreeReturnType {
@@ -155,6 +177,24 @@ export interface UseTreeReturnType {
 
   /** Returns `true` if node with provided value is indeterminate */
   isNodeIndeterminate: (value: string) => boolean;
+
+  /** A record of `node.value` and loading state of children loaded with `loadChildren` */
+  loadingState: Record<string, TreeNodeLoadingState>;
+
+  /** A record of `node.value` and children loaded with `loadChildren` */
+  loadedChildren: Record<string, TreeNodeData[]>;
+
+  /** Loads children of the node with provided value with `loadChildren`, can be used to retry loading after error */
+  loadNodeChildren: (value: string) => Promise<void>;
+
+  /** Current filter query, nodes that do not match it and do not have matching children are hidden */
+  filterQuery: string;
+
+  /** Sets filter query, ancestors of matching nodes are expanded */
+  setFilterQuery: (query: string) => void;
+
+  /** Returns `true` if the node matches `filterQuery`, always `true` if `filterQuery` is empty */
+  isNodeMatching: (node: TreeNodeData) => boolean;
 }
 
 export function useTree({
@@ -164,6 +204,8 @@ export function useTree({
   multiple = false,
   onNodeCollapse,
   onNodeExpand,
+  loadChildren,
+  filter = defaultTreeFilter,
 }: UseTreeInput = {}): UseTreeReturnType {
   const [data, setData] = useState<TreeNodeData[]>([]);
   const [expandedState, setExpandedState] = useState(initialExpandedState);
@@ -171,49 +213,110 @@ export function useTree({
   const [checkedState, setCheckedState] = useState(initialCheckedState);
   const [anchorNode, setAnchorNode] = useState<string | null>(null);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+  const [loadingState, _setLoadingState] = useState<Record<string, TreeNodeLoadingState>>({});
+  const [loadedChildren, setLoadedChildren] = useState<Record<string, TreeNodeData[]>>({});
+  const [filterQuery, setFilterQuery] = useState('');
+
+  const dataRef = useRef(data);
+  const expandedStateRef = useRef(expandedState);
+  const loadingStateRef = useRef(loadingState);
+  const loadedChildrenRef = useRef(loadedChildren);
+  const loadChildrenRef = useRef(loadChildren);
+  dataRef.current = data;
+  expandedStateRef.current = expandedState;
+  loadChildrenRef.current = loadChildren;
+
+  const setNodeLoadingState = (value: string, state: TreeNodeLoadingState) => {
+    loadingStateRef.current = { ...loadingStateRef.current, [value]: state };
+    _setLoadingState(loadingStateRef.current);
+  };
 
   const initialize = useCallback(
     (_data: TreeNodeData[]) => {
-      setExpandedState((current) => getInitialTreeExpandedState(current, _data, selectedState));
-      setCheckedState((current) => getInitialCheckedState(current, _data));
-      setData(_data);
+      const mergedData = mergeLoadedChildren(_data, loadedChildrenRef.current);
+      setExpandedState((current) =>
+        getInitialTreeExpandedState(current, mergedData, selectedState)
+      );
+      setCheckedState((current) => getInitialCheckedState(current, mergedData));
+      setData(mergedData);
+      dataRef.current = mergedData;
     },
     [selectedState, checkedState]
   );
 
+  const loadNodeChildren = useCallback(async (value: string) => {
+    const node = findTreeNode(value, dataRef.current);
+
+    if (!node || !loadChildrenRef.current || loadingStateRef.current[value]?.status === 'loading') {
+      return;
+    }
+
+    setNodeLoadingState(value, { status: 'loading' });
+
+    try {
+      const children = await loadChildrenRef.current(node);
+      loadedChildrenRef.current = { ...loadedChildrenRef.current, [value]: children };
+      setLoadedChildren(loadedChildrenRef.current);
+      setData((current) => mergeLoadedChildren(current, { [value]: children }));
+      setExpandedState((current) => ({
+        ...getInitialTreeExpandedState(current, children, undefined),
+        ...current,
+      }));
+      setCheckedState((current) => {
+        const leafValues = getAllChildrenNodes(children);
+        return current.includes(value) && leafValues.length > 0
+          ? Array.from(new Set([...current.filter((item) => item !== value), ...leafValues]))
+          : current;
+      });
+      setNodeLoadingState(value, { status: 'loaded' });
+    } catch (error) {
+      setNodeLoadingState(value, { status: 'error', error });
+    }
+  }, []);
+
+  const loadChildrenOnExpand = (value: string) => {
+    const node = findTreeNode(value, dataRef.current);
+    const status = loadingStateRef.current[value]?.status;
+
+    if (node?.hasChildren && !Array.isArray(node.children) && status !== 'loaded') {
+      loadNodeChildren(value);
+    }
+  };
+
+  // Side effects run outside of state updaters, StrictMode calls updaters twice
+  const setNodeExpanded = (value: string, expanded: boolean) => {
+    expandedStateRef.current = { ...expandedStateRef.current, [value]: expanded };
+    setExpandedState((current) => ({ ...current, [value]: expanded }));
+  };
+
   const toggleExpanded = useCallback(
     (value: string) => {
-      setExpandedState((current) => {
-        const nextState = { ...current, [value]: !current[value] };
-        nextState[value] ? onNodeExpand?.(value) : onNodeCollapse?.(value);
-        return nextState;
-      });
+      const expanded = !expandedStateRef.current[value];
+      setNodeExpanded(value, expanded);
+      expanded ? onNodeExpand?.(value) : onNodeCollapse?.(value);
+      expanded && loadChildrenOnExpand(value);
     },
     [onNodeCollapse, onNodeExpand]
   );
 
   const collapse = useCallback(
     (value: string) => {
-      setExpandedState((current) => {
-        if (current[value] !== false) {
-          onNodeCollapse?.(value);
-        }
-
-        return { ...current, [value]: false };
-      });
+      const changed = expandedStateRef.current[value] !== false;
+      setNodeExpanded(value, false);
+      changed && onNodeCollapse?.(value);
     },
     [onNodeCollapse]
   );
 
   const expand = useCallback(
     (value: string) => {
-      setExpandedState((current) => {
-        if (current[value] !== true) {
-          onNodeExpand?.(value);
-        }
+      const changed = expandedStateRef.current[value] !== true;
+      setNodeExpanded(value, true);
 
-        return { ...current, [value]: true };
-      });
+      if (changed) {
+        onNodeExpand?.(value);
+        loadChildrenOnExpand(value);
+      }
     },
     [onNodeExpand]
   );
@@ -292,8 +395,8 @@ export function useTree({
 
   const uncheckNode = useCallback(
     (value: string) => {
-      const checkedNodes = getChildrenNodesValues(value, data);
-      setCheckedState((current) => current.filter((item) => !checkedNodes.includes(item)));
+      const checkedNodes = new Set(getChildrenNodesValues(value, data));
+      setCheckedState((current) => current.filter((item) => !checkedNodes.has(item)));
     },
     [data]
   );
@@ -307,9 +410,34 @@ export function useTree({
   }, []);
 
   const getCheckedNodes = () => getAllCheckedNodes(data, checkedState).result;
-  const isNodeChecked = (value: string) => memoizedIsNodeChecked(value, data, checkedState);
-  const isNodeIndeterminate = (value: string) =>
-    memoizedIsNodeIndeterminate(value, data, checkedState);
+  const isNodeChecked = (value: string) => _isNodeChecked(value, data, checkedState);
+  const isNodeIndeterminate = (value: string) => _isNodeIndeterminate(value, data, checkedState);
+
+  const isNodeMatching = (node: TreeNodeData) =>
+    filterQuery.trim() === '' || filter(node, filterQuery);
+
+  useEffect(() => {
+    if (filterQuery.trim() === '') {
+      return;
+    }
+
+    const parents = getFilteredTreeParents(filterTreeData(data, isNodeMatching));
+
+    if (parents.length > 0) {
+      setExpandedState((current) => {
+        if (parents.every((value) => current[value])) {
+          return current;
+        }
+
+        const next = { ...current };
+        parents.forEach((value) => {
+          next[value] = true;
+        });
+
+        return next;
+      });
+    }
+  }, [filterQuery, data]);
 
   return {
     multiple,
@@ -343,6 +471,14 @@ export function useTree({
     getCheckedNodes,
     isNodeChecked,
     isNodeIndeterminate,
+
+    loadingState,
+    loadedChildren,
+    loadNodeChildren,
+
+    filterQuery,
+    setFilterQuery,
+    isNodeMatching,
   };
 }
 
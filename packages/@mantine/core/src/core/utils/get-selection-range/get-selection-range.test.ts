@@ -0,0 +1,31 @@
+import { getSelectionRange } from './get-selection-range';
+
+describe('@mantine/core/get-selection-range', () => {
+  const values = ['a', 'b', 'c', 'd', 'e'];
+
+  it('returns range between anchor and value', () => {
+    expect(getSelectionRange('b', 'd', values)).toStrictEqual(['b', 'c', 'd']);
+  });
+
+  it('returns the same range when value is before anchor', () => {
+    expect(getSelectionRange('d', 'b', values)).toStrictEqual(['b', 'c', 'd']);
+  });
+
+  it('returns single value when anchor and value are the same', () => {
+    expect(getSelectionRange('c', 'c', values)).toStrictEqual(['c']);
+  });
+
+  it('returns empty array when anchor or value is not set', () => {
+    expect(getSelectionRange(null, 'c', values)).toStrictEqual([]);
+    expect(getSelectionRange('c', undefined, values)).toStrictEqual([]);
+  });
+
+  it('returns empty array when anchor or value is not in values', () => {
+    expect(getSelectionRange('x', 'c', values)).toStrictEqual([]);
+    expect(getSelectionRange('c', 'x', values)).toStrictEqual([]);
+  });
+
+  it('supports numbers', () => {
+    expect(getSelectionRange(0, 2, [2, 1, 0])).toStrictEqual([2, 1, 0]);
+  });
+});
@@ -0,0 +1,22 @@
+/** Returns values between `anchor` and `value` (both included) in the order of `values` */
+export function getSelectionRange<T>(
+  anchor: T | null | undefined,
+  value: T | null | undefined,
+  values: T[]
+): T[] {
+  if (anchor === null || anchor === undefined || value === null || value === undefined) {
+    return [];
+  }
+
+  const anchorIndex = values.indexOf(anchor);
+  const valueIndex = values.indexOf(value);
+
+  if (anchorIndex === -1 || valueIndex === -1) {
+    return [];
+  }
+
+  const start = Math.min(anchorIndex, valueIndex);
+  const end = Math.max(anchorIndex, valueIndex);
+
+  return values.slice(start, end + 1);
+}
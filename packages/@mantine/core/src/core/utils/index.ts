@@ -38,3 +38,4 @@ export {
   getRootElement,
 } from './find-element-in-shadow-dom/find-element-in-shadow-dom';
 export { getSingleElementChild } from './get-single-element-child/get-single-element-child';
+export { getSelectionRange } from './get-selection-range/get-selection-range';
@@ -13,7 +13,8 @@ import {
 import { useUncontrolled } from '@mantine/hooks';
 import { useUncontrolledDates } from '../../hooks';
 import { CalendarLevel, DateStringValue } from '../../types';
-import { toDateString } from '../../utils';
+import { getTimezoneToday, toDateString } from '../../utils';
+import { useDatesContext } from '../DatesProvider';
 import { DecadeLevelSettings } from '../DecadeLevel';
 import { DecadeLevelGroup, DecadeLevelGroupStylesNames } from '../DecadeLevelGroup';
 import { MonthLevelSettings } from '../MonthLevel';
@@ -235,6 +236,7 @@ export const Calendar = factory<CalendarFactory>((_props, ref) => {
     minDate,
     maxDate,
     locale,
+    timezone,
     __staticSelector,
     size,
     __preventFocus,
@@ -264,11 +266,15 @@ export const Calendar = factory<CalendarFactory>((_props, ref) => {
     onChange: onLevelChange,
   });
 
+  const ctx = useDatesContext();
+  const _timezone = ctx.getTimezone(timezone);
+
   const [_date, setDate] = useUncontrolledDates({
     type: 'default',
-    value: toDateString(date),
-    defaultValue: toDateString(defaultDate),
+    value: toDateString(date, _timezone),
+    defaultValue: toDateString(defaultDate, _timezone),
     onChange: onDateChange as any,
+    timezone: _timezone,
   });
 
   useImperativeHandle(__setDateRef, () => (date: DateStringValue) => {
@@ -290,9 +296,8 @@ export const Calendar = factory<CalendarFactory>((_props, ref) => {
 
   const _columnsToScroll = columnsToScroll || numberOfColumns || 1;
 
-  const now = new Date();
-  const fallbackDate =
-    minDate && dayjs(now).isAfter(minDate) ? minDate : dayjs(now).format('YYYY-MM-DD');
+  const today = getTimezoneToday(_timezone);
+  const fallbackDate = minDate && dayjs(today).isAfter(minDate) ? minDate : today;
   const currentDate = _date || fallbackDate;
 
   const handleNextMonth = () => {
@@ -435,6 +440,7 @@ export const Calendar = factory<CalendarFactory>((_props, ref) => {
           onLevelClick={() => setLevel('year')}
           numberOfColumns={numberOfColumns}
           locale={locale}
+          timezone={timezone}
           levelControlAriaLabel={ariaLabels?.monthLevelControl}
           nextLabel={ariaLabels?.nextMonth ?? nextLabel}
           nextIcon={nextIcon}
@@ -463,6 +469,7 @@ export const Calendar = factory<CalendarFactory>((_props, ref) => {
           monthsListFormat={monthsListFormat}
           getMonthControlProps={getMonthControlProps}
           locale={locale}
+          timezone={timezone}
           onNext={handleNextYear}
           onPrevious={handlePreviousYear}
           hasNextLevel={maxLevel !== 'month' && maxLevel !== 'year'}
@@ -495,6 +502,7 @@ export const Calendar = factory<CalendarFactory>((_props, ref) => {
           yearsListFormat={yearsListFormat}
           getYearControlProps={getYearControlProps}
           locale={locale}
+          timezone={timezone}
           onNext={handleNextDecade}
           onPrevious={handlePreviousDecade}
           numberOfColumns={numberOfColumns}
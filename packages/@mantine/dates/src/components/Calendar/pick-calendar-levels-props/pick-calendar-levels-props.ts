@@ -64,6 +64,7 @@ export function pickCalendarProps<T extends Record<string, any>>(props: T) {
     minDate,
     maxDate,
     locale,
+    timezone,
     ...others
   } = props;
 
@@ -132,6 +133,7 @@ export function pickCalendarProps<T extends Record<string, any>>(props: T) {
       minDate,
       maxDate,
       locale,
+      timezone,
     },
     others,
   };
@@ -255,3 +255,20 @@ export function Size() {
     </div>
   );
 }
+
+export function NaturalLanguage() {
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <div style={{ padding: 40, maxWidth: 400 }}>
+      <DateInput
+        naturalLanguage
+        label="Natural language"
+        placeholder="tomorrow, next fri, in 2 weeks"
+        value={value}
+        onChange={setValue}
+      />
+      <div>Value: {value}</div>
+    </div>
+  );
+}
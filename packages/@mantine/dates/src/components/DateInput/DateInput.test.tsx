@@ -1,3 +1,4 @@
+import dayjs from 'dayjs';
 import { __InputStylesNames } from '@mantine/core';
 import {
   inputDefaultProps,
@@ -375,6 +376,40 @@ describe('@mantine/dates/DateInput', () => {
     expectValue(container, 'April 11, 2022');
   });
 
+  it('displays natural language preview and applies it on Enter', async () => {
+    const spy = jest.fn();
+    const tomorrow = dayjs().add(1, 'day');
+    const { container } = render(<DateInput {...defaultProps} naturalLanguage onChange={spy} />);
+
+    await userEvent.type(getInput(container), 'tomorrow');
+    expect(spy).not.toHaveBeenCalled();
+    expect(container.querySelector('.mantine-DateInput-naturalDatePreview')).toHaveTextContent(
+      tomorrow.format('MMMM D, YYYY')
+    );
+
+    await userEvent.type(getInput(container), '{enter}');
+    expect(spy).toHaveBeenLastCalledWith(tomorrow.format('YYYY-MM-DD'));
+    expectValue(container, tomorrow.format('MMMM D, YYYY'));
+    expectNoPopover(container);
+  });
+
+  it('applies natural language preview on blur', async () => {
+    const { container } = render(<DateInput {...defaultProps} naturalLanguage />);
+
+    await userEvent.type(getInput(container), 'march 4th 2025');
+    await userEvent.tab();
+    expectValue(container, 'March 4, 2025');
+  });
+
+  it('does not display natural language preview for dates outside of min/max range', async () => {
+    const { container } = render(
+      <DateInput {...defaultProps} naturalLanguage minDate="2025-03-10" />
+    );
+
+    await userEvent.type(getInput(container), 'march 4 2025');
+    expect(container.querySelector('.mantine-DateInput-naturalDatePreview')).toBe(null);
+  });
+
   it('has correct default __staticSelector', () => {
     const { container } = render(
       <DateInput
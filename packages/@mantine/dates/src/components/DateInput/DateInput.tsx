@@ -13,10 +13,12 @@ import {
   Popover,
   PopoverProps,
   StylesApiProps,
+  UnstyledButton,
   useInputProps,
+  useStyles,
 } from '@mantine/core';
 import { useClickOutside, useDidUpdate } from '@mantine/hooks';
-import { useUncontrolledDates } from '../../hooks';
+import { useNaturalDateParser, useUncontrolledDates } from '../../hooks';
 import { CalendarLevel, DateStringValue, DateValue } from '../../types';
 import { Calendar, CalendarBaseProps, CalendarStylesNames, pickCalendarProps } from '../Calendar';
 import { useDatesContext } from '../DatesProvider';
@@ -26,9 +28,10 @@ import { isSameMonth } from '../Month';
 import { MonthLevelSettings } from '../MonthLevel';
 import { YearLevelSettings } from '../YearLevel';
 import { dateStringParser } from './date-string-parser/date-string-parser';
+import classes from './DateInput.module.css';
 import { isDateValid } from './is-date-valid/is-date-valid';
 
-export type DateInputStylesNames = __InputStylesNames | CalendarStylesNames;
+export type DateInputStylesNames = __InputStylesNames | CalendarStylesNames | 'naturalDatePreview';
 
 export interface DateInputProps
   extends BoxProps,
@@ -80,6 +83,9 @@ export interface DateInputProps
 
   /** Called when the level changes */
   onLevelChange?: (level: CalendarLevel) => void;
+
+  /** If set, natural language input, for example, `"tomorrow"` or `"next fri"`, is parsed. Resolved date is displayed in the dropdown and is applied on Enter, blur or preview click. @default `false` */
+  naturalLanguage?: boolean;
 }
 
 export type DateInputFactory = Factory<{
@@ -131,9 +137,20 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
     getMonthControlProps,
     getYearControlProps,
     disabled,
+    naturalLanguage,
     ...rest
   } = props;
 
+  const getStyles = useStyles<DateInputFactory>({
+    name: 'DateInput',
+    classes,
+    props: _props,
+    classNames,
+    styles,
+    unstyled,
+    attributes: wrapperProps.attributes,
+  });
+
   const _wrapperRef = useRef<HTMLDivElement>(null);
   const _dropdownRef = useRef<HTMLDivElement>(null);
   const [dropdownOpened, setDropdownOpened] = useState(false);
@@ -147,6 +164,11 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
   };
 
   const _dateParser = dateParser || defaultDateParser;
+  const naturalDateParser = useNaturalDateParser({
+    locale,
+    firstDayOfWeek: calendarProps.firstDayOfWeek,
+    timezone: calendarProps.timezone,
+  });
   const _allowDeselect = allowDeselect !== undefined ? allowDeselect : clearable;
 
   const formatValue = (val: DateStringValue) =>
@@ -157,6 +179,7 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
     value,
     defaultValue,
     onChange,
+    timezone: calendarProps.timezone,
   });
 
   const [_date, setDate] = useUncontrolledDates({
@@ -164,6 +187,7 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
     value: date,
     defaultValue: defaultValue || defaultDate,
     onChange: onDateChange as any,
+    timezone: calendarProps.timezone,
   });
 
   useEffect(() => {
@@ -173,6 +197,7 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
   }, [controlled, value]);
 
   const [inputValue, setInputValue] = useState(formatValue(_value));
+  const [preview, setPreview] = useState<DateStringValue | null>(null);
 
   useEffect(() => {
     setInputValue(formatValue(_value));
@@ -185,6 +210,15 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
 
     if (val.trim() === '' && (allowDeselect || clearable)) {
       setValue(null);
+      setPreview(null);
+    } else if (naturalLanguage) {
+      const customValue = dateParser?.(val);
+      const dateValue =
+        naturalDateParser(val)?.[0] ||
+        (customValue ? dayjs(customValue).format('YYYY-MM-DD') : null);
+      const isValid = !!dateValue && isDateValid({ date: dateValue, minDate, maxDate });
+      setPreview(isValid ? dateValue : null);
+      isValid && setDate(dateValue);
     } else {
       const dateValue = _dateParser(val);
       if (dateValue && isDateValid({ date: dateValue, minDate, maxDate })) {
@@ -194,10 +228,20 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
     }
   };
 
+  const applyPreview = () => {
+    if (preview) {
+      setValue(preview);
+      setDate(preview);
+      !controlled && setInputValue(formatValue(preview));
+      setPreview(null);
+    }
+  };
+
   const handleInputBlur = (event: React.FocusEvent<HTMLInputElement>) => {
     onBlur?.(event);
     setDropdownOpened(false);
-    fixOnBlur && setInputValue(formatValue(_value));
+    applyPreview();
+    fixOnBlur && setInputValue(formatValue(preview || _value));
   };
 
   const handleInputFocus = (event: React.FocusEvent<HTMLInputElement>) => {
@@ -213,15 +257,24 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
   const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Escape') {
       setDropdownOpened(false);
+      setPreview(null);
     }
+
+    if (event.key === 'Enter' && preview) {
+      event.preventDefault();
+      applyPreview();
+      setDropdownOpened(false);
+    }
+
     onKeyDown?.(event);
   };
 
   const _getDayProps = (day: DateStringValue) => ({
     ...getDayProps?.(day),
-    selected: dayjs(_value).isSame(day, 'day'),
+    selected: dayjs(preview || _value).isSame(day, 'day'),
     onClick: (event: any) => {
       getDayProps?.(day).onClick?.(event);
+      setPreview(null);
 
       const val = _allowDeselect ? (dayjs(_value).isSame(day, 'day') ? null : day) : day;
       setValue(val);
@@ -234,6 +287,7 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
     <Input.ClearButton
       onClick={() => {
         setValue(null);
+        setPreview(null);
         !controlled && setInputValue('');
         setDropdownOpened(false);
       }}
@@ -292,6 +346,19 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
             data-dates-dropdown
             ref={_dropdownRef}
           >
+            {naturalLanguage && preview && (
+              <UnstyledButton
+                {...getStyles('naturalDatePreview')}
+                tabIndex={-1}
+                aria-live="polite"
+                onClick={() => {
+                  applyPreview();
+                  setDropdownOpened(false);
+                }}
+              >
+                {formatValue(preview)}
+              </UnstyledButton>
+            )}
             <Calendar
               __staticSelector="DateInput"
               {...calendarProps}
@@ -324,5 +391,5 @@ export const DateInput = factory<DateInputFactory>((_props, ref) => {
   );
 });
 
-DateInput.classes = { ...Input.classes, ...Calendar.classes };
+DateInput.classes = { ...Input.classes, ...Calendar.classes, ...classes };
 DateInput.displayName = '@mantine/dates/DateInput';
@@ -172,6 +172,7 @@ export const DatePicker: DatePickerComponent = factory<DatePickerFactory>((_prop
       defaultValue,
       onChange: onChange as any,
       onMouseLeave,
+      timezone: props.timezone,
     });
 
   const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<DatePickerFactory>({
@@ -347,3 +347,12 @@ export function DarkColorSchemeDemo() {
     </SimpleGrid>
   );
 }
+
+export function NaturalLanguage() {
+  return (
+    <div style={{ padding: 40, maxWidth: 400 }}>
+      <DatePickerInput naturalLanguage placeholder="Single date" />
+      <DatePickerInput type="range" naturalLanguage placeholder="Range" mt="md" />
+    </div>
+  );
+}
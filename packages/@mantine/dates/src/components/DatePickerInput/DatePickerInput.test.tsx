@@ -1,5 +1,13 @@
+import dayjs from 'dayjs';
 import { __InputStylesNames } from '@mantine/core';
-import { inputDefaultProps, inputStylesApiSelectors, render, tests } from '@mantine-tests/core';
+import {
+  inputDefaultProps,
+  inputStylesApiSelectors,
+  render,
+  screen,
+  tests,
+  userEvent,
+} from '@mantine-tests/core';
 import { clickControl, clickInput, datesTests, expectValue } from '@mantine-tests/dates';
 import { DatePickerInput, DatePickerInputProps } from './DatePickerInput';
 
@@ -118,4 +126,36 @@ describe('@mantine/dates/DatePickerInput', () => {
     expectValue(container, 'April 11, 2022');
     expect(spy).toHaveBeenCalledWith('2022-04-01');
   });
+
+  it('supports natural language input with type="range"', async () => {
+    const spy = jest.fn();
+    const today = dayjs();
+    const { container } = render(
+      <DatePickerInput {...defaultProps} type="range" naturalLanguage onChange={spy} />
+    );
+
+    await clickInput(container);
+    await userEvent.type(screen.getByRole('textbox', { name: 'Type a date' }), 'last 7 days');
+    expect(spy).not.toHaveBeenCalled();
+    expect(
+      container.querySelector('.mantine-DatePickerInput-naturalDatePreview')
+    ).toHaveTextContent(
+      `${today.subtract(6, 'day').format('MMMM D, YYYY')} – ${today.format('MMMM D, YYYY')}`
+    );
+
+    await userEvent.type(screen.getByRole('textbox', { name: 'Type a date' }), '{enter}');
+    expect(spy).toHaveBeenCalledWith([
+      today.subtract(6, 'day').format('YYYY-MM-DD'),
+      today.format('YYYY-MM-DD'),
+    ]);
+  });
+
+  it('does not display natural language input with type="multiple"', async () => {
+    const { container } = render(
+      <DatePickerInput {...defaultProps} type="multiple" naturalLanguage />
+    );
+
+    await clickInput(container);
+    expect(screen.queryByRole('textbox', { name: 'Type a date' })).not.toBeInTheDocument();
+  });
 });
@@ -1,22 +1,35 @@
+import { useState } from 'react';
 import {
   __InputStylesNames,
   BoxProps,
   factory,
   Factory,
+  Input,
   InputVariant,
   MantineComponentStaticProperties,
+  MantineSize,
   StylesApiProps,
+  UnstyledButton,
   useProps,
   useResolvedStylesApi,
+  useStyles,
 } from '@mantine/core';
-import { useDatesInput } from '../../hooks';
+import { useDatesInput, useNaturalDateParser } from '../../hooks';
 import { DatePickerType } from '../../types';
-import { getDefaultClampedDate } from '../../utils';
+import { getDefaultClampedDate, getFormattedDate, NaturalDateRange } from '../../utils';
 import { pickCalendarProps } from '../Calendar';
+import { isDateValid } from '../DateInput/is-date-valid/is-date-valid';
 import { DatePicker, DatePickerBaseProps, DatePickerStylesNames } from '../DatePicker';
+import { useDatesContext } from '../DatesProvider';
 import { DateInputSharedProps, PickerInputBase } from '../PickerInputBase';
+import classes from './DatePickerInput.module.css';
 
-export type DatePickerInputStylesNames = __InputStylesNames | 'placeholder' | DatePickerStylesNames;
+export type DatePickerInputStylesNames =
+  | __InputStylesNames
+  | 'placeholder'
+  | 'naturalDateInput'
+  | 'naturalDatePreview'
+  | DatePickerStylesNames;
 
 export interface DatePickerInputProps<Type extends DatePickerType = 'default'>
   extends BoxProps,
@@ -25,6 +38,12 @@ export interface DatePickerInputProps<Type extends DatePickerType = 'default'>
     StylesApiProps<DatePickerInputFactory> {
   /** `dayjs` format for input value @default `"MMMM D, YYYY"` */
   valueFormat?: string;
+
+  /** If set, the dropdown displays an input that parses natural language, for example, `"next fri"` or `"last 7 days"`. Resolved value is applied on Enter or preview click. Not supported with `type="multiple"`. @default `false` */
+  naturalLanguage?: boolean;
+
+  /** Props passed down to the natural language input */
+  naturalLanguageInputProps?: Omit<React.ComponentPropsWithoutRef<'input'>, 'size'>;
 }
 
 export type DatePickerInputFactory = Factory<{
@@ -74,9 +93,22 @@ export const DatePickerInput: DatePickerInputComponent = factory<DatePickerInput
       valueFormatter,
       presets,
       attributes,
+      naturalLanguage,
+      naturalLanguageInputProps,
       ...rest
     } = props;
 
+    const getStyles = useStyles<DatePickerInputFactory>({
+      name: 'DatePickerInput',
+      classes,
+      props,
+      classNames,
+      styles,
+      unstyled,
+      attributes,
+      vars,
+    });
+
     const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<DatePickerInputFactory>({
       classNames,
       styles,
@@ -84,6 +116,12 @@ export const DatePickerInput: DatePickerInputComponent = factory<DatePickerInput
     });
 
     const { calendarProps, others } = pickCalendarProps(rest);
+    const ctx = useDatesContext();
+    const defaultClampedDate = getDefaultClampedDate({
+      maxDate,
+      minDate,
+      timezone: ctx.getTimezone(calendarProps.timezone),
+    });
 
     const {
       _value,
@@ -104,9 +142,49 @@ export const DatePickerInput: DatePickerInputComponent = factory<DatePickerInput
       closeOnChange,
       sortDates,
       valueFormatter,
+      timezone: calendarProps.timezone,
     });
 
     const _defaultDate = Array.isArray(_value) ? _value[0] || defaultDate : _value || defaultDate;
+    const naturalDateParser = useNaturalDateParser({
+      locale,
+      firstDayOfWeek: calendarProps.firstDayOfWeek,
+      timezone: calendarProps.timezone,
+    });
+    const [naturalInputValue, setNaturalInputValue] = useState('');
+    const [preview, setPreview] = useState<NaturalDateRange | null>(null);
+    const withNaturalLanguage = naturalLanguage && type !== 'multiple';
+    const previewValue = preview && (type === 'range' ? preview : preview[0]);
+
+    const handleNaturalInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+      naturalLanguageInputProps?.onChange?.(event);
+      const val = event.currentTarget.value;
+      const range = naturalDateParser(val);
+      const isValid =
+        !!range &&
+        range.every((date) => isDateValid({ date, minDate, maxDate })) &&
+        (type !== 'range' || range[0] !== range[1] || !!calendarProps.allowSingleDateInRange);
+
+      setNaturalInputValue(val);
+      setPreview(isValid ? range : null);
+    };
+
+    const applyPreview = () => {
+      if (previewValue) {
+        setValue(previewValue);
+        setNaturalInputValue('');
+        setPreview(null);
+      }
+    };
+
+    const handleNaturalInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      naturalLanguageInputProps?.onKeyDown?.(event);
+
+      if (event.key === 'Enter' && previewValue) {
+        event.preventDefault();
+        applyPreview();
+      }
+    };
 
     return (
       <PickerInputBase
@@ -128,13 +206,50 @@ export const DatePickerInput: DatePickerInputComponent = factory<DatePickerInput
         __staticSelector="DatePickerInput"
         attributes={attributes}
       >
+        {withNaturalLanguage && (
+          <>
+            <Input
+              size={size as MantineSize}
+              placeholder="Type a date"
+              aria-label="Type a date"
+              data-autofocus
+              {...naturalLanguageInputProps}
+              {...getStyles('naturalDateInput', {
+                className: naturalLanguageInputProps?.className,
+                style: naturalLanguageInputProps?.style,
+              })}
+              unstyled={unstyled}
+              value={naturalInputValue}
+              onChange={handleNaturalInputChange}
+              onKeyDown={handleNaturalInputKeyDown}
+            />
+
+            {previewValue && (
+              <UnstyledButton
+                {...getStyles('naturalDatePreview')}
+                aria-live="polite"
+                onClick={applyPreview}
+              >
+                {getFormattedDate({
+                  type: type as any,
+                  date: previewValue,
+                  locale: ctx.getLocale(locale),
+                  format: valueFormat!,
+                  labelSeparator: ctx.getLabelSeparator(labelSeparator),
+                  formatter: valueFormatter,
+                })}
+              </UnstyledButton>
+            )}
+          </>
+        )}
+
         <DatePicker
           {...calendarProps}
           size={size}
           variant={variant}
           type={type}
           value={_value}
-          defaultDate={_defaultDate || getDefaultClampedDate({ maxDate, minDate })}
+          defaultDate={_defaultDate || defaultClampedDate}
           onChange={setValue}
           locale={locale}
           classNames={resolvedClassNames}
@@ -152,5 +267,5 @@ export const DatePickerInput: DatePickerInputComponent = factory<DatePickerInput
   }
 ) as any;
 
-DatePickerInput.classes = { ...PickerInputBase.classes, ...DatePicker.classes };
+DatePickerInput.classes = { ...classes, ...PickerInputBase.classes, ...DatePicker.classes };
 DatePickerInput.displayName = '@mantine/dates/DatePickerInput';
@@ -0,0 +1,68 @@
+import 'dayjs/locale/ru';
+
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import { DatesRangeValue } from '../../types';
+import { DatePickerPreset } from '../DatePicker';
+import { DatesProvider } from '../DatesProvider';
+import { DateRangePicker } from './DateRangePicker';
+
+export default { title: 'DateRangePicker' };
+
+const today = dayjs();
+const format = (date: dayjs.Dayjs) => date.format('YYYY-MM-DD');
+
+const presets: DatePickerPreset<'range'>[] = [
+  { value: [format(today.subtract(6, 'day')), format(today)], label: 'Last 7 days' },
+  { value: [format(today.startOf('month')), format(today)], label: 'This month' },
+  {
+    value: [
+      format(today.subtract(1, 'month').startOf('month')),
+      format(today.subtract(1, 'month').endOf('month')),
+    ],
+    label: 'Last month',
+  },
+  { value: [format(today.startOf('year')), format(today)], label: 'This year' },
+];
+
+export function Usage() {
+  const [value, setValue] = useState<DatesRangeValue<string>>([null, null]);
+
+  return (
+    <div style={{ padding: 40 }}>
+      <DateRangePicker presets={presets} value={value} onChange={setValue} />
+      <pre>{JSON.stringify(value)}</pre>
+    </div>
+  );
+}
+
+export function Compare() {
+  return (
+    <div style={{ padding: 40 }}>
+      <DateRangePicker presets={presets} withCompare defaultCompare compareColor="teal" />
+    </div>
+  );
+}
+
+export function WithoutInputs() {
+  return (
+    <div style={{ padding: 40 }}>
+      <DateRangePicker presets={presets} withInputs={false} numberOfColumns={3} size="xs" />
+    </div>
+  );
+}
+
+export function Locale() {
+  return (
+    <DatesProvider settings={{ locale: 'ru', firstDayOfWeek: 1 }}>
+      <div style={{ padding: 40 }}>
+        <DateRangePicker
+          presets={presets}
+          valueFormat="D MMMM YYYY"
+          labels={{ start: 'Начало', end: 'Конец', compare: 'Сравнить с предыдущим периодом' }}
+          withCompare
+        />
+      </div>
+    </DatesProvider>
+  );
+}
@@ -0,0 +1,153 @@
+import { fireEvent } from '@testing-library/react';
+import { render, screen, tests, userEvent } from '@mantine-tests/core';
+import {
+  DateRangePicker,
+  DateRangePickerProps,
+  DateRangePickerStylesNames,
+} from './DateRangePicker';
+
+const defaultProps: DateRangePickerProps = {
+  defaultDate: '2025-03-01',
+  presets: [
+    { value: ['2025-03-10', '2025-03-16'], label: 'Second week' },
+    { value: ['2025-05-01', '2025-05-31'], label: 'May' },
+  ],
+  ariaLabels: {
+    monthLevelControl: 'month-level',
+    yearLevelControl: 'year-level',
+    nextMonth: 'next-month',
+    previousMonth: 'previous-month',
+    nextYear: 'next-year',
+    previousYear: 'previous-year',
+    nextDecade: 'next-decade',
+    previousDecade: 'previous-decade',
+  },
+};
+
+const getDay = (name: string) => screen.getByRole('button', { name });
+
+describe('@mantine/dates/DateRangePicker', () => {
+  tests.axe([<DateRangePicker {...defaultProps} withCompare key="1" />]);
+  tests.itSupportsSystemProps<DateRangePickerProps, DateRangePickerStylesNames>({
+    component: DateRangePicker,
+    props: defaultProps,
+    styleProps: true,
+    extend: true,
+    classes: true,
+    refType: HTMLDivElement,
+    displayName: '@mantine/dates/DateRangePicker',
+    stylesApiSelectors: [
+      'root',
+      'presetsList',
+      'presetButton',
+      'body',
+      'inputs',
+      'startInput',
+      'endInput',
+    ],
+  });
+
+  it('renders two months by default', () => {
+    render(<DateRangePicker {...defaultProps} />);
+    expect(screen.getByText('March 2025')).toBeInTheDocument();
+    expect(screen.getByText('April 2025')).toBeInTheDocument();
+  });
+
+  it('previews preset range on hover and selects it on click', async () => {
+    const spy = jest.fn();
+    render(<DateRangePicker {...defaultProps} onChange={spy} />);
+
+    await userEvent.hover(screen.getByRole('button', { name: 'Second week' }));
+    expect(getDay('12 March 2025')).toHaveAttribute('data-preview');
+    expect(getDay('12 March 2025')).toHaveAttribute('data-in-range');
+
+    fireEvent.mouseLeave(screen.getByRole('button', { name: 'Second week' }).parentElement!);
+    expect(getDay('12 March 2025')).not.toHaveAttribute('data-in-range');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Second week' }));
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-10', '2025-03-16']);
+    expect(screen.getByRole('button', { name: 'Second week' })).toHaveAttribute('data-active');
+  });
+
+  it('displays preset range months on hover and restores date on leave', async () => {
+    render(<DateRangePicker {...defaultProps} />);
+    const preset = screen.getByRole('button', { name: 'May' });
+
+    await userEvent.hover(preset);
+    expect(screen.getByText('May 2025')).toBeInTheDocument();
+
+    fireEvent.mouseLeave(preset.parentElement!);
+    expect(screen.queryByText('May 2025')).not.toBeInTheDocument();
+    expect(screen.getByText('March 2025')).toBeInTheDocument();
+  });
+
+  it('syncs inputs with selected range', async () => {
+    const spy = jest.fn();
+    render(<DateRangePicker {...defaultProps} onChange={spy} />);
+
+    await userEvent.click(getDay('5 March 2025'));
+    await userEvent.click(getDay('8 April 2025'));
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-05', '2025-04-08']);
+    expect(screen.getByRole('textbox', { name: 'Start date' })).toHaveValue('Mar 5, 2025');
+    expect(screen.getByRole('textbox', { name: 'End date' })).toHaveValue('Apr 8, 2025');
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'End date' }), {
+      target: { value: 'Mar 20, 2025' },
+    });
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-05', '2025-03-20']);
+    expect(getDay('20 March 2025')).toHaveAttribute('data-last-in-range');
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Start date' }), {
+      target: { value: 'Mar 25, 2025' },
+    });
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-25', null]);
+    expect(screen.getByRole('textbox', { name: 'End date' })).toHaveValue('');
+  });
+
+  it('supports keyboard range selection', async () => {
+    const spy = jest.fn();
+    render(
+      <DateRangePicker
+        {...defaultProps}
+        defaultValue={['2025-03-03', '2025-03-04']}
+        onChange={spy}
+      />
+    );
+
+    getDay('10 March 2025').focus();
+    await userEvent.keyboard('{Enter}');
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-10', null]);
+
+    await userEvent.keyboard('{ArrowRight}{ArrowRight}');
+    expect(getDay('12 March 2025')).toHaveFocus();
+    expect(getDay('11 March 2025')).toHaveAttribute('data-in-range');
+
+    await userEvent.keyboard('{Enter}');
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-10', '2025-03-12']);
+
+    await userEvent.keyboard('{Enter}{Escape}');
+    expect(spy).toHaveBeenLastCalledWith(['2025-03-10', '2025-03-12']);
+  });
+
+  it('highlights previous period when compare is enabled', async () => {
+    const spy = jest.fn();
+    render(
+      <DateRangePicker
+        {...defaultProps}
+        withCompare
+        defaultValue={['2025-03-10', '2025-03-16']}
+        onCompareChange={spy}
+      />
+    );
+
+    expect(getDay('5 March 2025')).not.toHaveAttribute('data-compare');
+
+    await userEvent.click(screen.getByRole('checkbox', { name: 'Compare to previous period' }));
+    expect(spy).toHaveBeenLastCalledWith(true);
+    expect(getDay('3 March 2025')).toHaveAttribute('data-compare-first');
+    expect(getDay('5 March 2025')).toHaveAttribute('data-compare');
+    expect(getDay('9 March 2025')).toHaveAttribute('data-compare-last');
+    expect(getDay('10 March 2025')).not.toHaveAttribute('data-compare');
+    expect(screen.getByText('Mar 3, 2025 – Mar 9, 2025')).toBeInTheDocument();
+  });
+});
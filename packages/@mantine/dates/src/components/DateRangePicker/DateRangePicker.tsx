@@ -0,0 +1,455 @@
+import dayjs from 'dayjs';
+import { useEffect, useRef, useState } from 'react';
+import cx from 'clsx';
+import {
+  Box,
+  BoxProps,
+  Checkbox,
+  createVarsResolver,
+  ElementProps,
+  factory,
+  Factory,
+  getFontSize,
+  getThemeColor,
+  MantineColor,
+  StylesApiProps,
+  TextInput,
+  UnstyledButton,
+  useProps,
+  useResolvedStylesApi,
+  useStyles,
+} from '@mantine/core';
+import { useUncontrolled } from '@mantine/hooks';
+import { useDatesState, useUncontrolledDates } from '../../hooks';
+import { isInRange } from '../../hooks/use-dates-state/is-in-range/is-in-range';
+import { DatesRangeValue, DateStringValue } from '../../types';
+import { getTimezoneToday } from '../../utils';
+import { Calendar, CalendarStylesNames, pickCalendarProps } from '../Calendar';
+import { dateStringParser } from '../DateInput/date-string-parser/date-string-parser';
+import { isDateValid } from '../DateInput/is-date-valid/is-date-valid';
+import type { DatePickerBaseProps, DatePickerPreset } from '../DatePicker';
+import { useDatesContext } from '../DatesProvider';
+import classes from './DateRangePicker.module.css';
+import { getPreviousPeriod } from './get-previous-period/get-previous-period';
+
+export type DateRangePickerStylesNames =
+  | 'root'
+  | 'presetsList'
+  | 'presetButton'
+  | 'body'
+  | 'inputs'
+  | 'startInput'
+  | 'endInput'
+  | 'compareCheckbox'
+  | 'compareDay'
+  | CalendarStylesNames;
+
+export type DateRangePickerCssVariables = {
+  root:
+    | '--preset-font-size'
+    | '--date-range-picker-compare-color'
+    | '--date-range-picker-compare-bg';
+};
+
+export interface DateRangePickerLabels {
+  start: string;
+  end: string;
+  compare: string;
+}
+
+export interface DateRangePickerProps
+  extends BoxProps,
+    Omit<DatePickerBaseProps<'range'>, 'type' | 'allowDeselect' | '__onPresetSelect'>,
+    StylesApiProps<DateRangePickerFactory>,
+    ElementProps<'div', 'onChange' | 'value' | 'defaultValue'> {
+  /** Determines whether start and end date inputs should be displayed above the calendars @default `true` */
+  withInputs?: boolean;
+
+  /** dayjs format of the inputs value, also used to parse the entered value @default `'MMM D, YYYY'` */
+  valueFormat?: string;
+
+  /** Function to parse the inputs value, by default the value is parsed with `valueFormat` */
+  dateParser?: (value: string) => DateStringValue | Date | null;
+
+  /** Determines whether "compare to previous period" checkbox should be displayed @default `false` */
+  withCompare?: boolean;
+
+  /** Controlled state of "compare to previous period" checkbox */
+  compare?: boolean;
+
+  /** Uncontrolled state of "compare to previous period" checkbox initial value */
+  defaultCompare?: boolean;
+
+  /** Called when "compare to previous period" checkbox state changes */
+  onCompareChange?: (compare: boolean) => void;
+
+  /** Key of `theme.colors` or any valid CSS color of the previous period highlight @default `'orange'` */
+  compareColor?: MantineColor;
+
+  /** Labels of inputs and compare checkbox */
+  labels?: Partial<DateRangePickerLabels>;
+}
+
+export type DateRangePickerFactory = Factory<{
+  props: DateRangePickerProps;
+  ref: HTMLDivElement;
+  stylesNames: DateRangePickerStylesNames;
+  vars: DateRangePickerCssVariables;
+}>;
+
+const defaultLabels: DateRangePickerLabels = {
+  start: 'Start date',
+  end: 'End date',
+  compare: 'Compare to previous period',
+};
+
+const defaultProps = {
+  numberOfColumns: 2,
+  withInputs: true,
+  valueFormat: 'MMM D, YYYY',
+  withCompare: false,
+  compareColor: 'orange',
+  size: 'sm',
+} satisfies Partial<DateRangePickerProps>;
+
+const varsResolver = createVarsResolver<DateRangePickerFactory>((theme, { size, compareColor }) => {
+  const colors = theme.variantColorResolver({ color: compareColor!, theme, variant: 'light' });
+
+  return {
+    root: {
+      '--preset-font-size': getFontSize(size),
+      '--date-range-picker-compare-color': getThemeColor(compareColor, theme),
+      '--date-range-picker-compare-bg': colors.background,
+    },
+  };
+});
+
+type DatesRange = [DateStringValue, DateStringValue];
+
+function getFullRange(range: DatesRangeValue<DateStringValue>): DatesRange | null {
+  return range[0] && range[1] ? [range[0], range[1]] : null;
+}
+
+function isSameRange(a: DatesRangeValue<DateStringValue>, b: DatesRangeValue<DateStringValue>) {
+  return !!a[0] && !!a[1] && dayjs(a[0]).isSame(b[0], 'day') && dayjs(a[1]).isSame(b[1], 'day');
+}
+
+export const DateRangePicker = factory<DateRangePickerFactory>((_props, ref) => {
+  const props = useProps('DateRangePicker', defaultProps, _props);
+  const {
+    classNames,
+    className,
+    style,
+    styles,
+    unstyled,
+    vars,
+    attributes,
+    value,
+    defaultValue,
+    onChange,
+    onMouseLeave,
+    allowSingleDateInRange,
+    presets,
+    withInputs,
+    valueFormat,
+    dateParser,
+    withCompare,
+    compare,
+    defaultCompare,
+    onCompareChange,
+    compareColor,
+    labels,
+    size,
+    ...rest
+  } = props;
+
+  const { calendarProps, others } = pickCalendarProps(rest);
+
+  const getStyles = useStyles<DateRangePickerFactory>({
+    name: 'DateRangePicker',
+    classes,
+    props,
+    className,
+    style,
+    classNames,
+    styles,
+    unstyled,
+    attributes,
+    vars,
+    varsResolver,
+  });
+
+  const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<DateRangePickerFactory>({
+    classNames,
+    styles,
+    props,
+  });
+
+  const ctx = useDatesContext();
+  const _locale = ctx.getLocale(calendarProps.locale);
+  const _timezone = ctx.getTimezone(calendarProps.timezone);
+  const _labels = { ...defaultLabels, ...labels };
+  const numberOfColumns = calendarProps.numberOfColumns!;
+
+  const { onDateChange, onRootMouseLeave, onHoveredDateChange, getControlProps, _value, setValue } =
+    useDatesState({
+      type: 'range',
+      level: 'day',
+      allowSingleDateInRange,
+      value,
+      defaultValue,
+      onChange: onChange as any,
+      onMouseLeave,
+      timezone: calendarProps.timezone,
+    });
+
+  const [_date, setDate] = useUncontrolledDates({
+    type: 'default',
+    value: calendarProps.date,
+    defaultValue: calendarProps.defaultDate || _value[0],
+    onChange: calendarProps.onDateChange as any,
+    timezone: calendarProps.timezone,
+  });
+
+  const [_compare, setCompare] = useUncontrolled({
+    value: compare,
+    defaultValue: defaultCompare,
+    finalValue: false,
+    onChange: onCompareChange,
+  });
+
+  const currentDate: DateStringValue = _date || getTimezoneToday(_timezone);
+  const [preview, setPreview] = useState<DatesRange | null>(null);
+  const savedDateRef = useRef<DateStringValue | null>(null);
+  const committedValueRef = useRef<DatesRangeValue<DateStringValue>>(
+    _value[0] && !_value[1] ? [null, null] : _value
+  );
+
+  const formatDate = (date: DateStringValue | null) =>
+    date ? dayjs(date).locale(_locale).format(valueFormat) : '';
+
+  const [inputValues, setInputValues] = useState([formatDate(_value[0]), formatDate(_value[1])]);
+  const [focusedInput, setFocusedInput] = useState<number | null>(null);
+
+  useEffect(() => {
+    setInputValues((current) =>
+      current.map((inputValue, index) =>
+        index === focusedInput ? inputValue : formatDate(_value[index])
+      )
+    );
+
+    if ((_value[0] && _value[1]) || (!_value[0] && !_value[1])) {
+      committedValueRef.current = _value;
+    }
+  }, [_value[0], _value[1], _locale]);
+
+  const showDate = (date: DateStringValue, alignEnd = false) => {
+    const firstMonth = dayjs(currentDate).startOf('month');
+    const lastMonth = firstMonth.add(numberOfColumns - 1, 'month').endOf('month');
+
+    if (dayjs(date).isBefore(firstMonth) || dayjs(date).isAfter(lastMonth)) {
+      setDate(
+        alignEnd
+          ? dayjs(date)
+              .subtract(numberOfColumns - 1, 'month')
+              .format('YYYY-MM-DD')
+          : date
+      );
+    }
+  };
+
+  const parseDate = (inputValue: string): DateStringValue | null => {
+    const parsedDate = dateParser
+      ? dateParser(inputValue)
+      : dayjs(inputValue, valueFormat, _locale).isValid()
+        ? dayjs(inputValue, valueFormat, _locale).format('YYYY-MM-DD')
+        : dateStringParser(inputValue);
+
+    return parsedDate &&
+      isDateValid({
+        date: parsedDate,
+        minDate: calendarProps.minDate,
+        maxDate: calendarProps.maxDate,
+      })
+      ? dayjs(parsedDate).format('YYYY-MM-DD')
+      : null;
+  };
+
+  const isValidRange = (start: DateStringValue, end: DateStringValue | null) =>
+    !!end &&
+    (dayjs(start).isBefore(end, 'day') ||
+      (!!allowSingleDateInRange && dayjs(start).isSame(end, 'day')));
+
+  const handleInputChange = (index: number, inputValue: string) => {
+    setInputValues((current) =>
+      current.map((item, itemIndex) => (itemIndex === index ? inputValue : item))
+    );
+
+    if (inputValue.trim() === '') {
+      setValue(index === 0 ? [null, null] : [_value[0], null]);
+      return;
+    }
+
+    const date = parseDate(inputValue);
+
+    if (!date) {
+      return;
+    }
+
+    if (index === 0) {
+      setValue([date, isValidRange(date, _value[1]) ? _value[1] : null]);
+      showDate(date);
+    } else if (_value[0] && isValidRange(_value[0], date)) {
+      setValue([_value[0], date]);
+      showDate(date, true);
+    }
+  };
+
+  const handleInputBlur = () => {
+    setFocusedInput(null);
+    setInputValues([formatDate(_value[0]), formatDate(_value[1])]);
+  };
+
+  const handlePresetPreview = (preset: DatePickerPreset<'range'>) => {
+    const range = getFullRange(preset.value);
+
+    if (range) {
+      savedDateRef.current = savedDateRef.current || currentDate;
+      setPreview(range);
+      showDate(range[0]);
+    }
+  };
+
+  const handlePresetPreviewEnd = () => {
+    setPreview(null);
+
+    if (savedDateRef.current) {
+      setDate(savedDateRef.current);
+      savedDateRef.current = null;
+    }
+  };
+
+  const handlePresetSelect = (preset: DatePickerPreset<'range'>) => {
+    savedDateRef.current = null;
+    setPreview(null);
+    setValue(preset.value);
+    preset.value[0] && showDate(preset.value[0]);
+  };
+
+  const selectedRange = preview || getFullRange(_value);
+  const compareRange = _compare && selectedRange ? getPreviousPeriod(selectedRange) : null;
+
+  const getDayProps = (date: DateStringValue) => {
+    const dayProps = calendarProps.getDayProps?.(date);
+    const inCompareRange = !!compareRange && isInRange(date, compareRange);
+    const compareDayStyles = inCompareRange ? getStyles('compareDay') : null;
+
+    const rangeProps = preview
+      ? {
+          selected: date === preview[0] || date === preview[1],
+          inRange: isInRange(date, preview),
+          firstInRange: date === preview[0],
+          lastInRange: date === preview[1],
+        }
+      : getControlProps(date);
+
+    return {
+      ...rangeProps,
+      'data-preview': (!!preview && rangeProps.inRange) || undefined,
+      'data-compare': inCompareRange || undefined,
+      'data-compare-first': (inCompareRange && date === compareRange![0]) || undefined,
+      'data-compare-last': (inCompareRange && date === compareRange![1]) || undefined,
+      ...dayProps,
+      className: cx(dayProps?.className, compareDayStyles?.className),
+      style: { ...compareDayStyles?.style, ...(dayProps?.style as React.CSSProperties) },
+      onFocus: (event: React.FocusEvent<HTMLButtonElement>) => {
+        dayProps?.onFocus?.(event);
+        onHoveredDateChange(date);
+      },
+      onKeyDown: (event: React.KeyboardEvent<HTMLButtonElement>) => {
+        dayProps?.onKeyDown?.(event);
+
+        if (event.key === 'Escape' && _value[0] && !_value[1]) {
+          setValue(committedValueRef.current);
+        }
+      },
+    };
+  };
+
+  const presetButtons = presets?.map((preset, index) => (
+    <UnstyledButton
+      key={index}
+      {...getStyles('presetButton')}
+      data-active={isSameRange(preset.value, _value) || undefined}
+      onClick={() => handlePresetSelect(preset)}
+      onMouseEnter={() => handlePresetPreview(preset)}
+      onFocus={() => handlePresetPreview(preset)}
+      onBlur={handlePresetPreviewEnd}
+    >
+      {preset.label}
+    </UnstyledButton>
+  ));
+
+  return (
+    <Box ref={ref} {...getStyles('root')} size={size} {...others}>
+      {presetButtons && (
+        <div {...getStyles('presetsList')} onMouseLeave={handlePresetPreviewEnd}>
+          {presetButtons}
+        </div>
+      )}
+
+      <div {...getStyles('body')}>
+        {withInputs && (
+          <div {...getStyles('inputs')}>
+            {[_labels.start, _labels.end].map((label, index) => (
+              <TextInput
+                key={label}
+                {...getStyles(index === 0 ? 'startInput' : 'endInput')}
+                label={label}
+                size={size}
+                value={inputValues[index]}
+                onChange={(event) => handleInputChange(index, event.currentTarget.value)}
+                onFocus={() => setFocusedInput(index)}
+                onBlur={handleInputBlur}
+              />
+            ))}
+          </div>
+        )}
+
+        <Calendar
+          classNames={resolvedClassNames}
+          styles={resolvedStyles}
+          __staticSelector="DateRangePicker"
+          onMouseLeave={onRootMouseLeave}
+          size={size}
+          {...calendarProps}
+          date={currentDate}
+          onDateChange={setDate}
+          minLevel={calendarProps.minLevel || 'month'}
+          hideOutsideDates={calendarProps.hideOutsideDates ?? numberOfColumns !== 1}
+          __onDayMouseEnter={(_event, date) => onHoveredDateChange(date)}
+          __onDayClick={(_event, date) => onDateChange(date)}
+          getDayProps={getDayProps}
+        />
+
+        {withCompare && (
+          <Checkbox
+            {...getStyles('compareCheckbox')}
+            label={_labels.compare}
+            description={
+              compareRange
+                ? `${formatDate(compareRange[0])} ${ctx.getLabelSeparator()} ${formatDate(compareRange[1])}`
+                : undefined
+            }
+            size={size}
+            checked={_compare}
+            onChange={(event) => setCompare(event.currentTarget.checked)}
+          />
+        )}
+      </div>
+    </Box>
+  );
+});
+
+DateRangePicker.classes = { ...classes, ...Calendar.classes };
+DateRangePicker.displayName = '@mantine/dates/DateRangePicker';
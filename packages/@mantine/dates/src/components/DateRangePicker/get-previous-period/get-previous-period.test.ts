@@ -0,0 +1,30 @@
+import { getPreviousPeriod } from './get-previous-period';
+
+describe('@mantine/dates/get-previous-period', () => {
+  it('returns range of the same length before the given range', () => {
+    expect(getPreviousPeriod(['2025-03-10', '2025-03-16'])).toStrictEqual([
+      '2025-03-03',
+      '2025-03-09',
+    ]);
+    expect(getPreviousPeriod(['2025-03-01', '2025-03-31'])).toStrictEqual([
+      '2025-01-29',
+      '2025-02-28',
+    ]);
+    expect(getPreviousPeriod(['2025-03-05', '2025-03-05'])).toStrictEqual([
+      '2025-03-04',
+      '2025-03-04',
+    ]);
+  });
+
+  it('supports Date objects', () => {
+    expect(getPreviousPeriod([new Date(2025, 0, 1, 12), new Date(2025, 0, 2)])).toStrictEqual([
+      '2024-12-30',
+      '2024-12-31',
+    ]);
+  });
+
+  it('returns null for incomplete range', () => {
+    expect(getPreviousPeriod(['2025-03-10', null])).toBe(null);
+    expect(getPreviousPeriod([null, null])).toBe(null);
+  });
+});
@@ -0,0 +1,19 @@
+import dayjs from 'dayjs';
+import { DatesRangeValue, DateStringValue } from '../../../types';
+
+/** Returns range of the same length that ends the day before the given range starts */
+export function getPreviousPeriod(
+  range: DatesRangeValue<DateStringValue | Date>
+): [DateStringValue, DateStringValue] | null {
+  if (!range[0] || !range[1]) {
+    return null;
+  }
+
+  const start = dayjs(range[0]).startOf('day');
+  const length = dayjs(range[1]).startOf('day').diff(start, 'day') + 1;
+
+  return [
+    start.subtract(length, 'day').format('YYYY-MM-DD'),
+    start.subtract(1, 'day').format('YYYY-MM-DD'),
+  ];
+}
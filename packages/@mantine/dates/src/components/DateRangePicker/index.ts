@@ -0,0 +1,9 @@
+export { DateRangePicker } from './DateRangePicker';
+export { getPreviousPeriod } from './get-previous-period/get-previous-period';
+export type {
+  DateRangePickerCssVariables,
+  DateRangePickerFactory,
+  DateRangePickerLabels,
+  DateRangePickerProps,
+  DateRangePickerStylesNames,
+} from './DateRangePicker';
@@ -102,6 +102,7 @@ export const DateTimePicker = factory<DateTimePickerFactory>((_props, ref) => {
     onChange,
     valueFormat,
     locale,
+    timezone,
     classNames,
     styles,
     unstyled,
@@ -152,12 +153,14 @@ export const DateTimePicker = factory<DateTimePickerFactory>((_props, ref) => {
   } = pickCalendarProps(rest);
 
   const ctx = useDatesContext();
+  const _timezone = ctx.getTimezone(timezone);
   const [_value, setValue] = useUncontrolledDates({
     type: 'default',
     value,
     defaultValue,
     onChange,
     withTime: true,
+    timezone: _timezone,
   });
 
   const _defaultDate = defaultDate || _value;
@@ -178,13 +181,19 @@ export const DateTimePicker = factory<DateTimePickerFactory>((_props, ref) => {
     setTimeValue(timeString);
 
     if (timeString) {
-      setValue(assignTime(_value, timeString));
+      setValue(assignTime(_value, timeString, _timezone));
     }
   };
 
   const handleDateChange = (date: DateValue) => {
     if (date) {
-      setValue(assignTime(clampDate(minDate, maxDate, date), timeValue || defaultTimeValue || ''));
+      setValue(
+        assignTime(
+          clampDate(minDate, maxDate, date, _timezone),
+          timeValue || defaultTimeValue || '',
+          _timezone
+        )
+      );
     }
     timePickerRef.current?.focus();
   };
@@ -211,9 +220,9 @@ export const DateTimePicker = factory<DateTimePickerFactory>((_props, ref) => {
   const __stopPropagation = dropdownType === 'popover';
 
   const handleDropdownClose = () => {
-    const clamped = clampDate(minDate, maxDate, _value);
+    const clamped = clampDate(minDate, maxDate, _value, _timezone);
     if (_value && _value !== clamped) {
-      setValue(clampDate(minDate, maxDate, _value));
+      setValue(clamped);
     }
     onDropdownClose?.();
   };
@@ -248,9 +257,12 @@ export const DateTimePicker = factory<DateTimePickerFactory>((_props, ref) => {
         variant={variant}
         type="default"
         value={_value}
-        defaultDate={_defaultDate || getDefaultClampedDate({ maxDate, minDate })}
+        defaultDate={
+          _defaultDate || getDefaultClampedDate({ maxDate, minDate, timezone: _timezone })
+        }
         onChange={handleDateChange}
         locale={locale}
+        timezone={timezone}
         classNames={resolvedClassNames}
         styles={resolvedStyles}
         unstyled={unstyled}
@@ -1,5 +1,6 @@
 import { createContext } from 'react';
 import { DayOfWeek } from '../../types';
+import type { NaturalDateParsers } from '../../utils/natural-date-parser/natural-date-parser';
 
 export interface DatesProviderValue {
   locale: string;
@@ -7,6 +8,8 @@ export interface DatesProviderValue {
   weekendDays: DayOfWeek[];
   labelSeparator: string;
   consistentWeeks: boolean;
+  timezone: string | null;
+  naturalDateParsers: NaturalDateParsers;
 }
 
 export type DatesProviderSettings = Partial<DatesProviderValue>;
@@ -17,6 +20,8 @@ export const DATES_PROVIDER_DEFAULT_SETTINGS: DatesProviderValue = {
   weekendDays: [0, 6],
   labelSeparator: '–',
   consistentWeeks: false,
+  timezone: null,
+  naturalDateParsers: {},
 };
 
 export const DatesProviderContext = createContext(DATES_PROVIDER_DEFAULT_SETTINGS);
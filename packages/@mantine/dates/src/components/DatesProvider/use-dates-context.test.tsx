@@ -18,12 +18,22 @@ describe('@mantine/dates/use-dates-context', () => {
 
     expect(hook.result.current.getWeekendDays()).toStrictEqual([0, 6]);
     expect(hook.result.current.getWeekendDays([1, 5])).toStrictEqual([1, 5]);
+
+    expect(hook.result.current.getTimezone()).toBe(null);
+    expect(hook.result.current.getTimezone('Europe/Paris')).toBe('Europe/Paris');
   });
 
   it('returns correct values from DatesProvider context', () => {
     const hook = renderHook(() => useDatesContext(), {
       wrapper: ({ children }) => (
-        <DatesProvider settings={{ locale: 'ru', firstDayOfWeek: 0, weekendDays: [1, 2] }}>
+        <DatesProvider
+          settings={{
+            locale: 'ru',
+            firstDayOfWeek: 0,
+            weekendDays: [1, 2],
+            timezone: 'America/New_York',
+          }}
+        >
           {children}
         </DatesProvider>
       ),
@@ -41,5 +51,9 @@ describe('@mantine/dates/use-dates-context', () => {
 
     expect(hook.result.current.getWeekendDays()).toStrictEqual([1, 2]);
     expect(hook.result.current.getWeekendDays([1, 5])).toStrictEqual([1, 5]);
+
+    expect(hook.result.current.getTimezone()).toBe('America/New_York');
+    expect(hook.result.current.getTimezone('Asia/Tokyo')).toBe('Asia/Tokyo');
+    expect(hook.result.current.getTimezone(null)).toBe(null);
   });
 });
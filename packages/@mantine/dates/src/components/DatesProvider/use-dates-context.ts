@@ -21,11 +21,17 @@ export function useDatesContext() {
     [ctx.labelSeparator]
   );
 
+  const getTimezone = useCallback(
+    (input?: string | null) => (input !== undefined ? input : ctx.timezone),
+    [ctx.timezone]
+  );
+
   return {
     ...ctx,
     getLocale,
     getFirstDayOfWeek,
     getWeekendDays,
     getLabelSeparator,
+    getTimezone,
   };
 }
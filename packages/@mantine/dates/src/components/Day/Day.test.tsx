@@ -1,6 +1,7 @@
 import dayjs from 'dayjs';
 import lodash from 'lodash';
 import { render, screen, tests } from '@mantine-tests/core';
+import { DatesProvider } from '../DatesProvider';
 import { Day, DayProps, DayStylesNames } from './Day';
 
 const defaultProps: DayProps = {
@@ -102,4 +103,23 @@ describe('@mantine/dates/Day', () => {
     rerender(<Day {...defaultProps} date={dayjs().format('YYYY-MM-DD')} />);
     expect(screen.getByRole('button')).toHaveAttribute('data-today');
   });
+
+  it('uses timezone to determine today', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-10T23:30:00Z'));
+
+    const { rerender } = render(<Day {...defaultProps} date="2024-03-11" timezone="Asia/Tokyo" />);
+    expect(screen.getByRole('button')).toHaveAttribute('data-today');
+
+    rerender(<Day {...defaultProps} date="2024-03-11" timezone="America/Los_Angeles" />);
+    expect(screen.getByRole('button')).not.toHaveAttribute('data-today');
+
+    rerender(
+      <DatesProvider settings={{ timezone: 'America/Los_Angeles' }}>
+        <Day {...defaultProps} date="2024-03-10" />
+      </DatesProvider>
+    );
+    expect(screen.getByRole('button')).toHaveAttribute('data-today');
+
+    jest.useRealTimers();
+  });
 });
@@ -13,6 +13,8 @@ import {
   useStyles,
 } from '@mantine/core';
 import { DateStringValue } from '../../types';
+import { getTimezoneToday } from '../../utils';
+import { useDatesContext } from '../DatesProvider';
 import classes from './Day.module.css';
 
 export type RenderDay = (date: DateStringValue) => React.ReactNode;
@@ -60,6 +62,9 @@ export interface DayProps extends BoxProps, StylesApiProps<DayFactory>, ElementP
 
   /** Determines whether today should be highlighted with a border @default `false` */
   highlightToday?: boolean;
+
+  /** IANA time zone name used to determine whether the day is today, the default value is defined by `DatesProvider` */
+  timezone?: string | null;
 }
 
 export type DayFactory = Factory<{
@@ -97,6 +102,7 @@ export const Day = factory<DayFactory>((_props, ref) => {
     hidden,
     static: isStatic,
     highlightToday,
+    timezone,
     attributes,
     ...others
   } = props;
@@ -116,13 +122,17 @@ export const Day = factory<DayFactory>((_props, ref) => {
     rootSelector: 'day',
   });
 
+  const ctx = useDatesContext();
+
   return (
     <UnstyledButton<any>
       {...getStyles('day', { style: hidden ? { display: 'none' } : undefined })}
       component={isStatic ? 'div' : 'button'}
       ref={ref}
       disabled={disabled}
-      data-today={dayjs(date).isSame(new Date(), 'day') || undefined}
+      data-today={
+        dayjs(date).isSame(getTimezoneToday(ctx.getTimezone(timezone)), 'day') || undefined
+      }
       data-hidden={hidden || undefined}
       data-highlight-today={highlightToday || undefined}
       data-disabled={disabled || undefined}
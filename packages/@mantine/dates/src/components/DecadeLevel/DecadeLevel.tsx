@@ -63,6 +63,7 @@ export const DecadeLevel = factory<DecadeLevelFactory>((_props, ref) => {
     // YearsList settings
     decade,
     locale,
+    timezone,
     minDate,
     maxDate,
     yearsListFormat,
@@ -163,6 +164,7 @@ export const DecadeLevel = factory<DecadeLevelFactory>((_props, ref) => {
       <YearsList
         decade={decade}
         locale={locale}
+        timezone={timezone}
         minDate={minDate}
         maxDate={maxDate}
         yearsListFormat={yearsListFormat}
@@ -46,6 +46,7 @@ export const DecadeLevelGroup = factory<DecadeLevelGroupFactory>((_props, ref) =
     // DecadeLevel settings
     decade,
     locale,
+    timezone,
     minDate,
     maxDate,
     yearsListFormat,
@@ -127,6 +128,7 @@ export const DecadeLevelGroup = factory<DecadeLevelGroupFactory>((_props, ref) =
               : levelControlAriaLabel
           }
           locale={locale}
+          timezone={timezone}
           minDate={minDate}
           maxDate={maxDate}
           __preventFocus={__preventFocus}
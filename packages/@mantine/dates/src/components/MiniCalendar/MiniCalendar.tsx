@@ -16,7 +16,7 @@ import {
   useStyles,
 } from '@mantine/core';
 import { useUncontrolled } from '@mantine/hooks';
-import { toDateString } from '../../utils';
+import { getTimezoneToday, toDateString } from '../../utils';
 import { useDatesContext } from '../DatesProvider';
 import classes from './MiniCalendar.module.css';
 
@@ -83,6 +83,9 @@ export interface MiniCalendarProps
 
   /** dayjs locale used for formatting */
   locale?: string;
+
+  /** IANA time zone name used to determine current date, defaults to value defined in DatesProvider */
+  timezone?: string | null;
 }
 
 export type MiniCalendarFactory = Factory<{
@@ -129,6 +132,7 @@ export const MiniCalendar = factory<MiniCalendarFactory>((_props, ref) => {
     nextControlProps,
     previousControlProps,
     locale,
+    timezone,
     ...others
   } = props;
 
@@ -147,11 +151,12 @@ export const MiniCalendar = factory<MiniCalendarFactory>((_props, ref) => {
 
   const ctx = useDatesContext();
   const _locale = ctx.getLocale(locale);
+  const _timezone = ctx.getTimezone(timezone);
 
   const [_date, setDate] = useUncontrolled({
-    value: toDateString(date),
-    defaultValue: toDateString(defaultDate),
-    finalValue: toDateString(value) || dayjs().format('YYYY-MM-DD'),
+    value: toDateString(date, _timezone),
+    defaultValue: toDateString(defaultDate, _timezone),
+    finalValue: toDateString(value, _timezone) || getTimezoneToday(_timezone),
     onChange: onDateChange,
   });
 
@@ -192,7 +197,9 @@ export const MiniCalendar = factory<MiniCalendarFactory>((_props, ref) => {
           disabled={disabled}
           aria-label={date.format('YYYY-MM-DD')}
           data-disabled={disabled || undefined}
-          data-selected={value && dayjs(date).isSame(value, 'day') ? true : undefined}
+          data-selected={
+            value && dayjs(date).isSame(toDateString(value, _timezone), 'day') ? true : undefined
+          }
           {...dayProps}
           onClick={(event) => {
             dayProps?.onClick?.(event);
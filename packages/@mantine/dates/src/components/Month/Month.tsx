@@ -65,6 +65,9 @@ export interface MonthSettings {
   /** `dayjs` locale, the default value is defined by `DatesProvider` */
   locale?: string;
 
+  /** IANA time zone name used to determine current date, the default value is defined by `DatesProvider` */
+  timezone?: string | null;
+
   /** Number 0-6, where 0 – Sunday and 6 – Saturday. @default `1` – Monday */
   firstDayOfWeek?: DayOfWeek;
 
@@ -155,6 +158,7 @@ export const Month = factory<MonthFactory>((_props, ref) => {
     vars,
     __staticSelector,
     locale,
+    timezone,
     firstDayOfWeek,
     weekdayFormat,
     month,
@@ -212,6 +216,7 @@ export const Month = factory<MonthFactory>((_props, ref) => {
     excludeDate,
     hideOutsideDates,
     month,
+    timezone: ctx.getTimezone(timezone),
   });
 
   const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<MonthFactory>({
@@ -244,6 +249,7 @@ export const Month = factory<MonthFactory>((_props, ref) => {
             unstyled={unstyled}
             data-mantine-stop-propagation={__stopPropagation || undefined}
             highlightToday={highlightToday}
+            timezone={timezone}
             renderDay={renderDay}
             date={date}
             size={size}
@@ -1,5 +1,6 @@
 import dayjs from 'dayjs';
 import { DateStringValue } from '../../../types';
+import { getTimezoneToday } from '../../../utils/timezone/timezone';
 import { DayProps } from '../../Day/Day';
 import { isAfterMinDate } from '../is-after-min-date/is-after-min-date';
 import { isBeforeMaxDate } from '../is-before-max-date/is-before-max-date';
@@ -13,6 +14,7 @@ interface GetDateInTabOrderInput {
   excludeDate: ((date: DateStringValue) => boolean) | undefined;
   hideOutsideDates: boolean | undefined;
   month: DateStringValue;
+  timezone?: string | null;
 }
 
 export function getDateInTabOrder({
@@ -23,6 +25,7 @@ export function getDateInTabOrder({
   excludeDate,
   hideOutsideDates,
   month,
+  timezone,
 }: GetDateInTabOrderInput) {
   const enabledDates = dates
     .flat()
@@ -41,7 +44,8 @@ export function getDateInTabOrder({
     return selectedDate;
   }
 
-  const currentDate = enabledDates.find((date) => dayjs().isSame(date, 'date'));
+  const today = getTimezoneToday(timezone);
+  const currentDate = enabledDates.find((date) => dayjs(today).isSame(date, 'date'));
 
   if (currentDate) {
     return currentDate;
@@ -61,6 +61,7 @@ export const MonthLevel = factory<MonthLevelFactory>((_props, ref) => {
     // Month settings
     month,
     locale,
+    timezone,
     firstDayOfWeek,
     weekdayFormat,
     weekendDays,
@@ -167,6 +168,7 @@ export const MonthLevel = factory<MonthLevelFactory>((_props, ref) => {
       <Month
         month={month}
         locale={locale}
+        timezone={timezone}
         firstDayOfWeek={firstDayOfWeek}
         weekdayFormat={weekdayFormat}
         weekendDays={weekendDays}
@@ -46,6 +46,7 @@ export const MonthLevelGroup = factory<MonthLevelGroupFactory>((_props, ref) =>
     // Month settings
     month,
     locale,
+    timezone,
     firstDayOfWeek,
     weekdayFormat,
     weekendDays,
@@ -136,6 +137,7 @@ export const MonthLevelGroup = factory<MonthLevelGroupFactory>((_props, ref) =>
               : levelControlAriaLabel
           }
           locale={locale}
+          timezone={timezone}
           firstDayOfWeek={firstDayOfWeek}
           weekdayFormat={weekdayFormat}
           weekendDays={weekendDays}
@@ -93,6 +93,7 @@ export const MonthPicker: MonthPickerComponent = factory<MonthPickerFactory>((_p
     defaultValue,
     onChange: onChange as any,
     onMouseLeave,
+    timezone: props.timezone,
   });
 
   const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<MonthPickerFactory>({
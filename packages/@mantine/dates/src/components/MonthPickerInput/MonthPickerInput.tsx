@@ -13,6 +13,7 @@ import { useDatesInput } from '../../hooks';
 import { DatePickerType } from '../../types';
 import { getDefaultClampedDate } from '../../utils';
 import { pickCalendarProps } from '../Calendar';
+import { useDatesContext } from '../DatesProvider';
 import { MonthPicker, MonthPickerBaseProps, MonthPickerStylesNames } from '../MonthPicker';
 import { DateInputSharedProps, PickerInputBase } from '../PickerInputBase';
 
@@ -85,6 +86,12 @@ export const MonthPickerInput: MonthPickerInputComponent = factory<MonthPickerIn
     });
 
     const { calendarProps, others } = pickCalendarProps(rest);
+    const ctx = useDatesContext();
+    const defaultClampedDate = getDefaultClampedDate({
+      maxDate,
+      minDate,
+      timezone: ctx.getTimezone(calendarProps.timezone),
+    });
 
     const {
       _value,
@@ -105,6 +112,7 @@ export const MonthPickerInput: MonthPickerInputComponent = factory<MonthPickerIn
       closeOnChange,
       sortDates,
       valueFormatter,
+      timezone: calendarProps.timezone,
     });
 
     return (
@@ -135,9 +143,7 @@ export const MonthPickerInput: MonthPickerInputComponent = factory<MonthPickerIn
           value={_value}
           defaultDate={
             calendarProps.defaultDate ||
-            (Array.isArray(_value)
-              ? _value[0] || getDefaultClampedDate({ maxDate, minDate })
-              : _value || getDefaultClampedDate({ maxDate, minDate }))
+            (Array.isArray(_value) ? _value[0] || defaultClampedDate : _value || defaultClampedDate)
           }
           onChange={setValue}
           locale={locale}
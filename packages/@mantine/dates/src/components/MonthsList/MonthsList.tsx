@@ -81,6 +81,7 @@ export const MonthsList = factory<MonthsListFactory>((_props, ref) => {
     year,
     monthsListFormat,
     locale,
+    timezone,
     minDate,
     maxDate,
     getMonthControlProps,
@@ -119,6 +120,7 @@ export const MonthsList = factory<MonthsListFactory>((_props, ref) => {
     minDate: toDateString(minDate)!,
     maxDate: toDateString(maxDate)!,
     getMonthControlProps,
+    timezone: ctx.getTimezone(timezone),
   });
 
   const rows = months.map((monthsRow, rowIndex) => {
@@ -1,5 +1,6 @@
 import dayjs from 'dayjs';
 import { DateStringValue } from '../../../types';
+import { getTimezoneToday } from '../../../utils/timezone/timezone';
 import { PickerControlProps } from '../../PickerControl';
 import { isMonthDisabled } from '../is-month-disabled/is-month-disabled';
 
@@ -8,6 +9,7 @@ interface GetMonthInTabOrderInput {
   minDate: DateStringValue | undefined;
   maxDate: DateStringValue | undefined;
   getMonthControlProps: ((month: DateStringValue) => Partial<PickerControlProps>) | undefined;
+  timezone?: string | null;
 }
 
 export function getMonthInTabOrder({
@@ -15,6 +17,7 @@ export function getMonthInTabOrder({
   minDate,
   maxDate,
   getMonthControlProps,
+  timezone,
 }: GetMonthInTabOrderInput) {
   const enabledMonths = months
     .flat()
@@ -29,7 +32,8 @@ export function getMonthInTabOrder({
     return selectedMonth;
   }
 
-  const currentMonth = enabledMonths.find((month) => dayjs().isSame(month, 'month'));
+  const today = getTimezoneToday(timezone);
+  const currentMonth = enabledMonths.find((month) => dayjs(today).isSame(month, 'month'));
 
   if (currentMonth) {
     return currentMonth;
@@ -0,0 +1,54 @@
+import 'dayjs/locale/ru';
+
+import { useState } from 'react';
+import { DatesProvider } from '../DatesProvider';
+import { RecurrenceInput } from './RecurrenceInput';
+
+export default { title: 'RecurrenceInput' };
+
+export function Usage() {
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <div style={{ padding: 40, maxWidth: 400 }}>
+      <RecurrenceInput value={value} onChange={setValue} />
+      <pre>{value}</pre>
+    </div>
+  );
+}
+
+export function ExistingRule() {
+  return (
+    <div style={{ padding: 40, maxWidth: 400 }}>
+      <RecurrenceInput
+        defaultValue={'DTSTART;VALUE=DATE:20250328\nRRULE:FREQ=MONTHLY;BYDAY=-1FR'}
+      />
+    </div>
+  );
+}
+
+export function TwoMonths() {
+  return (
+    <div style={{ padding: 40, maxWidth: 600 }}>
+      <RecurrenceInput calendarProps={{ numberOfColumns: 2 }} size="xs" />
+    </div>
+  );
+}
+
+export function WithoutCalendar() {
+  return (
+    <div style={{ padding: 40, maxWidth: 400 }}>
+      <RecurrenceInput withCalendar={false} frequencies={['WEEKLY', 'MONTHLY']} />
+    </div>
+  );
+}
+
+export function Locale() {
+  return (
+    <DatesProvider settings={{ locale: 'ru', firstDayOfWeek: 1 }}>
+      <div style={{ padding: 40, maxWidth: 400 }}>
+        <RecurrenceInput />
+      </div>
+    </DatesProvider>
+  );
+}
@@ -0,0 +1,136 @@
+import { render, screen, tests, userEvent } from '@mantine-tests/core';
+import {
+  RecurrenceInput,
+  RecurrenceInputProps,
+  RecurrenceInputStylesNames,
+} from './RecurrenceInput';
+
+const defaultProps: RecurrenceInputProps = {
+  defaultValue: 'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=WEEKLY',
+  calendarProps: {
+    ariaLabels: {
+      monthLevelControl: 'month-level',
+      yearLevelControl: 'year-level',
+      nextMonth: 'next-month',
+      previousMonth: 'previous-month',
+      nextYear: 'next-year',
+      previousYear: 'previous-year',
+      nextDecade: 'next-decade',
+      previousDecade: 'previous-decade',
+    },
+  },
+};
+
+const getDay = (name: string) => screen.getByRole('button', { name });
+
+describe('@mantine/dates/RecurrenceInput', () => {
+  tests.axe([<RecurrenceInput {...defaultProps} key="1" />]);
+  tests.itSupportsSystemProps<RecurrenceInputProps, RecurrenceInputStylesNames>({
+    component: RecurrenceInput,
+    props: defaultProps,
+    styleProps: true,
+    extend: true,
+    classes: true,
+    refType: HTMLDivElement,
+    displayName: '@mantine/dates/RecurrenceInput',
+    stylesApiSelectors: [
+      'root',
+      'section',
+      'startInput',
+      'intervalInput',
+      'frequencySelect',
+      'weekdays',
+      'weekday',
+      'endsSelect',
+      'calendar',
+    ],
+  });
+
+  it('emits rule when weekdays are changed', async () => {
+    const spy = jest.fn();
+    render(<RecurrenceInput {...defaultProps} onChange={spy} />);
+
+    expect(getDay('Monday')).toHaveAttribute('aria-pressed', 'true');
+    await userEvent.click(getDay('Wednesday'));
+    expect(spy).toHaveBeenLastCalledWith(
+      'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE'
+    );
+  });
+
+  it('does not allow to deselect the last weekday', async () => {
+    const spy = jest.fn();
+    render(<RecurrenceInput {...defaultProps} onChange={spy} />);
+    await userEvent.click(getDay('Monday'));
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('emits rule when frequency, interval and ends are changed', async () => {
+    const spy = jest.fn();
+    render(<RecurrenceInput {...defaultProps} onChange={spy} />);
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Frequency' }), 'DAILY');
+    expect(spy).toHaveBeenLastCalledWith('DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=DAILY');
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Ends' }), 'count');
+    expect(spy).toHaveBeenLastCalledWith('DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=DAILY;COUNT=10');
+
+    await userEvent.type(screen.getByRole('textbox', { name: 'Repeat every' }), '2');
+    expect(spy).toHaveBeenLastCalledWith(
+      'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=DAILY;INTERVAL=12;COUNT=10'
+    );
+  });
+
+  it('parses existing monthly rule', async () => {
+    const spy = jest.fn();
+    render(
+      <RecurrenceInput
+        value={'DTSTART;VALUE=DATE:20250328\nRRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20250630'}
+        onChange={spy}
+      />
+    );
+
+    expect(screen.getByRole('combobox', { name: 'Repeat on' })).toHaveValue('last');
+    expect(screen.getByRole('combobox', { name: 'Ends' })).toHaveValue('until');
+    expect(
+      screen.getByRole('option', { name: 'Monthly on the fourth Friday' })
+    ).toBeInTheDocument();
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Repeat on' }), 'day');
+    expect(spy).toHaveBeenLastCalledWith(
+      'DTSTART;VALUE=DATE:20250328\nRRULE:FREQ=MONTHLY;UNTIL=20250630'
+    );
+  });
+
+  it('displays custom option for rules that cannot be edited', () => {
+    render(
+      <RecurrenceInput value={'DTSTART;VALUE=DATE:20250301\nRRULE:FREQ=MONTHLY;BYMONTHDAY=1,15'} />
+    );
+    expect(screen.getByRole('combobox', { name: 'Repeat on' })).toHaveValue('custom');
+  });
+
+  it('highlights occurrences and toggles exclusions on calendar', async () => {
+    const spy = jest.fn();
+    const { rerender } = render(<RecurrenceInput {...defaultProps} onChange={spy} />);
+
+    expect(getDay('10 March 2025')).toHaveAttribute('data-selected');
+    expect(getDay('11 March 2025')).not.toHaveAttribute('data-selected');
+
+    await userEvent.click(getDay('10 March 2025'));
+    expect(spy).toHaveBeenLastCalledWith(
+      'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=WEEKLY\nEXDATE;VALUE=DATE:20250310'
+    );
+    expect(getDay('10 March 2025')).toHaveAttribute('data-excluded');
+    expect(getDay('10 March 2025')).not.toHaveAttribute('data-selected');
+
+    rerender(<RecurrenceInput {...defaultProps} onChange={spy} withExclusions={false} />);
+    await userEvent.click(getDay('17 March 2025'));
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('supports hidden input', () => {
+    const { container } = render(<RecurrenceInput {...defaultProps} name="rule" />);
+    expect(container.querySelector('input[name="rule"]')).toHaveValue(
+      'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=WEEKLY'
+    );
+  });
+});
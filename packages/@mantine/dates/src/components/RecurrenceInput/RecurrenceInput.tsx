@@ -0,0 +1,546 @@
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import cx from 'clsx';
+import {
+  Box,
+  BoxProps,
+  createVarsResolver,
+  ElementProps,
+  factory,
+  Factory,
+  getSize,
+  Input,
+  MantineSize,
+  NativeSelect,
+  NumberInput,
+  StylesApiProps,
+  UnstyledButton,
+  useProps,
+  useStyles,
+} from '@mantine/core';
+import { useUncontrolled } from '@mantine/hooks';
+import { DateStringValue, DayOfWeek } from '../../types';
+import {
+  getRecurrenceOccurrences,
+  getTimezoneToday,
+  parseRecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  stringifyRecurrenceRule,
+} from '../../utils';
+import { RECURRENCE_WEEKDAYS } from '../../utils/recurrence-rule/recurrence-rule';
+import { Calendar, CalendarProps } from '../Calendar';
+import { DateInput } from '../DateInput';
+import { useDatesContext } from '../DatesProvider';
+import classes from './RecurrenceInput.module.css';
+
+export type RecurrenceInputStylesNames =
+  | 'root'
+  | 'section'
+  | 'startInput'
+  | 'intervalInput'
+  | 'frequencySelect'
+  | 'weekdays'
+  | 'weekday'
+  | 'patternSelect'
+  | 'endsSelect'
+  | 'countInput'
+  | 'untilInput'
+  | 'calendar'
+  | 'excludedDay';
+
+export type RecurrenceInputCssVariables = {
+  root: '--recurrence-input-weekday-size';
+};
+
+export interface RecurrenceInputLabels {
+  start: string;
+  repeatEvery: string;
+  frequency: string;
+  frequencies: Record<RecurrenceFrequency, string>;
+  repeatOn: string;
+  ordinals: string[];
+  last: string;
+  custom: string;
+  monthDay: (day: number) => string;
+  monthWeekday: (ordinal: string, weekday: string) => string;
+  yearDay: (date: string) => string;
+  yearWeekday: (ordinal: string, weekday: string, month: string) => string;
+  ends: string;
+  never: string;
+  after: string;
+  onDate: string;
+  count: string;
+  until: string;
+}
+
+export interface RecurrenceInputProps
+  extends BoxProps,
+    StylesApiProps<RecurrenceInputFactory>,
+    ElementProps<'div', 'onChange' | 'defaultValue' | 'value'> {
+  /** Controlled component value, RFC 5545 string with `DTSTART`, `RRULE` and `EXDATE` properties */
+  value?: string | null;
+
+  /** Uncontrolled component default value */
+  defaultValue?: string | null;
+
+  /** Called with RFC 5545 string when the rule changes */
+  onChange?: (value: string) => void;
+
+  /** Frequencies that can be selected @default `['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']` */
+  frequencies?: RecurrenceFrequency[];
+
+  /** Determines whether occurrences should be displayed on a calendar @default `true` */
+  withCalendar?: boolean;
+
+  /** Determines whether occurrences can be excluded by clicking them on the calendar, excluded dates are added to `EXDATE` @default `true` */
+  withExclusions?: boolean;
+
+  /** Props passed down to `Calendar` component, `getDayProps` result is merged with occurrences props */
+  calendarProps?: Partial<CalendarProps>;
+
+  /** Labels used in inputs and options */
+  labels?: Partial<RecurrenceInputLabels>;
+
+  /** Controls size of inputs and calendar @default `'sm'` */
+  size?: MantineSize;
+
+  /** Determines whether the rule can be changed @default `false` */
+  disabled?: boolean;
+
+  /** Name of the hidden input that contains the value */
+  name?: string;
+
+  /** `form` attribute of the hidden input */
+  form?: string;
+
+  /** dayjs locale, the default value is defined by `DatesProvider` */
+  locale?: string;
+
+  /** Number 0-6, where 0 – Sunday and 6 – Saturday. The default value is defined by `DatesProvider` */
+  firstDayOfWeek?: DayOfWeek;
+
+  /** IANA time zone name used to determine current date, the default value is defined by `DatesProvider` */
+  timezone?: string | null;
+}
+
+export type RecurrenceInputFactory = Factory<{
+  props: RecurrenceInputProps;
+  ref: HTMLDivElement;
+  stylesNames: RecurrenceInputStylesNames;
+  vars: RecurrenceInputCssVariables;
+}>;
+
+type EndsMode = 'never' | 'count' | 'until';
+
+type PatternMode = 'day' | 'nth' | 'last' | 'custom';
+
+const DEFAULT_COUNT = 10;
+
+const defaultLabels: RecurrenceInputLabels = {
+  start: 'Starts on',
+  repeatEvery: 'Repeat every',
+  frequency: 'Frequency',
+  frequencies: { DAILY: 'days', WEEKLY: 'weeks', MONTHLY: 'months', YEARLY: 'years' },
+  repeatOn: 'Repeat on',
+  ordinals: ['first', 'second', 'third', 'fourth'],
+  last: 'last',
+  custom: 'Custom',
+  monthDay: (day) => `Monthly on day ${day}`,
+  monthWeekday: (ordinal, weekday) => `Monthly on the ${ordinal} ${weekday}`,
+  yearDay: (date) => `Annually on ${date}`,
+  yearWeekday: (ordinal, weekday, month) => `Annually on the ${ordinal} ${weekday} of ${month}`,
+  ends: 'Ends',
+  never: 'Never',
+  after: 'After a number of occurrences',
+  onDate: 'On date',
+  count: 'Occurrences',
+  until: 'End date',
+};
+
+const defaultProps = {
+  frequencies: ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'],
+  withCalendar: true,
+  withExclusions: true,
+  size: 'sm',
+} satisfies Partial<RecurrenceInputProps>;
+
+const varsResolver = createVarsResolver<RecurrenceInputFactory>((_, { size }) => ({
+  root: {
+    '--recurrence-input-weekday-size': getSize(size, 'input-height'),
+  },
+}));
+
+function getDefaultRule(start: DateStringValue): RecurrenceRule {
+  return {
+    freq: 'WEEKLY',
+    interval: 1,
+    start,
+    byWeekday: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: null,
+    until: null,
+    weekStart: 'MO',
+    exclusions: [],
+  };
+}
+
+function getPatternMode(rule: RecurrenceRule): PatternMode {
+  const isYearly = rule.freq === 'YEARLY';
+  const start = dayjs(rule.start);
+  const matchesMonth =
+    rule.byMonth.length === 0 || (isYearly && rule.byMonth.join() === `${start.month() + 1}`);
+
+  if (!matchesMonth || rule.byMonthDay.length > 0) {
+    return 'custom';
+  }
+
+  if (rule.byWeekday.length === 0) {
+    return rule.byMonth.length === 0 ? 'day' : 'custom';
+  }
+
+  const [{ weekday, nth }] = rule.byWeekday;
+  const isStartWeekday =
+    rule.byWeekday.length === 1 &&
+    weekday === RECURRENCE_WEEKDAYS[start.day()] &&
+    rule.byMonth.length === (isYearly ? 1 : 0);
+
+  if (isStartWeekday && nth === Math.ceil(start.date() / 7)) {
+    return 'nth';
+  }
+
+  return isStartWeekday && nth === -1 ? 'last' : 'custom';
+}
+
+export const RecurrenceInput = factory<RecurrenceInputFactory>((_props, ref) => {
+  const props = useProps('RecurrenceInput', defaultProps, _props);
+  const {
+    classNames,
+    className,
+    style,
+    styles,
+    unstyled,
+    vars,
+    attributes,
+    value,
+    defaultValue,
+    onChange,
+    frequencies,
+    withCalendar,
+    withExclusions,
+    calendarProps,
+    labels,
+    size,
+    disabled,
+    name,
+    form,
+    locale,
+    firstDayOfWeek,
+    timezone,
+    ...others
+  } = props;
+
+  const getStyles = useStyles<RecurrenceInputFactory>({
+    name: 'RecurrenceInput',
+    classes,
+    props,
+    className,
+    style,
+    classNames,
+    styles,
+    unstyled,
+    attributes,
+    vars,
+    varsResolver,
+  });
+
+  const ctx = useDatesContext();
+  const _locale = ctx.getLocale(locale);
+  const _firstDayOfWeek = ctx.getFirstDayOfWeek(firstDayOfWeek);
+  const _labels = { ...defaultLabels, ...labels };
+  const today = getTimezoneToday(ctx.getTimezone(timezone));
+
+  const [_value, setValue] = useUncontrolled<string | null>({
+    value,
+    defaultValue,
+    finalValue: null,
+    onChange: onChange as (value: string | null) => void,
+  });
+
+  const parsedRule = parseRecurrenceRule(_value) || getDefaultRule(today);
+  const rule: RecurrenceRule = { ...parsedRule, start: parsedRule.start || today };
+  const start = dayjs(rule.start).locale(_locale);
+
+  const [calendarDate, setCalendarDate] = useState<DateStringValue>(rule.start!);
+  const displayedDate = calendarProps?.date || calendarDate;
+
+  const update = (payload: Partial<RecurrenceRule>) =>
+    setValue(stringifyRecurrenceRule({ ...rule, ...payload }));
+
+  const weekdays = Array.from(
+    { length: 7 },
+    (_, index) => ((index + _firstDayOfWeek) % 7) as DayOfWeek
+  );
+  const activeWeekdays =
+    rule.byWeekday.length > 0
+      ? rule.byWeekday.map((item) => item.weekday)
+      : [RECURRENCE_WEEKDAYS[start.day()]];
+
+  const toggleWeekday = (weekday: DayOfWeek) => {
+    const code = RECURRENCE_WEEKDAYS[weekday];
+    const next = activeWeekdays.includes(code)
+      ? activeWeekdays.filter((item) => item !== code)
+      : [...activeWeekdays, code];
+
+    next.length > 0 &&
+      update({
+        byWeekday: RECURRENCE_WEEKDAYS.filter((item) => next.includes(item)).map((item) => ({
+          weekday: item,
+        })),
+      });
+  };
+
+  const nth = Math.ceil(start.date() / 7);
+  const isLastWeekday = start.date() + 7 > start.daysInMonth();
+  const weekdayName = start.format('dddd');
+  const monthName = start.format('MMMM');
+  const isYearly = rule.freq === 'YEARLY';
+  const patternMode = getPatternMode(rule);
+
+  const patternOptions = [
+    {
+      value: 'day',
+      label: isYearly ? _labels.yearDay(start.format('MMMM D')) : _labels.monthDay(start.date()),
+    },
+    nth <= _labels.ordinals.length && {
+      value: 'nth',
+      label: isYearly
+        ? _labels.yearWeekday(_labels.ordinals[nth - 1], weekdayName, monthName)
+        : _labels.monthWeekday(_labels.ordinals[nth - 1], weekdayName),
+    },
+    isLastWeekday && {
+      value: 'last',
+      label: isYearly
+        ? _labels.yearWeekday(_labels.last, weekdayName, monthName)
+        : _labels.monthWeekday(_labels.last, weekdayName),
+    },
+    patternMode === 'custom' && { value: 'custom', label: _labels.custom, disabled: true },
+  ].filter(Boolean) as { value: PatternMode; label: string; disabled?: boolean }[];
+
+  const setPatternMode = (mode: PatternMode) => {
+    const weekday = RECURRENCE_WEEKDAYS[start.day()];
+    update({
+      byMonthDay: [],
+      byMonth: isYearly && mode !== 'day' ? [start.month() + 1] : [],
+      byWeekday: mode === 'day' ? [] : [{ weekday, nth: mode === 'nth' ? nth : -1 }],
+    });
+  };
+
+  const endsMode: EndsMode = rule.count ? 'count' : rule.until ? 'until' : 'never';
+
+  const setEndsMode = (mode: EndsMode) =>
+    update({
+      count: mode === 'count' ? DEFAULT_COUNT : null,
+      until: mode === 'until' ? start.add(1, 'month').format('YYYY-MM-DD') : null,
+    });
+
+  const numberOfColumns = calendarProps?.numberOfColumns || 1;
+  const occurrences = withCalendar
+    ? getRecurrenceOccurrences(rule, {
+        to: dayjs(displayedDate)
+          .add(numberOfColumns - 1, 'month')
+          .endOf('month')
+          .add(7, 'day')
+          .format('YYYY-MM-DD'),
+        limit: Infinity,
+      })
+    : [];
+
+  const toggleExclusion = (date: DateStringValue) =>
+    update({
+      exclusions: rule.exclusions.includes(date)
+        ? rule.exclusions.filter((item) => item !== date)
+        : [...rule.exclusions, date],
+    });
+
+  const getDayProps = (date: DateStringValue) => {
+    const isOccurrence = occurrences.includes(date);
+    const isExcluded = rule.exclusions.includes(date);
+    const canToggle = withExclusions && !disabled && (isOccurrence || isExcluded);
+    const dayProps = calendarProps?.getDayProps?.(date);
+    const excludedDayStyles = isExcluded ? getStyles('excludedDay') : null;
+
+    return {
+      ...dayProps,
+      selected: isOccurrence,
+      'data-occurrence': isOccurrence || undefined,
+      'data-excluded': isExcluded || undefined,
+      className: cx(dayProps?.className, excludedDayStyles?.className),
+      style: { ...excludedDayStyles?.style, ...(dayProps?.style as React.CSSProperties) },
+      onClick: (event: React.MouseEvent<HTMLButtonElement>) => {
+        dayProps?.onClick?.(event);
+        canToggle && toggleExclusion(date);
+      },
+    };
+  };
+
+  return (
+    <Box ref={ref} {...getStyles('root')} {...others}>
+      <DateInput
+        {...getStyles('startInput')}
+        label={_labels.start}
+        size={size}
+        disabled={disabled}
+        locale={_locale}
+        value={rule.start}
+        onChange={(date) => {
+          if (date) {
+            update({ start: date, byWeekday: [], byMonthDay: [], byMonth: [], exclusions: [] });
+            setCalendarDate(date);
+          }
+        }}
+      />
+
+      <div {...getStyles('section')}>
+        <NumberInput
+          {...getStyles('intervalInput')}
+          label={_labels.repeatEvery}
+          size={size}
+          disabled={disabled}
+          min={1}
+          max={999}
+          allowDecimal={false}
+          allowNegative={false}
+          value={rule.interval}
+          onChange={(interval) =>
+            typeof interval === 'number' && interval >= 1 && update({ interval })
+          }
+        />
+
+        <NativeSelect
+          {...getStyles('frequencySelect')}
+          aria-label={_labels.frequency}
+          size={size}
+          disabled={disabled}
+          data={frequencies!.map((frequency) => ({
+            value: frequency,
+            label: _labels.frequencies[frequency],
+          }))}
+          value={rule.freq}
+          onChange={(event) =>
+            update({
+              freq: event.currentTarget.value as RecurrenceFrequency,
+              byWeekday: [],
+              byMonthDay: [],
+              byMonth: [],
+            })
+          }
+        />
+      </div>
+
+      {rule.freq === 'WEEKLY' && (
+        <Input.Wrapper label={_labels.repeatOn} labelElement="div" size={size}>
+          <div {...getStyles('weekdays')} role="group" aria-label={_labels.repeatOn}>
+            {weekdays.map((weekday) => {
+              const date = start.day(weekday);
+              const active = activeWeekdays.includes(RECURRENCE_WEEKDAYS[weekday]);
+
+              return (
+                <UnstyledButton
+                  key={weekday}
+                  {...getStyles('weekday')}
+                  aria-label={date.format('dddd')}
+                  aria-pressed={active}
+                  data-active={active || undefined}
+                  disabled={disabled}
+                  onClick={() => toggleWeekday(weekday)}
+                >
+                  {date.format('dd')}
+                </UnstyledButton>
+              );
+            })}
+          </div>
+        </Input.Wrapper>
+      )}
+
+      {(rule.freq === 'MONTHLY' || isYearly) && (
+        <NativeSelect
+          {...getStyles('patternSelect')}
+          label={_labels.repeatOn}
+          size={size}
+          disabled={disabled}
+          data={patternOptions}
+          value={patternMode}
+          onChange={(event) => setPatternMode(event.currentTarget.value as PatternMode)}
+        />
+      )}
+
+      <div {...getStyles('section')}>
+        <NativeSelect
+          {...getStyles('endsSelect')}
+          label={_labels.ends}
+          size={size}
+          disabled={disabled}
+          data={[
+            { value: 'never', label: _labels.never },
+            { value: 'count', label: _labels.after },
+            { value: 'until', label: _labels.onDate },
+          ]}
+          value={endsMode}
+          onChange={(event) => setEndsMode(event.currentTarget.value as EndsMode)}
+        />
+
+        {endsMode === 'count' && (
+          <NumberInput
+            {...getStyles('countInput')}
+            label={_labels.count}
+            size={size}
+            disabled={disabled}
+            min={1}
+            max={999}
+            allowDecimal={false}
+            allowNegative={false}
+            value={rule.count!}
+            onChange={(count) => typeof count === 'number' && count >= 1 && update({ count })}
+          />
+        )}
+
+        {endsMode === 'until' && (
+          <DateInput
+            {...getStyles('untilInput')}
+            label={_labels.until}
+            size={size}
+            disabled={disabled}
+            locale={_locale}
+            minDate={rule.start!}
+            value={rule.until}
+            onChange={(until) => until && update({ until })}
+          />
+        )}
+      </div>
+
+      {withCalendar && (
+        <Calendar
+          {...getStyles('calendar')}
+          size={size}
+          locale={_locale}
+          firstDayOfWeek={_firstDayOfWeek}
+          timezone={timezone}
+          {...calendarProps}
+          date={displayedDate}
+          onDateChange={(date) => {
+            setCalendarDate(date);
+            calendarProps?.onDateChange?.(date);
+          }}
+          getDayProps={getDayProps}
+        />
+      )}
+
+      {name && <input type="hidden" name={name} form={form} value={_value || ''} />}
+    </Box>
+  );
+});
+
+RecurrenceInput.classes = classes;
+RecurrenceInput.displayName = '@mantine/dates/RecurrenceInput';
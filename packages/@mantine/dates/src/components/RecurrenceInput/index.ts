@@ -0,0 +1,8 @@
+export { RecurrenceInput } from './RecurrenceInput';
+export type {
+  RecurrenceInputCssVariables,
+  RecurrenceInputFactory,
+  RecurrenceInputLabels,
+  RecurrenceInputProps,
+  RecurrenceInputStylesNames,
+} from './RecurrenceInput';
@@ -0,0 +1,50 @@
+import { createSafeContext, GetStylesApi } from '@mantine/core';
+import type { DateStringValue, DateTimeStringValue } from '../../types';
+import type { SchedulerFactory } from './Scheduler';
+import type {
+  SchedulerEventData,
+  SchedulerLabels,
+  SchedulerNormalizedEvent,
+  SchedulerRenderEvent,
+  SchedulerSlotClickPayload,
+  SchedulerView,
+} from './Scheduler.types';
+
+export type SchedulerDropTarget =
+  | { type: 'day'; date: DateStringValue }
+  | { type: 'slot'; start: DateTimeStringValue };
+
+export interface SchedulerDragState {
+  event: SchedulerNormalizedEvent;
+  type: 'move' | 'resize';
+
+  /** Number of days between the event start and the day at which the event was grabbed */
+  offsetDays: number;
+
+  /** Number of minutes between the event start and the slot at which the event was grabbed */
+  offsetMinutes: number;
+}
+
+interface SchedulerContextValue {
+  getStyles: GetStylesApi<SchedulerFactory>;
+  view: SchedulerView;
+  locale: string;
+  today: DateStringValue;
+  labels: SchedulerLabels;
+  renderEvent: SchedulerRenderEvent | undefined;
+  timeLabelFormat: string;
+  withDragAndDrop: boolean;
+  dragState: SchedulerDragState | null;
+  onEventClick:
+    | ((event: SchedulerEventData, e: React.MouseEvent<HTMLDivElement>) => void)
+    | undefined;
+  startDrag: (state: SchedulerDragState, e: React.DragEvent<HTMLDivElement>) => void;
+  endDrag: () => void;
+  getDropTargetProps: (target: SchedulerDropTarget) => React.HTMLAttributes<HTMLElement>;
+  onSlotClick: (payload: SchedulerSlotClickPayload) => void;
+  openDay: (date: DateStringValue) => void;
+}
+
+export const [SchedulerProvider, useSchedulerContext] = createSafeContext<SchedulerContextValue>(
+  'SchedulerProvider was not found in the component tree'
+);
@@ -0,0 +1,79 @@
+import 'dayjs/locale/ru';
+
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import { DatesProvider } from '../DatesProvider';
+import { Scheduler } from './Scheduler';
+import { SchedulerEventData } from './Scheduler.types';
+
+export default { title: 'Scheduler' };
+
+const today = dayjs().format('YYYY-MM-DD');
+const day = (offset: number) => dayjs(today).add(offset, 'day').format('YYYY-MM-DD');
+
+const events: SchedulerEventData[] = [
+  { id: 1, title: 'Standup', start: `${day(0)} 09:00:00`, end: `${day(0)} 09:30:00` },
+  { id: 2, title: 'Review', start: `${day(0)} 09:15:00`, end: `${day(0)} 10:30:00`, color: 'red' },
+  { id: 3, title: 'Sync', start: `${day(0)} 10:00:00`, end: `${day(0)} 11:00:00`, color: 'teal' },
+  { id: 4, title: 'Offsite', start: day(1), end: day(3), allDay: true, color: 'orange' },
+  { id: 5, title: 'Night shift', start: `${day(-1)} 22:00:00`, end: `${day(0)} 06:00:00` },
+  { id: 6, title: 'Vacation', start: day(5), end: day(12), allDay: true, color: 'grape' },
+];
+
+export function Usage() {
+  return (
+    <div style={{ padding: 40 }}>
+      <Scheduler events={events} />
+    </div>
+  );
+}
+
+export function WeekView() {
+  return (
+    <div style={{ padding: 40 }}>
+      <Scheduler events={events} defaultView="week" startHour={6} endHour={20} />
+    </div>
+  );
+}
+
+export function DragAndDrop() {
+  const [data, setData] = useState(events);
+
+  return (
+    <div style={{ padding: 40 }}>
+      <Scheduler
+        events={data}
+        defaultView="week"
+        onEventChange={({ event, start, end }) =>
+          setData((current) =>
+            current.map((item) => (item.id === event.id ? { ...item, start, end } : item))
+          )
+        }
+        onSlotClick={({ start, end, allDay }) =>
+          setData((current) => [...current, { id: Date.now(), title: 'New', start, end, allDay }])
+        }
+      />
+    </div>
+  );
+}
+
+export function RenderEvent() {
+  return (
+    <div style={{ padding: 40 }}>
+      <Scheduler
+        events={events}
+        renderEvent={(event, { view }) => <b>{`${event.title} (${view})`}</b>}
+      />
+    </div>
+  );
+}
+
+export function WithDatesProvider() {
+  return (
+    <div style={{ padding: 40 }}>
+      <DatesProvider settings={{ firstDayOfWeek: 0, weekendDays: [5, 6], locale: 'ru' }}>
+        <Scheduler events={events} defaultView="week" />
+      </DatesProvider>
+    </div>
+  );
+}
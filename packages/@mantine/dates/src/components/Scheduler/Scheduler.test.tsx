@@ -0,0 +1,163 @@
+import { fireEvent } from '@testing-library/react';
+import { render, screen, tests, userEvent } from '@mantine-tests/core';
+import { Scheduler, SchedulerProps, SchedulerStylesNames } from './Scheduler';
+import { SchedulerEventData } from './Scheduler.types';
+
+const events: SchedulerEventData[] = [
+  { id: 'meeting', title: 'Meeting', start: '2025-01-15 10:00:00', end: '2025-01-15 11:00:00' },
+  { id: 'call', title: 'Call', start: '2025-01-15 10:30:00', end: '2025-01-15 11:30:00' },
+  { id: 'trip', title: 'Trip', start: '2025-01-14', end: '2025-01-16', allDay: true },
+];
+
+const defaultProps: SchedulerProps = {
+  defaultDate: '2025-01-15',
+  events,
+};
+
+describe('@mantine/dates/Scheduler', () => {
+  tests.axe([<Scheduler {...defaultProps} key="1" />]);
+  tests.itSupportsSystemProps<SchedulerProps, SchedulerStylesNames>({
+    component: Scheduler,
+    props: defaultProps,
+    styleProps: true,
+    extend: true,
+    classes: true,
+    refType: HTMLDivElement,
+    displayName: '@mantine/dates/Scheduler',
+    stylesApiSelectors: [
+      'root',
+      'header',
+      'headerControls',
+      'headerLabel',
+      'viewSwitch',
+      'monthView',
+      'monthWeek',
+      'monthWeekDays',
+      'monthDay',
+      'monthDayNumber',
+      'event',
+      'eventTitle',
+    ],
+  });
+
+  it('renders multi-day events as a single segment in month view', () => {
+    const { container } = render(<Scheduler {...defaultProps} />);
+    expect(screen.getByText('January 2025')).toBeInTheDocument();
+    expect(screen.getAllByText('Trip')).toHaveLength(1);
+
+    const trip = container.querySelector('[data-all-day]') as HTMLElement;
+    expect(trip.style.gridColumn).toBe('2 / 5');
+  });
+
+  it('displays "more" button when day has more events than maxEventsPerDay', async () => {
+    render(<Scheduler {...defaultProps} maxEventsPerDay={1} />);
+    expect(screen.queryByText('Meeting')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: '+2 more' }));
+    expect(screen.getByText('Wednesday, 15 January 2025')).toBeInTheDocument();
+    expect(screen.getByText('Meeting')).toBeInTheDocument();
+  });
+
+  it('switches views and navigates between periods', async () => {
+    const spy = jest.fn();
+    render(<Scheduler {...defaultProps} onDateChange={spy} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Week' }));
+    expect(screen.getByRole('button', { name: 'Week' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('13 Jan – 19 Jan 2025')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+    expect(spy).toHaveBeenLastCalledWith('2025-01-22');
+    expect(screen.getByText('20 Jan – 26 Jan 2025')).toBeInTheDocument();
+  });
+
+  it('places overlapping events side by side in week view', () => {
+    render(<Scheduler {...defaultProps} defaultView="week" />);
+    const meeting = screen.getByText('Meeting').parentElement!;
+    const call = screen.getByText('Call').parentElement!;
+
+    expect(meeting.style.width).toBe('50%');
+    expect(call.style.width).toBe('50%');
+    expect(meeting.style.left).toBe('0%');
+    expect(call.style.left).toBe('50%');
+  });
+
+  it('calls onSlotClick with slot boundaries', async () => {
+    const spy = jest.fn();
+    render(<Scheduler {...defaultProps} defaultView="day" onSlotClick={spy} />);
+
+    await userEvent.click(screen.getByRole('button', { name: '15 January 2025 14:30' }));
+    expect(spy).toHaveBeenCalledWith({
+      start: '2025-01-15 14:30:00',
+      end: '2025-01-15 15:00:00',
+      allDay: false,
+    });
+  });
+
+  it('calls onSlotClick with day when month view day is clicked', async () => {
+    const spy = jest.fn();
+    render(<Scheduler {...defaultProps} onSlotClick={spy} />);
+
+    await userEvent.click(screen.getByRole('button', { name: '20 January 2025' }).parentElement!);
+    expect(spy).toHaveBeenCalledWith({ start: '2025-01-20', end: '2025-01-20', allDay: true });
+  });
+
+  it('calls onEventChange when event is moved to another slot', () => {
+    const spy = jest.fn();
+    render(<Scheduler {...defaultProps} defaultView="week" onEventChange={spy} />);
+
+    const slot = screen.getByRole('button', { name: '16 January 2025 12:00' });
+    fireEvent.dragStart(screen.getByText('Meeting').parentElement!);
+    fireEvent.dragOver(slot);
+    fireEvent.drop(slot);
+
+    expect(spy).toHaveBeenCalledWith({
+      event: events[0],
+      type: 'move',
+      start: '2025-01-16 12:00:00',
+      end: '2025-01-16 13:00:00',
+    });
+  });
+
+  it('calls onEventChange when all-day event is resized', () => {
+    const spy = jest.fn();
+    const { container } = render(<Scheduler {...defaultProps} onEventChange={spy} />);
+
+    const handle = container.querySelector('[data-all-day] .mantine-Scheduler-eventResizeHandle')!;
+    const day = screen.getByRole('button', { name: '18 January 2025' }).parentElement!;
+    fireEvent.dragStart(handle);
+    fireEvent.dragOver(day);
+    fireEvent.drop(day);
+
+    expect(spy).toHaveBeenCalledWith({
+      event: events[2],
+      type: 'resize',
+      start: '2025-01-14',
+      end: '2025-01-18',
+    });
+  });
+
+  it('does not make events draggable without onEventChange', () => {
+    render(<Scheduler {...defaultProps} />);
+    expect(screen.getByText('Meeting').parentElement).toHaveAttribute('draggable', 'false');
+  });
+
+  it('supports agenda view', () => {
+    const { rerender } = render(<Scheduler {...defaultProps} view="agenda" agendaDays={7} />);
+    expect(screen.getByText('Wed, 15 January')).toBeInTheDocument();
+    expect(screen.getByText('10:00 – 11:00')).toBeInTheDocument();
+
+    rerender(<Scheduler {...defaultProps} view="agenda" date="2025-03-01" />);
+    expect(screen.getByText('No events')).toBeInTheDocument();
+  });
+
+  it('supports renderEvent', () => {
+    render(
+      <Scheduler
+        {...defaultProps}
+        renderEvent={(event, { view }) => <b>{`${event.title} (${view})`}</b>}
+      />
+    );
+    expect(screen.getByText('Meeting (month)')).toBeInTheDocument();
+  });
+});
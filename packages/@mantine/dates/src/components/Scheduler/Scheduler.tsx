@@ -0,0 +1,537 @@
+import dayjs from 'dayjs';
+import { useState } from 'react';
+import {
+  AccordionChevron,
+  ActionIcon,
+  Box,
+  BoxProps,
+  Button,
+  createVarsResolver,
+  ElementProps,
+  factory,
+  Factory,
+  getRadius,
+  MantineRadius,
+  rem,
+  StylesApiProps,
+  useProps,
+  useResolvedStylesApi,
+  useStyles,
+} from '@mantine/core';
+import { useUncontrolled } from '@mantine/hooks';
+import { useUncontrolledDates } from '../../hooks';
+import { DateStringValue, DayOfWeek } from '../../types';
+import { getTimezoneNow, getTimezoneToday } from '../../utils';
+import { useDatesContext } from '../DatesProvider';
+import { getStartOfWeek } from '../Month/get-start-of-week/get-start-of-week';
+import type { WeekdaysRowStylesNames } from '../WeekdaysRow';
+import { normalizeEvents } from './normalize-events/normalize-events';
+import { SchedulerDragState, SchedulerDropTarget, SchedulerProvider } from './Scheduler.context';
+import classes from './Scheduler.module.css';
+import type {
+  SchedulerEventChangePayload,
+  SchedulerEventData,
+  SchedulerLabels,
+  SchedulerRenderEvent,
+  SchedulerSlotClickPayload,
+  SchedulerView,
+} from './Scheduler.types';
+import { SchedulerAgendaView } from './SchedulerAgendaView';
+import { SchedulerMonthView } from './SchedulerMonthView';
+import { SchedulerTimeView } from './SchedulerTimeView';
+
+const FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+export type SchedulerStylesNames =
+  | 'root'
+  | 'header'
+  | 'headerControls'
+  | 'headerLabel'
+  | 'viewSwitch'
+  | 'monthView'
+  | 'monthWeek'
+  | 'monthWeekDays'
+  | 'monthDay'
+  | 'monthDayNumber'
+  | 'more'
+  | 'timeView'
+  | 'timeViewHeader'
+  | 'timeViewDay'
+  | 'allDayRow'
+  | 'allDayLabel'
+  | 'allDayCell'
+  | 'timeGrid'
+  | 'timeLabels'
+  | 'timeLabel'
+  | 'dayColumn'
+  | 'slot'
+  | 'nowIndicator'
+  | 'event'
+  | 'eventTime'
+  | 'eventTitle'
+  | 'eventResizeHandle'
+  | 'agenda'
+  | 'agendaDay'
+  | 'agendaDayLabel'
+  | 'agendaEvent'
+  | 'agendaEventTime'
+  | 'agendaEmpty'
+  | WeekdaysRowStylesNames;
+
+export type SchedulerCssVariables = {
+  root: '--scheduler-slot-height' | '--scheduler-radius';
+};
+
+export interface SchedulerProps
+  extends BoxProps,
+    StylesApiProps<SchedulerFactory>,
+    ElementProps<'div', 'onChange'> {
+  /** Events to display */
+  events?: SchedulerEventData[];
+
+  /** Controlled view */
+  view?: SchedulerView;
+
+  /** Uncontrolled view initial value @default `'month'` */
+  defaultView?: SchedulerView;
+
+  /** Called when view changes */
+  onViewChange?: (view: SchedulerView) => void;
+
+  /** Views that can be selected in the header @default `['month', 'week', 'day', 'agenda']` */
+  views?: SchedulerView[];
+
+  /** Controlled displayed date in `YYYY-MM-DD` format */
+  date?: DateStringValue | Date;
+
+  /** Uncontrolled displayed date initial value, current date by default */
+  defaultDate?: DateStringValue | Date;
+
+  /** Called with date in `YYYY-MM-DD` format when displayed date changes */
+  onDateChange?: (date: DateStringValue) => void;
+
+  /** Controls event content rendering, event container handles click and drag events */
+  renderEvent?: SchedulerRenderEvent;
+
+  /** Called when event is clicked */
+  onEventClick?: (event: SchedulerEventData, e: React.MouseEvent<HTMLDivElement>) => void;
+
+  /** Called when event is moved or resized by dragging, drag and drop is enabled only if this prop is set */
+  onEventChange?: (payload: SchedulerEventChangePayload) => void;
+
+  /** Called when empty time slot or day is clicked, can be used to create new events */
+  onSlotClick?: (payload: SchedulerSlotClickPayload) => void;
+
+  /** Hour at which week and day views start @default `0` */
+  startHour?: number;
+
+  /** Hour at which week and day views end @default `24` */
+  endHour?: number;
+
+  /** Duration of a time slot in minutes in week and day views @default `30` */
+  slotDuration?: number;
+
+  /** Height of a time slot, number is converted to rem @default `40` */
+  slotHeight?: number | string;
+
+  /** Maximum number of events displayed in a day of month view, other events are hidden behind "more" button @default `3` */
+  maxEventsPerDay?: number;
+
+  /** Number of days displayed in agenda view @default `30` */
+  agendaDays?: number;
+
+  /** Determines whether header with navigation and view controls should be displayed @default `true` */
+  withHeader?: boolean;
+
+  /** dayjs format of time labels @default `'HH:mm'` */
+  timeLabelFormat?: string;
+
+  /** Labels used in header and views */
+  labels?: Partial<SchedulerLabels>;
+
+  /** Key of `theme.radius` or any valid CSS value to set `border-radius` of events @default `theme.defaultRadius` */
+  radius?: MantineRadius;
+
+  /** dayjs locale, the default value is defined by `DatesProvider` */
+  locale?: string;
+
+  /** Number 0-6, where 0 – Sunday and 6 – Saturday. The default value is defined by `DatesProvider` */
+  firstDayOfWeek?: DayOfWeek;
+
+  /** Indices of weekend days, 0-6, where 0 is Sunday and 6 is Saturday. The default value is defined by `DatesProvider` */
+  weekendDays?: DayOfWeek[];
+
+  /** IANA time zone name used to determine current date and convert Date objects, the default value is defined by `DatesProvider` */
+  timezone?: string | null;
+}
+
+export type SchedulerFactory = Factory<{
+  props: SchedulerProps;
+  ref: HTMLDivElement;
+  stylesNames: SchedulerStylesNames;
+  vars: SchedulerCssVariables;
+}>;
+
+const defaultLabels: SchedulerLabels = {
+  today: 'Today',
+  previous: 'Previous',
+  next: 'Next',
+  month: 'Month',
+  week: 'Week',
+  day: 'Day',
+  agenda: 'Agenda',
+  allDay: 'All day',
+  noEvents: 'No events',
+  more: (count) => `+${count} more`,
+};
+
+const defaultProps = {
+  events: [],
+  views: ['month', 'week', 'day', 'agenda'],
+  startHour: 0,
+  endHour: 24,
+  slotDuration: 30,
+  slotHeight: 40,
+  maxEventsPerDay: 3,
+  agendaDays: 30,
+  withHeader: true,
+  timeLabelFormat: 'HH:mm',
+} satisfies Partial<SchedulerProps>;
+
+const varsResolver = createVarsResolver<SchedulerFactory>((_, { slotHeight, radius }) => ({
+  root: {
+    '--scheduler-slot-height': rem(slotHeight),
+    '--scheduler-radius': radius === undefined ? undefined : getRadius(radius),
+  },
+}));
+
+const NAVIGATION_UNITS: Record<SchedulerView, dayjs.ManipulateType> = {
+  month: 'month',
+  week: 'week',
+  day: 'day',
+  agenda: 'day',
+};
+
+export const Scheduler = factory<SchedulerFactory>((_props, ref) => {
+  const props = useProps('Scheduler', defaultProps, _props);
+  const {
+    classNames,
+    className,
+    style,
+    styles,
+    unstyled,
+    vars,
+    attributes,
+    events,
+    view,
+    defaultView,
+    onViewChange,
+    views,
+    date,
+    defaultDate,
+    onDateChange,
+    renderEvent,
+    onEventClick,
+    onEventChange,
+    onSlotClick,
+    startHour,
+    endHour,
+    slotDuration,
+    slotHeight,
+    maxEventsPerDay,
+    agendaDays,
+    withHeader,
+    timeLabelFormat,
+    labels,
+    radius,
+    locale,
+    firstDayOfWeek,
+    weekendDays,
+    timezone,
+    ...others
+  } = props;
+
+  const getStyles = useStyles<SchedulerFactory>({
+    name: 'Scheduler',
+    classes,
+    props,
+    className,
+    style,
+    classNames,
+    styles,
+    unstyled,
+    attributes,
+    vars,
+    varsResolver,
+  });
+
+  const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<SchedulerFactory>({
+    classNames,
+    styles,
+    props,
+  });
+
+  const ctx = useDatesContext();
+  const _locale = ctx.getLocale(locale);
+  const _timezone = ctx.getTimezone(timezone);
+  const _firstDayOfWeek = ctx.getFirstDayOfWeek(firstDayOfWeek);
+  const _labels = { ...defaultLabels, ...labels };
+  const today = getTimezoneToday(_timezone);
+
+  const [_view, setView] = useUncontrolled<SchedulerView>({
+    value: view,
+    defaultValue: defaultView,
+    finalValue: 'month',
+    onChange: onViewChange,
+  });
+
+  const [_date, setDate] = useUncontrolledDates({
+    type: 'default',
+    value: date,
+    defaultValue: defaultDate,
+    onChange: onDateChange as any,
+    timezone: _timezone,
+  });
+
+  const currentDate: DateStringValue = _date || today;
+  const [dragState, setDragState] = useState<SchedulerDragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const withDragAndDrop = typeof onEventChange === 'function';
+  const normalizedEvents = normalizeEvents(events!, _timezone);
+
+  const navigate = (direction: 1 | -1) => {
+    const amount = _view === 'agenda' ? agendaDays! : 1;
+    setDate(
+      dayjs(currentDate)
+        .add(direction * amount, NAVIGATION_UNITS[_view])
+        .format('YYYY-MM-DD')
+    );
+  };
+
+  const openDay = (day: DateStringValue) => {
+    setDate(day);
+    views!.includes('day') && setView('day');
+  };
+
+  const getDropTargetKey = (target: SchedulerDropTarget) =>
+    target.type === 'day' ? target.date : target.start;
+
+  const canDrop = (target: SchedulerDropTarget) => {
+    if (!dragState) {
+      return false;
+    }
+
+    if (dragState.type === 'resize') {
+      return dragState.event.allDay ? target.type === 'day' : target.type === 'slot';
+    }
+
+    return !dragState.event.allDay || target.type === 'day';
+  };
+
+  const handleDrop = (target: SchedulerDropTarget) => {
+    if (!dragState || !canDrop(target)) {
+      return;
+    }
+
+    const { event, type, offsetDays, offsetMinutes } = dragState;
+    const start = dayjs(event.start);
+    const duration = dayjs(event.end).diff(start);
+    let nextStart = start;
+    let nextEnd = dayjs(event.end);
+
+    if (type === 'move') {
+      if (target.type === 'slot') {
+        nextStart = dayjs(target.start).subtract(offsetMinutes, 'minute');
+      } else {
+        const day = dayjs(target.date).subtract(offsetDays, 'day');
+        nextStart = day.hour(start.hour()).minute(start.minute()).second(start.second());
+      }
+      nextEnd = nextStart.add(duration, 'millisecond');
+    } else {
+      nextEnd =
+        target.type === 'slot'
+          ? dayjs(target.start).add(slotDuration!, 'minute')
+          : dayjs(target.date).add(1, 'day');
+
+      if (!nextEnd.isAfter(start)) {
+        nextEnd = start.add(event.allDay ? 1440 : slotDuration!, 'minute');
+      }
+    }
+
+    if (nextStart.isSame(event.start) && nextEnd.isSame(event.end)) {
+      return;
+    }
+
+    onEventChange?.({
+      event: event.event,
+      type,
+      start: event.allDay ? nextStart.format('YYYY-MM-DD') : nextStart.format(FORMAT),
+      end: event.allDay ? nextEnd.subtract(1, 'day').format('YYYY-MM-DD') : nextEnd.format(FORMAT),
+    });
+  };
+
+  const endDrag = () => {
+    setDragState(null);
+    setDropTarget(null);
+  };
+
+  const getDropTargetProps = (
+    target: SchedulerDropTarget
+  ): React.HTMLAttributes<HTMLElement> & { 'data-drop-target'?: boolean } => {
+    if (!withDragAndDrop) {
+      return {};
+    }
+
+    const key = getDropTargetKey(target);
+
+    return {
+      'data-drop-target': (dragState && dropTarget === key) || undefined,
+      onDragOver: (e) => {
+        if (canDrop(target)) {
+          e.preventDefault();
+          setDropTarget(key);
+        }
+      },
+      onDrop: (e) => {
+        e.preventDefault();
+        handleDrop(target);
+        endDrag();
+      },
+    };
+  };
+
+  const weekStart = getStartOfWeek(currentDate, _firstDayOfWeek);
+  const days =
+    _view === 'day'
+      ? [currentDate]
+      : Array(7)
+          .fill(0)
+          .map((_, index) => dayjs(weekStart).add(index, 'day').format('YYYY-MM-DD'));
+
+  const getHeaderLabel = () => {
+    const current = dayjs(currentDate).locale(_locale);
+
+    if (_view === 'month') {
+      return current.format('MMMM YYYY');
+    }
+
+    if (_view === 'day') {
+      return current.format('dddd, D MMMM YYYY');
+    }
+
+    const start = _view === 'week' ? dayjs(weekStart).locale(_locale) : current;
+    const end = start.add(_view === 'week' ? 6 : agendaDays! - 1, 'day');
+    return `${start.format('D MMM')} ${ctx.getLabelSeparator()} ${end.format('D MMM YYYY')}`;
+  };
+
+  return (
+    <SchedulerProvider
+      value={{
+        getStyles,
+        view: _view,
+        locale: _locale,
+        today,
+        labels: _labels,
+        renderEvent,
+        timeLabelFormat: timeLabelFormat!,
+        withDragAndDrop,
+        dragState,
+        onEventClick,
+        startDrag: (state, e) => {
+          e.dataTransfer?.setData('text/plain', String(state.event.event.id));
+          if (e.dataTransfer) {
+            e.dataTransfer.effectAllowed = 'move';
+          }
+          setDragState(state);
+        },
+        endDrag,
+        getDropTargetProps,
+        onSlotClick: (payload) => onSlotClick?.(payload),
+        openDay,
+      }}
+    >
+      <Box ref={ref} {...getStyles('root')} data-view={_view} {...others}>
+        {withHeader && (
+          <div {...getStyles('header')}>
+            <div {...getStyles('headerControls')}>
+              <Button variant="default" size="xs" onClick={() => setDate(today)}>
+                {_labels.today}
+              </Button>
+              <ActionIcon
+                variant="default"
+                aria-label={_labels.previous}
+                data-direction="previous"
+                onClick={() => navigate(-1)}
+              >
+                <AccordionChevron data-chevron />
+              </ActionIcon>
+              <ActionIcon
+                variant="default"
+                aria-label={_labels.next}
+                data-direction="next"
+                onClick={() => navigate(1)}
+              >
+                <AccordionChevron data-chevron />
+              </ActionIcon>
+            </div>
+
+            <div {...getStyles('headerLabel')}>{getHeaderLabel()}</div>
+
+            {views!.length > 1 && (
+              <Button.Group {...getStyles('viewSwitch')}>
+                {views!.map((item) => (
+                  <Button
+                    key={item}
+                    size="xs"
+                    variant={item === _view ? 'filled' : 'default'}
+                    aria-pressed={item === _view}
+                    onClick={() => setView(item)}
+                  >
+                    {_labels[item]}
+                  </Button>
+                ))}
+              </Button.Group>
+            )}
+          </div>
+        )}
+
+        {_view === 'month' && (
+          <SchedulerMonthView
+            date={currentDate}
+            events={normalizedEvents}
+            firstDayOfWeek={_firstDayOfWeek}
+            weekendDays={ctx.getWeekendDays(weekendDays)}
+            consistentWeeks={ctx.consistentWeeks}
+            maxEventsPerDay={maxEventsPerDay!}
+            classNames={resolvedClassNames}
+            styles={resolvedStyles}
+            unstyled={unstyled}
+          />
+        )}
+
+        {(_view === 'week' || _view === 'day') && (
+          <SchedulerTimeView
+            days={days}
+            events={normalizedEvents}
+            weekendDays={ctx.getWeekendDays(weekendDays)}
+            startHour={startHour!}
+            endHour={endHour!}
+            slotDuration={slotDuration!}
+            now={getTimezoneNow(_timezone)}
+          />
+        )}
+
+        {_view === 'agenda' && (
+          <SchedulerAgendaView
+            date={currentDate}
+            events={normalizedEvents}
+            agendaDays={agendaDays!}
+          />
+        )}
+      </Box>
+    </SchedulerProvider>
+  );
+});
+
+Scheduler.displayName = '@mantine/dates/Scheduler';
+Scheduler.classes = classes;
@@ -0,0 +1,118 @@
+import type { MantineColor } from '@mantine/core';
+import type { DateStringValue, DateTimeStringValue } from '../../types';
+
+export type SchedulerView = 'month' | 'week' | 'day' | 'agenda';
+
+export interface SchedulerEventData {
+  /** Unique event id */
+  id: string | number;
+
+  /** Event title */
+  title: string;
+
+  /** Event start, date-time string in `YYYY-MM-DD HH:mm:ss` format or Date object */
+  start: DateTimeStringValue | DateStringValue | Date;
+
+  /** Event end, exclusive for timed events. For all-day events – last day of the event. */
+  end: DateTimeStringValue | DateStringValue | Date;
+
+  /** Determines whether the event lasts the whole day(s) @default `false` */
+  allDay?: boolean;
+
+  /** Key of `theme.colors` or any valid CSS color, primary color by default */
+  color?: MantineColor;
+}
+
+export interface SchedulerNormalizedEvent {
+  event: SchedulerEventData;
+
+  /** Event start in `YYYY-MM-DD HH:mm:ss` format */
+  start: DateTimeStringValue;
+
+  /** Event end in `YYYY-MM-DD HH:mm:ss` format, exclusive, all-day events end at the start of the next day */
+  end: DateTimeStringValue;
+
+  allDay: boolean;
+}
+
+export interface SchedulerEventSegment {
+  event: SchedulerNormalizedEvent;
+
+  /** Index of the first day of the segment in the row */
+  startIndex: number;
+
+  /** Index of the last day of the segment in the row, inclusive */
+  endIndex: number;
+
+  /** Index of the row lane in which the segment is displayed */
+  lane: number;
+
+  /** Determines whether the event starts before the first day of the segment */
+  continuesBefore: boolean;
+
+  /** Determines whether the event ends after the last day of the segment */
+  continuesAfter: boolean;
+}
+
+export interface SchedulerRenderEventInfo {
+  /** Current view */
+  view: SchedulerView;
+
+  /** Event start in `YYYY-MM-DD HH:mm:ss` format */
+  start: DateTimeStringValue;
+
+  /** Event end in `YYYY-MM-DD HH:mm:ss` format, exclusive */
+  end: DateTimeStringValue;
+
+  /** Determines whether the event lasts the whole day(s) */
+  allDay: boolean;
+
+  /** Determines whether the event starts before the displayed segment */
+  continuesBefore: boolean;
+
+  /** Determines whether the event ends after the displayed segment */
+  continuesAfter: boolean;
+}
+
+export type SchedulerRenderEvent = (
+  event: SchedulerEventData,
+  info: SchedulerRenderEventInfo
+) => React.ReactNode;
+
+export interface SchedulerEventChangePayload {
+  /** Event that was changed */
+  event: SchedulerEventData;
+
+  /** New start, `YYYY-MM-DD` for all-day events, `YYYY-MM-DD HH:mm:ss` for timed events */
+  start: DateStringValue | DateTimeStringValue;
+
+  /** New end, `YYYY-MM-DD` (last day) for all-day events, `YYYY-MM-DD HH:mm:ss` for timed events */
+  end: DateStringValue | DateTimeStringValue;
+
+  /** `'move'` if the event was dragged, `'resize'` if the event end was changed */
+  type: 'move' | 'resize';
+}
+
+export interface SchedulerSlotClickPayload {
+  /** Slot start, `YYYY-MM-DD` for all-day slots, `YYYY-MM-DD HH:mm:ss` for time slots */
+  start: DateStringValue | DateTimeStringValue;
+
+  /** Slot end, `YYYY-MM-DD` (same day) for all-day slots, `YYYY-MM-DD HH:mm:ss` (exclusive) for time slots */
+  end: DateStringValue | DateTimeStringValue;
+
+  /** `true` if the slot is a day in month view or all-day row */
+  allDay: boolean;
+}
+
+export interface SchedulerLabels {
+  today: string;
+  previous: string;
+  next: string;
+  month: string;
+  week: string;
+  day: string;
+  agenda: string;
+  allDay: string;
+  noEvents: string;
+  more: (count: number) => string;
+}
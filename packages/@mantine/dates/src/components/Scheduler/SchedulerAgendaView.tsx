@@ -0,0 +1,75 @@
+import dayjs from 'dayjs';
+import type { DateStringValue } from '../../types';
+import { useSchedulerContext } from './Scheduler.context';
+import type { SchedulerNormalizedEvent } from './Scheduler.types';
+import { SchedulerEvent } from './SchedulerEvent';
+
+const FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+interface SchedulerAgendaViewProps {
+  date: DateStringValue;
+  events: SchedulerNormalizedEvent[];
+  agendaDays: number;
+}
+
+export function SchedulerAgendaView({ date, events, agendaDays }: SchedulerAgendaViewProps) {
+  const ctx = useSchedulerContext();
+  const formatTime = (value: dayjs.Dayjs) => value.locale(ctx.locale).format(ctx.timeLabelFormat);
+
+  const days = Array(agendaDays)
+    .fill(0)
+    .map((_, index) => {
+      const dayStart = dayjs(date).add(index, 'day');
+      const dayEnd = dayStart.add(1, 'day');
+      const dayEvents = events.filter((event) =>
+        dayjs(event.end).isAfter(event.start)
+          ? dayjs(event.start).isBefore(dayEnd) && dayjs(event.end).isAfter(dayStart)
+          : !dayjs(event.start).isBefore(dayStart) && dayjs(event.start).isBefore(dayEnd)
+      );
+
+      return { day: dayStart.format('YYYY-MM-DD'), dayStart, dayEnd, events: dayEvents };
+    })
+    .filter((item) => item.events.length > 0);
+
+  if (days.length === 0) {
+    return (
+      <div {...ctx.getStyles('agenda')}>
+        <div {...ctx.getStyles('agendaEmpty')}>{ctx.labels.noEvents}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div {...ctx.getStyles('agenda')}>
+      {days.map(({ day, dayStart, dayEnd, events: dayEvents }) => (
+        <div key={day} {...ctx.getStyles('agendaDay')} data-today={day === ctx.today || undefined}>
+          <div {...ctx.getStyles('agendaDayLabel')}>
+            {dayStart.locale(ctx.locale).format('ddd, D MMMM')}
+          </div>
+
+          {dayEvents.map((event) => {
+            const start = dayjs(event.start).isBefore(dayStart) ? dayStart : dayjs(event.start);
+            const end = dayjs(event.end).isAfter(dayEnd) ? dayEnd : dayjs(event.end);
+            const wholeDay = event.allDay || (start.isSame(dayStart) && end.isSame(dayEnd));
+
+            return (
+              <div key={event.event.id} {...ctx.getStyles('agendaEvent')}>
+                <div {...ctx.getStyles('agendaEventTime')}>
+                  {wholeDay ? ctx.labels.allDay : `${formatTime(start)} – ${formatTime(end)}`}
+                </div>
+                <SchedulerEvent
+                  event={event}
+                  start={start.format(FORMAT)}
+                  end={end.format(FORMAT)}
+                  continuesBefore={dayjs(event.start).isBefore(dayStart)}
+                  continuesAfter={dayjs(event.end).isAfter(dayEnd)}
+                  variant="agenda"
+                />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
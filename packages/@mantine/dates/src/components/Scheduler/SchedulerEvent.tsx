@@ -0,0 +1,124 @@
+import dayjs from 'dayjs';
+import { getThemeColor, useMantineTheme } from '@mantine/core';
+import type { DateTimeStringValue } from '../../types';
+import { SchedulerDragState, useSchedulerContext } from './Scheduler.context';
+import type { SchedulerNormalizedEvent } from './Scheduler.types';
+
+export interface SchedulerEventProps extends React.ComponentPropsWithoutRef<'div'> {
+  event: SchedulerNormalizedEvent;
+
+  /** Start of the displayed segment of the event */
+  start: DateTimeStringValue;
+
+  /** End of the displayed segment of the event, exclusive */
+  end: DateTimeStringValue;
+
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+
+  /** Determines where the event is displayed */
+  variant: 'month' | 'all-day' | 'time' | 'agenda';
+
+  /** Returns offsets of the point at which the event was grabbed from the event start */
+  getDragOffset?: (
+    e: React.DragEvent<HTMLDivElement>
+  ) => Pick<SchedulerDragState, 'offsetDays' | 'offsetMinutes'>;
+
+  /** Determines whether the event end can be changed by dragging resize handle */
+  resizable?: boolean;
+}
+
+export function SchedulerEvent({
+  event,
+  start,
+  end,
+  continuesBefore,
+  continuesAfter,
+  variant,
+  getDragOffset,
+  resizable,
+  style,
+  ...others
+}: SchedulerEventProps) {
+  const ctx = useSchedulerContext();
+  const theme = useMantineTheme();
+  const draggable = ctx.withDragAndDrop && variant !== 'agenda';
+  const formatTime = (value: string) => dayjs(value).locale(ctx.locale).format(ctx.timeLabelFormat);
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, type: 'move' | 'resize') => {
+    e.stopPropagation();
+    ctx.startDrag(
+      { event, type, ...(getDragOffset?.(e) || { offsetDays: 0, offsetMinutes: 0 }) },
+      e
+    );
+  };
+
+  const time =
+    variant === 'time'
+      ? `${formatTime(start)} – ${formatTime(end)}`
+      : variant === 'month' && !event.allDay && !continuesBefore
+        ? formatTime(event.start)
+        : null;
+
+  return (
+    <div
+      {...ctx.getStyles('event', {
+        style: [
+          style,
+          event.event.color
+            ? { '--event-color': getThemeColor(event.event.color, theme) }
+            : undefined,
+        ],
+      })}
+      role="button"
+      tabIndex={0}
+      draggable={draggable}
+      data-variant={variant}
+      data-all-day={event.allDay || undefined}
+      data-continues-before={continuesBefore || undefined}
+      data-continues-after={continuesAfter || undefined}
+      data-dragging={ctx.dragState?.event.event.id === event.event.id || undefined}
+      onDragStart={draggable ? (e) => handleDragStart(e, 'move') : undefined}
+      onDragEnd={draggable ? ctx.endDrag : undefined}
+      onClick={(e) => {
+        e.stopPropagation();
+        ctx.onEventClick?.(event.event, e);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          e.currentTarget.click();
+        }
+      }}
+      {...others}
+    >
+      {ctx.renderEvent ? (
+        ctx.renderEvent(event.event, {
+          view: ctx.view,
+          start: event.start,
+          end: event.end,
+          allDay: event.allDay,
+          continuesBefore,
+          continuesAfter,
+        })
+      ) : (
+        <>
+          {time && <span {...ctx.getStyles('eventTime')}>{time}</span>}
+          <span {...ctx.getStyles('eventTitle')}>{event.event.title}</span>
+        </>
+      )}
+
+      {draggable && resizable && !continuesAfter && (
+        <div
+          {...ctx.getStyles('eventResizeHandle')}
+          draggable
+          aria-hidden
+          data-direction={variant === 'time' ? 'vertical' : 'horizontal'}
+          onDragStart={(e) => handleDragStart(e, 'resize')}
+          onDragEnd={ctx.endDrag}
+          onClick={(e) => e.stopPropagation()}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import dayjs from 'dayjs';
+import { UnstyledButton } from '@mantine/core';
+import type { DateStringValue, DayOfWeek } from '../../types';
+import { getMonthDays } from '../Month/get-month-days/get-month-days';
+import { isSameMonth } from '../Month/is-same-month/is-same-month';
+import { WeekdaysRow, WeekdaysRowProps } from '../WeekdaysRow';
+import { getEventSegments } from './get-event-segments/get-event-segments';
+import { useSchedulerContext } from './Scheduler.context';
+import type { SchedulerEventSegment, SchedulerNormalizedEvent } from './Scheduler.types';
+import { SchedulerEvent } from './SchedulerEvent';
+
+interface SchedulerMonthViewProps
+  extends Pick<WeekdaysRowProps, 'classNames' | 'styles' | 'unstyled'> {
+  date: DateStringValue;
+  events: SchedulerNormalizedEvent[];
+  firstDayOfWeek: DayOfWeek;
+  weekendDays: DayOfWeek[];
+  consistentWeeks: boolean;
+  maxEventsPerDay: number;
+}
+
+function getHiddenEventsCount(segments: SchedulerEventSegment[], maxEventsPerDay: number) {
+  const counts = Array(7).fill(0);
+  segments
+    .filter((segment) => segment.lane >= maxEventsPerDay)
+    .forEach((segment) => {
+      for (let index = segment.startIndex; index <= segment.endIndex; index += 1) {
+        counts[index] += 1;
+      }
+    });
+
+  return counts;
+}
+
+export function SchedulerMonthView({
+  date,
+  events,
+  firstDayOfWeek,
+  weekendDays,
+  consistentWeeks,
+  maxEventsPerDay,
+  classNames,
+  styles,
+  unstyled,
+}: SchedulerMonthViewProps) {
+  const ctx = useSchedulerContext();
+  const weeks = getMonthDays({ month: date, firstDayOfWeek, consistentWeeks });
+
+  const rows = weeks.map((week) => {
+    const segments = getEventSegments({ events, days: week });
+    const hiddenCounts = getHiddenEventsCount(segments, maxEventsPerDay);
+    const lanes = Math.min(
+      maxEventsPerDay,
+      segments.reduce((acc, segment) => Math.max(acc, segment.lane + 1), 0)
+    );
+
+    const days = week.map((day, index) => (
+      <div
+        key={day}
+        {...ctx.getStyles('monthDay', { style: { gridColumn: index + 1, gridRow: '1 / -1' } })}
+        data-today={day === ctx.today || undefined}
+        data-outside={!isSameMonth(day, date) || undefined}
+        data-weekend={weekendDays.includes(dayjs(day).day() as DayOfWeek) || undefined}
+        role="presentation"
+        onClick={() => ctx.onSlotClick({ start: day, end: day, allDay: true })}
+        {...ctx.getDropTargetProps({ type: 'day', date: day })}
+      >
+        <UnstyledButton
+          {...ctx.getStyles('monthDayNumber')}
+          aria-label={dayjs(day).locale(ctx.locale).format('D MMMM YYYY')}
+          onClick={(event) => {
+            event.stopPropagation();
+            ctx.openDay(day);
+          }}
+        >
+          {dayjs(day).date()}
+        </UnstyledButton>
+      </div>
+    ));
+
+    const items = segments
+      .filter((segment) => segment.lane < maxEventsPerDay)
+      .map((segment) => (
+        <SchedulerEvent
+          key={segment.event.event.id}
+          event={segment.event}
+          start={segment.event.start}
+          end={segment.event.end}
+          continuesBefore={segment.continuesBefore}
+          continuesAfter={segment.continuesAfter}
+          variant="month"
+          resizable={segment.event.allDay}
+          style={{
+            gridColumn: `${segment.startIndex + 1} / ${segment.endIndex + 2}`,
+            gridRow: segment.lane + 2,
+          }}
+          getDragOffset={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            const span = segment.endIndex - segment.startIndex + 1;
+            const grabbedDay = rect.width
+              ? Math.min(
+                  span - 1,
+                  Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * span))
+                )
+              : 0;
+
+            return {
+              offsetDays:
+                dayjs(week[segment.startIndex]).diff(
+                  dayjs(segment.event.start).startOf('day'),
+                  'day'
+                ) + grabbedDay,
+              offsetMinutes: 0,
+            };
+          }}
+        />
+      ));
+
+    const more = hiddenCounts.map(
+      (count, index) =>
+        count > 0 && (
+          <UnstyledButton
+            key={week[index]}
+            {...ctx.getStyles('more', { style: { gridColumn: index + 1, gridRow: lanes + 2 } })}
+            onClick={() => ctx.openDay(week[index])}
+          >
+            {ctx.labels.more(count)}
+          </UnstyledButton>
+        )
+    );
+
+    return (
+      <tr key={week[0]}>
+        <td colSpan={7} {...ctx.getStyles('monthWeek')}>
+          <div
+            {...ctx.getStyles('monthWeekDays', {
+              style: { gridTemplateRows: `auto repeat(${lanes}, auto) auto 1fr` },
+            })}
+          >
+            {days}
+            {items}
+            {more}
+          </div>
+        </td>
+      </tr>
+    );
+  });
+
+  return (
+    <table {...ctx.getStyles('monthView')}>
+      <thead>
+        <WeekdaysRow
+          __staticSelector="Scheduler"
+          locale={ctx.locale}
+          firstDayOfWeek={firstDayOfWeek}
+          weekdayFormat="ddd"
+          classNames={classNames}
+          styles={styles}
+          unstyled={unstyled}
+        />
+      </thead>
+      <tbody>{rows}</tbody>
+    </table>
+  );
+}
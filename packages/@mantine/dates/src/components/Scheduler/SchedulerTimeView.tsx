@@ -0,0 +1,255 @@
+import dayjs from 'dayjs';
+import { UnstyledButton } from '@mantine/core';
+import type { DateStringValue, DayOfWeek } from '../../types';
+import { getEventSegments } from './get-event-segments/get-event-segments';
+import { getOverlapLayout } from './get-overlap-layout/get-overlap-layout';
+import { useSchedulerContext } from './Scheduler.context';
+import type { SchedulerNormalizedEvent } from './Scheduler.types';
+import { SchedulerEvent } from './SchedulerEvent';
+
+const FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+interface SchedulerTimeViewProps {
+  days: DateStringValue[];
+  events: SchedulerNormalizedEvent[];
+  weekendDays: DayOfWeek[];
+  startHour: number;
+  endHour: number;
+  slotDuration: number;
+  now: string;
+}
+
+// Events that last the whole day or longer are displayed in all-day row
+const isAllDayRowEvent = (event: SchedulerNormalizedEvent) =>
+  event.allDay || dayjs(event.end).diff(event.start, 'hour', true) >= 24;
+
+export function SchedulerTimeView({
+  days,
+  events,
+  weekendDays,
+  startHour,
+  endHour,
+  slotDuration,
+  now,
+}: SchedulerTimeViewProps) {
+  const ctx = useSchedulerContext();
+  const rangeStart = startHour * 60;
+  const rangeEnd = endHour * 60;
+  const rangeDuration = rangeEnd - rangeStart;
+  const slotsCount = Math.ceil(rangeDuration / slotDuration);
+
+  const allDayEvents = events.filter(isAllDayRowEvent);
+  const timedEvents = events.filter((event) => !isAllDayRowEvent(event));
+  const segments = getEventSegments({ events: allDayEvents, days });
+  const lanes = segments.reduce((acc, segment) => Math.max(acc, segment.lane + 1), 0);
+
+  const header = days.map((day) => (
+    <UnstyledButton
+      key={day}
+      {...ctx.getStyles('timeViewDay')}
+      data-today={day === ctx.today || undefined}
+      data-weekend={weekendDays.includes(dayjs(day).day() as DayOfWeek) || undefined}
+      aria-label={dayjs(day).locale(ctx.locale).format('D MMMM YYYY')}
+      onClick={() => ctx.openDay(day)}
+    >
+      {dayjs(day).locale(ctx.locale).format('ddd D')}
+    </UnstyledButton>
+  ));
+
+  const allDayCells = days.map((day, index) => (
+    <div
+      key={day}
+      {...ctx.getStyles('allDayCell', { style: { gridColumn: index + 2, gridRow: '1 / -1' } })}
+      data-today={day === ctx.today || undefined}
+      role="presentation"
+      onClick={() => ctx.onSlotClick({ start: day, end: day, allDay: true })}
+      {...ctx.getDropTargetProps({ type: 'day', date: day })}
+    />
+  ));
+
+  const allDayItems = segments.map((segment) => (
+    <SchedulerEvent
+      key={segment.event.event.id}
+      event={segment.event}
+      start={segment.event.start}
+      end={segment.event.end}
+      continuesBefore={segment.continuesBefore}
+      continuesAfter={segment.continuesAfter}
+      variant="all-day"
+      resizable={segment.event.allDay}
+      style={{
+        gridColumn: `${segment.startIndex + 2} / ${segment.endIndex + 3}`,
+        gridRow: segment.lane + 1,
+      }}
+      getDragOffset={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const span = segment.endIndex - segment.startIndex + 1;
+        const grabbedDay = rect.width
+          ? Math.min(
+              span - 1,
+              Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * span))
+            )
+          : 0;
+
+        return {
+          offsetDays:
+            dayjs(days[segment.startIndex]).diff(dayjs(segment.event.start).startOf('day'), 'day') +
+            grabbedDay,
+          offsetMinutes: 0,
+        };
+      }}
+    />
+  ));
+
+  const timeLabels = Array(Math.ceil(rangeDuration / 60))
+    .fill(0)
+    .map((_, index) => {
+      const minutes = rangeStart + index * 60;
+      return (
+        <div
+          key={minutes}
+          {...ctx.getStyles('timeLabel', {
+            style: { top: `${((minutes - rangeStart) / rangeDuration) * 100}%` },
+          })}
+        >
+          {dayjs(days[0]).add(minutes, 'minute').locale(ctx.locale).format(ctx.timeLabelFormat)}
+        </div>
+      );
+    });
+
+  const columns = days.map((day) => {
+    const dayStart = dayjs(day);
+
+    const slots = Array(slotsCount)
+      .fill(0)
+      .map((_, index) => {
+        const start = dayStart.add(rangeStart + index * slotDuration, 'minute');
+        const end = dayStart.add(
+          Math.min(rangeEnd, rangeStart + (index + 1) * slotDuration),
+          'minute'
+        );
+
+        return (
+          <UnstyledButton
+            key={index}
+            {...ctx.getStyles('slot')}
+            tabIndex={-1}
+            aria-label={start.locale(ctx.locale).format('D MMMM YYYY HH:mm')}
+            data-hour-start={start.minute() === 0 || undefined}
+            onClick={() =>
+              ctx.onSlotClick({
+                start: start.format(FORMAT),
+                end: end.format(FORMAT),
+                allDay: false,
+              })
+            }
+            {...ctx.getDropTargetProps({ type: 'slot', start: start.format(FORMAT) })}
+          />
+        );
+      });
+
+    const items = timedEvents
+      .map((event) => ({
+        event,
+        start: dayjs(event.start).diff(dayStart, 'minute'),
+        end: dayjs(event.end).diff(dayStart, 'minute'),
+      }))
+      .filter((item) =>
+        item.end > item.start
+          ? item.start < rangeEnd && item.end > rangeStart
+          : item.start >= rangeStart && item.start < rangeEnd
+      )
+      .map((item) => ({
+        ...item,
+        start: Math.max(rangeStart, item.start),
+        end: Math.min(rangeEnd, item.end),
+      }));
+
+    const layout = getOverlapLayout(items, slotDuration).map(({ item, column, columns: count }) => {
+      const segmentStart = dayStart.add(item.start, 'minute');
+      const segmentEnd = dayStart.add(item.end, 'minute');
+
+      return (
+        <SchedulerEvent
+          key={item.event.event.id}
+          event={item.event}
+          start={segmentStart.format(FORMAT)}
+          end={segmentEnd.format(FORMAT)}
+          continuesBefore={segmentStart.isAfter(item.event.start)}
+          continuesAfter={segmentEnd.isBefore(item.event.end)}
+          variant="time"
+          resizable
+          style={{
+            top: `${((item.start - rangeStart) / rangeDuration) * 100}%`,
+            height: `${(Math.max(item.end - item.start, slotDuration / 2) / rangeDuration) * 100}%`,
+            left: `${(column / count) * 100}%`,
+            width: `${(1 / count) * 100}%`,
+          }}
+          getDragOffset={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            const ratio = rect.height ? Math.max(0, (e.clientY - rect.top) / rect.height) : 0;
+            const minutes =
+              segmentStart.diff(item.event.start, 'minute') + ratio * (item.end - item.start);
+
+            return {
+              offsetDays: dayStart.diff(dayjs(item.event.start).startOf('day'), 'day'),
+              offsetMinutes: Math.floor(minutes / slotDuration) * slotDuration,
+            };
+          }}
+        />
+      );
+    });
+
+    const nowMinutes = dayjs(now).diff(dayStart, 'minute');
+    const withNowIndicator =
+      day === ctx.today && nowMinutes >= rangeStart && nowMinutes <= rangeEnd;
+
+    return (
+      <div key={day} {...ctx.getStyles('dayColumn')} data-today={day === ctx.today || undefined}>
+        {slots}
+        {layout}
+        {withNowIndicator && (
+          <div
+            {...ctx.getStyles('nowIndicator', {
+              style: { top: `${((nowMinutes - rangeStart) / rangeDuration) * 100}%` },
+            })}
+          />
+        )}
+      </div>
+    );
+  });
+
+  return (
+    <div {...ctx.getStyles('timeView', { style: { '--scheduler-days': days.length } })}>
+      <div {...ctx.getStyles('timeViewHeader')}>
+        <div />
+        {header}
+      </div>
+
+      <div
+        {...ctx.getStyles('allDayRow', {
+          style: {
+            gridTemplateRows: `repeat(${lanes}, auto) minmax(var(--scheduler-slot-height), 1fr)`,
+          },
+        })}
+      >
+        <div {...ctx.getStyles('allDayLabel', { style: { gridColumn: 1, gridRow: '1 / -1' } })}>
+          {ctx.labels.allDay}
+        </div>
+        {allDayCells}
+        {allDayItems}
+      </div>
+
+      <div {...ctx.getStyles('timeGrid')}>
+        <div
+          {...ctx.getStyles('timeLabels', {
+            style: { height: `calc(var(--scheduler-slot-height) * ${slotsCount})` },
+          })}
+        >
+          {timeLabels}
+        </div>
+        {columns}
+      </div>
+    </div>
+  );
+}
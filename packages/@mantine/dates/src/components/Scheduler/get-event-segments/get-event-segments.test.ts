@@ -0,0 +1,88 @@
+import type { SchedulerNormalizedEvent } from '../Scheduler.types';
+import { getEventSegments } from './get-event-segments';
+
+const days = [
+  '2025-01-06',
+  '2025-01-07',
+  '2025-01-08',
+  '2025-01-09',
+  '2025-01-10',
+  '2025-01-11',
+  '2025-01-12',
+];
+
+const createEvent = (id: number, start: string, end: string): SchedulerNormalizedEvent => ({
+  event: { id, title: `Event ${id}`, start, end },
+  start,
+  end,
+  allDay: false,
+});
+
+describe('@mantine/dates/Scheduler/get-event-segments', () => {
+  it('returns segments of events that overlap with the row', () => {
+    const segments = getEventSegments({
+      days,
+      events: [
+        createEvent(1, '2025-01-01 00:00:00', '2025-01-02 00:00:00'),
+        createEvent(2, '2025-01-07 10:00:00', '2025-01-07 11:00:00'),
+        createEvent(3, '2025-01-13 00:00:00', '2025-01-14 00:00:00'),
+      ],
+    });
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      startIndex: 1,
+      endIndex: 1,
+      lane: 0,
+      continuesBefore: false,
+      continuesAfter: false,
+    });
+  });
+
+  it('clips multi-day events to the row', () => {
+    const segments = getEventSegments({
+      days,
+      events: [
+        createEvent(1, '2025-01-04 00:00:00', '2025-01-08 00:00:00'),
+        createEvent(2, '2025-01-11 10:00:00', '2025-01-15 11:00:00'),
+      ],
+    });
+
+    expect(segments[0]).toMatchObject({
+      startIndex: 0,
+      endIndex: 1,
+      continuesBefore: true,
+      continuesAfter: false,
+    });
+
+    expect(segments[1]).toMatchObject({
+      startIndex: 5,
+      endIndex: 6,
+      continuesBefore: false,
+      continuesAfter: true,
+    });
+  });
+
+  it('assigns lanes to overlapping segments', () => {
+    const segments = getEventSegments({
+      days,
+      events: [
+        createEvent(1, '2025-01-06 00:00:00', '2025-01-09 00:00:00'),
+        createEvent(2, '2025-01-07 10:00:00', '2025-01-07 11:00:00'),
+        createEvent(3, '2025-01-08 10:00:00', '2025-01-08 11:00:00'),
+        createEvent(4, '2025-01-09 10:00:00', '2025-01-09 11:00:00'),
+      ],
+    });
+
+    expect(segments.map((segment) => segment.lane)).toStrictEqual([0, 1, 1, 0]);
+  });
+
+  it('includes events without duration', () => {
+    const segments = getEventSegments({
+      days,
+      events: [createEvent(1, '2025-01-08 10:00:00', '2025-01-08 10:00:00')],
+    });
+
+    expect(segments[0]).toMatchObject({ startIndex: 2, endIndex: 2 });
+  });
+});
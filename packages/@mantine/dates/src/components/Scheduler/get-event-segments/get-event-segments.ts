@@ -0,0 +1,55 @@
+import dayjs from 'dayjs';
+import type { DateStringValue } from '../../../types';
+import type { SchedulerEventSegment, SchedulerNormalizedEvent } from '../Scheduler.types';
+
+interface GetEventSegmentsInput {
+  /** Normalized events sorted by start */
+  events: SchedulerNormalizedEvent[];
+
+  /** Consecutive days of the row in `YYYY-MM-DD` format */
+  days: DateStringValue[];
+}
+
+/** Splits events into segments displayed in a row of days and assigns a lane to each segment */
+export function getEventSegments({ events, days }: GetEventSegmentsInput): SchedulerEventSegment[] {
+  if (days.length === 0) {
+    return [];
+  }
+
+  const rowStart = dayjs(days[0]);
+  const rowEnd = dayjs(days[days.length - 1]).add(1, 'day');
+  const lanes: number[] = [];
+  const segments: SchedulerEventSegment[] = [];
+
+  events.forEach((event) => {
+    const start = dayjs(event.start);
+    const end = dayjs(event.end);
+    const isEmpty = !end.isAfter(start);
+
+    if (!start.isBefore(rowEnd) || (isEmpty ? start.isBefore(rowStart) : !end.isAfter(rowStart))) {
+      return;
+    }
+
+    // The last day of the event is the day of the last millisecond before exclusive end
+    const lastDay = isEmpty ? start : end.subtract(1, 'millisecond');
+    const startIndex = Math.max(0, start.startOf('day').diff(rowStart, 'day'));
+    const endIndex = Math.min(days.length - 1, lastDay.startOf('day').diff(rowStart, 'day'));
+
+    let lane = lanes.findIndex((laneEnd) => laneEnd < startIndex);
+    if (lane === -1) {
+      lane = lanes.length;
+    }
+    lanes[lane] = endIndex;
+
+    segments.push({
+      event,
+      startIndex,
+      endIndex,
+      lane,
+      continuesBefore: start.isBefore(rowStart),
+      continuesAfter: end.isAfter(rowEnd),
+    });
+  });
+
+  return segments;
+}
@@ -0,0 +1,70 @@
+import { getOverlapLayout } from './get-overlap-layout';
+
+const getLayout = (items: [number, number][], minDuration?: number) =>
+  getOverlapLayout(
+    items.map(([start, end]) => ({ start, end })),
+    minDuration
+  ).map(({ item, column, columns }) => [item.start, item.end, column, columns]);
+
+describe('@mantine/dates/Scheduler/get-overlap-layout', () => {
+  it('returns single column for items that do not overlap', () => {
+    expect(
+      getLayout([
+        [60, 120],
+        [120, 180],
+      ])
+    ).toStrictEqual([
+      [60, 120, 0, 1],
+      [120, 180, 0, 1],
+    ]);
+  });
+
+  it('splits overlapping items into columns', () => {
+    expect(
+      getLayout([
+        [60, 180],
+        [90, 120],
+        [120, 150],
+        [150, 240],
+        [300, 360],
+      ])
+    ).toStrictEqual([
+      [60, 180, 0, 2],
+      [90, 120, 1, 2],
+      [120, 150, 1, 2],
+      [150, 240, 1, 2],
+      [300, 360, 0, 1],
+    ]);
+  });
+
+  it('uses all columns of the group for items that overlap transitively', () => {
+    expect(
+      getLayout([
+        [0, 60],
+        [30, 90],
+        [30, 120],
+        [100, 150],
+      ])
+    ).toStrictEqual([
+      [0, 60, 0, 3],
+      [30, 120, 1, 3],
+      [30, 90, 2, 3],
+      [100, 150, 0, 3],
+    ]);
+  });
+
+  it('supports minimum duration', () => {
+    expect(
+      getLayout(
+        [
+          [60, 60],
+          [70, 90],
+        ],
+        30
+      )
+    ).toStrictEqual([
+      [60, 60, 0, 2],
+      [70, 90, 1, 2],
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+export interface OverlapLayoutItem {
+  /** Start of the item in minutes */
+  start: number;
+
+  /** End of the item in minutes, exclusive */
+  end: number;
+}
+
+export interface OverlapLayoutResult<T extends OverlapLayoutItem> {
+  item: T;
+
+  /** Index of the column in which the item is displayed */
+  column: number;
+
+  /** Number of columns in the group of overlapping items */
+  columns: number;
+}
+
+/**
+ * Splits items into groups of overlapping items and assigns a column to each item,
+ * items in the same group share the available width equally
+ */
+export function getOverlapLayout<T extends OverlapLayoutItem>(
+  items: T[],
+  minDuration = 0
+): OverlapLayoutResult<T>[] {
+  const sorted = [...items].sort((a, b) => a.start - b.start || b.end - a.end);
+  const results: OverlapLayoutResult<T>[] = [];
+
+  let group: OverlapLayoutResult<T>[] = [];
+  let columnsEnds: number[] = [];
+  let groupEnd = -Infinity;
+
+  const closeGroup = () => {
+    group.forEach((result) => {
+      result.columns = columnsEnds.length;
+    });
+    results.push(...group);
+    group = [];
+    columnsEnds = [];
+  };
+
+  sorted.forEach((item) => {
+    const end = Math.max(item.end, item.start + minDuration);
+
+    if (item.start >= groupEnd) {
+      closeGroup();
+    }
+
+    let column = columnsEnds.findIndex((columnEnd) => columnEnd <= item.start);
+    if (column === -1) {
+      column = columnsEnds.length;
+    }
+
+    columnsEnds[column] = end;
+    groupEnd = group.length === 0 ? end : Math.max(groupEnd, end);
+    group.push({ item, column, columns: 1 });
+  });
+
+  closeGroup();
+  return results;
+}
@@ -0,0 +1,16 @@
+export { Scheduler } from './Scheduler';
+export type {
+  SchedulerCssVariables,
+  SchedulerFactory,
+  SchedulerProps,
+  SchedulerStylesNames,
+} from './Scheduler';
+export type {
+  SchedulerEventChangePayload,
+  SchedulerEventData,
+  SchedulerLabels,
+  SchedulerRenderEvent,
+  SchedulerRenderEventInfo,
+  SchedulerSlotClickPayload,
+  SchedulerView,
+} from './Scheduler.types';
@@ -0,0 +1,38 @@
+import { normalizeEvents } from './normalize-events';
+
+describe('@mantine/dates/Scheduler/normalize-events', () => {
+  it('normalizes timed and all-day events', () => {
+    const timed = { id: 1, title: 'Timed', start: '2025-01-02 10:00', end: '2025-01-02 11:30' };
+    const allDay = {
+      id: 2,
+      title: 'All day',
+      start: '2025-01-01',
+      end: '2025-01-03',
+      allDay: true,
+    };
+
+    expect(normalizeEvents([timed, allDay])).toStrictEqual([
+      { event: allDay, allDay: true, start: '2025-01-01 00:00:00', end: '2025-01-04 00:00:00' },
+      { event: timed, allDay: false, start: '2025-01-02 10:00:00', end: '2025-01-02 11:30:00' },
+    ]);
+  });
+
+  it('sorts events with the same start by duration', () => {
+    const short = { id: 1, title: 'Short', start: '2025-01-02 10:00', end: '2025-01-02 10:30' };
+    const long = { id: 2, title: 'Long', start: '2025-01-02 10:00', end: '2025-01-02 12:00' };
+    expect(normalizeEvents([short, long]).map((item) => item.event.id)).toStrictEqual([2, 1]);
+  });
+
+  it('converts Date objects to the given time zone', () => {
+    const event = {
+      id: 1,
+      title: 'Event',
+      start: new Date('2025-01-02T10:00:00Z'),
+      end: new Date('2025-01-02T11:00:00Z'),
+    };
+
+    const [normalized] = normalizeEvents([event], 'Asia/Tokyo');
+    expect(normalized.start).toBe('2025-01-02 19:00:00');
+    expect(normalized.end).toBe('2025-01-02 20:00:00');
+  });
+});
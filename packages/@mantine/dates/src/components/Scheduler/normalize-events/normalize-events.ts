@@ -0,0 +1,36 @@
+import dayjs from 'dayjs';
+import { toDateString, toDateTimeString } from '../../../utils';
+import type { SchedulerEventData, SchedulerNormalizedEvent } from '../Scheduler.types';
+
+const FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+export function normalizeEvents(
+  events: SchedulerEventData[],
+  timezone?: string | null
+): SchedulerNormalizedEvent[] {
+  return events
+    .map((event) => {
+      const allDay = !!event.allDay;
+
+      if (allDay) {
+        const start = dayjs(toDateString(event.start, timezone));
+        const end = dayjs(toDateString(event.end, timezone)).add(1, 'day');
+        return {
+          event,
+          allDay,
+          start: start.format(FORMAT),
+          end: (end.isAfter(start) ? end : start.add(1, 'day')).format(FORMAT),
+        };
+      }
+
+      const start = toDateTimeString(event.start, timezone);
+      const end = toDateTimeString(event.end, timezone);
+      return { event, allDay, start, end: dayjs(end).isAfter(start) ? end : start };
+    })
+    .sort(
+      (a, b) =>
+        dayjs(a.start).diff(b.start) ||
+        dayjs(b.end).diff(b.start) - dayjs(a.end).diff(a.start) ||
+        String(a.event.title).localeCompare(String(b.event.title))
+    );
+}
@@ -58,6 +58,7 @@ export const YearLevel = factory<YearLevelFactory>((_props, ref) => {
     // MonthsList settings
     year,
     locale,
+    timezone,
     minDate,
     maxDate,
     monthsListFormat,
@@ -154,6 +155,7 @@ export const YearLevel = factory<YearLevelFactory>((_props, ref) => {
       <MonthsList
         year={year}
         locale={locale}
+        timezone={timezone}
         minDate={minDate}
         maxDate={maxDate}
         monthsListFormat={monthsListFormat}
@@ -43,6 +43,7 @@ export const YearLevelGroup = factory<YearLevelGroupFactory>((_props, ref) => {
     // YearLevel settings
     year,
     locale,
+    timezone,
     minDate,
     maxDate,
     monthsListFormat,
@@ -125,6 +126,7 @@ export const YearLevelGroup = factory<YearLevelGroupFactory>((_props, ref) => {
               : levelControlAriaLabel
           }
           locale={locale}
+          timezone={timezone}
           minDate={minDate}
           maxDate={maxDate}
           __preventFocus={__preventFocus}
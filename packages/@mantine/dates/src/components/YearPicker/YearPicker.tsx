@@ -78,6 +78,7 @@ export const YearPicker: YearPickerComponent = factory<YearPickerFactory>((_prop
     defaultValue,
     onChange: onChange as any,
     onMouseLeave,
+    timezone: props.timezone,
   });
 
   const { resolvedClassNames, resolvedStyles } = useResolvedStylesApi<YearPickerFactory>({
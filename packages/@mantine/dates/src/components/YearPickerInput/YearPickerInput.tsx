@@ -13,6 +13,7 @@ import { useDatesInput } from '../../hooks';
 import { DatePickerType } from '../../types';
 import { getDefaultClampedDate } from '../../utils';
 import { pickCalendarProps } from '../Calendar';
+import { useDatesContext } from '../DatesProvider';
 import { DateInputSharedProps, PickerInputBase } from '../PickerInputBase';
 import { YearPicker, YearPickerBaseProps, YearPickerStylesNames } from '../YearPicker';
 
@@ -82,6 +83,12 @@ export const YearPickerInput: YearPickerInputComponent = factory<YearPickerInput
     });
 
     const { calendarProps, others } = pickCalendarProps(rest);
+    const ctx = useDatesContext();
+    const defaultClampedDate = getDefaultClampedDate({
+      maxDate,
+      minDate,
+      timezone: ctx.getTimezone(calendarProps.timezone),
+    });
 
     const {
       _value,
@@ -102,6 +109,7 @@ export const YearPickerInput: YearPickerInputComponent = factory<YearPickerInput
       closeOnChange,
       sortDates,
       valueFormatter,
+      timezone: calendarProps.timezone,
     });
 
     return (
@@ -132,9 +140,7 @@ export const YearPickerInput: YearPickerInputComponent = factory<YearPickerInput
           value={_value}
           defaultDate={
             calendarProps.defaultDate ||
-            (Array.isArray(_value)
-              ? _value[0] || getDefaultClampedDate({ maxDate, minDate })
-              : _value || getDefaultClampedDate({ maxDate, minDate }))
+            (Array.isArray(_value) ? _value[0] || defaultClampedDate : _value || defaultClampedDate)
           }
           onChange={setValue}
           locale={locale}
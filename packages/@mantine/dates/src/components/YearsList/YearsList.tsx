@@ -79,6 +79,7 @@ export const YearsList = factory<YearsListFactory>((_props, ref) => {
     decade,
     yearsListFormat,
     locale,
+    timezone,
     minDate,
     maxDate,
     getYearControlProps,
@@ -118,6 +119,7 @@ export const YearsList = factory<YearsListFactory>((_props, ref) => {
     minDate,
     maxDate,
     getYearControlProps,
+    timezone: ctx.getTimezone(timezone),
   });
 
   const rows = years.map((yearsRow, rowIndex) => {
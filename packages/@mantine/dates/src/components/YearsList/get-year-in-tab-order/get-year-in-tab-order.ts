@@ -1,5 +1,6 @@
 import dayjs from 'dayjs';
 import { DateStringValue } from '../../../types';
+import { getTimezoneToday } from '../../../utils/timezone/timezone';
 import { PickerControlProps } from '../../PickerControl';
 import { isYearDisabled } from '../is-year-disabled/is-year-disabled';
 
@@ -8,6 +9,7 @@ interface GetYearInTabOrderInput {
   minDate: DateStringValue | Date | undefined;
   maxDate: DateStringValue | Date | undefined;
   getYearControlProps: ((year: DateStringValue) => Partial<PickerControlProps>) | undefined;
+  timezone?: string | null;
 }
 
 export function getYearInTabOrder({
@@ -15,6 +17,7 @@ export function getYearInTabOrder({
   minDate,
   maxDate,
   getYearControlProps,
+  timezone,
 }: GetYearInTabOrderInput) {
   const enabledYears = years
     .flat()
@@ -29,7 +32,8 @@ export function getYearInTabOrder({
     return selectedYear;
   }
 
-  const currentYear = enabledYears.find((year) => dayjs().isSame(year, 'year'));
+  const today = getTimezoneToday(timezone);
+  const currentYear = enabledYears.find((year) => dayjs(today).isSame(year, 'year'));
 
   if (currentYear) {
     return currentYear;
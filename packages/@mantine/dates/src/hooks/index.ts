@@ -1,3 +1,4 @@
 export { useDatesState } from './use-dates-state/use-dates-state';
 export { useDatesInput } from './use-dates-input/use-dates-input';
 export { useUncontrolledDates } from './use-uncontrolled-dates/use-uncontrolled-dates';
+export { useNaturalDateParser } from './use-natural-date-parser/use-natural-date-parser';
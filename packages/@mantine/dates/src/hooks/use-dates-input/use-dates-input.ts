@@ -16,6 +16,7 @@ interface UseDatesInput<Type extends DatePickerType = 'default'> {
   sortDates: boolean | undefined;
   labelSeparator: string | undefined;
   valueFormatter: DateFormatter | undefined;
+  timezone?: string | null;
 }
 
 export function useDatesInput<Type extends DatePickerType = 'default'>({
@@ -29,6 +30,7 @@ export function useDatesInput<Type extends DatePickerType = 'default'>({
   sortDates,
   labelSeparator,
   valueFormatter,
+  timezone,
 }: UseDatesInput<Type>) {
   const ctx = useDatesContext();
 
@@ -39,6 +41,7 @@ export function useDatesInput<Type extends DatePickerType = 'default'>({
     value,
     defaultValue,
     onChange,
+    timezone,
   });
 
   const formattedValue = getFormattedDate({
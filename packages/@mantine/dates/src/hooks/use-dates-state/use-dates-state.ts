@@ -9,6 +9,7 @@ interface UseDatesRangeInput<Type extends DatePickerType = 'default'>
   level: 'year' | 'month' | 'day';
   type: Type;
   onMouseLeave?: (event: React.MouseEvent<HTMLDivElement>) => void;
+  timezone?: string | null;
 }
 
 export function useDatesState<Type extends DatePickerType = 'default'>({
@@ -20,12 +21,14 @@ export function useDatesState<Type extends DatePickerType = 'default'>({
   allowSingleDateInRange,
   allowDeselect,
   onMouseLeave,
+  timezone,
 }: UseDatesRangeInput<Type>) {
   const [_value, setValue] = useUncontrolledDates({
     type,
     value,
     defaultValue,
     onChange,
+    timezone,
   });
 
   const [pickedDate, setPickedDate] = useState<DateStringValue | null>(
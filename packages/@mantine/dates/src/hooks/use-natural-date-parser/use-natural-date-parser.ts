@@ -0,0 +1,22 @@
+import { useDatesContext } from '../../components/DatesProvider';
+import { DayOfWeek } from '../../types';
+import { getNaturalDateParser, getTimezoneToday } from '../../utils';
+
+interface UseNaturalDateParser {
+  locale: string | undefined;
+  firstDayOfWeek: DayOfWeek | undefined;
+  timezone: string | null | undefined;
+}
+
+export function useNaturalDateParser({ locale, firstDayOfWeek, timezone }: UseNaturalDateParser) {
+  const ctx = useDatesContext();
+  const _locale = ctx.getLocale(locale);
+  const parser = getNaturalDateParser(_locale, ctx.naturalDateParsers);
+
+  return (input: string) =>
+    parser(input, {
+      referenceDate: getTimezoneToday(ctx.getTimezone(timezone)),
+      locale: _locale,
+      firstDayOfWeek: ctx.getFirstDayOfWeek(firstDayOfWeek),
+    });
+}
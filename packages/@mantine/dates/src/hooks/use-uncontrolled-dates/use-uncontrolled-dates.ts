@@ -1,5 +1,6 @@
 import { useRef } from 'react';
 import { useUncontrolled } from '@mantine/hooks';
+import { useDatesContext } from '../../components/DatesProvider';
 import { DatePickerType, DatePickerValue, DateStringValue } from '../../types';
 import { toDateString, toDateTimeString } from '../../utils';
 
@@ -9,14 +10,17 @@ interface UseUncontrolledDates<Type extends DatePickerType = 'default'> {
   defaultValue: DatePickerValue<Type> | undefined;
   onChange: ((value: DatePickerValue<Type, DateStringValue>) => void) | undefined;
   withTime?: boolean;
+  timezone?: string | null;
 }
 
 const getEmptyValue = <Type extends DatePickerType = 'default'>(type: Type) =>
   type === 'range' ? [null, null] : type === 'multiple' ? [] : null;
 
-export const convertDatesValue = (value: any, withTime: boolean) => {
+export const convertDatesValue = (value: any, withTime: boolean, timezone?: string | null) => {
   const converter = withTime ? toDateTimeString : toDateString;
-  return Array.isArray(value) ? value.map(converter) : converter(value);
+  return Array.isArray(value)
+    ? value.map((item) => converter(item, timezone))
+    : converter(value, timezone);
 };
 
 export function useUncontrolledDates<Type extends DatePickerType = 'default'>({
@@ -25,11 +29,14 @@ export function useUncontrolledDates<Type extends DatePickerType = 'default'>({
   defaultValue,
   onChange,
   withTime = false,
+  timezone,
 }: UseUncontrolledDates<Type>) {
+  const ctx = useDatesContext();
+  const _timezone = ctx.getTimezone(timezone);
   const storedType = useRef<Type>(type);
   const [_value, _setValue, controlled] = useUncontrolled<any>({
-    value: convertDatesValue(value, withTime),
-    defaultValue: convertDatesValue(defaultValue, withTime),
+    value: convertDatesValue(value, withTime, _timezone),
+    defaultValue: convertDatesValue(defaultValue, withTime, _timezone),
     finalValue: getEmptyValue(type),
     onChange,
   });
@@ -32,3 +32,6 @@ export * from './components/MonthPickerInput/index.js';
 export * from './components/DatePickerInput/index.js';
 export * from './components/TimeGrid/index.js';
 export * from './components/MiniCalendar/index.js';
+export * from './components/Scheduler/index.js';
+export * from './components/RecurrenceInput/index.js';
+export * from './components/DateRangePicker/index.js';
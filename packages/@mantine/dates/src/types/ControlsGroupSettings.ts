@@ -27,4 +27,7 @@ export interface ControlsGroupSettings {
 
   /** Dayjs locale, defaults to value defined in DatesProvider */
   locale?: string;
+
+  /** IANA time zone name used to determine current date, defaults to value defined in DatesProvider */
+  timezone?: string | null;
 }
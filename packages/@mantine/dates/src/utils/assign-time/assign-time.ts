@@ -1,11 +1,13 @@
 import dayjs from 'dayjs';
 import { DateStringValue } from '../../types';
+import { getTimezoneNow } from '../timezone/timezone';
 
 export function assignTime(
   dateValue: DateStringValue | null, // Date to assign time to
-  timeString: string // HH:mm:ss format
+  timeString: string, // HH:mm:ss format
+  timezone?: string | null // Time zone used to determine current date if dateValue is not set
 ): DateStringValue | null {
-  let date = dateValue ? dayjs(dateValue) : dayjs();
+  let date = dayjs(dateValue || getTimezoneNow(timezone));
 
   if (timeString === '') {
     return date.format('YYYY-MM-DD HH:mm:ss');
@@ -5,19 +5,24 @@ import { toDateTimeString } from '../to-date-string/to-date-string';
 export function clampDate(
   minDate: DateStringValue | Date | undefined,
   maxDate: DateStringValue | Date | undefined,
-  date: DateStringValue | Date
+  date: DateStringValue | Date,
+  timezone?: string | null
 ): DateStringValue {
-  if (!minDate && !maxDate) {
-    return toDateTimeString(date)!;
+  const _date = toDateTimeString(date, timezone)!;
+  const _minDate = toDateTimeString(minDate, timezone);
+  const _maxDate = toDateTimeString(maxDate, timezone);
+
+  if (!_minDate && !_maxDate) {
+    return _date;
   }
 
-  if (minDate && dayjs(date).isBefore(minDate)) {
-    return toDateTimeString(minDate)!;
+  if (_minDate && dayjs(_date).isBefore(_minDate)) {
+    return _minDate;
   }
 
-  if (maxDate && dayjs(date).isAfter(maxDate)) {
-    return toDateTimeString(maxDate)!;
+  if (_maxDate && dayjs(_date).isAfter(_maxDate)) {
+    return _maxDate;
   }
 
-  return toDateTimeString(date)!;
+  return _date;
 }
@@ -1,29 +1,32 @@
 import dayjs from 'dayjs';
 import { DateStringValue } from '../../types';
+import { getTimezoneToday } from '../timezone/timezone';
 import { toDateString } from '../to-date-string/to-date-string';
 
 interface GetDefaultClampedDate {
   minDate: DateStringValue | Date | undefined;
   maxDate: DateStringValue | Date | undefined;
+  timezone?: string | null;
 }
 
 export function getDefaultClampedDate({
   minDate,
   maxDate,
+  timezone,
 }: GetDefaultClampedDate): DateStringValue {
-  const today = dayjs();
+  const today = getTimezoneToday(timezone);
 
   if (!minDate && !maxDate) {
-    return toDateString(today)!;
+    return today;
   }
 
-  if (minDate && dayjs(today).isBefore(minDate)) {
-    return toDateString(minDate)!;
+  if (minDate && dayjs(today).isBefore(toDateString(minDate, timezone))) {
+    return toDateString(minDate, timezone)!;
   }
 
-  if (maxDate && dayjs(today).isAfter(maxDate)) {
-    return toDateString(maxDate)!;
+  if (maxDate && dayjs(today).isAfter(toDateString(maxDate, timezone))) {
+    return toDateString(maxDate, timezone)!;
   }
 
-  return toDateString(today)!;
+  return today;
 }
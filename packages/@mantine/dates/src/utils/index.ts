@@ -4,5 +4,39 @@ export { assignTime } from './assign-time/assign-time';
 export { getDefaultClampedDate } from './get-default-clamped-date/get-default-clamped-date';
 export { clampDate } from './clamp-date/clamp-date';
 export { toDateString, toDateTimeString } from './to-date-string/to-date-string';
+export {
+  toTimezoneDateTimeString,
+  fromTimezoneDateTimeString,
+  getTimezoneNow,
+  getTimezoneToday,
+} from './timezone/timezone';
+export { createNaturalDateParser } from './natural-date-parser/natural-date-parser';
+export {
+  naturalDateParserEn,
+  naturalDateVocabularyEn,
+} from './natural-date-parser/natural-date-parser-en';
+export {
+  getNaturalDateParser,
+  parseNaturalDate,
+  parseNaturalDateRange,
+} from './natural-date-parser/parse-natural-date';
+export { parseRecurrenceRule, stringifyRecurrenceRule } from './recurrence-rule/recurrence-rule';
+export { getRecurrenceOccurrences } from './recurrence-rule/get-recurrence-occurrences';
 
 export type { DateFormatter } from './get-formatted-date/get-formatted-date';
+export type {
+  NaturalDateParser,
+  NaturalDateParserContext,
+  NaturalDateParserOptions,
+  NaturalDateParsers,
+  NaturalDateParserVocabulary,
+  NaturalDateRange,
+  NaturalDateUnit,
+} from './natural-date-parser/natural-date-parser';
+export type {
+  RecurrenceByWeekday,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday,
+} from './recurrence-rule/recurrence-rule';
+export type { GetRecurrenceOccurrencesOptions } from './recurrence-rule/get-recurrence-occurrences';
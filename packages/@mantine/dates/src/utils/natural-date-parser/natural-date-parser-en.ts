@@ -0,0 +1,66 @@
+import { createNaturalDateParser, NaturalDateParserVocabulary } from './natural-date-parser';
+
+export const naturalDateVocabularyEn: NaturalDateParserVocabulary = {
+  today: ['today', 'now', 'tod'],
+  tomorrow: ['tomorrow', 'tmr', 'tmrw', 'tom'],
+  yesterday: ['yesterday', 'yday'],
+  dayAfterTomorrow: ['day after tomorrow', 'overmorrow'],
+  dayBeforeYesterday: ['day before yesterday'],
+  next: ['next', 'coming'],
+  last: ['last', 'past', 'previous', 'prev'],
+  this: ['this', 'current'],
+  future: ['in', 'from now', 'later', 'after'],
+  past: ['ago', 'before', 'earlier'],
+  startOf: ['start', 'beginning'],
+  endOf: ['end'],
+  rangeSeparators: ['to', 'until', 'till', 'through', 'thru'],
+  units: {
+    day: ['day', 'days', 'd'],
+    week: ['week', 'weeks', 'wk', 'wks', 'w'],
+    month: ['month', 'months', 'mo', 'mos'],
+    year: ['year', 'years', 'yr', 'yrs', 'y'],
+  },
+  numbers: {
+    a: 1,
+    an: 1,
+    one: 1,
+    two: 2,
+    three: 3,
+    four: 4,
+    five: 5,
+    six: 6,
+    seven: 7,
+    eight: 8,
+    nine: 9,
+    ten: 10,
+    eleven: 11,
+    twelve: 12,
+  },
+  fillers: ['the', 'of', 'on'],
+  ordinalSuffixes: ['st', 'nd', 'rd', 'th'],
+  weekdays: [
+    ['sunday', 'sun'],
+    ['monday', 'mon'],
+    ['tuesday', 'tue', 'tues'],
+    ['wednesday', 'wed'],
+    ['thursday', 'thu', 'thur', 'thurs'],
+    ['friday', 'fri'],
+    ['saturday', 'sat'],
+  ],
+  months: [
+    ['january', 'jan'],
+    ['february', 'feb'],
+    ['march', 'mar'],
+    ['april', 'apr'],
+    ['may'],
+    ['june', 'jun'],
+    ['july', 'jul'],
+    ['august', 'aug'],
+    ['september', 'sep', 'sept'],
+    ['october', 'oct'],
+    ['november', 'nov'],
+    ['december', 'dec'],
+  ],
+};
+
+export const naturalDateParserEn = createNaturalDateParser(naturalDateVocabularyEn);
@@ -0,0 +1,108 @@
+import 'dayjs/locale/de';
+import 'dayjs/locale/en-gb';
+
+import { createNaturalDateParser } from './natural-date-parser';
+import { naturalDateVocabularyEn } from './natural-date-parser-en';
+import {
+  getNaturalDateParser,
+  parseNaturalDate,
+  parseNaturalDateRange,
+} from './parse-natural-date';
+
+// 2025-03-05 is Wednesday
+const options = { referenceDate: '2025-03-05' };
+const parse = (input: string, locale?: string) => parseNaturalDate(input, { ...options, locale });
+const parseRange = (input: string) => parseNaturalDateRange(input, options);
+
+describe('@mantine/dates/natural-date-parser', () => {
+  it('parses relative days', () => {
+    expect(parse('today')).toBe('2025-03-05');
+    expect(parse('Tomorrow')).toBe('2025-03-06');
+    expect(parse('yesterday')).toBe('2025-03-04');
+    expect(parse('the day after tomorrow')).toBe('2025-03-07');
+  });
+
+  it('parses weekdays', () => {
+    expect(parse('fri')).toBe('2025-03-07');
+    expect(parse('next fri')).toBe('2025-03-07');
+    expect(parse('wednesday')).toBe('2025-03-05');
+    expect(parse('next wed')).toBe('2025-03-12');
+    expect(parse('last wed')).toBe('2025-02-26');
+    expect(parse('on this monday')).toBe('2025-03-03');
+  });
+
+  it('parses offsets', () => {
+    expect(parse('in 2 weeks')).toBe('2025-03-19');
+    expect(parse('in two days')).toBe('2025-03-07');
+    expect(parse('3 days ago')).toBe('2025-03-02');
+    expect(parse('a month from now')).toBe('2025-04-05');
+    expect(parse('2 days')).toBe(null);
+    expect(parse('in 2')).toBe(null);
+  });
+
+  it('parses numeric dates in the order of the locale', () => {
+    expect(parse('3/4')).toBe('2025-03-04');
+    expect(parse('3/4', 'en-gb')).toBe('2025-04-03');
+    expect(parse('3/4/26')).toBe('2026-03-04');
+    expect(parse('2025-12-31')).toBe('2025-12-31');
+    expect(parse('2/30')).toBe(null);
+  });
+
+  it('parses month names', () => {
+    expect(parse('march 4th')).toBe('2025-03-04');
+    expect(parse('4 march 2026')).toBe('2026-03-04');
+    expect(parse('Mar 4, 2026')).toBe('2026-03-04');
+    expect(parse('start of next month')).toBe('2025-04-01');
+    expect(parse('end of the month')).toBe('2025-03-31');
+  });
+
+  it('parses ranges', () => {
+    expect(parseRange('last 7 days')).toStrictEqual(['2025-02-27', '2025-03-05']);
+    expect(parseRange('next 2 weeks')).toStrictEqual(['2025-03-05', '2025-03-18']);
+    expect(parseRange('next week')).toStrictEqual(['2025-03-10', '2025-03-16']);
+    expect(parseRange('this month')).toStrictEqual(['2025-03-01', '2025-03-31']);
+    expect(parseRange('february')).toStrictEqual(['2025-02-01', '2025-02-28']);
+    expect(parseRange('mar 1 - mar 10')).toStrictEqual(['2025-03-01', '2025-03-10']);
+    expect(parseRange('today to next fri')).toStrictEqual(['2025-03-05', '2025-03-07']);
+    expect(parseRange('tomorrow')).toStrictEqual(['2025-03-06', '2025-03-06']);
+    expect(parseRange('next fri to today')).toBe(null);
+    expect(parseNaturalDateRange('this week', { ...options, firstDayOfWeek: 0 })).toStrictEqual([
+      '2025-03-02',
+      '2025-03-08',
+    ]);
+  });
+
+  it('returns null for unknown input', () => {
+    expect(parse('')).toBe(null);
+    expect(parse('hello')).toBe(null);
+    expect(parse('next')).toBe(null);
+  });
+
+  it('supports custom locale parsers', () => {
+    const de = createNaturalDateParser({
+      ...naturalDateVocabularyEn,
+      today: ['heute'],
+      tomorrow: ['morgen'],
+      future: ['in'],
+      past: ['vor'],
+      units: { day: ['tag', 'tagen'], week: ['woche', 'wochen'], month: ['monat'], year: ['jahr'] },
+      numbers: { zwei: 2 },
+      ordinalSuffixes: ['.'],
+      weekdays: undefined,
+      months: undefined,
+    });
+
+    expect(getNaturalDateParser('de-at', { de })).toBe(de);
+    expect(getNaturalDateParser('fr', { de })).not.toBe(de);
+
+    const parseDe = (input: string) =>
+      parseNaturalDate(input, { ...options, locale: 'de', parsers: { de } });
+
+    expect(parseDe('morgen')).toBe('2025-03-06');
+    expect(parseDe('in zwei Wochen')).toBe('2025-03-19');
+    expect(parseDe('vor 3 Tagen')).toBe('2025-03-02');
+    expect(parseDe('Freitag')).toBe('2025-03-07');
+    expect(parseDe('4. März')).toBe('2025-03-04');
+    expect(parseDe('3.4.')).toBe('2025-04-03');
+  });
+});
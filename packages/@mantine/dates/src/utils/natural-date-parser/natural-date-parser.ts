@@ -0,0 +1,374 @@
+import dayjs, { Dayjs } from 'dayjs';
+import type { DateStringValue, DayOfWeek } from '../../types';
+
+export type NaturalDateUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface NaturalDateParserVocabulary {
+  /** Words that resolve to the reference date, for example, `'today'` */
+  today: string[];
+
+  /** Words that resolve to the day after the reference date */
+  tomorrow: string[];
+
+  /** Words that resolve to the day before the reference date */
+  yesterday: string[];
+
+  /** Words that resolve to two days after the reference date */
+  dayAfterTomorrow: string[];
+
+  /** Words that resolve to two days before the reference date */
+  dayBeforeYesterday: string[];
+
+  /** Words used before weekday or unit to refer to the next one, for example, `'next'` in `'next week'` */
+  next: string[];
+
+  /** Words used before weekday or unit to refer to the previous one, for example, `'last'` in `'last week'` */
+  last: string[];
+
+  /** Words used before weekday or unit to refer to the current one, for example, `'this'` in `'this week'` */
+  this: string[];
+
+  /** Words placed before or after an amount of units to resolve a date in the future, for example, `'in'` and `'from now'` */
+  future: string[];
+
+  /** Words placed before or after an amount of units to resolve a date in the past, for example, `'ago'` */
+  past: string[];
+
+  /** Words used to refer to the first day of a period, for example, `'start'` in `'start of next month'` */
+  startOf: string[];
+
+  /** Words used to refer to the last day of a period, for example, `'end'` in `'end of month'` */
+  endOf: string[];
+
+  /** Words that separate start and end of a range, for example, `'to'`. Dashes are always supported. */
+  rangeSeparators: string[];
+
+  /** Words of each unit, including plural forms and abbreviations */
+  units: Record<NaturalDateUnit, string[]>;
+
+  /** Numbers written as words, for example, `{ two: 2 }` */
+  numbers: Record<string, number>;
+
+  /** Words that are ignored, for example, `'the'` and `'of'` */
+  fillers: string[];
+
+  /** Suffixes of ordinal numbers that are ignored, for example, `'th'` in `'4th'` */
+  ordinalSuffixes: string[];
+
+  /** Names of weekdays, index 0 is Sunday. Names of the dayjs locale are always supported. */
+  weekdays?: string[][];
+
+  /** Names of months, index 0 is January. Names of the dayjs locale are always supported. */
+  months?: string[][];
+}
+
+export interface NaturalDateParserContext {
+  /** Date in `YYYY-MM-DD` format relative to which the input is resolved */
+  referenceDate: DateStringValue;
+
+  /** dayjs locale, used to resolve weekdays and months names and the order of numeric dates */
+  locale: string;
+
+  /** Number 0-6, where 0 – Sunday and 6 – Saturday */
+  firstDayOfWeek: DayOfWeek;
+}
+
+/** Start and end (inclusive) of the resolved period, single dates have the same start and end */
+export type NaturalDateRange = [DateStringValue, DateStringValue];
+
+export type NaturalDateParser = (
+  input: string,
+  context: NaturalDateParserContext
+) => NaturalDateRange | null;
+
+/** Natural date parsers by dayjs locale */
+export type NaturalDateParsers = Record<string, NaturalDateParser>;
+
+export interface NaturalDateParserOptions {
+  /** Date relative to which the input is resolved, current date by default */
+  referenceDate?: DateStringValue | Date;
+
+  /** dayjs locale @default `'en'` */
+  locale?: string;
+
+  /** Number 0-6, where 0 – Sunday and 6 – Saturday @default `1` */
+  firstDayOfWeek?: DayOfWeek;
+
+  /** Parsers by locale, built-in English parser is used for locales without parser */
+  parsers?: NaturalDateParsers;
+}
+
+type Period = [Dayjs, Dayjs];
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getAlternatives(list: string[]) {
+  return list
+    .map((word) => escapeRegExp(word.toLowerCase()))
+    .sort((a, b) => b.length - a.length)
+    .join('|');
+}
+
+function includes(list: string[], word: string | undefined) {
+  return word !== undefined && list.some((item) => item.toLowerCase() === word);
+}
+
+function getLocaleData(locale: string) {
+  return dayjs.Ls[locale] || dayjs.Ls[locale.split('-')[0]];
+}
+
+function getLocaleNames(locale: string, keys: string[]) {
+  const data = getLocaleData(locale) as Record<string, any> | undefined;
+  return keys.map((key) => (Array.isArray(data?.[key]) ? (data![key] as string[]) : []));
+}
+
+function getNamesMap(custom: string[][] | undefined, localeNames: string[][], count: number) {
+  const map = new Map<string, number>();
+
+  for (let index = 0; index < count; index += 1) {
+    const names = [...(custom?.[index] || []), ...localeNames.map((list) => list[index] || '')];
+    names
+      .map((name) => name.toLowerCase().replace(/\.$/, ''))
+      .filter((name) => name.length > 1 && !map.has(name))
+      .forEach((name) => map.set(name, index));
+  }
+
+  return map;
+}
+
+function isDayFirst(locale: string) {
+  const format = getLocaleData(locale)?.formats?.L;
+
+  if (typeof format !== 'string') {
+    return false;
+  }
+
+  const dayIndex = format.indexOf('D');
+  const monthIndex = format.indexOf('M');
+  return dayIndex !== -1 && monthIndex !== -1 && dayIndex < monthIndex;
+}
+
+function getDate(year: number, month: number, day: number) {
+  const date = dayjs(new Date(year, month, day));
+  return date.year() === year && date.month() === month && date.date() === day ? date : null;
+}
+
+function getYear(value: string | undefined, fallback: number) {
+  if (!value) {
+    return fallback;
+  }
+
+  return value.length === 2 ? 2000 + Number(value) : Number(value);
+}
+
+function toRange(period: Period | null): NaturalDateRange | null {
+  if (!period || period[1].isBefore(period[0], 'day')) {
+    return null;
+  }
+
+  return [period[0].format('YYYY-MM-DD'), period[1].format('YYYY-MM-DD')];
+}
+
+export function createNaturalDateParser(
+  vocabulary: NaturalDateParserVocabulary
+): NaturalDateParser {
+  const unitsMap = new Map<string, NaturalDateUnit>();
+  (Object.keys(vocabulary.units) as NaturalDateUnit[]).forEach((unit) =>
+    vocabulary.units[unit].forEach((word) => unitsMap.set(word.toLowerCase(), unit))
+  );
+
+  const numbersMap = new Map(
+    Object.keys(vocabulary.numbers).map((word) => [word.toLowerCase(), vocabulary.numbers[word]])
+  );
+
+  const units = getAlternatives([...unitsMap.keys()]);
+  const amount = `\\d+|${getAlternatives([...numbersMap.keys()])}`;
+  const modifier = getAlternatives([...vocabulary.next, ...vocabulary.last, ...vocabulary.this]);
+  const direction = getAlternatives([...vocabulary.future, ...vocabulary.past]);
+  const ordinalSuffix = new RegExp(
+    `(\\d+)(?:${getAlternatives(vocabulary.ordinalSuffixes)})(?=\\s|$)`,
+    'g'
+  );
+  const rangeSeparator = new RegExp(
+    `\\s+(?:${getAlternatives(vocabulary.rangeSeparators)})\\s+|\\s*[–—]\\s*|\\s+-\\s+`
+  );
+
+  const getAmount = (value: string) =>
+    /^\d+$/.test(value) ? Number(value) : (numbersMap.get(value) ?? NaN);
+
+  const parsePeriod = (input: string, context: NaturalDateParserContext): Period | null => {
+    const reference = dayjs(context.referenceDate);
+    const weekdays = getNamesMap(
+      vocabulary.weekdays,
+      getLocaleNames(context.locale, ['weekdays', 'weekdaysShort']),
+      7
+    );
+    const months = getNamesMap(
+      vocabulary.months,
+      getLocaleNames(context.locale, ['months', 'monthsShort']),
+      12
+    );
+
+    const getStartOfWeek = (date: Dayjs) =>
+      date.subtract((date.day() - context.firstDayOfWeek + 7) % 7, 'day');
+
+    const getPeriod = (date: Dayjs, unit: NaturalDateUnit): Period => {
+      if (unit === 'day') {
+        return [date, date];
+      }
+
+      if (unit === 'week') {
+        const start = getStartOfWeek(date);
+        return [start, start.add(6, 'day')];
+      }
+
+      return [date.startOf(unit), date.endOf(unit).startOf('day')];
+    };
+
+    const getOffset = (word: string | undefined) =>
+      includes(vocabulary.next, word) ? 1 : includes(vocabulary.last, word) ? -1 : 0;
+
+    const single = (date: Dayjs | null): Period | null => (date ? [date, date] : null);
+    const weekdayNames = getAlternatives([...weekdays.keys()]);
+    const monthNames = getAlternatives([...months.keys()]);
+    let match: RegExpMatchArray | null = null;
+
+    if ((match = input.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/))) {
+      return single(getDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    }
+
+    if ((match = input.match(/^(\d{1,2})[-/.](\d{1,2})(?:[-/.](\d{2}|\d{4}))?$/))) {
+      const [first, second] = [Number(match[1]), Number(match[2])];
+      const [day, month] = isDayFirst(context.locale) ? [first, second] : [second, first];
+      return single(getDate(getYear(match[3], reference.year()), month - 1, day));
+    }
+
+    const keywords: [string[], number][] = [
+      [vocabulary.today, 0],
+      [vocabulary.tomorrow, 1],
+      [vocabulary.yesterday, -1],
+      [vocabulary.dayAfterTomorrow, 2],
+      [vocabulary.dayBeforeYesterday, -2],
+    ];
+
+    const keyword = keywords.find(([words]) => includes(words, input));
+    if (keyword) {
+      return single(reference.add(keyword[1], 'day'));
+    }
+
+    if (
+      weekdayNames &&
+      (match = input.match(new RegExp(`^(?:(${modifier}) )?(${weekdayNames})$`)))
+    ) {
+      const weekday = weekdays.get(match[2])!;
+
+      if (includes(vocabulary.this, match[1])) {
+        const start = getStartOfWeek(reference);
+        return single(start.add((weekday - context.firstDayOfWeek + 7) % 7, 'day'));
+      }
+
+      if (includes(vocabulary.last, match[1])) {
+        return single(reference.subtract((reference.day() - weekday + 7) % 7 || 7, 'day'));
+      }
+
+      const days = (weekday - reference.day() + 7) % 7;
+      return single(reference.add(includes(vocabulary.next, match[1]) ? days || 7 : days, 'day'));
+    }
+
+    if ((match = input.match(new RegExp(`^(${modifier}) (${units})$`)))) {
+      const unit = unitsMap.get(match[2])!;
+      return getPeriod(reference.add(getOffset(match[1]), unit), unit);
+    }
+
+    if ((match = input.match(new RegExp(`^(${modifier}) (${amount}) (${units})$`)))) {
+      const count = getAmount(match[2]);
+      const unit = unitsMap.get(match[3])!;
+      const offset = getOffset(match[1]);
+
+      if (!count || offset === 0) {
+        return null;
+      }
+
+      return offset > 0
+        ? [reference, reference.add(count, unit).subtract(1, 'day')]
+        : [reference.subtract(count, unit).add(1, 'day'), reference];
+    }
+
+    if (
+      (match = input.match(
+        new RegExp(`^(?:(${direction}) )?(${amount}) (${units})(?: (${direction}))?$`)
+      ))
+    ) {
+      const word = match[1] || match[4];
+
+      if (!word || (match[1] && match[4])) {
+        return null;
+      }
+
+      const count = getAmount(match[2]);
+      const sign = includes(vocabulary.past, word) ? -1 : 1;
+      return Number.isNaN(count)
+        ? null
+        : single(reference.add(sign * count, unitsMap.get(match[3])!));
+    }
+
+    const boundary = getAlternatives([...vocabulary.startOf, ...vocabulary.endOf]);
+    if ((match = input.match(new RegExp(`^(${boundary}) (?:(${modifier}) )?(${units})$`)))) {
+      const unit = unitsMap.get(match[3])!;
+      const period = getPeriod(reference.add(getOffset(match[2]), unit), unit);
+      return single(includes(vocabulary.startOf, match[1]) ? period[0] : period[1]);
+    }
+
+    if (monthNames) {
+      if ((match = input.match(new RegExp(`^(${monthNames}) (\\d{1,2})(?: (\\d{4}))?$`)))) {
+        const year = getYear(match[3], reference.year());
+        return single(getDate(year, months.get(match[1])!, Number(match[2])));
+      }
+
+      if ((match = input.match(new RegExp(`^(\\d{1,2}) (${monthNames})(?: (\\d{4}))?$`)))) {
+        const year = getYear(match[3], reference.year());
+        return single(getDate(year, months.get(match[2])!, Number(match[1])));
+      }
+
+      if ((match = input.match(new RegExp(`^(${monthNames})(?: (\\d{4}))?$`)))) {
+        const year = getYear(match[2], reference.year());
+        return getPeriod(dayjs(new Date(year, months.get(match[1])!, 1)), 'month');
+      }
+    }
+
+    return null;
+  };
+
+  return (input, context) => {
+    const normalized = input
+      .toLowerCase()
+      .replace(/,/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/\.$/, '')
+      .replace(ordinalSuffix, '$1')
+      .split(' ')
+      .filter((word) => !includes(vocabulary.fillers, word))
+      .join(' ');
+
+    if (!normalized) {
+      return null;
+    }
+
+    const period = parsePeriod(normalized, context);
+    if (period) {
+      return toRange(period);
+    }
+
+    const parts = normalized.split(rangeSeparator);
+    if (parts.length !== 2) {
+      return null;
+    }
+
+    const start = parsePeriod(parts[0], context);
+    const end = parsePeriod(parts[1], context);
+    return start && end ? toRange([start[0], end[1]]) : null;
+  };
+}
@@ -0,0 +1,35 @@
+import dayjs from 'dayjs';
+import type { DateStringValue } from '../../types';
+import type {
+  NaturalDateParser,
+  NaturalDateParserOptions,
+  NaturalDateParsers,
+  NaturalDateRange,
+} from './natural-date-parser';
+import { naturalDateParserEn } from './natural-date-parser-en';
+
+export function getNaturalDateParser(
+  locale: string,
+  parsers: NaturalDateParsers = {}
+): NaturalDateParser {
+  return parsers[locale] || parsers[locale.split('-')[0]] || parsers.en || naturalDateParserEn;
+}
+
+export function parseNaturalDateRange(
+  input: string,
+  { referenceDate, locale = 'en', firstDayOfWeek = 1, parsers }: NaturalDateParserOptions = {}
+): NaturalDateRange | null {
+  const parser = getNaturalDateParser(locale, parsers);
+  return parser(input, {
+    referenceDate: dayjs(referenceDate || undefined).format('YYYY-MM-DD'),
+    locale,
+    firstDayOfWeek,
+  });
+}
+
+export function parseNaturalDate(
+  input: string,
+  options?: NaturalDateParserOptions
+): DateStringValue | null {
+  return parseNaturalDateRange(input, options)?.[0] ?? null;
+}
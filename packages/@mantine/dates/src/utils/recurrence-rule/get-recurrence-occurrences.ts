@@ -0,0 +1,166 @@
+import dayjs, { Dayjs } from 'dayjs';
+import type { DateStringValue } from '../../types';
+import { RECURRENCE_WEEKDAYS, RecurrenceByWeekday, RecurrenceRule } from './recurrence-rule';
+
+export interface GetRecurrenceOccurrencesOptions {
+  /** Occurrences before this date are not returned, does not affect `COUNT` */
+  from?: DateStringValue;
+
+  /** Occurrences after this date are not returned */
+  to?: DateStringValue;
+
+  /** Maximum number of returned occurrences, `500` by default */
+  limit?: number;
+}
+
+// Stops iteration for rules that never produce occurrences, for example, February 30th
+const MAX_YEARS = 100;
+
+const FREQUENCY_UNITS = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' } as const;
+
+function getWeekdayIndex(weekday: RecurrenceByWeekday['weekday']) {
+  return RECURRENCE_WEEKDAYS.indexOf(weekday);
+}
+
+function getDaysInRange(start: Dayjs, end: Dayjs) {
+  const days: Dayjs[] = [];
+  for (let day = start; !day.isAfter(end, 'day'); day = day.add(1, 'day')) {
+    days.push(day);
+  }
+  return days;
+}
+
+function filterByWeekdays(days: Dayjs[], byWeekday: RecurrenceByWeekday[]) {
+  return byWeekday.flatMap(({ weekday, nth }) => {
+    const matches = days.filter((day) => day.day() === getWeekdayIndex(weekday));
+
+    if (!nth) {
+      return matches;
+    }
+
+    const match = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+    return match ? [match] : [];
+  });
+}
+
+function getPeriodDays(days: Dayjs[], rule: RecurrenceRule, start: Dayjs) {
+  if (rule.byMonthDay.length > 0) {
+    const byMonthDay = rule.byMonthDay.map((monthDay) =>
+      monthDay > 0 ? monthDay : days[0].daysInMonth() + monthDay + 1
+    );
+    const matches = days.filter((day) => byMonthDay.includes(day.date()));
+    return rule.byWeekday.length > 0
+      ? matches.filter((day) =>
+          rule.byWeekday.some((item) => getWeekdayIndex(item.weekday) === day.day())
+        )
+      : matches;
+  }
+
+  if (rule.byWeekday.length > 0) {
+    return filterByWeekdays(days, rule.byWeekday);
+  }
+
+  return days.filter((day) => day.date() === start.date());
+}
+
+function getCandidates(rule: RecurrenceRule, start: Dayjs, period: number): Dayjs[] {
+  const step = period * rule.interval;
+
+  if (rule.freq === 'DAILY') {
+    const day = start.add(step, 'day');
+    const matchesMonthDay =
+      rule.byMonthDay.length === 0 ||
+      getPeriodDays([day], { ...rule, byWeekday: [] }, start).length > 0;
+    const matchesWeekday =
+      rule.byWeekday.length === 0 ||
+      rule.byWeekday.some((item) => getWeekdayIndex(item.weekday) === day.day());
+    return matchesMonthDay && matchesWeekday ? [day] : [];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekStartIndex = getWeekdayIndex(rule.weekStart);
+    const weekStart = start
+      .subtract((start.day() - weekStartIndex + 7) % 7, 'day')
+      .add(step, 'week');
+    const weekdays =
+      rule.byWeekday.length > 0
+        ? rule.byWeekday.map((item) => getWeekdayIndex(item.weekday))
+        : [start.day()];
+    return getDaysInRange(weekStart, weekStart.add(6, 'day')).filter((day) =>
+      weekdays.includes(day.day())
+    );
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const month = start.startOf('month').add(step, 'month');
+    return getPeriodDays(getDaysInRange(month, month.endOf('month')), rule, start);
+  }
+
+  const year = start.startOf('year').add(step, 'year');
+
+  if (rule.byMonth.length === 0 && rule.byMonthDay.length === 0 && rule.byWeekday.length > 0) {
+    return filterByWeekdays(getDaysInRange(year, year.endOf('year')), rule.byWeekday);
+  }
+
+  const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month() + 1];
+  return months.flatMap((monthNumber) => {
+    const month = year.month(monthNumber - 1);
+    return getPeriodDays(getDaysInRange(month, month.endOf('month')), rule, start);
+  });
+}
+
+/** Returns dates of recurrence rule occurrences in `YYYY-MM-DD` format, `EXDATE` dates are excluded */
+export function getRecurrenceOccurrences(
+  rule: RecurrenceRule | null,
+  { from, to, limit = 500 }: GetRecurrenceOccurrencesOptions = {}
+): DateStringValue[] {
+  if (!rule?.start) {
+    return [];
+  }
+
+  const start = dayjs(rule.start);
+  const exclusions = new Set(rule.exclusions);
+  const occurrences: DateStringValue[] = [];
+  const unit = FREQUENCY_UNITS[rule.freq];
+  const maxDate = start.add(MAX_YEARS, 'year');
+  let count = 0;
+
+  for (let period = 0; ; period += 1) {
+    // Lower bound of the period start, all period candidates are after this date
+    const periodStart = start.add(period * rule.interval - 1, unit);
+
+    if (periodStart.isAfter(maxDate) || (to && periodStart.isAfter(to, 'day'))) {
+      return occurrences;
+    }
+
+    const candidates = getCandidates(rule, start, period)
+      .filter((day) => rule.byMonth.length === 0 || rule.byMonth.includes(day.month() + 1))
+      .sort((a, b) => a.valueOf() - b.valueOf());
+
+    for (const candidate of candidates) {
+      if (candidate.isBefore(start, 'day')) {
+        continue;
+      }
+
+      const date = candidate.format('YYYY-MM-DD');
+
+      if (
+        (rule.until && date > rule.until) ||
+        (to && date > to) ||
+        (rule.count && count >= rule.count)
+      ) {
+        return occurrences;
+      }
+
+      count += 1;
+
+      if (!exclusions.has(date) && (!from || date >= from)) {
+        occurrences.push(date);
+
+        if (occurrences.length >= limit) {
+          return occurrences;
+        }
+      }
+    }
+  }
+}
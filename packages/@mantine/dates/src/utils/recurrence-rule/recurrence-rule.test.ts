@@ -0,0 +1,122 @@
+import { getRecurrenceOccurrences } from './get-recurrence-occurrences';
+import { parseRecurrenceRule, RecurrenceRule, stringifyRecurrenceRule } from './recurrence-rule';
+
+const occurrences = (value: string, limit = 5) =>
+  getRecurrenceOccurrences(parseRecurrenceRule(value), { limit });
+
+describe('@mantine/dates/recurrence-rule', () => {
+  it('parses RRULE with DTSTART and EXDATE', () => {
+    const rule = parseRecurrenceRule(
+      'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10\nEXDATE;VALUE=DATE:20250305,20250317'
+    );
+
+    expect(rule).toStrictEqual<RecurrenceRule>({
+      freq: 'WEEKLY',
+      interval: 2,
+      start: '2025-03-03',
+      byWeekday: [{ weekday: 'MO' }, { weekday: 'WE' }],
+      byMonthDay: [],
+      byMonth: [],
+      count: 10,
+      until: null,
+      weekStart: 'MO',
+      exclusions: ['2025-03-05', '2025-03-17'],
+    });
+  });
+
+  it('parses RRULE without property name and with date-time values', () => {
+    const rule = parseRecurrenceRule('FREQ=monthly;BYDAY=-1FR;UNTIL=20251231T235959Z');
+    expect(rule?.freq).toBe('MONTHLY');
+    expect(rule?.byWeekday).toStrictEqual([{ weekday: 'FR', nth: -1 }]);
+    expect(rule?.until).toBe('2025-12-31');
+    expect(rule?.start).toBe(null);
+  });
+
+  it('returns null for invalid or unsupported rules', () => {
+    expect(parseRecurrenceRule('')).toBe(null);
+    expect(parseRecurrenceRule(null)).toBe(null);
+    expect(parseRecurrenceRule('RRULE:INTERVAL=2')).toBe(null);
+    expect(parseRecurrenceRule('RRULE:FREQ=HOURLY')).toBe(null);
+    expect(parseRecurrenceRule('RRULE:FREQ=DAILY;COUNT=0')).toBe(null);
+    expect(parseRecurrenceRule('RRULE:FREQ=DAILY;BYMONTHDAY=32')).toBe(null);
+    expect(parseRecurrenceRule('RRULE:FREQ=DAILY;BYSETPOS=1')).toBe(null);
+    expect(parseRecurrenceRule('DTSTART:20250230\nRRULE:FREQ=DAILY')).toBe(null);
+  });
+
+  it('stringifies rule', () => {
+    const value =
+      'DTSTART;VALUE=DATE:20250303\nRRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU;COUNT=4\nEXDATE;VALUE=DATE:20250311';
+    expect(stringifyRecurrenceRule(parseRecurrenceRule(value)!)).toBe(value);
+    expect(stringifyRecurrenceRule(parseRecurrenceRule('RRULE:FREQ=YEARLY;UNTIL=20300101')!)).toBe(
+      'RRULE:FREQ=YEARLY;UNTIL=20300101'
+    );
+  });
+
+  it('returns daily and weekly occurrences', () => {
+    expect(occurrences('DTSTART:20250303\nRRULE:FREQ=DAILY;INTERVAL=3', 3)).toStrictEqual([
+      '2025-03-03',
+      '2025-03-06',
+      '2025-03-09',
+    ]);
+
+    expect(occurrences('DTSTART:20250305\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')).toStrictEqual(
+      ['2025-03-05', '2025-03-17', '2025-03-19', '2025-03-31', '2025-04-02']
+    );
+  });
+
+  it('returns monthly occurrences', () => {
+    expect(occurrences('DTSTART:20250131\nRRULE:FREQ=MONTHLY', 3)).toStrictEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ]);
+
+    expect(occurrences('DTSTART:20250101\nRRULE:FREQ=MONTHLY;BYDAY=-1FR', 3)).toStrictEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-28',
+    ]);
+
+    expect(occurrences('DTSTART:20250101\nRRULE:FREQ=MONTHLY;BYMONTHDAY=1,-1', 3)).toStrictEqual([
+      '2025-01-01',
+      '2025-01-31',
+      '2025-02-01',
+    ]);
+  });
+
+  it('returns yearly occurrences', () => {
+    expect(occurrences('DTSTART:20240229\nRRULE:FREQ=YEARLY', 2)).toStrictEqual([
+      '2024-02-29',
+      '2028-02-29',
+    ]);
+
+    expect(
+      occurrences('DTSTART:20250101\nRRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', 2)
+    ).toStrictEqual(['2025-11-27', '2026-11-26']);
+
+    expect(
+      occurrences('DTSTART:20250101\nRRULE:FREQ=YEARLY;BYMONTHDAY=30;BYMONTH=2')
+    ).toStrictEqual([]);
+  });
+
+  it('supports COUNT, UNTIL and EXDATE', () => {
+    expect(
+      occurrences('DTSTART:20250303\nRRULE:FREQ=DAILY;COUNT=3\nEXDATE:20250304', 10)
+    ).toStrictEqual(['2025-03-03', '2025-03-05']);
+
+    expect(occurrences('DTSTART:20250303\nRRULE:FREQ=WEEKLY;UNTIL=20250317', 10)).toStrictEqual([
+      '2025-03-03',
+      '2025-03-10',
+      '2025-03-17',
+    ]);
+  });
+
+  it('supports from and to options', () => {
+    const rule = parseRecurrenceRule('DTSTART:20250303\nRRULE:FREQ=WEEKLY;COUNT=4');
+    expect(getRecurrenceOccurrences(rule, { from: '2025-03-10', to: '2025-03-20' })).toStrictEqual([
+      '2025-03-10',
+      '2025-03-17',
+    ]);
+    expect(getRecurrenceOccurrences(parseRecurrenceRule('RRULE:FREQ=DAILY'))).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,241 @@
+import dayjs from 'dayjs';
+import type { DateStringValue } from '../../types';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceByWeekday {
+  /** Weekday */
+  weekday: RecurrenceWeekday;
+
+  /** Occurrence of the weekday within the month (or year), for example, `1` – first, `-1` – last */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  /** `FREQ` part of the rule */
+  freq: RecurrenceFrequency;
+
+  /** `INTERVAL` part of the rule, `1` if not set */
+  interval: number;
+
+  /** `DTSTART` date in `YYYY-MM-DD` format */
+  start: DateStringValue | null;
+
+  /** `BYDAY` part of the rule */
+  byWeekday: RecurrenceByWeekday[];
+
+  /** `BYMONTHDAY` part of the rule, negative values are counted from the end of the month */
+  byMonthDay: number[];
+
+  /** `BYMONTH` part of the rule, 1 – January, 12 – December */
+  byMonth: number[];
+
+  /** `COUNT` part of the rule */
+  count: number | null;
+
+  /** `UNTIL` part of the rule in `YYYY-MM-DD` format, inclusive */
+  until: DateStringValue | null;
+
+  /** `WKST` part of the rule, `'MO'` if not set */
+  weekStart: RecurrenceWeekday;
+
+  /** `EXDATE` dates in `YYYY-MM-DD` format */
+  exclusions: DateStringValue[];
+}
+
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+function parseDate(value: string): DateStringValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return dayjs(date).format('YYYY-MM-DD') === date ? date : null;
+}
+
+function formatDate(date: DateStringValue) {
+  return dayjs(date).format('YYYYMMDD');
+}
+
+function parseNumbers(value: string, min: number, max: number) {
+  const numbers = value.split(',').map(Number);
+  const isValid = numbers.every(
+    (number) => Number.isInteger(number) && number !== 0 && Math.abs(number) >= min && number <= max
+  );
+  return isValid ? numbers : null;
+}
+
+function parseWeekdays(value: string): RecurrenceByWeekday[] | null {
+  const weekdays = value.split(',').map((item) => {
+    const match = item.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match
+      ? {
+          weekday: match[2] as RecurrenceWeekday,
+          ...(match[1] ? { nth: Number(match[1]) } : null),
+        }
+      : null;
+  });
+
+  return weekdays.every(Boolean) ? (weekdays as RecurrenceByWeekday[]) : null;
+}
+
+function unfoldLines(value: string) {
+  return value
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function getPropertyValue(line: string) {
+  return line.slice(line.indexOf(':') + 1);
+}
+
+/** Parses RFC 5545 recurrence rule, supports `DTSTART`, `RRULE` and `EXDATE` properties */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    freq: 'DAILY',
+    interval: 1,
+    start: null,
+    byWeekday: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: null,
+    until: null,
+    weekStart: 'MO',
+    exclusions: [],
+  };
+
+  let rrule: string | null = null;
+
+  for (const line of unfoldLines(value)) {
+    const name = line.split(/[;:]/)[0].toUpperCase();
+
+    if (name === 'DTSTART') {
+      rule.start = parseDate(getPropertyValue(line));
+      if (!rule.start) {
+        return null;
+      }
+    } else if (name === 'EXDATE') {
+      const dates = getPropertyValue(line).split(',').map(parseDate);
+      if (!dates.every(Boolean)) {
+        return null;
+      }
+      rule.exclusions.push(...(dates as DateStringValue[]));
+    } else if (name === 'RRULE') {
+      rrule = getPropertyValue(line);
+    } else if (line.toUpperCase().startsWith('FREQ=')) {
+      rrule = line;
+    }
+  }
+
+  if (!rrule) {
+    return null;
+  }
+
+  let hasFrequency = false;
+
+  for (const part of rrule.toUpperCase().split(';').filter(Boolean)) {
+    const [key, partValue = ''] = part.split('=');
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(partValue as RecurrenceFrequency)) {
+          return null;
+        }
+        rule.freq = partValue as RecurrenceFrequency;
+        hasFrequency = true;
+        break;
+
+      case 'INTERVAL':
+      case 'COUNT': {
+        const number = Number(partValue);
+        if (!Number.isInteger(number) || number < 1) {
+          return null;
+        }
+        key === 'INTERVAL' ? (rule.interval = number) : (rule.count = number);
+        break;
+      }
+
+      case 'UNTIL':
+        rule.until = parseDate(partValue);
+        if (!rule.until) {
+          return null;
+        }
+        break;
+
+      case 'BYDAY': {
+        const weekdays = parseWeekdays(partValue);
+        if (!weekdays) {
+          return null;
+        }
+        rule.byWeekday = weekdays;
+        break;
+      }
+
+      case 'BYMONTHDAY':
+      case 'BYMONTH': {
+        const numbers =
+          key === 'BYMONTHDAY' ? parseNumbers(partValue, 1, 31) : parseNumbers(partValue, 1, 12);
+        if (!numbers || (key === 'BYMONTH' && numbers.some((number) => number < 0))) {
+          return null;
+        }
+        key === 'BYMONTHDAY' ? (rule.byMonthDay = numbers) : (rule.byMonth = numbers);
+        break;
+      }
+
+      case 'WKST':
+        if (!RECURRENCE_WEEKDAYS.includes(partValue as RecurrenceWeekday)) {
+          return null;
+        }
+        rule.weekStart = partValue as RecurrenceWeekday;
+        break;
+
+      default:
+        return null;
+    }
+  }
+
+  return hasFrequency ? rule : null;
+}
+
+/** Converts recurrence rule to RFC 5545 string with `DTSTART`, `RRULE` and `EXDATE` properties */
+export function stringifyRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  rule.interval > 1 && parts.push(`INTERVAL=${rule.interval}`);
+  rule.byMonth.length > 0 && parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  rule.byMonthDay.length > 0 && parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  rule.byWeekday.length > 0 &&
+    parts.push(
+      `BYDAY=${rule.byWeekday.map(({ weekday, nth }) => `${nth || ''}${weekday}`).join(',')}`
+    );
+  rule.weekStart !== 'MO' && parts.push(`WKST=${rule.weekStart}`);
+
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatDate(rule.until)}`);
+  }
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  rule.start && lines.unshift(`DTSTART;VALUE=DATE:${formatDate(rule.start)}`);
+
+  if (rule.exclusions.length > 0) {
+    const exclusions = [...rule.exclusions].sort().map(formatDate);
+    lines.push(`EXDATE;VALUE=DATE:${exclusions.join(',')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,48 @@
+import {
+  fromTimezoneDateTimeString,
+  getTimezoneNow,
+  getTimezoneToday,
+  toTimezoneDateTimeString,
+} from './timezone';
+
+describe('@mantine/dates/timezone', () => {
+  it('converts point in time to wall-clock time in the given time zone', () => {
+    const date = new Date('2024-03-10T23:30:00Z');
+    expect(toTimezoneDateTimeString(date, 'UTC')).toBe('2024-03-10 23:30:00');
+    expect(toTimezoneDateTimeString(date, 'Asia/Tokyo')).toBe('2024-03-11 08:30:00');
+    expect(toTimezoneDateTimeString(date, 'America/New_York')).toBe('2024-03-10 19:30:00');
+    expect(toTimezoneDateTimeString(date.getTime(), 'Asia/Kolkata')).toBe('2024-03-11 05:00:00');
+    expect(toTimezoneDateTimeString('2024-03-10T23:30:00+02:00', 'UTC')).toBe(
+      '2024-03-10 21:30:00'
+    );
+  });
+
+  it('converts wall-clock time in the given time zone to Date', () => {
+    expect(fromTimezoneDateTimeString('2024-03-11 08:30:00', 'Asia/Tokyo').toISOString()).toBe(
+      '2024-03-10T23:30:00.000Z'
+    );
+    expect(fromTimezoneDateTimeString('2024-07-01', 'America/New_York').toISOString()).toBe(
+      '2024-07-01T04:00:00.000Z'
+    );
+    expect(
+      fromTimezoneDateTimeString('2024-01-01 12:00:00', 'America/New_York').toISOString()
+    ).toBe('2024-01-01T17:00:00.000Z');
+  });
+
+  it('handles daylight saving time transitions', () => {
+    expect(
+      fromTimezoneDateTimeString('2024-03-10 01:59:59', 'America/New_York').toISOString()
+    ).toBe('2024-03-10T06:59:59.000Z');
+    expect(
+      fromTimezoneDateTimeString('2024-03-10 03:00:00', 'America/New_York').toISOString()
+    ).toBe('2024-03-10T07:00:00.000Z');
+  });
+
+  it('returns current date and time in the given time zone', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-03-10T23:30:00Z'));
+    expect(getTimezoneNow('Asia/Tokyo')).toBe('2024-03-11 08:30:00');
+    expect(getTimezoneToday('Asia/Tokyo')).toBe('2024-03-11');
+    expect(getTimezoneToday('America/Los_Angeles')).toBe('2024-03-10');
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,96 @@
+import dayjs, { Dayjs } from 'dayjs';
+import { DateStringValue, DateTimeStringValue } from '../../types';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string) {
+  if (!formatters.has(timezone)) {
+    formatters.set(
+      timezone,
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+    );
+  }
+
+  return formatters.get(timezone)!;
+}
+
+function getWallClockTime(value: string) {
+  const date = dayjs(value);
+  return Date.UTC(
+    date.year(),
+    date.month(),
+    date.date(),
+    date.hour(),
+    date.minute(),
+    date.second(),
+    date.millisecond()
+  );
+}
+
+/** Returns `true` if the value represents a point in time rather than wall-clock time: `Date`, timestamp or ISO string with an offset */
+export function isDateInstant(value: unknown): value is Date | number | Dayjs | string {
+  if (typeof value === 'string') {
+    return /\d{2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+  }
+
+  return value instanceof Date || typeof value === 'number' || dayjs.isDayjs(value);
+}
+
+/** Converts point in time to wall-clock time in the given IANA time zone, browser time zone is used if `timezone` is not set */
+export function toTimezoneDateTimeString(
+  value: Date | number | Dayjs | string,
+  timezone: string | null | undefined
+): DateTimeStringValue {
+  const date = dayjs(value);
+
+  if (!timezone) {
+    return date.format('YYYY-MM-DD HH:mm:ss');
+  }
+
+  const parts = getFormatter(timezone).formatToParts(date.toDate());
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)!.value;
+
+  const hour = getPart('hour') === '24' ? '00' : getPart('hour');
+  return `${getPart('year').padStart(4, '0')}-${getPart('month')}-${getPart('day')} ${hour}:${getPart('minute')}:${getPart('second')}`;
+}
+
+/** Converts wall-clock time in the given IANA time zone to `Date` object, browser time zone is used if `timezone` is not set */
+export function fromTimezoneDateTimeString(
+  value: DateStringValue | DateTimeStringValue,
+  timezone: string | null | undefined
+): Date {
+  if (!timezone) {
+    return dayjs(value).toDate();
+  }
+
+  const wallClockTime = getWallClockTime(value);
+  const getOffset = (time: number) =>
+    getWallClockTime(toTimezoneDateTimeString(time, timezone)) - (time - (time % 1000));
+
+  // Offset is checked twice to handle values close to daylight saving time transitions
+  const offset = getOffset(wallClockTime);
+  const time = wallClockTime - offset;
+  const correctedOffset = getOffset(time);
+
+  return new Date(correctedOffset === offset ? time : wallClockTime - correctedOffset);
+}
+
+/** Returns current wall-clock time in the given IANA time zone */
+export function getTimezoneNow(timezone: string | null | undefined): DateTimeStringValue {
+  return toTimezoneDateTimeString(new Date(), timezone);
+}
+
+/** Returns current date in the given IANA time zone */
+export function getTimezoneToday(timezone: string | null | undefined): DateStringValue {
+  return getTimezoneNow(timezone).slice(0, 10);
+}
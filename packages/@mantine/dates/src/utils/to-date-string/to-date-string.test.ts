@@ -31,3 +31,17 @@ describe('@mantine/dates/to-date-time-string', () => {
     expect(toDateTimeString(new Date('2021-09-13 12:30'))).toBe('2021-09-13 12:30:00');
   });
 });
+
+describe('@mantine/dates/to-date-string-timezone', () => {
+  it('converts points in time to the given time zone', () => {
+    expect(toDateString(new Date('2024-03-10T23:30:00Z'), 'Asia/Tokyo')).toBe('2024-03-11');
+    expect(toDateTimeString('2024-03-10T23:30:00Z', 'America/New_York')).toBe(
+      '2024-03-10 19:30:00'
+    );
+  });
+
+  it('does not convert wall-clock strings', () => {
+    expect(toDateString('2024-03-10', 'Asia/Tokyo')).toBe('2024-03-10');
+    expect(toDateTimeString('2024-03-10 23:30:00', 'Asia/Tokyo')).toBe('2024-03-10 23:30:00');
+  });
+});
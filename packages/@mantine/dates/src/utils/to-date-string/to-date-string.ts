@@ -1,5 +1,6 @@
 import dayjs, { Dayjs } from 'dayjs';
 import { DateStringValue, DateTimeStringValue } from '../../types';
+import { isDateInstant, toTimezoneDateTimeString } from '../timezone/timezone';
 
 // Helper type to determine the return type based on T and the target main type
 type ExactOptionalReturn<T, MainType> = T extends undefined
@@ -8,18 +9,32 @@ type ExactOptionalReturn<T, MainType> = T extends undefined
     ? null
     : MainType;
 
+// Points in time are converted to wall-clock time in the given time zone, wall-clock strings are kept as is
+function toWallClockDate(
+  value: string | number | Date | Dayjs,
+  timezone: string | null | undefined
+): Dayjs {
+  return timezone && isDateInstant(value)
+    ? dayjs(toTimezoneDateTimeString(value, timezone))
+    : dayjs(value);
+}
+
 export function toDateString<T extends string | number | Date | Dayjs | undefined | null>(
-  value: T
+  value: T,
+  timezone?: string | null
 ): ExactOptionalReturn<T, DateStringValue> {
   return (
-    value == null || value === '' ? value : dayjs(value).format('YYYY-MM-DD')
+    value == null || value === '' ? value : toWallClockDate(value, timezone).format('YYYY-MM-DD')
   ) as ExactOptionalReturn<T, DateStringValue>;
 }
 
 export function toDateTimeString<T extends string | number | Date | Dayjs | undefined | null>(
-  value: T
+  value: T,
+  timezone?: string | null
 ): ExactOptionalReturn<T, DateTimeStringValue> {
   return (
-    value == null || value === '' ? value : dayjs(value).format('YYYY-MM-DD HH:mm:ss')
+    value == null || value === ''
+      ? value
+      : toWallClockDate(value, timezone).format('YYYY-MM-DD HH:mm:ss')
   ) as ExactOptionalReturn<T, DateTimeStringValue>;
 }
@@ -0,0 +1,155 @@
+import { isValidElement, useEffect, useRef, useState } from 'react';
+import type { FormEvent, UseFormReturnType } from '../types';
+
+export interface FormDevtoolsProps extends React.ComponentPropsWithoutRef<'div'> {
+  /** Form returned by `useForm` hook */
+  form: UseFormReturnType<any, any>;
+
+  /** Maximum number of events displayed in the timeline @default `50` */
+  maxEvents?: number;
+}
+
+interface FormDevtoolsEvent {
+  id: number;
+  time: number;
+  event: FormEvent<any>;
+}
+
+function stringify(value: unknown) {
+  try {
+    const result = JSON.stringify(
+      value,
+      (_, item) => (isValidElement(item) ? '[ReactElement]' : item),
+      2
+    );
+    return result === undefined ? String(value) : result;
+  } catch {
+    return String(value);
+  }
+}
+
+function getEventLabel(event: FormEvent<any>) {
+  switch (event.type) {
+    case 'setFieldValue':
+      return `setFieldValue ${event.path}: ${stringify(event.previousValue)} → ${stringify(event.value)}`;
+    case 'validate': {
+      const errorsCount = Object.keys(event.errors).length;
+      return `validate ${event.fields ? event.fields.join(', ') : 'all fields'}: ${errorsCount} ${errorsCount === 1 ? 'error' : 'errors'}`;
+    }
+    default:
+      return event.type;
+  }
+}
+
+function formatTime(time: number) {
+  const date = new Date(time);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+const sectionStyle: React.CSSProperties = { margin: 0, padding: '4px 0' };
+const preStyle: React.CSSProperties = { margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-all' };
+
+function FormDevtoolsSection({ title, value }: { title: string; value: unknown }) {
+  return (
+    <details open style={sectionStyle} data-section={title}>
+      <summary>{title}</summary>
+      <pre style={preStyle}>{stringify(value)}</pre>
+    </details>
+  );
+}
+
+export function FormDevtools({ form, maxEvents = 50, style, ...others }: FormDevtoolsProps) {
+  const [events, setEvents] = useState<FormDevtoolsEvent[]>([]);
+  const [injectedValues, setInjectedValues] = useState('');
+  const [injectError, setInjectError] = useState<string | null>(null);
+  const eventId = useRef(0);
+
+  // Each event updates the timeline, which also displays current state of uncontrolled forms
+  useEffect(
+    () =>
+      form.subscribe((event) => {
+        eventId.current += 1;
+        const entry = { id: eventId.current, time: Date.now(), event };
+        setEvents((current) => [entry, ...current].slice(0, maxEvents));
+      }),
+    [form.subscribe, maxEvents]
+  );
+
+  const injectValues = () => {
+    try {
+      form.setValues(JSON.parse(injectedValues));
+      setInjectError(null);
+    } catch (error) {
+      setInjectError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div
+      data-form-devtools
+      style={{ fontFamily: 'monospace', fontSize: 12, lineHeight: 1.5, ...style }}
+      {...others}
+    >
+      <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+        <button type="button" onClick={() => form.reset()}>
+          Reset
+        </button>
+        <button type="button" onClick={() => form.validate()}>
+          Validate
+        </button>
+        <button type="button" onClick={() => setEvents([])}>
+          Clear timeline
+        </button>
+      </div>
+
+      <FormDevtoolsSection title="Values" value={form.getValues()} />
+      <FormDevtoolsSection title="Errors" value={form.errors} />
+      <FormDevtoolsSection title="Touched" value={form.getTouched()} />
+      <FormDevtoolsSection title="Dirty" value={form.getDirty()} />
+      <FormDevtoolsSection
+        title="Status"
+        value={{
+          submitCount: form.submitCount,
+          submitting: form.submitting,
+          isDirty: form.isDirty(),
+          isValidating: form.isValidating(),
+        }}
+      />
+
+      <details open style={sectionStyle} data-section="Timeline">
+        <summary>Timeline</summary>
+        <ol style={{ margin: 0, paddingInlineStart: 16 }} aria-label="Form events">
+          {events.map(({ id, time, event }) => (
+            <li key={id} data-event={event.type}>
+              <span style={{ opacity: 0.6 }}>{formatTime(time)}</span> {getEventLabel(event)}
+            </li>
+          ))}
+        </ol>
+      </details>
+
+      <details style={sectionStyle} data-section="Inject values">
+        <summary>Inject values</summary>
+        <textarea
+          aria-label="Injected values"
+          placeholder='{ "name": "John" }'
+          value={injectedValues}
+          onChange={(event) => setInjectedValues(event.currentTarget.value)}
+          rows={4}
+          style={{
+            display: 'block',
+            width: '100%',
+            boxSizing: 'border-box',
+            fontFamily: 'inherit',
+          }}
+        />
+        {injectError && <div style={{ color: 'red' }}>{injectError}</div>}
+        <button type="button" onClick={injectValues}>
+          Inject values
+        </button>
+      </details>
+    </div>
+  );
+}
+
+FormDevtools.displayName = '@mantine/use-form/FormDevtools';
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Box, Stack } from '@mantine/core';
+import {
+  getJsonSchemaInitialValues,
+  getJsonSchemaType,
+  JsonSchema,
+  JsonSchemaMessages,
+  resolveJsonSchema,
+} from '../json-schema';
+import { getPath } from '../paths';
+import { jsonSchemaResolver } from '../resolvers/json-schema-resolver/json-schema-resolver';
+import type { FormServerErrors, UseFormInput, UseFormReturnType } from '../types';
+import { useForm } from '../use-form';
+import { defaultWidgets } from './default-widgets';
+import type {
+  SchemaFormRenderFieldOptions,
+  SchemaFormWidget,
+  SchemaFormWidgets,
+} from './SchemaForm.types';
+
+export interface SchemaFormProps<Values extends Record<string, any> = Record<string, any>>
+  extends Omit<React.ComponentPropsWithoutRef<'form'>, 'onSubmit' | 'children'> {
+  /** JSON Schema of the form values, root schema must be an object schema */
+  schema: JsonSchema;
+
+  /** Widgets that override default widgets by schema `type` or `format` */
+  widgets?: SchemaFormWidgets;
+
+  /** Initial values, derived from the schema `default` values by default */
+  initialValues?: Values;
+
+  /** Options passed to `useForm`, `mode` is `'uncontrolled'` by default */
+  formOptions?: Omit<UseFormInput<Values>, 'initialValues' | 'validate'>;
+
+  /** Error messages of failed JSON Schema keywords */
+  messages?: Partial<JsonSchemaMessages>;
+
+  /** Called with form values when the form is submitted and values are valid */
+  onSubmit?: (values: Values) => void | Promise<unknown> | FormServerErrors;
+
+  /** Content rendered after fields, for example, submit button. Function is called with the form. */
+  children?: React.ReactNode | ((form: UseFormReturnType<Values>) => React.ReactNode);
+}
+
+function getFieldLabel(path: string) {
+  const key = path.split('.').pop() || '';
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function getWidget(schema: JsonSchema, widgets: SchemaFormWidgets | undefined) {
+  const type = schema.enum ? 'enum' : getJsonSchemaType(schema);
+  const formatWidget = schema.format ? widgets?.formats?.[schema.format] : undefined;
+  const typeWidget = type ? widgets?.types?.[type] || defaultWidgets.types[type] : undefined;
+  return (formatWidget || typeWidget || null) as SchemaFormWidget | null;
+}
+
+export function SchemaForm<Values extends Record<string, any> = Record<string, any>>({
+  schema,
+  widgets,
+  initialValues,
+  formOptions,
+  messages,
+  onSubmit,
+  children,
+  ...others
+}: SchemaFormProps<Values>) {
+  const [resolvedInitialValues] = useState<Values>(
+    () => initialValues ?? getJsonSchemaInitialValues(schema)
+  );
+
+  const form = useForm<Values>({
+    mode: 'uncontrolled',
+    ...formOptions,
+    initialValues: resolvedInitialValues,
+    validate: jsonSchemaResolver(schema, { messages }),
+  });
+
+  const renderField = (
+    fieldSchema: JsonSchema,
+    path: string,
+    options: SchemaFormRenderFieldOptions = {}
+  ): React.ReactNode => {
+    const resolved = resolveJsonSchema(fieldSchema, schema);
+    const Widget = getWidget(resolved, widgets);
+
+    if (!Widget) {
+      return null;
+    }
+
+    return (
+      <Widget
+        schema={resolved}
+        rootSchema={schema}
+        path={path}
+        value={getPath(path, form.getValues())}
+        label={options.label ?? resolved.title ?? getFieldLabel(path)}
+        description={resolved.description}
+        required={!!options.required}
+        form={form}
+        renderField={renderField}
+      />
+    );
+  };
+
+  const rootSchema = resolveJsonSchema(schema, schema);
+  const properties = rootSchema.properties || {};
+
+  return (
+    <form
+      {...others}
+      onSubmit={form.onSubmit((values) => onSubmit?.(values))}
+      onReset={form.onReset}
+    >
+      <Stack gap="md">
+        {Object.keys(properties).map((key) => (
+          <Box key={key}>
+            {renderField(properties[key], key, {
+              required: !!rootSchema.required?.includes(key),
+            })}
+          </Box>
+        ))}
+        {typeof children === 'function' ? children(form) : children}
+      </Stack>
+    </form>
+  );
+}
+
+SchemaForm.displayName = '@mantine/use-form/SchemaForm';
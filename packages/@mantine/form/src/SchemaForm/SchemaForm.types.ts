@@ -0,0 +1,54 @@
+import type { JsonSchema, JsonSchemaType } from '../json-schema';
+import type { UseFormReturnType } from '../types';
+
+export interface SchemaFormRenderFieldOptions {
+  /** Field label, `title` of the schema or field name by default */
+  label?: React.ReactNode;
+
+  /** Determines whether the field is required */
+  required?: boolean;
+}
+
+export interface SchemaFormWidgetProps {
+  /** Schema of the field with resolved `$ref` */
+  schema: JsonSchema;
+
+  /** Root schema, can be used to resolve `$ref` of nested schemas */
+  rootSchema: JsonSchema;
+
+  /** Path of the field in form values, for example, `'address.city'` or `'jobs.0.title'` */
+  path: string;
+
+  /** Value of the field at the time of render */
+  value: unknown;
+
+  /** `title` of the schema or field name converted to sentence case */
+  label: React.ReactNode;
+
+  /** `description` of the schema */
+  description: React.ReactNode;
+
+  /** `true` if the field is listed in `required` of the parent object schema */
+  required: boolean;
+
+  /** Form created by `SchemaForm` */
+  form: UseFormReturnType<any>;
+
+  /** Renders field of the nested schema, used by object and array widgets */
+  renderField: (
+    schema: JsonSchema,
+    path: string,
+    options?: SchemaFormRenderFieldOptions
+  ) => React.ReactNode;
+}
+
+export type SchemaFormWidget = (props: SchemaFormWidgetProps) => React.ReactNode;
+
+/**
+ * Widgets used to render fields. Widget is selected by schema `format` first,
+ * then by `enum` keyword, then by schema `type`. Widgets that are not set fall back to default widgets.
+ */
+export interface SchemaFormWidgets {
+  types?: Partial<Record<JsonSchemaType | 'enum', SchemaFormWidget>>;
+  formats?: Record<string, SchemaFormWidget>;
+}
@@ -0,0 +1,200 @@
+import { useId } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Fieldset,
+  Group,
+  Input,
+  NumberInput,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+} from '@mantine/core';
+import { getJsonSchemaInitialValues } from '../json-schema';
+import type { SchemaFormWidgetProps, SchemaFormWidgets } from './SchemaForm.types';
+
+const INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+  time: 'time',
+};
+
+function getInputProps({ form, path, label, description, required }: SchemaFormWidgetProps) {
+  return {
+    key: form.key(path),
+    label,
+    description,
+    withAsterisk: required,
+    ...form.getInputProps(path),
+  };
+}
+
+function StringWidget(props: SchemaFormWidgetProps) {
+  const { key, ...inputProps } = getInputProps(props);
+
+  return (
+    <TextInput
+      key={key}
+      type={INPUT_TYPES[props.schema.format!] || 'text'}
+      readOnly={props.schema.readOnly}
+      {...inputProps}
+    />
+  );
+}
+
+function NumberWidget(props: SchemaFormWidgetProps) {
+  const { schema } = props;
+  const { key, ...inputProps } = getInputProps(props);
+
+  return (
+    <NumberInput
+      key={key}
+      readOnly={schema.readOnly}
+      min={schema.minimum}
+      max={schema.maximum}
+      step={schema.multipleOf}
+      allowDecimal={schema.type !== 'integer'}
+      {...inputProps}
+    />
+  );
+}
+
+function BooleanWidget({ form, path, schema, label, description }: SchemaFormWidgetProps) {
+  return (
+    <Checkbox
+      key={form.key(path)}
+      label={label}
+      description={description}
+      disabled={schema.readOnly}
+      {...form.getInputProps(path, { type: 'checkbox' })}
+    />
+  );
+}
+
+// Options values are indices of enum items, enum can contain values of any type
+function EnumWidget(props: SchemaFormWidgetProps) {
+  const { form, path, schema, value } = props;
+  const options = schema.enum || [];
+  const index = options.findIndex((option) => option === value);
+  const { key, ...inputProps } = getInputProps(props);
+  const selected = index === -1 ? null : String(index);
+
+  return (
+    <Select
+      key={key}
+      readOnly={schema.readOnly}
+      data={options.map((option, optionIndex) => ({
+        value: String(optionIndex),
+        label: String(option),
+      }))}
+      {...inputProps}
+      // `getInputProps` returns `defaultValue` in uncontrolled mode and `value` in controlled mode
+      {...('defaultValue' in inputProps ? { defaultValue: selected } : { value: selected })}
+      onChange={(option) =>
+        form.setFieldValue(path, option === null ? null : options[Number(option)], {
+          forceUpdate: false,
+        })
+      }
+    />
+  );
+}
+
+interface ObjectFieldsetProps extends SchemaFormWidgetProps {
+  children: React.ReactNode;
+}
+
+function ObjectFieldset({ path, label, description, form, children }: ObjectFieldsetProps) {
+  const id = useId();
+  const error = form.errors[path];
+  const descriptionId = description ? `${id}-description` : undefined;
+  const errorId = error ? `${id}-error` : undefined;
+
+  return (
+    <Fieldset
+      legend={label}
+      aria-describedby={[descriptionId, errorId].filter(Boolean).join(' ') || undefined}
+      data-schema-form-field={path}
+    >
+      <Stack gap="sm">
+        {description && (
+          <Text id={descriptionId} size="sm" c="dimmed">
+            {description}
+          </Text>
+        )}
+        {children}
+        {error && <Input.Error id={errorId}>{error}</Input.Error>}
+      </Stack>
+    </Fieldset>
+  );
+}
+
+function ObjectWidget(props: SchemaFormWidgetProps) {
+  const { schema, path, renderField } = props;
+  const properties = schema.properties || {};
+
+  return (
+    <ObjectFieldset {...props}>
+      {Object.keys(properties).map((key) => (
+        <Box key={key}>
+          {renderField(properties[key], `${path}.${key}`, {
+            required: !!schema.required?.includes(key),
+          })}
+        </Box>
+      ))}
+    </ObjectFieldset>
+  );
+}
+
+function ArrayWidget(props: SchemaFormWidgetProps) {
+  const { schema, rootSchema, path, value, form, renderField } = props;
+  const items = Array.isArray(value) ? value : [];
+  const canRemove = items.length > (schema.minItems ?? 0);
+  const canAdd = schema.maxItems === undefined || items.length < schema.maxItems;
+
+  return (
+    <ObjectFieldset {...props}>
+      {schema.items &&
+        items.map((_, index) => (
+          <Group key={form.getListItemKey(path, index)} align="flex-end" wrap="nowrap">
+            <Box flex={1}>
+              {renderField(schema.items!, `${path}.${index}`, { label: `${index + 1}` })}
+            </Box>
+            <Button
+              variant="default"
+              disabled={!canRemove}
+              onClick={() => form.removeListItem(path, index)}
+            >
+              Remove
+            </Button>
+          </Group>
+        ))}
+      <Group>
+        <Button
+          variant="default"
+          disabled={!canAdd || !schema.items}
+          onClick={() =>
+            form.insertListItem(path, getJsonSchemaInitialValues(schema.items!, rootSchema))
+          }
+        >
+          Add
+        </Button>
+      </Group>
+    </ObjectFieldset>
+  );
+}
+
+export const defaultWidgets: Required<Pick<SchemaFormWidgets, 'types'>> = {
+  types: {
+    string: StringWidget,
+    number: NumberWidget,
+    integer: NumberWidget,
+    boolean: BooleanWidget,
+    enum: EnumWidget,
+    object: ObjectWidget,
+    array: ArrayWidget,
+  },
+};
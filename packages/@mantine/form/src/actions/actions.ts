@@ -1,8 +1,10 @@
 import { useEffect, useLayoutEffect } from 'react';
 import type {
   _TransformValues,
+  AppendListItems,
   ClearErrors,
   ClearFieldError,
+  DuplicateListItem,
   InsertListItem,
   RemoveListItem,
   ReorderListItem,
@@ -15,6 +17,7 @@ import type {
   SetFormStatus,
   SetInitialValues,
   SetValues,
+  SwapListItems,
   UseFormReturnType,
   ValidateField,
 } from '../types';
@@ -73,6 +76,15 @@ export function createFormActions<FormValues extends Record<string, any> = Recor
   const insertListItem: InsertListItem<FormValues> = (path, item, index) =>
     dispatchEvent(`mantine-form:${name}:insert-list-item`, { path, index, item });
 
+  const swapListItems: SwapListItems<FormValues> = (path, payload) =>
+    dispatchEvent(`mantine-form:${name}:swap-list-items`, { path, payload });
+
+  const duplicateListItem: DuplicateListItem<FormValues> = (path, index) =>
+    dispatchEvent(`mantine-form:${name}:duplicate-list-item`, { path, index });
+
+  const appendListItems: AppendListItems<FormValues> = (path, items) =>
+    dispatchEvent(`mantine-form:${name}:append-list-items`, { path, items });
+
   const setDirty: SetFormStatus = (value) => dispatchEvent(`mantine-form:${name}:set-dirty`, value);
 
   const setTouched: SetFormStatus = (value) =>
@@ -97,6 +109,9 @@ export function createFormActions<FormValues extends Record<string, any> = Recor
     reorderListItem,
     removeListItem,
     insertListItem,
+    swapListItems,
+    duplicateListItem,
+    appendListItems,
     setDirty,
     setTouched,
     resetDirty,
@@ -166,6 +181,18 @@ export function useFormActions<
     form.insertListItem(event.detail.path, event.detail.item, event.detail.index)
   );
 
+  useFormEvent(`mantine-form:${name}:swap-list-items`, (event: CustomEvent) =>
+    form.swapListItems(event.detail.path, event.detail.payload)
+  );
+
+  useFormEvent(`mantine-form:${name}:duplicate-list-item`, (event: CustomEvent) =>
+    form.duplicateListItem(event.detail.path, event.detail.index)
+  );
+
+  useFormEvent(`mantine-form:${name}:append-list-items`, (event: CustomEvent) =>
+    form.appendListItems(event.detail.path, event.detail.items)
+  );
+
   useFormEvent(`mantine-form:${name}:set-dirty`, (event: CustomEvent) =>
     form.setDirty(event.detail)
   );
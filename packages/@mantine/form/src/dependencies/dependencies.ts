@@ -0,0 +1,139 @@
+import { klona } from 'klona/full';
+import { getPath } from '../paths';
+import { FormDependencies, FormErrors } from '../types';
+import { isNotEmpty } from '../validators';
+import { getDependencyKey, getDependencyPaths } from './get-dependency-paths';
+
+function isNestedPath(path: string, parentPath: string) {
+  return path === parentPath || path.startsWith(`${parentPath}.`);
+}
+
+function getDependencyEntries<Values>(dependencies: FormDependencies<Values>, values: Values) {
+  return Object.keys(dependencies).flatMap((key) =>
+    getDependencyPaths(key, values).map((path) => ({ path, dependency: dependencies[key]! }))
+  );
+}
+
+/** Returns `true` if the field or any of its parent fields is hidden */
+export function isHiddenField<Values>(
+  dependencies: FormDependencies<Values> | undefined,
+  path: string,
+  values: Values
+) {
+  if (!dependencies) {
+    return false;
+  }
+
+  return getDependencyEntries(dependencies, values).some(
+    ({ path: fieldPath, dependency }) =>
+      !!dependency.visible &&
+      isNestedPath(path, fieldPath) &&
+      !dependency.visible(values, fieldPath)
+  );
+}
+
+export function isRequiredField<Values>(
+  dependencies: FormDependencies<Values> | undefined,
+  path: string,
+  values: Values
+) {
+  const dependency = dependencies?.[path] || dependencies?.[getDependencyKey(path)];
+
+  return (
+    !!dependency?.required &&
+    !isHiddenField(dependencies, path, values) &&
+    dependency.required(values, path)
+  );
+}
+
+/** Returns errors of visible required fields that do not have a value */
+export function getRequiredErrors<Values>(
+  dependencies: FormDependencies<Values> | undefined,
+  values: Values
+): FormErrors {
+  if (!dependencies) {
+    return {};
+  }
+
+  return getDependencyEntries(dependencies, values).reduce<FormErrors>(
+    (acc, { path, dependency }) => {
+      if (isRequiredField(dependencies, path, values)) {
+        const error = isNotEmpty(dependency.requiredError)(getPath(path, values));
+        error && (acc[path] = error);
+      }
+
+      return acc;
+    },
+    {}
+  );
+}
+
+/** Returns paths of fields that depend on the field at the given path */
+export function getDependentFields<Values>(
+  dependencies: FormDependencies<Values> | undefined,
+  path: string,
+  values: Values
+) {
+  if (!dependencies) {
+    return [];
+  }
+
+  const key = getDependencyKey(path);
+
+  return getDependencyEntries(dependencies, values)
+    .filter(({ dependency }) =>
+      (dependency.dependsOn || []).some(
+        (source) => isNestedPath(path, source as string) || isNestedPath(key, source as string)
+      )
+    )
+    .map((entry) => entry.path);
+}
+
+/** Returns a copy of values without values of hidden fields */
+export function omitHiddenFields<Values>(
+  dependencies: FormDependencies<Values> | undefined,
+  values: Values
+): Values {
+  if (!dependencies) {
+    return values;
+  }
+
+  const hiddenPaths = getDependencyEntries(dependencies, values)
+    .filter(({ path }) => isHiddenField(dependencies, path, values))
+    .map((entry) => entry.path);
+
+  if (hiddenPaths.length === 0) {
+    return values;
+  }
+
+  const cloned: any = klona(values);
+
+  hiddenPaths.forEach((path) => {
+    const segments = path.split('.');
+    const parent = getPath(segments.slice(0, -1).join('.'), cloned) as any;
+    const target = segments.length === 1 ? cloned : parent;
+
+    if (target && typeof target === 'object' && !Array.isArray(target)) {
+      delete target[segments[segments.length - 1]];
+    }
+  });
+
+  return cloned;
+}
+
+/** Returns a string that changes when visibility or required state of any field changes */
+export function getDependenciesState<Values>(
+  dependencies: FormDependencies<Values> | undefined,
+  values: Values
+) {
+  if (!dependencies) {
+    return '';
+  }
+
+  return getDependencyEntries(dependencies, values)
+    .map(
+      ({ path }) =>
+        `${path}:${isHiddenField(dependencies, path, values)}:${isRequiredField(dependencies, path, values)}`
+    )
+    .join(';');
+}
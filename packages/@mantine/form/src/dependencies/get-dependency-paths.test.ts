@@ -0,0 +1,27 @@
+import { FORM_INDEX } from '../form-index';
+import { getDependencyKey, getDependencyPaths } from './get-dependency-paths';
+
+describe('@mantine/form/get-dependency-paths', () => {
+  it('returns path without FORM_INDEX as is', () => {
+    expect(getDependencyPaths('a.b', { a: { b: 1 } })).toStrictEqual(['a.b']);
+    expect(getDependencyPaths('c', {})).toStrictEqual(['c']);
+  });
+
+  it('expands FORM_INDEX to indices of list items', () => {
+    const values = { a: [{ b: [1, 2] }, { b: [3] }] };
+    expect(getDependencyPaths(`a.${FORM_INDEX}.b`, values)).toStrictEqual(['a.0.b', 'a.1.b']);
+    expect(getDependencyPaths(`a.${FORM_INDEX}.b.${FORM_INDEX}`, values)).toStrictEqual([
+      'a.0.b.0',
+      'a.0.b.1',
+      'a.1.b.0',
+    ]);
+  });
+
+  it('returns empty array if value at path is not a list', () => {
+    expect(getDependencyPaths(`a.${FORM_INDEX}.b`, { a: 1 })).toStrictEqual([]);
+  });
+
+  it('replaces list indices with FORM_INDEX', () => {
+    expect(getDependencyKey('a.0.b.12.c')).toBe(`a.${FORM_INDEX}.b.${FORM_INDEX}.c`);
+  });
+});
@@ -0,0 +1,28 @@
+import { FORM_INDEX } from '../form-index';
+import { getPath } from '../paths';
+
+/** Expands `FORM_INDEX` placeholders in the dependency path to indices of all list items */
+export function getDependencyPaths(path: string, values: unknown): string[] {
+  const segments = path.split('.');
+  const indexSegment = segments.indexOf(FORM_INDEX);
+
+  if (indexSegment === -1) {
+    return [path];
+  }
+
+  const listPath = segments.slice(0, indexSegment).join('.');
+  const list = getPath(listPath, values);
+
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list.flatMap((_, index) =>
+    getDependencyPaths([listPath, index, ...segments.slice(indexSegment + 1)].join('.'), values)
+  );
+}
+
+/** Replaces list indices in the path with `FORM_INDEX` */
+export function getDependencyKey(path: string) {
+  return path.replace(/[.][0-9]+/g, `.${FORM_INDEX}`);
+}
@@ -0,0 +1,9 @@
+export {
+  isHiddenField,
+  isRequiredField,
+  getRequiredErrors,
+  getDependentFields,
+  omitHiddenFields,
+  getDependenciesState,
+} from './dependencies';
+export { getDependencyPaths, getDependencyKey } from './get-dependency-paths';
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { IsValidating } from '../../types';
+
+export interface FormAsyncValidationResult<Result = React.ReactNode> {
+  error: Result;
+
+  /** `true` if the validation was canceled or replaced with a newer one before it resolved */
+  stale: boolean;
+}
+
+export interface $FormAsyncValidation<Values extends Record<string, any>> {
+  validatingState: Record<string, boolean>;
+  isValidating: IsValidating<Values>;
+  runValidation: <Result = React.ReactNode>(
+    path: string,
+    validation: Promise<Result>
+  ) => Promise<FormAsyncValidationResult<Result>>;
+  scheduleValidation: (path: string, delay: number, callback: () => void) => void;
+  cancelValidation: (path?: unknown) => void;
+}
+
+/** Path of validation that covers the whole form, for example, async schema validation */
+export const FORM_VALIDATION_PATH = '';
+
+function isRelatedPath(path: string, otherPath: string) {
+  return (
+    path === otherPath ||
+    path === FORM_VALIDATION_PATH ||
+    otherPath === FORM_VALIDATION_PATH ||
+    path.startsWith(`${otherPath}.`) ||
+    otherPath.startsWith(`${path}.`)
+  );
+}
+
+export function useFormAsyncValidation<
+  Values extends Record<string, any>,
+>(): $FormAsyncValidation<Values> {
+  const [validatingState, setValidatingState] = useState<Record<string, boolean>>({});
+  const tokensRef = useRef<Record<string, number>>({});
+  const timeoutsRef = useRef<Record<string, number>>({});
+  const activeRef = useRef(new Set<string>());
+
+  const stopValidating = (paths: string[]) => {
+    const activePaths = paths.filter((path) => activeRef.current.delete(path));
+
+    if (activePaths.length === 0) {
+      return;
+    }
+
+    setValidatingState((current) => {
+      const updated = { ...current };
+      activePaths.forEach((path) => delete updated[path]);
+      return updated;
+    });
+  };
+
+  const runValidation = useCallback(<Result>(path: string, validation: Promise<Result>) => {
+    const token = (tokensRef.current[path] || 0) + 1;
+    tokensRef.current[path] = token;
+    activeRef.current.add(path);
+    setValidatingState((current) => ({ ...current, [path]: true }));
+
+    const isStale = () => tokensRef.current[path] !== token;
+
+    // Validating state is cleared even if the validation is rejected, rejection is passed to the caller
+    return validation
+      .finally(() => !isStale() && stopValidating([path]))
+      .then((error) => ({ error, stale: isStale() }));
+  }, []);
+
+  const scheduleValidation = useCallback((path: string, delay: number, callback: () => void) => {
+    window.clearTimeout(timeoutsRef.current[path]);
+    timeoutsRef.current[path] = window.setTimeout(() => {
+      delete timeoutsRef.current[path];
+      callback();
+    }, delay);
+  }, []);
+
+  const cancelValidation = useCallback((path?: unknown) => {
+    const shouldCancel = (key: string) => path === undefined || isRelatedPath(key, path as string);
+
+    Object.keys(timeoutsRef.current)
+      .filter(shouldCancel)
+      .forEach((key) => {
+        window.clearTimeout(timeoutsRef.current[key]);
+        delete timeoutsRef.current[key];
+      });
+
+    const canceled = Object.keys(tokensRef.current).filter(shouldCancel);
+    canceled.forEach((key) => {
+      tokensRef.current[key] += 1;
+    });
+    stopValidating(canceled);
+  }, []);
+
+  const isValidating: IsValidating<Values> = (path) => {
+    const paths = Object.keys(validatingState);
+    return path === undefined
+      ? paths.length > 0
+      : paths.some(
+          (key) =>
+            key === FORM_VALIDATION_PATH || key === path || key.startsWith(`${path as string}.`)
+        );
+  };
+
+  useEffect(
+    () => () => {
+      Object.keys(timeoutsRef.current).forEach((key) =>
+        window.clearTimeout(timeoutsRef.current[key])
+      );
+    },
+    []
+  );
+
+  return { validatingState, isValidating, runValidation, scheduleValidation, cancelValidation };
+}
@@ -0,0 +1,71 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  getDependenciesState,
+  getDependentFields,
+  isHiddenField,
+  isRequiredField,
+} from '../../dependencies';
+import type { FormDependencies, FormMode, IsFieldRequired, IsFieldVisible } from '../../types';
+import type { $FormValues } from '../use-form-values/use-form-values';
+
+export interface $FormDependencies<Values extends Record<string, any>> {
+  isFieldVisible: IsFieldVisible<Values>;
+  isFieldRequired: IsFieldRequired<Values>;
+  getDependentFields: (path: PropertyKey) => string[];
+
+  /** Rerenders uncontrolled form if visibility or required state of any field has changed */
+  syncDependencies: () => void;
+}
+
+interface UseFormDependenciesInput<Values extends Record<string, any>> {
+  dependencies: FormDependencies<Values> | undefined;
+  mode: FormMode;
+  $values: $FormValues<Values>;
+}
+
+export function useFormDependencies<Values extends Record<string, any>>({
+  dependencies,
+  mode,
+  $values,
+}: UseFormDependenciesInput<Values>): $FormDependencies<Values> {
+  const [, setDependenciesState] = useState('');
+  const stateRef = useRef<string | null>(null);
+  const dependenciesRef = useRef(dependencies);
+  dependenciesRef.current = dependencies;
+
+  const isFieldVisible: IsFieldVisible<Values> = useCallback(
+    (path) => !isHiddenField(dependenciesRef.current, path as string, $values.refValues.current),
+    []
+  );
+
+  const isFieldRequired: IsFieldRequired<Values> = useCallback(
+    (path) => isRequiredField(dependenciesRef.current, path as string, $values.refValues.current),
+    []
+  );
+
+  const getDependents = useCallback(
+    (path: PropertyKey) =>
+      getDependentFields(dependenciesRef.current, String(path), $values.refValues.current),
+    []
+  );
+
+  const syncDependencies = useCallback(() => {
+    if (!dependenciesRef.current || mode === 'controlled') {
+      return;
+    }
+
+    const state = getDependenciesState(dependenciesRef.current, $values.refValues.current);
+
+    if (stateRef.current !== null && stateRef.current !== state) {
+      setDependenciesState(state);
+    }
+
+    stateRef.current = state;
+  }, []);
+
+  if (stateRef.current === null && dependencies && mode !== 'controlled') {
+    stateRef.current = getDependenciesState(dependencies, $values.refValues.current);
+  }
+
+  return { isFieldVisible, isFieldRequired, getDependentFields: getDependents, syncDependencies };
+}
@@ -4,27 +4,50 @@ import { filterErrors } from './filter-errors/filter-errors';
 
 export interface $FormErrors<Values extends Record<string, any>> {
   errorsState: FormErrors;
+  rootError: React.ReactNode;
+  setRootError: (error: React.ReactNode) => void;
+  getErrors: () => FormErrors;
   setErrors: SetErrors;
   clearErrors: ClearErrors;
   setFieldError: SetFieldError<Values>;
   clearFieldError: ClearFieldError;
 }
 
+function isShallowEqual(a: FormErrors, b: FormErrors) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
 export function useFormErrors<Values extends Record<string, any>>(
-  initialErrors: FormErrors
+  initialErrors: FormErrors,
+  onErrorsChange?: (errors: FormErrors) => void
 ): $FormErrors<Values> {
   const [errorsState, setErrorsState] = useState(filterErrors(initialErrors));
   const errorsRef = useRef(errorsState);
+  const [rootError, setRootErrorState] = useState<React.ReactNode>(null);
+
+  const setRootError = useCallback(
+    (error: React.ReactNode) => setRootErrorState(error === false ? null : (error ?? null)),
+    []
+  );
+
+  const onErrorsChangeRef = useRef(onErrorsChange);
+  onErrorsChangeRef.current = onErrorsChange;
 
   const setErrors: SetErrors = useCallback((errors) => {
-    setErrorsState((current) => {
-      const newErrors = filterErrors(typeof errors === 'function' ? errors(current) : errors);
-      errorsRef.current = newErrors;
-      return newErrors;
-    });
+    const previousErrors = errorsRef.current;
+    const newErrors = filterErrors(typeof errors === 'function' ? errors(previousErrors) : errors);
+    errorsRef.current = newErrors;
+    setErrorsState(newErrors);
+    !isShallowEqual(previousErrors, newErrors) && onErrorsChangeRef.current?.(newErrors);
   }, []);
 
-  const clearErrors: ClearErrors = useCallback(() => setErrors({}), []);
+  const getErrors = useCallback(() => errorsRef.current, []);
+
+  const clearErrors: ClearErrors = useCallback(() => {
+    setErrors({});
+    setRootError(null);
+  }, []);
 
   const clearFieldError: ClearFieldError = useCallback(
     (path) => {
@@ -54,6 +77,9 @@ export function useFormErrors<Values extends Record<string, any>>(
 
   return {
     errorsState,
+    rootError,
+    setRootError,
+    getErrors,
     setErrors,
     clearErrors,
     setFieldError,
@@ -0,0 +1,59 @@
+import { useCallback, useRef } from 'react';
+import { getPath } from '../../paths';
+import type { FormEvent, FormEventListener, Subscribe } from '../../types';
+
+export interface $FormEvents<Values extends Record<string, any>> {
+  subscribe: Subscribe<Values>;
+  emit: (event: FormEvent<Values>) => void;
+
+  /** Called from `onValuesChange`, emits `setFieldValue` event if the change was made by `withFieldPath` callback */
+  emitValuesChange: (values: Values, previousValues: Values) => void;
+
+  /** Runs callback that changes value of the field at given path */
+  withFieldPath: (path: PropertyKey, callback: () => void) => void;
+}
+
+export function useFormEvents<Values extends Record<string, any>>(): $FormEvents<Values> {
+  const listeners = useRef(new Set<FormEventListener<Values>>());
+  const fieldPathRef = useRef<string | null>(null);
+
+  const subscribe: Subscribe<Values> = useCallback((listener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  const emit = useCallback((event: FormEvent<Values>) => {
+    listeners.current.forEach((listener) => listener(event));
+  }, []);
+
+  const emitValuesChange = useCallback((values: Values, previousValues: Values) => {
+    if (listeners.current.size === 0) {
+      return;
+    }
+
+    const path = fieldPathRef.current;
+    emit(
+      path === null
+        ? { type: 'setValues', values, previousValues }
+        : {
+            type: 'setFieldValue',
+            path,
+            value: getPath(path, values),
+            previousValue: getPath(path, previousValues),
+          }
+    );
+  }, []);
+
+  const withFieldPath = useCallback((path: PropertyKey, callback: () => void) => {
+    fieldPathRef.current = String(path);
+    try {
+      callback();
+    } finally {
+      fieldPathRef.current = null;
+    }
+  }, []);
+
+  return { subscribe, emit, emitValuesChange, withFieldPath };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useRef, useState } from 'react';
+import type { FormErrors, FormHistoryOptions, FormStatus } from '../../types';
+import type { $FormErrors } from '../use-form-errors/use-form-errors';
+import type { $FormStatus } from '../use-form-status/use-form-status';
+import type { $FormValues } from '../use-form-values/use-form-values';
+
+export interface FormHistoryEntry<Values> {
+  values: Values;
+  errors: FormErrors;
+  dirty: FormStatus;
+}
+
+export interface $FormHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  record: (path?: PropertyKey) => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+}
+
+interface UseFormHistoryInput<Values extends Record<string, any>> {
+  history: boolean | FormHistoryOptions | undefined;
+  $values: $FormValues<Values>;
+  $errors: $FormErrors<Values>;
+  $status: $FormStatus<Values>;
+  onRestore: (entry: FormHistoryEntry<Values>) => void;
+}
+
+export function useFormHistory<Values extends Record<string, any>>({
+  history,
+  $values,
+  $errors,
+  $status,
+  onRestore,
+}: UseFormHistoryInput<Values>): $FormHistory {
+  const options: FormHistoryOptions | null = history === true ? {} : history ? history : null;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const pastRef = useRef<FormHistoryEntry<Values>[]>([]);
+  const futureRef = useRef<FormHistoryEntry<Values>[]>([]);
+  const lastChangeRef = useRef<{ path: PropertyKey; time: number } | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const getEntry = (): FormHistoryEntry<Values> => ({
+    values: $values.refValues.current,
+    errors: $errors.getErrors(),
+    dirty: $status.getDirty(),
+  });
+
+  // State is updated only when it changes to avoid rerenders on each change in uncontrolled mode
+  const updateState = () => {
+    setCanUndo(pastRef.current.length > 0);
+    setCanRedo(futureRef.current.length > 0);
+  };
+
+  const record = useCallback((path?: PropertyKey) => {
+    const currentOptions = optionsRef.current;
+
+    if (!currentOptions) {
+      return;
+    }
+
+    const now = Date.now();
+    const lastChange = lastChangeRef.current;
+    const coalesceDelay = currentOptions.coalesceDelay ?? 500;
+    lastChangeRef.current = path === undefined ? null : { path, time: now };
+
+    // Rapid changes of the same field are merged into a single history entry
+    if (path !== undefined && lastChange?.path === path && now - lastChange.time < coalesceDelay) {
+      return;
+    }
+
+    const maxDepth = currentOptions.maxDepth ?? 100;
+    pastRef.current = [...pastRef.current, getEntry()].slice(-maxDepth);
+    futureRef.current = [];
+    updateState();
+  }, []);
+
+  const move = (from: typeof pastRef, to: typeof pastRef) => {
+    const entry = from.current[from.current.length - 1];
+
+    if (!entry) {
+      return;
+    }
+
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, getEntry()];
+    lastChangeRef.current = null;
+    updateState();
+    onRestoreRef.current(entry);
+  };
+
+  const undo = useCallback(() => move(pastRef, futureRef), []);
+  const redo = useCallback(() => move(futureRef, pastRef), []);
+
+  const clearHistory = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    lastChangeRef.current = null;
+    updateState();
+  }, []);
+
+  return { canUndo, canRedo, record, undo, redo, clearHistory };
+}
@@ -1,56 +1,224 @@
-import { useCallback } from 'react';
-import { changeErrorIndices, reorderErrors } from '../../lists';
-import { insertPath, removePath, reorderPath, replacePath } from '../../paths';
-import { InsertListItem, RemoveListItem, ReorderListItem, ReplaceListItem } from '../../types';
+import { useCallback, useRef } from 'react';
+import isEqual from 'fast-deep-equal';
+import { klona } from 'klona/full';
+import { changeErrorIndices, moveListState, reorderErrors } from '../../lists';
+import {
+  getPath,
+  insertPath,
+  removePath,
+  reorderPath,
+  replacePath,
+  setPath,
+  swapPath,
+} from '../../paths';
+import {
+  AppendListItems,
+  DuplicateListItem,
+  GetListItemKey,
+  InsertListItem,
+  RemoveListItem,
+  ReorderListItem,
+  ReplaceListItem,
+  SwapListItems,
+} from '../../types';
 import type { $FormErrors } from '../use-form-errors/use-form-errors';
 import type { $FormStatus } from '../use-form-status/use-form-status';
 import type { $FormValues } from '../use-form-values/use-form-values';
 
+export interface $FormList<Values extends Record<string, any>> {
+  reorderListItem: ReorderListItem<Values>;
+  removeListItem: RemoveListItem<Values>;
+  insertListItem: InsertListItem<Values>;
+  replaceListItem: ReplaceListItem<Values>;
+  swapListItems: SwapListItems<Values>;
+  duplicateListItem: DuplicateListItem<Values>;
+  appendListItems: AppendListItems<Values>;
+  getListItemKey: GetListItemKey<Values>;
+
+  /** Replaces list indices in the given path with keys of list items */
+  getKeyPath: (path: PropertyKey) => string;
+}
+
 interface UseFormListInput<Values extends Record<string, any>> {
   $values: $FormValues<Values>;
   $errors: $FormErrors<Values>;
   $status: $FormStatus<Values>;
 }
 
+type ListStateUpdater = <T extends Record<PropertyKey, any>>(state: T) => T;
+
 export function useFormList<Values extends Record<string, any>>({
   $values,
   $errors,
   $status,
-}: UseFormListInput<Values>) {
+}: UseFormListInput<Values>): $FormList<Values> {
+  // Keys of list items, stored by list path, items paths of nested lists use indices of parent lists
+  const keysRef = useRef<Record<string, string[]>>({});
+  const keyIdRef = useRef(0);
+
+  const createKey = () => {
+    keyIdRef.current += 1;
+    return `item-${keyIdRef.current}`;
+  };
+
+  // Keys are created lazily and synced with list length in case the list was changed with setValues or setFieldValue
+  const getListKeys = (path: string) => {
+    const list = getPath(path, $values.refValues.current);
+
+    if (!Array.isArray(list)) {
+      return null;
+    }
+
+    const keys = (keysRef.current[path] || []).slice(0, list.length);
+    while (keys.length < list.length) {
+      keys.push(createKey());
+    }
+
+    keysRef.current[path] = keys;
+    return keys;
+  };
+
+  const getListItemKey: GetListItemKey<Values> = useCallback((path, index) => {
+    const keys = getListKeys(path as string);
+    return keys?.[index] ?? String(index);
+  }, []);
+
+  const getKeyPath = useCallback((path: PropertyKey) => {
+    const segments = String(path).split('.');
+    return segments
+      .map((segment, index) =>
+        index > 0 && /^\d+$/.test(segment)
+          ? (getListKeys(segments.slice(0, index).join('.'))?.[Number(segment)] ?? segment)
+          : segment
+      )
+      .join('.');
+  }, []);
+
+  const updateList = (
+    path: unknown,
+    values: Values,
+    updateState: ListStateUpdater,
+    updateKeys: (keys: string[]) => string[]
+  ) => {
+    const listPath = path as string;
+    const keys = getListKeys(listPath);
+
+    if (!keys) {
+      return;
+    }
+
+    keysRef.current = { ...updateState(keysRef.current), [listPath]: updateKeys([...keys]) };
+    $errors.setErrors((errs) => updateState(errs));
+    $status.setTouched((touched) => updateState(touched));
+    $status.setDirty((dirty) => ({
+      ...updateState(dirty),
+      [listPath]: !isEqual(
+        getPath(listPath, $values.getValuesSnapshot()),
+        getPath(listPath, values)
+      ),
+    }));
+    $values.setValues({ values, updateState: true });
+  };
+
   const reorderListItem: ReorderListItem<Values> = useCallback((path, payload) => {
-    $status.clearFieldDirty(path);
-    $errors.setErrors((errs) => reorderErrors(path, payload, errs));
-    $values.setValues({
-      values: reorderPath(path, payload, $values.refValues.current),
-      updateState: true,
-    });
+    updateList(
+      path,
+      reorderPath(path, payload, $values.refValues.current),
+      (state) => moveListState(path, payload, state),
+      (keys) => {
+        const [key] = keys.splice(payload.from, 1);
+        keys.splice(payload.to, 0, key);
+        return keys;
+      }
+    );
+  }, []);
+
+  const swapListItems: SwapListItems<Values> = useCallback((path, payload) => {
+    updateList(
+      path,
+      swapPath(path, payload, $values.refValues.current),
+      (state) => reorderErrors(path, payload, state),
+      (keys) => {
+        [keys[payload.from], keys[payload.to]] = [keys[payload.to], keys[payload.from]];
+        return keys;
+      }
+    );
   }, []);
 
   const removeListItem: RemoveListItem<Values> = useCallback((path, index) => {
-    $status.clearFieldDirty(path);
-    $errors.setErrors((errs) => changeErrorIndices(path, index, errs, -1));
-    $values.setValues({
-      values: removePath(path, index, $values.refValues.current),
-      updateState: true,
-    });
+    updateList(
+      path,
+      removePath(path, index, $values.refValues.current),
+      (state) => changeErrorIndices(path, index, state, -1),
+      (keys) => keys.filter((_, keyIndex) => keyIndex !== index)
+    );
   }, []);
 
   const insertListItem: InsertListItem<Values> = useCallback((path, item, index) => {
-    $status.clearFieldDirty(path);
-    $errors.setErrors((errs) => changeErrorIndices(path, index, errs, 1));
-    $values.setValues({
-      values: insertPath(path, item, index, $values.refValues.current),
-      updateState: true,
-    });
+    updateList(
+      path,
+      insertPath(path, item, index, $values.refValues.current),
+      (state) => changeErrorIndices(path, index, state, 1),
+      (keys) => {
+        keys.splice(typeof index === 'number' ? index : keys.length, 0, createKey());
+        return keys;
+      }
+    );
+  }, []);
+
+  const duplicateListItem: DuplicateListItem<Values> = useCallback((path, index) => {
+    const list = getPath(path, $values.refValues.current);
+
+    if (!Array.isArray(list) || !(index in list)) {
+      return;
+    }
+
+    updateList(
+      path,
+      insertPath(path, klona(list[index]), index + 1, $values.refValues.current),
+      (state) => changeErrorIndices(path, index + 1, state, 1),
+      (keys) => {
+        keys.splice(index + 1, 0, createKey());
+        return keys;
+      }
+    );
+  }, []);
+
+  const appendListItems: AppendListItems<Values> = useCallback((path, items) => {
+    const list = getPath(path, $values.refValues.current);
+
+    if (!Array.isArray(list)) {
+      return;
+    }
+
+    updateList(
+      path,
+      setPath(path, [...list, ...items], $values.refValues.current),
+      (state) => state,
+      (keys) => [...keys, ...items.map(() => createKey())]
+    );
   }, []);
 
   const replaceListItem: ReplaceListItem<Values> = useCallback((path, index, item) => {
     $status.clearFieldDirty(path);
+    keysRef.current[path as string] = (getListKeys(path as string) || []).map((key, keyIndex) =>
+      keyIndex === index ? createKey() : key
+    );
     $values.setValues({
       values: replacePath(path, item, index, $values.refValues.current),
       updateState: true,
     });
   }, []);
 
-  return { reorderListItem, removeListItem, insertListItem, replaceListItem };
+  return {
+    reorderListItem,
+    removeListItem,
+    insertListItem,
+    replaceListItem,
+    swapListItems,
+    duplicateListItem,
+    appendListItems,
+    getListItemKey,
+    getKeyPath,
+  };
 }
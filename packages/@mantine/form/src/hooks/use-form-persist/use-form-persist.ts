@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { createStorageHandler, deserializeJSON, serializeJSON } from '@mantine/hooks';
+import type { FormPersistedState, FormPersistOptions } from '../../types';
+import type { $FormStatus } from '../use-form-status/use-form-status';
+import type { $FormValues } from '../use-form-values/use-form-values';
+
+export interface $FormPersist {
+  schedulePersist: () => void;
+  clearPersistedState: () => void;
+}
+
+interface UseFormPersistInput<Values extends Record<string, any>> {
+  name: string | undefined;
+  persist: boolean | FormPersistOptions<Values> | undefined;
+  $values: $FormValues<Values>;
+  $status: $FormStatus<Values>;
+  onRestore: (state: FormPersistedState<Values>) => void;
+}
+
+function isPersistedState(state: unknown): state is FormPersistedState<any> {
+  return (
+    typeof state === 'object' &&
+    state !== null &&
+    typeof (state as FormPersistedState<any>).values === 'object' &&
+    (state as FormPersistedState<any>).values !== null
+  );
+}
+
+export function useFormPersist<Values extends Record<string, any>>({
+  name,
+  persist,
+  $values,
+  $status,
+  onRestore,
+}: UseFormPersistInput<Values>): $FormPersist {
+  const options: FormPersistOptions<Values> | null =
+    persist === true ? {} : persist ? persist : null;
+
+  if (options && !options.key && !name) {
+    throw new Error(
+      '[@mantine/use-form] persist: Form must have "name" or "persist.key" to be persisted'
+    );
+  }
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const restoredRef = useRef(false);
+  const timeoutRef = useRef<number>(-1);
+  const pendingRef = useRef(false);
+
+  const getKey = () => optionsRef.current?.key || `mantine-form-${name}`;
+  const getHandler = () =>
+    createStorageHandler(optionsRef.current?.storage || 'localStorage', 'use-form');
+
+  const write = () => {
+    const currentOptions = optionsRef.current;
+    pendingRef.current = false;
+
+    if (!currentOptions) {
+      return;
+    }
+
+    const serialize =
+      currentOptions.serialize ||
+      ((state: FormPersistedState<Values>) => serializeJSON(state, 'use-form'));
+    getHandler().setItem(
+      getKey(),
+      serialize({
+        version: currentOptions.version ?? 0,
+        values: $values.refValues.current,
+        touched: $status.getTouched(),
+        dirty: $status.getDirty(),
+      })
+    );
+  };
+
+  const flush = () => {
+    if (pendingRef.current) {
+      window.clearTimeout(timeoutRef.current);
+      write();
+    }
+  };
+
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+
+  const schedulePersist = useCallback(() => {
+    if (!optionsRef.current || !restoredRef.current) {
+      return;
+    }
+
+    pendingRef.current = true;
+    window.clearTimeout(timeoutRef.current);
+    timeoutRef.current = window.setTimeout(write, optionsRef.current.debounce ?? 500);
+  }, []);
+
+  const clearPersistedState = useCallback(() => {
+    pendingRef.current = false;
+    window.clearTimeout(timeoutRef.current);
+    optionsRef.current && getHandler().removeItem(getKey());
+  }, []);
+
+  useEffect(() => {
+    const currentOptions = optionsRef.current;
+
+    if (!currentOptions) {
+      return;
+    }
+
+    const storageValue = getHandler().getItem(getKey());
+    const deserialize = currentOptions.deserialize || deserializeJSON;
+    const storedState = storageValue !== null ? deserialize(storageValue) : null;
+    const version = currentOptions.version ?? 0;
+
+    if (isPersistedState(storedState)) {
+      const state =
+        (storedState.version ?? 0) === version
+          ? storedState
+          : currentOptions.migrate
+            ? currentOptions.migrate(storedState)
+            : null;
+
+      if (isPersistedState(state)) {
+        onRestore({
+          version,
+          values: state.values,
+          touched: state.touched || {},
+          dirty: state.dirty || {},
+        });
+      } else {
+        getHandler().removeItem(getKey());
+      }
+    } else if (storageValue !== null) {
+      getHandler().removeItem(getKey());
+    }
+
+    restoredRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    const handlePageHide = () => flushRef.current();
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      flushRef.current();
+    };
+  }, []);
+
+  return { schedulePersist, clearPersistedState };
+}
@@ -42,6 +42,7 @@ interface UseFormStatusInput<Values extends Record<string, any>> {
   initialTouched: FormStatus;
   mode: FormMode;
   $values: $FormValues<Values>;
+  onStatusChange?: (status: { touched?: FormStatus; dirty?: FormStatus }) => void;
 }
 
 export function useFormStatus<Values extends Record<string, any>>({
@@ -49,30 +50,39 @@ export function useFormStatus<Values extends Record<string, any>>({
   initialTouched,
   mode,
   $values,
+  onStatusChange,
 }: UseFormStatusInput<Values>): $FormStatus<Values> {
   const [touchedState, setTouchedState] = useState(initialTouched);
   const [dirtyState, setDirtyState] = useState(initialDirty);
 
   const touchedRef = useRef(initialTouched);
   const dirtyRef = useRef(initialDirty);
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
 
   const setTouched = useCallback((values: FormStatus | ((current: FormStatus) => FormStatus)) => {
     const resolvedValues = typeof values === 'function' ? values(touchedRef.current) : values;
+    const changed = !isEqual(touchedRef.current, resolvedValues);
     touchedRef.current = resolvedValues;
 
     if (mode === 'controlled') {
       setTouchedState(resolvedValues);
     }
+
+    changed && onStatusChangeRef.current?.({ touched: resolvedValues });
   }, []);
 
   const setDirty = useCallback(
     (values: FormStatus | ((current: FormStatus) => FormStatus), forceUpdate = false) => {
       const resolvedValues = typeof values === 'function' ? values(dirtyRef.current) : values;
+      const changed = !isEqual(dirtyRef.current, resolvedValues);
       dirtyRef.current = resolvedValues;
 
       if (mode === 'controlled' || forceUpdate) {
         setDirtyState(resolvedValues);
       }
+
+      changed && onStatusChangeRef.current?.({ dirty: resolvedValues });
     },
     []
   );
@@ -0,0 +1,134 @@
+import { useCallback, useRef, useState } from 'react';
+import type {
+  CanGoToStep,
+  FormDependencies,
+  FormStep,
+  FormValidateInput,
+  GetStepStatus,
+  GoToStep,
+  NextStep,
+  PrevStep,
+} from '../../types';
+import { getSyncFormValidation, isFieldPath } from '../../validate';
+import type { $FormErrors } from '../use-form-errors/use-form-errors';
+import type { $FormStatus } from '../use-form-status/use-form-status';
+import type { $FormValues } from '../use-form-values/use-form-values';
+
+export interface $FormSteps {
+  activeStep: number;
+  nextStep: NextStep;
+  prevStep: PrevStep;
+  goToStep: GoToStep;
+  canGoToStep: CanGoToStep;
+  getStepStatus: GetStepStatus;
+  resetSteps: () => void;
+}
+
+interface UseFormStepsInput<Values extends Record<string, any>> {
+  steps: FormStep<Values>[] | undefined;
+  initialStep: number;
+  rules: FormValidateInput<Values> | undefined;
+  dependencies: FormDependencies<Values> | undefined;
+  $values: $FormValues<Values>;
+  $errors: $FormErrors<Values>;
+  $status: $FormStatus<Values>;
+
+  /** Validates fields at given paths, sets errors, resolves with `true` if fields are valid */
+  validateFields: (fields: string[]) => Promise<boolean>;
+}
+
+export function useFormSteps<Values extends Record<string, any>>({
+  steps = [],
+  initialStep,
+  rules,
+  dependencies,
+  $values,
+  $errors,
+  $status,
+  validateFields,
+}: UseFormStepsInput<Values>): $FormSteps {
+  const [activeStep, setActiveStep] = useState(initialStep);
+  const activeStepRef = useRef(activeStep);
+
+  const updateActiveStep = (step: number) => {
+    activeStepRef.current = step;
+    setActiveStep(step);
+  };
+
+  // Step with index `steps.length` is the completed state, it does not have fields
+  const clampStep = (step: number) => Math.min(Math.max(step, 0), steps.length);
+
+  const getFields = (from: number, to: number) =>
+    steps
+      .slice(from, to)
+      .reduce<string[]>((acc, step) => [...acc, ...(step.fields as string[])], []);
+
+  const navigate = (step: number, fields: string[]) =>
+    validateFields(fields).then((valid) => {
+      valid && updateActiveStep(step);
+      return valid;
+    });
+
+  const nextStep: NextStep = () => {
+    const current = activeStepRef.current;
+
+    if (current >= steps.length) {
+      return Promise.resolve(false);
+    }
+
+    return navigate(current + 1, getFields(current, current + 1));
+  };
+
+  const prevStep: PrevStep = useCallback(() => {
+    updateActiveStep(Math.max(activeStepRef.current - 1, 0));
+  }, []);
+
+  const goToStep: GoToStep = (step) => {
+    const target = clampStep(step);
+
+    if (target <= activeStepRef.current) {
+      updateActiveStep(target);
+      return Promise.resolve(true);
+    }
+
+    return navigate(target, getFields(0, target));
+  };
+
+  const canGoToStep: CanGoToStep = (step) => {
+    if (step < 0 || step > steps.length) {
+      return false;
+    }
+
+    if (step <= activeStepRef.current) {
+      return true;
+    }
+
+    const fields = getFields(0, step);
+    const isInScope = (path: string) => fields.some((field) => isFieldPath(field, path));
+    const results = getSyncFormValidation(
+      rules,
+      $values.refValues.current,
+      isInScope,
+      dependencies
+    );
+    return !Object.keys(results.errors).some(isInScope);
+  };
+
+  const getStepStatus: GetStepStatus = (step) => {
+    const fields = getFields(step, step + 1);
+    const errors = Object.keys($errors.errorsState)
+      .filter((path) => fields.some((field) => isFieldPath(field, path)))
+      .reduce((acc, path) => ({ ...acc, [path]: $errors.errorsState[path] }), {});
+
+    return {
+      hasErrors: Object.keys(errors).length > 0,
+      errors,
+      dirty: fields.some((field) => $status.isDirty(field)),
+      touched: fields.some((field) => $status.isTouched(field)),
+    };
+  };
+
+  const resetSteps = useCallback(() => updateActiveStep(initialStep), [initialStep]);
+
+  return { activeStep, nextStep, prevStep, goToStep, canGoToStep, getStepStatus, resetSteps };
+}
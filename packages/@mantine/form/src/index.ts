@@ -2,16 +2,34 @@ export { useForm } from './use-form.js';
 export { createFormContext } from './FormProvider/FormProvider.js';
 export { createFormActions } from './actions/index.js';
 export { Form } from './Form/Form.js';
+export { FormDevtools } from './FormDevtools/FormDevtools.js';
 export { FORM_INDEX } from './form-index.js';
 export * from './validators/index.js';
 export { useField } from './use-field.js';
+export { useFormSelector } from './use-form-selector.js';
 export { formRootRule } from './validate/validate-values.js';
+export { serverErrors } from './server-errors/server-errors.js';
+export { getJsonSchemaInitialValues, validateJsonSchema } from './json-schema/index.js';
 
 export { zodResolver } from './resolvers/zod-resolver/zod-resolver';
 export { superstructResolver } from './resolvers/superstruct-resolver/superstruct-resolver';
 export { yupResolver } from './resolvers/yup-resolver/yup-resolver';
 export { joiResolver } from './resolvers/joi-resolver/joi-resolver';
+export { standardSchemaResolver } from './resolvers/standard-schema-resolver/standard-schema-resolver';
+export { jsonSchemaResolver } from './resolvers/json-schema-resolver/json-schema-resolver';
 
 export type * from './types';
 export type { UseFieldInput, UseFieldReturnType } from './use-field';
+export type { FormDevtoolsProps } from './FormDevtools/FormDevtools';
+export type {
+  JsonSchema,
+  JsonSchemaErrorKeyword,
+  JsonSchemaMessages,
+  JsonSchemaType,
+  ValidateJsonSchemaOptions,
+} from './json-schema';
 export type { FormArrayElement, LooseKeys } from './paths.types.js';
+export type {
+  StandardSchemaInput,
+  StandardSchemaV1,
+} from './resolvers/standard-schema-resolver/standard-schema-resolver';
@@ -0,0 +1,59 @@
+import { getJsonSchemaInitialValues } from './get-json-schema-initial-values';
+import { JsonSchema } from './json-schema';
+
+describe('@mantine/form/get-json-schema-initial-values', () => {
+  it('returns empty values of schema types', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        active: { type: 'boolean' },
+        role: { type: 'string', enum: ['admin', 'user'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        address: { type: 'object', properties: { city: { type: 'string' } } },
+        nothing: { type: 'null' },
+      },
+    };
+
+    expect(getJsonSchemaInitialValues(schema)).toStrictEqual({
+      name: '',
+      age: '',
+      active: false,
+      role: null,
+      tags: [],
+      address: { city: '' },
+      nothing: null,
+    });
+  });
+
+  it('uses default and const values', () => {
+    const defaultValue = [{ title: 'Engineer' }];
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', default: 'John' },
+        kind: { const: 'person' },
+        jobs: { type: 'array', default: defaultValue },
+      },
+    };
+
+    const values = getJsonSchemaInitialValues(schema);
+    expect(values).toStrictEqual({ name: 'John', kind: 'person', jobs: [{ title: 'Engineer' }] });
+    expect(values.jobs).not.toBe(defaultValue);
+  });
+
+  it('creates minItems items and resolves references', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      $defs: { job: { type: 'object', properties: { title: { type: 'string' } } } },
+      properties: {
+        jobs: { type: 'array', minItems: 2, items: { $ref: '#/$defs/job' } },
+      },
+    };
+
+    expect(getJsonSchemaInitialValues(schema)).toStrictEqual({
+      jobs: [{ title: '' }, { title: '' }],
+    });
+  });
+});
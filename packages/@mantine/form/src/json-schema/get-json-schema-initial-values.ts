@@ -0,0 +1,44 @@
+import { klona } from 'klona/full';
+import { getJsonSchemaType, JsonSchema, resolveJsonSchema } from './json-schema';
+
+/**
+ * Returns initial value of the schema: `default` if it is set, otherwise an empty value of the schema type:
+ * `''` for strings and numbers, `false` for booleans, `null` for enums, `minItems` empty items for arrays
+ */
+export function getJsonSchemaInitialValues(schema: JsonSchema, root: JsonSchema = schema): any {
+  const resolved = resolveJsonSchema(schema, root);
+
+  if (resolved.default !== undefined) {
+    return klona(resolved.default);
+  }
+
+  if (resolved.const !== undefined) {
+    return klona(resolved.const);
+  }
+
+  if (resolved.enum) {
+    return null;
+  }
+
+  switch (getJsonSchemaType(resolved)) {
+    case 'object':
+      return Object.keys(resolved.properties || {}).reduce<Record<string, any>>((acc, key) => {
+        acc[key] = getJsonSchemaInitialValues(resolved.properties![key], root);
+        return acc;
+      }, {});
+
+    case 'array':
+      return Array.from({ length: resolved.minItems || 0 }, () =>
+        resolved.items ? getJsonSchemaInitialValues(resolved.items, root) : null
+      );
+
+    case 'boolean':
+      return false;
+
+    case 'null':
+      return null;
+
+    default:
+      return '';
+  }
+}
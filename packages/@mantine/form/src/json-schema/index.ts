@@ -0,0 +1,10 @@
+export { getJsonSchemaInitialValues } from './get-json-schema-initial-values';
+export { getJsonSchemaType, isJsonSchemaNullable, resolveJsonSchema } from './json-schema';
+export { defaultJsonSchemaMessages, validateJsonSchema } from './validate-json-schema';
+
+export type { JsonSchema, JsonSchemaType } from './json-schema';
+export type {
+  JsonSchemaErrorKeyword,
+  JsonSchemaMessages,
+  ValidateJsonSchemaOptions,
+} from './validate-json-schema';
@@ -0,0 +1,100 @@
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/** Subset of JSON Schema draft 2020-12 keywords supported by `jsonSchemaResolver` and `SchemaForm` */
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  readOnly?: boolean;
+
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+}
+
+function decodePointerSegment(segment: string) {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/** Resolves local `$ref` (`#/$defs/name`, `#/definitions/name` or any other JSON pointer) against the root schema */
+export function resolveJsonSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let resolved = schema;
+  const visited = new Set<string>();
+
+  while (resolved.$ref) {
+    const ref = resolved.$ref;
+
+    if (!ref.startsWith('#') || visited.has(ref)) {
+      throw new Error(`[@mantine/use-form] Unable to resolve JSON Schema reference ${ref}`);
+    }
+
+    visited.add(ref);
+    const target = ref
+      .slice(1)
+      .split('/')
+      .filter(Boolean)
+      .map(decodePointerSegment)
+      .reduce<any>((acc, segment) => acc?.[segment], root);
+
+    if (!target || typeof target !== 'object') {
+      throw new Error(`[@mantine/use-form] Unable to resolve JSON Schema reference ${ref}`);
+    }
+
+    const { $ref, ...rest } = resolved;
+    resolved = { ...target, ...rest };
+  }
+
+  return resolved;
+}
+
+/** Returns the first non-null type of the schema, type is inferred from other keywords if it is not set */
+export function getJsonSchemaType(schema: JsonSchema): JsonSchemaType | null {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find((item) => item !== 'null');
+
+  if (type) {
+    return type;
+  }
+
+  if (schema.properties) {
+    return 'object';
+  }
+
+  if (schema.items) {
+    return 'array';
+  }
+
+  return types.includes('null') ? 'null' : null;
+}
+
+export function isJsonSchemaNullable(schema: JsonSchema) {
+  return Array.isArray(schema.type) && schema.type.includes('null');
+}
@@ -0,0 +1,118 @@
+import { JsonSchema } from './json-schema';
+import { validateJsonSchema } from './validate-json-schema';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'email', 'age'],
+  $defs: {
+    job: {
+      type: 'object',
+      required: ['title'],
+      properties: { title: { type: 'string', minLength: 2 } },
+    },
+  },
+  properties: {
+    name: { type: 'string', minLength: 2, maxLength: 5 },
+    email: { type: 'string', format: 'email' },
+    age: { type: 'integer', minimum: 18, maximum: 99 },
+    website: { type: 'string', format: 'uri' },
+    code: { type: 'string', pattern: '^[A-Z]{3}$' },
+    role: { enum: ['admin', 'user'] },
+    price: { type: 'number', exclusiveMinimum: 0, multipleOf: 0.01 },
+    jobs: { type: 'array', maxItems: 2, items: { $ref: '#/$defs/job' } },
+    tags: { type: 'array', uniqueItems: true, items: { type: 'string' } },
+    nickname: { type: ['string', 'null'] },
+  },
+};
+
+describe('@mantine/form/validate-json-schema', () => {
+  it('returns empty object for valid values', () => {
+    expect(
+      validateJsonSchema(schema, {
+        name: 'John',
+        email: 'john@example.com',
+        age: 30,
+        website: 'https://mantine.dev',
+        code: 'ABC',
+        role: 'admin',
+        price: 9.99,
+        jobs: [{ title: 'Engineer' }],
+        tags: ['a', 'b'],
+        nickname: null,
+      })
+    ).toStrictEqual({});
+  });
+
+  it('returns errors of invalid fields', () => {
+    expect(
+      validateJsonSchema(schema, {
+        name: 'J',
+        email: 'john',
+        age: 12.5,
+        website: 'mantine',
+        code: 'abc',
+        role: 'guest',
+        price: 0,
+        jobs: [{ title: 'E' }, { title: '' }],
+        tags: ['a', 'a'],
+      })
+    ).toStrictEqual({
+      name: 'Must be at least 2 characters',
+      email: 'Invalid email',
+      age: 'Invalid value, expected integer',
+      website: 'Invalid uri',
+      code: 'Invalid format',
+      role: 'Invalid value',
+      price: 'Must be greater than 0',
+      'jobs.0.title': 'Must be at least 2 characters',
+      'jobs.1.title': 'Required',
+      tags: 'Items must be unique',
+    });
+  });
+
+  it('skips empty optional fields and reports empty required fields', () => {
+    expect(
+      validateJsonSchema(schema, { name: '', email: null, age: '', website: '' })
+    ).toStrictEqual({ name: 'Required', email: 'Required', age: 'Required' });
+  });
+
+  it('validates numbers ranges and array length', () => {
+    const errors = validateJsonSchema(schema, {
+      name: 'John',
+      email: 'john@example.com',
+      age: 100,
+      price: 1.001,
+      jobs: [{ title: 'a1' }, { title: 'a2' }, { title: 'a3' }],
+    });
+
+    expect(errors).toStrictEqual({
+      age: 'Must be less than or equal to 99',
+      price: 'Must be a multiple of 0.01',
+      jobs: 'Must have at most 2 items',
+    });
+  });
+
+  it('supports custom messages', () => {
+    expect(
+      validateJsonSchema(
+        schema,
+        { name: 'J', email: '', age: 30 },
+        {
+          messages: {
+            required: () => 'Field is required',
+            minLength: (field) => `min ${field.minLength}`,
+          },
+        }
+      )
+    ).toStrictEqual({ name: 'min 2', email: 'Field is required' });
+  });
+
+  it('throws error if reference cannot be resolved', () => {
+    expect(() =>
+      validateJsonSchema(
+        { type: 'object', properties: { a: { $ref: '#/$defs/missing' } } },
+        { a: 1 }
+      )
+    ).toThrow('[@mantine/use-form] Unable to resolve JSON Schema reference #/$defs/missing');
+  });
+});
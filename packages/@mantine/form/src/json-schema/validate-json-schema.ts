@@ -0,0 +1,253 @@
+import isEqual from 'fast-deep-equal';
+import type { FormErrors } from '../types';
+import {
+  getJsonSchemaType,
+  isJsonSchemaNullable,
+  JsonSchema,
+  resolveJsonSchema,
+} from './json-schema';
+
+export type JsonSchemaErrorKeyword =
+  | 'required'
+  | 'type'
+  | 'enum'
+  | 'const'
+  | 'format'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'minimum'
+  | 'maximum'
+  | 'exclusiveMinimum'
+  | 'exclusiveMaximum'
+  | 'multipleOf'
+  | 'minItems'
+  | 'maxItems'
+  | 'uniqueItems';
+
+/** Functions that return error messages of failed keywords, called with resolved schema of the field */
+export type JsonSchemaMessages = Record<
+  JsonSchemaErrorKeyword,
+  (schema: JsonSchema) => React.ReactNode
+>;
+
+export const defaultJsonSchemaMessages: JsonSchemaMessages = {
+  required: () => 'Required',
+  type: (schema) => `Invalid value, expected ${getJsonSchemaType(schema)}`,
+  enum: () => 'Invalid value',
+  const: () => 'Invalid value',
+  format: (schema) => `Invalid ${schema.format}`,
+  minLength: (schema) => `Must be at least ${schema.minLength} characters`,
+  maxLength: (schema) => `Must be at most ${schema.maxLength} characters`,
+  pattern: () => 'Invalid format',
+  minimum: (schema) => `Must be greater than or equal to ${schema.minimum}`,
+  maximum: (schema) => `Must be less than or equal to ${schema.maximum}`,
+  exclusiveMinimum: (schema) => `Must be greater than ${schema.exclusiveMinimum}`,
+  exclusiveMaximum: (schema) => `Must be less than ${schema.exclusiveMaximum}`,
+  multipleOf: (schema) => `Must be a multiple of ${schema.multipleOf}`,
+  minItems: (schema) => `Must have at least ${schema.minItems} items`,
+  maxItems: (schema) => `Must have at most ${schema.maxItems} items`,
+  uniqueItems: () => 'Items must be unique',
+};
+
+export interface ValidateJsonSchemaOptions {
+  /** Root schema used to resolve `$ref`, the validated schema by default */
+  root?: JsonSchema;
+
+  /** Error messages of failed keywords, merged with default messages */
+  messages?: Partial<JsonSchemaMessages>;
+}
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  email: (value) => /^\S+@\S+\.\S+$/.test(value),
+  uri: (value) => {
+    try {
+      return !!new URL(value);
+    } catch {
+      return false;
+    }
+  },
+  date: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  'date-time': (value) => /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)),
+  time: (value) => /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/.test(value),
+};
+
+function isEmptyValue(value: unknown) {
+  return value === undefined || value === null || value === '';
+}
+
+function joinPath(path: string, key: string | number) {
+  return path === '' ? String(key) : `${path}.${key}`;
+}
+
+function getStringError(schema: JsonSchema, value: string): JsonSchemaErrorKeyword | null {
+  const length = Array.from(value).length;
+
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    return 'minLength';
+  }
+
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    return 'maxLength';
+  }
+
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    return 'pattern';
+  }
+
+  if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format](value)) {
+    return 'format';
+  }
+
+  return null;
+}
+
+function getNumberError(schema: JsonSchema, value: number): JsonSchemaErrorKeyword | null {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return 'minimum';
+  }
+
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return 'maximum';
+  }
+
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    return 'exclusiveMinimum';
+  }
+
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    return 'exclusiveMaximum';
+  }
+
+  if (schema.multipleOf !== undefined) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      return 'multipleOf';
+    }
+  }
+
+  return null;
+}
+
+function isTypeValid(type: ReturnType<typeof getJsonSchemaType>, value: unknown) {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function getFieldError(schema: JsonSchema, value: unknown): JsonSchemaErrorKeyword | null {
+  const type = getJsonSchemaType(schema);
+
+  if (!isTypeValid(type, value)) {
+    return 'type';
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    return 'const';
+  }
+
+  if (schema.enum && !schema.enum.some((item) => isEqual(item, value))) {
+    return 'enum';
+  }
+
+  if (typeof value === 'string') {
+    return getStringError(schema, value);
+  }
+
+  if (typeof value === 'number') {
+    return getNumberError(schema, value);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return 'minItems';
+    }
+
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return 'maxItems';
+    }
+
+    if (
+      schema.uniqueItems &&
+      value.some((item, index) => value.findIndex((other) => isEqual(other, item)) !== index)
+    ) {
+      return 'uniqueItems';
+    }
+  }
+
+  return null;
+}
+
+function collectErrors(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  required: boolean,
+  options: Required<ValidateJsonSchemaOptions> & { messages: JsonSchemaMessages },
+  errors: FormErrors
+) {
+  const resolved = resolveJsonSchema(schema, options.root);
+
+  if (isEmptyValue(value)) {
+    if (required && !(value === null && isJsonSchemaNullable(resolved))) {
+      errors[path] = options.messages.required(resolved);
+    }
+
+    return;
+  }
+
+  const keyword = getFieldError(resolved, value);
+
+  if (keyword) {
+    errors[path] = options.messages[keyword](resolved);
+    return;
+  }
+
+  if (Array.isArray(value) && resolved.items) {
+    value.forEach((item, index) =>
+      collectErrors(resolved.items!, item, joinPath(path, index), false, options, errors)
+    );
+  } else if (resolved.properties && typeof value === 'object') {
+    Object.keys(resolved.properties).forEach((key) =>
+      collectErrors(
+        resolved.properties![key],
+        (value as Record<string, unknown>)[key],
+        joinPath(path, key),
+        !!resolved.required?.includes(key),
+        options,
+        errors
+      )
+    );
+  }
+}
+
+/** Validates values with JSON Schema, returns errors object with paths of invalid fields as keys */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  values: unknown,
+  { root = schema, messages }: ValidateJsonSchemaOptions = {}
+): FormErrors {
+  const errors: FormErrors = {};
+  collectErrors(
+    schema,
+    values,
+    '',
+    true,
+    { root, messages: { ...defaultJsonSchemaMessages, ...messages } },
+    errors
+  );
+  return errors;
+}
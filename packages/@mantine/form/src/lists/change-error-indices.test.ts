@@ -114,4 +114,10 @@ describe('@mantine/form/change-error-indices', () => {
       expect(changeErrorIndices('fruits', 100, TEST_ERRORS, 1)).toStrictEqual(TEST_ERRORS);
     });
   });
+
+  it('removes error of the removed element itself', () => {
+    expect(
+      changeErrorIndices('a', 1, { 'a.0': 'error-0', 'a.1': 'error-1', 'a.2': 'error-2' }, -1)
+    ).toStrictEqual({ 'a.0': 'error-0', 'a.1': 'error-2' });
+  });
 });
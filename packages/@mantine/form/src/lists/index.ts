@@ -1,3 +1,4 @@
 export { clearListState } from './clear-list-state';
 export { changeErrorIndices } from './change-error-indices';
 export { reorderErrors } from './reorder-errors';
+export { moveListState } from './move-list-state';
@@ -0,0 +1,33 @@
+import { moveListState } from './move-list-state';
+
+describe('@mantine/form/move-list-state', () => {
+  it('moves state of the item and shifts state of items in between', () => {
+    expect(
+      moveListState(
+        'a',
+        { from: 2, to: 0 },
+        { 'a.0.b': 'error-0', 'a.1.b': 'error-1', 'a.2.b': 'error-2', 'a.3.b': 'error-3' }
+      )
+    ).toStrictEqual({
+      'a.1.b': 'error-0',
+      'a.2.b': 'error-1',
+      'a.0.b': 'error-2',
+      'a.3.b': 'error-3',
+    });
+
+    expect(
+      moveListState('a', { from: 0, to: 2 }, { 'a.0': true, 'a.1.b.c': true, 'a.3': true })
+    ).toStrictEqual({ 'a.2': true, 'a.0.b.c': true, 'a.3': true });
+  });
+
+  it('does not change state of other paths', () => {
+    const state = { 'ab.0': true, b: true, 'c.0.a.1': true };
+    expect(moveListState('a', { from: 0, to: 1 }, state)).toStrictEqual(state);
+  });
+
+  it('moves state of nested lists', () => {
+    expect(
+      moveListState('a.1.b', { from: 1, to: 0 }, { 'a.1.b.1.c': 'error', 'a.0.b.1.c': 'other' })
+    ).toStrictEqual({ 'a.1.b.0.c': 'error', 'a.0.b.1.c': 'other' });
+  });
+});
@@ -0,0 +1,45 @@
+import { ReorderPayload } from '../types';
+
+function getMovedIndex(index: number, { from, to }: ReorderPayload) {
+  if (index === from) {
+    return to;
+  }
+
+  if (from < to && index > from && index <= to) {
+    return index - 1;
+  }
+
+  if (from > to && index >= to && index < from) {
+    return index + 1;
+  }
+
+  return index;
+}
+
+/**
+ * Moves state (errors, touched, dirty) of the list item at `from` index to `to` index,
+ * state of items between `from` and `to` is shifted the same way as list items are
+ */
+export function moveListState<T extends Record<PropertyKey, any>>(
+  path: PropertyKey,
+  payload: ReorderPayload,
+  state: T
+): T {
+  const prefix = `${String(path)}.`;
+  const result: Record<PropertyKey, any> = {};
+
+  Object.keys(state).forEach((key) => {
+    const [indexPart, ...rest] = key.substring(prefix.length).split('.');
+    const index = parseInt(indexPart, 10);
+
+    if (!key.startsWith(prefix) || Number.isNaN(index)) {
+      result[key] = state[key];
+      return;
+    }
+
+    const movedKey = [`${prefix}${getMovedIndex(index, payload)}`, ...rest].join('.');
+    result[movedKey] = state[key];
+  });
+
+  return result as T;
+}
@@ -5,3 +5,5 @@ export { insertPath } from './insert-path';
 export { removePath } from './remove-path';
 export { getDataPath } from './get-data-path';
 export { replacePath } from './replace-path';
+export { normalizePath } from './normalize-path';
+export { swapPath } from './swap-path';
@@ -0,0 +1,22 @@
+import { normalizePath } from './normalize-path';
+
+describe('@mantine/form/normalize-path', () => {
+  it('keeps dot notation paths', () => {
+    expect(normalizePath('name')).toBe('name');
+    expect(normalizePath('items.2.name')).toBe('items.2.name');
+  });
+
+  it('converts bracket notation to dot notation', () => {
+    expect(normalizePath('items[2].name')).toBe('items.2.name');
+    expect(normalizePath('items[2][name]')).toBe('items.2.name');
+    expect(normalizePath("items['first'].name")).toBe('items.first.name');
+    expect(normalizePath('[0].name')).toBe('0.name');
+  });
+
+  it('converts JSON pointer to dot notation', () => {
+    expect(normalizePath('/items/2/name')).toBe('items.2.name');
+    expect(normalizePath('#/items/2/name')).toBe('items.2.name');
+    expect(normalizePath('/a~1b/c~0d')).toBe('a/b.c~d');
+    expect(normalizePath('#')).toBe('');
+  });
+});
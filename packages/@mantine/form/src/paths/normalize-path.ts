@@ -0,0 +1,20 @@
+function decodePointerPart(part: string) {
+  return part.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/** Converts bracket (`items[2].name`) and JSON pointer (`/items/2/name`) notations to dot notation (`items.2.name`) */
+export function normalizePath(path: string) {
+  if (path === '#' || path === '/') {
+    return '';
+  }
+
+  if (path.startsWith('#/') || path.startsWith('/')) {
+    return path
+      .slice(path.indexOf('/') + 1)
+      .split('/')
+      .map(decodePointerPart)
+      .join('.');
+  }
+
+  return path.replace(/\[\s*(['"]?)(.*?)\1\s*\]/g, '.$2').replace(/^\./, '');
+}
@@ -0,0 +1,21 @@
+import { swapPath } from './swap-path';
+
+describe('@mantine/form/swap-path', () => {
+  it('swaps array items at given root path', () => {
+    expect(swapPath('a', { from: 2, to: 0 }, { a: [1, 2, 3] })).toStrictEqual({ a: [3, 2, 1] });
+    expect(swapPath('a', { from: 1, to: 2 }, { a: [1, 2, 3] })).toStrictEqual({ a: [1, 3, 2] });
+  });
+
+  it('swaps array items at given nested path', () => {
+    expect(
+      swapPath('a.0.b', { from: 2, to: 0 }, { a: [{ b: [1, 2, 3] }, { b: [1, 2, 3] }] })
+    ).toStrictEqual({
+      a: [{ b: [3, 2, 1] }, { b: [1, 2, 3] }],
+    });
+  });
+
+  it('returns unchanged object if path does not exist or index is out of range', () => {
+    expect(swapPath('c', { from: 1, to: 2 }, { a: 1, b: 2 })).toStrictEqual({ a: 1, b: 2 });
+    expect(swapPath('a', { from: 0, to: 3 }, { a: [1, 2, 3] })).toStrictEqual({ a: [1, 2, 3] });
+  });
+});
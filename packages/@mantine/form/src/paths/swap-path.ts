@@ -0,0 +1,17 @@
+import { ReorderPayload } from '../types';
+import { getPath } from './get-path';
+import { setPath } from './set-path';
+
+export function swapPath<T>(path: unknown, { from, to }: ReorderPayload, values: T) {
+  const currentValue = getPath(path, values);
+
+  if (!Array.isArray(currentValue) || !(from in currentValue) || !(to in currentValue)) {
+    return values;
+  }
+
+  const cloned = [...currentValue];
+  cloned[from] = currentValue[to];
+  cloned[to] = currentValue[from];
+
+  return setPath(path, cloned, values);
+}
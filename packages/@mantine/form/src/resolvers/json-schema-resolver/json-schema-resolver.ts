@@ -0,0 +1,10 @@
+import { JsonSchema, validateJsonSchema, ValidateJsonSchemaOptions } from '../../json-schema';
+import type { FormErrors } from '../../types';
+
+/** Validates form values with JSON Schema (draft 2020-12 subset), errors of nested fields use dot-separated paths */
+export function jsonSchemaResolver<T extends Record<string, any>>(
+  schema: JsonSchema,
+  options?: Omit<ValidateJsonSchemaOptions, 'root'>
+) {
+  return (values: T): FormErrors => validateJsonSchema(schema, values, options);
+}
@@ -0,0 +1,60 @@
+import type { FormErrors } from '../../types';
+
+interface StandardSchemaPathSegment {
+  readonly key: PropertyKey;
+}
+
+interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment> | undefined;
+}
+
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/** Standard Schema interface, see https://standardschema.dev */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+export type StandardSchemaInput<Schema extends StandardSchemaV1> = NonNullable<
+  Schema['~standard']['types']
+>['input'];
+
+function getIssuePath(issue: StandardSchemaIssue) {
+  return (issue.path || [])
+    .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.');
+}
+
+function getIssuesErrors(result: StandardSchemaResult<unknown>): FormErrors {
+  const errors: FormErrors = {};
+
+  (result.issues || []).forEach((issue) => {
+    const path = getIssuePath(issue);
+    errors[path] = errors[path] ?? issue.message;
+  });
+
+  return errors;
+}
+
+/**
+ * Creates validation function for any library that implements Standard Schema (zod, valibot, arktype, etc.),
+ * returns a promise if the schema validates asynchronously
+ */
+export function standardSchemaResolver<Schema extends StandardSchemaV1<Record<string, any>>>(
+  schema: Schema
+) {
+  return (values: StandardSchemaInput<Schema>): FormErrors | Promise<FormErrors> => {
+    const result = schema['~standard'].validate(values);
+    return result instanceof Promise ? result.then(getIssuesErrors) : getIssuesErrors(result);
+  };
+}
@@ -0,0 +1,9 @@
+export { SchemaForm } from './SchemaForm/SchemaForm.js';
+
+export type { SchemaFormProps } from './SchemaForm/SchemaForm';
+export type {
+  SchemaFormRenderFieldOptions,
+  SchemaFormWidget,
+  SchemaFormWidgetProps,
+  SchemaFormWidgets,
+} from './SchemaForm/SchemaForm.types';
@@ -0,0 +1,87 @@
+import { isServerErrors, serverErrors } from './server-errors';
+
+describe('@mantine/form/server-errors', () => {
+  it('maps flat errors map with different path notations', () => {
+    expect(
+      serverErrors({
+        name: 'Name is required',
+        'items[2].name': ['Item name is too short', 'Item name is invalid'],
+        '/user/email': 'Invalid email',
+      })
+    ).toStrictEqual({
+      errors: {
+        name: 'Name is required',
+        'items.2.name': 'Item name is too short',
+        'user.email': 'Invalid email',
+      },
+      rootError: null,
+    });
+  });
+
+  it('flattens nested errors objects', () => {
+    expect(
+      serverErrors({ user: { email: 'Invalid email' }, items: [null, { name: 'Required' }] })
+    ).toStrictEqual({
+      errors: { 'user.email': 'Invalid email', 'items.1.name': 'Required' },
+      rootError: null,
+    });
+  });
+
+  it('maps errors with message', () => {
+    expect(
+      serverErrors({
+        message: 'The given data was invalid',
+        errors: { 'items.0.name': ['Required'] },
+      })
+    ).toStrictEqual({
+      errors: { 'items.0.name': 'Required' },
+      rootError: 'The given data was invalid',
+    });
+  });
+
+  it('maps RFC 7807 problem details', () => {
+    expect(
+      serverErrors({
+        type: 'https://example.com/validation-error',
+        title: 'Your request is not valid',
+        status: 422,
+        'invalid-params': [
+          { name: 'age', reason: 'must be a positive integer' },
+          { name: 'color', reason: "must be 'green', 'red' or 'blue'" },
+        ],
+      })
+    ).toStrictEqual({
+      errors: { age: 'must be a positive integer', color: "must be 'green', 'red' or 'blue'" },
+      rootError: 'Your request is not valid',
+    });
+
+    expect(
+      serverErrors({
+        title: 'Bad request',
+        detail: 'Order cannot be placed',
+        status: 400,
+        errors: [{ pointer: '#/items/1/quantity', detail: 'Out of stock' }],
+      })
+    ).toStrictEqual({
+      errors: { 'items.1.quantity': 'Out of stock' },
+      rootError: 'Order cannot be placed',
+    });
+  });
+
+  it('uses empty path and string payload as root error', () => {
+    expect(serverErrors({ '': 'Form error', name: 'Required' })).toStrictEqual({
+      errors: { name: 'Required' },
+      rootError: 'Form error',
+    });
+    expect(serverErrors('Server is not available')).toStrictEqual({
+      errors: {},
+      rootError: 'Server is not available',
+    });
+  });
+
+  it('detects results of serverErrors function', () => {
+    expect(isServerErrors(serverErrors({}))).toBe(true);
+    expect(isServerErrors({ errors: {}, rootError: null })).toBe(false);
+    expect(isServerErrors(null)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { isValidElement } from 'react';
+import { normalizePath } from '../paths';
+import type { FormErrors, FormServerErrors } from '../types';
+
+const serverErrorsResults = new WeakSet<object>();
+
+const PATH_KEYS = ['pointer', 'path', 'field', 'name', 'property'];
+const MESSAGE_KEYS = ['detail', 'message', 'reason', 'title'];
+
+function isMessage(value: unknown): value is React.ReactNode {
+  return typeof value === 'string' || typeof value === 'number' || isValidElement(value);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getFirstString(value: Record<string, any>, keys: string[]): string | undefined {
+  const key = keys.find((item) => typeof value[item] === 'string');
+  return key ? value[key] : undefined;
+}
+
+function joinPath(path: string, key: string | number) {
+  const normalizedKey = normalizePath(String(key));
+  return path === '' ? normalizedKey : normalizedKey === '' ? path : `${path}.${normalizedKey}`;
+}
+
+// List of `{ name, reason }` objects used in problem details, for example, `invalid-params` of RFC 7807
+function isErrorsList(value: unknown): value is Record<string, any>[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        isRecord(item) && !!getFirstString(item, PATH_KEYS) && !!getFirstString(item, MESSAGE_KEYS)
+    )
+  );
+}
+
+function collectErrors(value: unknown, path: string, errors: FormErrors): FormErrors {
+  if (isMessage(value)) {
+    errors[path] = errors[path] ?? value;
+  } else if (isErrorsList(value)) {
+    value.forEach((item) =>
+      collectErrors(
+        getFirstString(item, MESSAGE_KEYS),
+        joinPath(path, getFirstString(item, PATH_KEYS)!),
+        errors
+      )
+    );
+  } else if (Array.isArray(value)) {
+    // List of messages of a single field, only the first message is displayed
+    value.every(isMessage)
+      ? collectErrors(value[0], path, errors)
+      : value.forEach((item, index) => collectErrors(item, joinPath(path, index), errors));
+  } else if (isRecord(value)) {
+    Object.keys(value).forEach((key) => collectErrors(value[key], joinPath(path, key), errors));
+  }
+
+  return errors;
+}
+
+function isProblemDetails(payload: Record<string, any>) {
+  return (
+    typeof payload.status === 'number' &&
+    (typeof payload.title === 'string' || typeof payload.detail === 'string')
+  );
+}
+
+/**
+ * Maps errors returned by the server to form errors, supports:
+ * - `{ path: message | message[] }` maps and nested objects, paths can use dot, bracket or JSON pointer notation
+ * - `{ errors, message }` and `{ errors, rootError }` objects
+ * - RFC 7807 problem details with `errors` or `invalid-params` extensions
+ */
+export function serverErrors(payload: unknown): FormServerErrors {
+  const source = isRecord(payload) ? payload : {};
+  const isEnvelope = 'errors' in source || 'invalid-params' in source || 'rootError' in source;
+
+  let rootError: React.ReactNode = null;
+  let errors: FormErrors = {};
+
+  if (isEnvelope || isProblemDetails(source)) {
+    rootError = source.rootError ?? getFirstString(source, ['detail', 'title', 'message']) ?? null;
+    collectErrors(source.errors, '', errors);
+    collectErrors(source['invalid-params'], '', errors);
+  } else if (isMessage(payload)) {
+    rootError = payload;
+  } else {
+    errors = collectErrors(payload, '', {});
+  }
+
+  if ('' in errors) {
+    rootError = rootError ?? errors[''];
+    delete errors[''];
+  }
+
+  const result = { errors, rootError };
+  serverErrorsResults.add(result);
+  return result;
+}
+
+export function isServerErrors(value: unknown): value is FormServerErrors {
+  return typeof value === 'object' && value !== null && serverErrorsResults.has(value);
+}
@@ -0,0 +1,70 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormDevtools } from '../../FormDevtools/FormDevtools';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+function TestComponent({ mode }: { mode: FormMode }) {
+  const form = useForm({
+    mode,
+    initialValues: { name: '' },
+    validate: { name: (value) => (value.length < 2 ? 'error-name' : null) },
+  });
+
+  return (
+    <>
+      <input {...form.getInputProps('name')} key={form.key('name')} aria-label="name" />
+      <FormDevtools form={form} />
+    </>
+  );
+}
+
+const getSection = (title: string) =>
+  document.querySelector(`[data-section="${title}"] pre`)!.textContent;
+
+function tests(mode: FormMode) {
+  it('displays form state and events timeline', async () => {
+    render(<TestComponent mode={mode} />);
+
+    await userEvent.type(screen.getByLabelText('name'), 'J');
+    expect(JSON.parse(getSection('Values')!)).toStrictEqual({ name: 'J' });
+    expect(JSON.parse(getSection('Dirty')!)).toStrictEqual({ name: true });
+    expect(screen.getByRole('list', { name: 'Form events' }).textContent).toContain(
+      'setFieldValue name: "" → "J"'
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: 'Validate' }));
+    expect(JSON.parse(getSection('Errors')!)).toStrictEqual({ name: 'error-name' });
+    expect(screen.getByRole('list', { name: 'Form events' }).textContent).toContain(
+      'validate all fields: 1 error'
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: 'Reset' }));
+    expect(JSON.parse(getSection('Values')!)).toStrictEqual({ name: '' });
+    expect(JSON.parse(getSection('Errors')!)).toStrictEqual({});
+  });
+
+  it('injects values', async () => {
+    render(<TestComponent mode={mode} />);
+
+    fireEvent.change(screen.getByLabelText('Injected values'), {
+      target: { value: '{ "name": "John" }' },
+    });
+    await userEvent.click(screen.getByRole('button', { name: 'Inject values' }));
+    expect(JSON.parse(getSection('Values')!)).toStrictEqual({ name: 'John' });
+    expect(screen.getByLabelText('name')).toHaveValue('John');
+
+    fireEvent.change(screen.getByLabelText('Injected values'), { target: { value: '{' } });
+    await userEvent.click(screen.getByRole('button', { name: 'Inject values' }));
+    expect(JSON.parse(getSection('Values')!)).toStrictEqual({ name: 'John' });
+    expect(document.querySelector('[data-section="Inject values"]')!.textContent).toContain('JSON');
+  });
+}
+
+describe('@mantine/form/FormDevtools-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/FormDevtools-uncontrolled', () => {
+  tests('uncontrolled');
+});
@@ -0,0 +1,131 @@
+import { render, screen, userEvent } from '@mantine-tests/core';
+import { JsonSchema } from '../../json-schema';
+import { SchemaForm, SchemaFormWidgetProps } from '../../schema-form';
+import { FormMode } from '../../types';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'role'],
+  properties: {
+    name: { type: 'string', title: 'Full name', minLength: 2 },
+    age: { type: 'integer', minimum: 18 },
+    role: { type: 'string', enum: ['admin', 'user'] },
+    subscribed: { type: 'boolean', default: true },
+    address: {
+      type: 'object',
+      description: 'Shipping address',
+      properties: { city: { type: 'string' } },
+    },
+    tags: { type: 'array', maxItems: 2, items: { type: 'string' } },
+  },
+};
+
+function tests(mode: FormMode) {
+  it('renders fields derived from the schema', () => {
+    render(<SchemaForm schema={schema} formOptions={{ mode }} />);
+
+    expect(screen.getByLabelText(/Full name/)).toHaveValue('');
+    expect(screen.getByLabelText('Age')).toHaveClass('mantine-NumberInput-input');
+    expect(screen.getByRole('textbox', { name: /Role/ })).toHaveAttribute(
+      'aria-haspopup',
+      'listbox'
+    );
+    expect(screen.getByLabelText('Subscribed')).toBeChecked();
+    expect(screen.getByRole('group', { name: 'Address' })).toHaveAccessibleDescription(
+      'Shipping address'
+    );
+    expect(screen.getByLabelText('City')).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Tags' })).toBeInTheDocument();
+  });
+
+  it('submits valid values and displays validation errors', async () => {
+    const spy = jest.fn();
+    render(
+      <SchemaForm schema={schema} formOptions={{ mode }} onSubmit={spy}>
+        <button type="submit">Submit</button>
+      </SchemaForm>
+    );
+
+    await userEvent.type(screen.getByLabelText(/Full name/), 'J');
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    expect(spy).not.toHaveBeenCalled();
+    expect(screen.getByLabelText(/Full name/)).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByLabelText(/Full name/)).toHaveAccessibleDescription(
+      'Must be at least 2 characters'
+    );
+    expect(screen.getByRole('textbox', { name: /Role/ })).toHaveAccessibleDescription('Required');
+
+    await userEvent.type(screen.getByLabelText(/Full name/), 'ohn');
+    await userEvent.type(screen.getByLabelText('Age'), '30');
+    await userEvent.click(screen.getByRole('textbox', { name: /Role/ }));
+    await userEvent.click(screen.getByRole('option', { name: 'user' }));
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    expect(spy).toHaveBeenCalledWith({
+      name: 'John',
+      age: 30,
+      role: 'user',
+      subscribed: true,
+      address: { city: '' },
+      tags: [],
+    });
+  });
+
+  it('adds and removes array items', async () => {
+    render(<SchemaForm schema={schema} formOptions={{ mode }} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Add' }));
+    await userEvent.click(screen.getByRole('button', { name: 'Add' }));
+    expect(screen.getAllByRole('button', { name: 'Remove' })).toHaveLength(2);
+    expect(screen.getByRole('button', { name: 'Add' })).toBeDisabled();
+
+    await userEvent.type(screen.getByLabelText('2'), 'second');
+    await userEvent.click(screen.getAllByRole('button', { name: 'Remove' })[0]);
+    expect(screen.getByLabelText('1')).toHaveValue('second');
+  });
+}
+
+describe('@mantine/form/SchemaForm-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/SchemaForm-uncontrolled', () => {
+  tests('uncontrolled');
+});
+
+describe('@mantine/form/SchemaForm', () => {
+  it('supports widgets overrides by type and format', () => {
+    const TextWidget = ({ path, label }: SchemaFormWidgetProps) => (
+      <span data-testid={`text-${path}`}>{label}</span>
+    );
+    const EmailWidget = ({ path }: SchemaFormWidgetProps) => <span data-testid={`email-${path}`} />;
+
+    render(
+      <SchemaForm
+        schema={{
+          type: 'object',
+          properties: {
+            firstName: { type: 'string' },
+            email: { type: 'string', format: 'email' },
+          },
+        }}
+        widgets={{ types: { string: TextWidget }, formats: { email: EmailWidget } }}
+      />
+    );
+
+    expect(screen.getByTestId('text-firstName')).toHaveTextContent('First name');
+    expect(screen.getByTestId('email-email')).toBeInTheDocument();
+  });
+
+  it('passes form to children function', () => {
+    render(
+      <SchemaForm
+        schema={{ type: 'object', properties: { a: { type: 'string', default: 'test' } } }}
+      >
+        {(form) => <span data-testid="value">{form.getValues().a}</span>}
+      </SchemaForm>
+    );
+
+    expect(screen.getByTestId('value')).toHaveTextContent('test');
+  });
+});
@@ -0,0 +1,113 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode, FormSelectorState } from '../../types';
+import { useForm } from '../../use-form';
+import { useFormSelector } from '../../use-form-selector';
+
+interface Values {
+  a: string;
+  b: string;
+  c: string;
+}
+
+const initialValues: Values = { a: 'a', b: 'b', c: 'c' };
+
+function renderSelector<Selected>(
+  mode: FormMode,
+  selector: (state: FormSelectorState<Values>) => Selected,
+  equalityFn?: (a: Selected, b: Selected) => boolean
+) {
+  const formHook = renderHook(() => useForm({ mode, initialValues }));
+  const renders = jest.fn();
+  const selectorHook = renderHook(() => {
+    renders();
+    return useFormSelector(formHook.result.current, selector, equalityFn);
+  });
+
+  return { form: formHook.result.current, selectorHook, renders };
+}
+
+function tests(mode: FormMode) {
+  it('re-renders only when selected slice changes', () => {
+    const { form, selectorHook, renders } = renderSelector(mode, (state) => state.values.a);
+    expect(selectorHook.result.current).toBe('a');
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => form.setFieldValue('b', 'b-1'));
+    act(() => form.setValues({ c: 'c-1' }));
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => form.setFieldValue('a', 'a-1'));
+    expect(selectorHook.result.current).toBe('a-1');
+    expect(renders).toHaveBeenCalledTimes(2);
+  });
+
+  it('selects errors, touched and dirty state', () => {
+    const { form, selectorHook } = renderSelector(
+      mode,
+      (state) => ({
+        error: state.errors.a,
+        touched: !!state.touched.a,
+        dirty: !!state.dirty.a,
+      }),
+      (a, b) => a.error === b.error && a.touched === b.touched && a.dirty === b.dirty
+    );
+
+    expect(selectorHook.result.current).toStrictEqual({
+      error: undefined,
+      touched: false,
+      dirty: false,
+    });
+
+    act(() => form.setFieldError('a', 'error-a'));
+    expect(selectorHook.result.current.error).toBe('error-a');
+
+    act(() => form.setTouched({ a: true }));
+    expect(selectorHook.result.current.touched).toBe(true);
+
+    act(() => form.setFieldValue('a', 'a-1'));
+    expect(selectorHook.result.current).toStrictEqual({
+      error: undefined,
+      touched: true,
+      dirty: true,
+    });
+  });
+
+  it('supports custom equality function', () => {
+    const { form, selectorHook, renders } = renderSelector(
+      mode,
+      (state) => ({ a: state.values.a, b: state.values.b }),
+      (a, b) => a.a === b.a && a.b === b.b
+    );
+
+    act(() => form.setFieldValue('c', 'c-1'));
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => form.setFieldValue('b', 'b-1'));
+    expect(selectorHook.result.current).toStrictEqual({ a: 'a', b: 'b-1' });
+    expect(renders).toHaveBeenCalledTimes(2);
+  });
+
+  it('supports selectors that return new objects with default equality function', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { form, selectorHook, renders } = renderSelector(mode, (state) => ({
+      a: state.values.a,
+    }));
+
+    expect(selectorHook.result.current).toStrictEqual({ a: 'a' });
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => form.setFieldValue('a', 'a-1'));
+    expect(selectorHook.result.current).toStrictEqual({ a: 'a-1' });
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+}
+
+describe('@mantine/form/use-form-selector-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/use-form-selector-uncontrolled', () => {
+  tests('uncontrolled');
+});
@@ -0,0 +1,39 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+function tests(mode: FormMode) {
+  it('appends items to the end of the list', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: [{ b: 1 }] } }));
+
+    act(() => hook.result.current.appendListItems('a', [{ b: 2 }, { b: 3 }]));
+    expect(hook.result.current.getValues()).toStrictEqual({ a: [{ b: 1 }, { b: 2 }, { b: 3 }] });
+  });
+
+  it('appends items to nested list', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { a: [{ b: [1] }, { b: [2] }] } })
+    );
+
+    act(() => hook.result.current.appendListItems('a.1.b', [3, 4]));
+    expect(hook.result.current.getValues()).toStrictEqual({ a: [{ b: [1] }, { b: [2, 3, 4] }] });
+  });
+
+  it('calls onValuesChange when appendListItems is called', () => {
+    const spy = jest.fn();
+    const hook = renderHook(() =>
+      useForm({ mode, onValuesChange: spy, initialValues: { a: [1] } })
+    );
+
+    act(() => hook.result.current.appendListItems('a', [2]));
+    expect(spy).toHaveBeenCalledWith({ a: [1, 2] }, { a: [1] });
+  });
+}
+
+describe('@mantine/form/appendListItems-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/appendListItems-uncontrolled', () => {
+  tests('uncontrolled');
+});
@@ -0,0 +1,286 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+const getFormEvent = () => ({ preventDefault: jest.fn() }) as any;
+
+const checkUsername = jest.fn(
+  (value: string) =>
+    new Promise<string | null>((resolve) => {
+      setTimeout(() => resolve(value === 'taken' ? 'Username is taken' : null), 100);
+    })
+);
+
+const validate = {
+  username: checkUsername,
+  email: (value: string) => (value.includes('@') ? null : 'Invalid email'),
+};
+
+const advanceTimers = (ms: number) =>
+  act(async () => {
+    jest.advanceTimersByTime(ms);
+  });
+
+function tests(mode: FormMode) {
+  beforeEach(() => checkUsername.mockClear());
+
+  it('sets errors of sync rules immediately and errors of async rules when they resolve', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'taken', email: '' }, validate })
+    );
+
+    act(() => {
+      expect(hook.result.current.validate()).toStrictEqual({
+        hasErrors: true,
+        errors: { email: 'Invalid email' },
+      });
+    });
+
+    expect(hook.result.current.errors).toStrictEqual({ email: 'Invalid email' });
+    expect(hook.result.current.isValidating()).toBe(true);
+    expect(hook.result.current.isValidating('username')).toBe(true);
+    expect(hook.result.current.isValidating('email')).toBe(false);
+
+    await advanceTimers(100);
+    expect(hook.result.current.errors).toStrictEqual({
+      email: 'Invalid email',
+      username: 'Username is taken',
+    });
+    expect(hook.result.current.isValidating()).toBe(false);
+  });
+
+  it('resolves validateAsync with errors of all rules', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'taken', email: 'a@b.c' }, validate })
+    );
+
+    let results: any = null;
+    act(() => {
+      hook.result.current.validateAsync().then((value) => {
+        results = value;
+      });
+    });
+
+    await advanceTimers(100);
+    expect(results).toStrictEqual({ hasErrors: true, errors: { username: 'Username is taken' } });
+  });
+
+  it('validates single field with validateFieldAsync', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'taken', email: '' }, validate })
+    );
+
+    let results: any = null;
+    act(() => {
+      hook.result.current.validateFieldAsync('username').then((value) => {
+        results = value;
+      });
+    });
+
+    expect(hook.result.current.isValidating('username')).toBe(true);
+    await advanceTimers(100);
+    expect(results).toStrictEqual({ hasError: true, error: 'Username is taken' });
+    expect(hook.result.current.errors).toStrictEqual({ username: 'Username is taken' });
+  });
+
+  it('ignores results of stale validations when value changes', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        validateInputOnChange: ['username'],
+        initialValues: { username: '', email: '' },
+        validate,
+      })
+    );
+
+    act(() => hook.result.current.setFieldValue('username', 'taken'));
+    await advanceTimers(50);
+    act(() => hook.result.current.setFieldValue('username', 'free'));
+    await advanceTimers(50);
+
+    expect(hook.result.current.errors).toStrictEqual({});
+    expect(hook.result.current.isValidating('username')).toBe(true);
+
+    await advanceTimers(50);
+    expect(hook.result.current.errors).toStrictEqual({});
+    expect(hook.result.current.isValidating('username')).toBe(false);
+  });
+
+  it('debounces validation on change with validateInputOnChangeDebounce', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        validateInputOnChange: true,
+        validateInputOnChangeDebounce: 300,
+        initialValues: { username: '', email: '' },
+        validate,
+      })
+    );
+
+    act(() => hook.result.current.setFieldValue('username', 'ta'));
+    act(() => hook.result.current.setFieldValue('username', 'taken'));
+    await advanceTimers(299);
+    expect(checkUsername).not.toHaveBeenCalled();
+
+    await advanceTimers(1);
+    expect(checkUsername).toHaveBeenCalledTimes(1);
+    expect(checkUsername).toHaveBeenCalledWith('taken', expect.anything(), 'username');
+
+    await advanceTimers(100);
+    expect(hook.result.current.errors).toStrictEqual({ username: 'Username is taken' });
+  });
+
+  it('waits for async rules before calling onSubmit handlers', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'taken', email: 'a@b.c' }, validate })
+    );
+
+    const handleSubmit = jest.fn();
+    const handleValidationFailure = jest.fn();
+
+    act(() => hook.result.current.onSubmit(handleSubmit, handleValidationFailure)());
+    expect(handleValidationFailure).not.toHaveBeenCalled();
+
+    await advanceTimers(100);
+    expect(handleSubmit).not.toHaveBeenCalled();
+    expect(handleValidationFailure).toHaveBeenCalledWith(
+      { username: 'Username is taken' },
+      { username: 'taken', email: 'a@b.c' },
+      undefined
+    );
+
+    act(() => hook.result.current.setFieldValue('username', 'free'));
+    act(() => hook.result.current.onSubmit(handleSubmit, handleValidationFailure)());
+    await advanceTimers(100);
+    expect(handleSubmit).toHaveBeenCalledWith({ username: 'free', email: 'a@b.c' }, undefined);
+  });
+
+  it('does not wait for async rules on submit if sync rules fail', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'free', email: '' }, validate })
+    );
+
+    const handleValidationFailure = jest.fn();
+    act(() => hook.result.current.onSubmit(() => {}, handleValidationFailure)());
+    expect(handleValidationFailure).toHaveBeenCalledWith(
+      { email: 'Invalid email' },
+      { username: 'free', email: '' },
+      undefined
+    );
+  });
+
+  it('prevents submit event while async rules are pending', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        onSubmitPreventDefault: 'validation-failed',
+        initialValues: { username: 'free', email: 'a@b.c' },
+        validate,
+      })
+    );
+
+    const event = getFormEvent();
+    act(() => hook.result.current.onSubmit(() => {})(event));
+    expect(event.preventDefault).toHaveBeenCalled();
+  });
+
+  it('cancels submit when values change while async rules are pending', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'free', email: 'a@b.c' }, validate })
+    );
+
+    const handleSubmit = jest.fn();
+    const handleValidationFailure = jest.fn();
+
+    act(() => hook.result.current.onSubmit(handleSubmit, handleValidationFailure)());
+    act(() => hook.result.current.setFieldValue('username', 'free-2'));
+    await advanceTimers(100);
+
+    expect(handleSubmit).not.toHaveBeenCalled();
+    expect(handleValidationFailure).not.toHaveBeenCalled();
+    expect(hook.result.current.isValidating()).toBe(false);
+  });
+
+  it('uses rejection reason as error', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { username: '' },
+        validate: { username: () => Promise.reject(new Error('Network error')) },
+      })
+    );
+
+    act(() => {
+      hook.result.current.validate();
+    });
+
+    await advanceTimers(0);
+    expect(hook.result.current.errors).toStrictEqual({ username: 'Network error' });
+  });
+
+  it('sets root error when async validation function rejects', async () => {
+    const handleSubmit = jest.fn();
+    const handleValidationFailure = jest.fn();
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { username: '' },
+        validate: () => Promise.reject(new Error('Network error')),
+      })
+    );
+
+    let results: any;
+    await act(async () => {
+      results = await hook.result.current.validateAsync();
+    });
+
+    expect(results).toStrictEqual({ hasErrors: true, errors: {} });
+    expect(hook.result.current.rootError).toBe('Network error');
+    expect(hook.result.current.isValidating()).toBe(false);
+
+    await act(async () => {
+      results = await hook.result.current.validateFieldAsync('username');
+    });
+
+    expect(results).toStrictEqual({ hasError: true, error: 'Network error' });
+    expect(hook.result.current.isValidating()).toBe(false);
+
+    act(() => hook.result.current.onSubmit(handleSubmit, handleValidationFailure)());
+    expect(hook.result.current.isValidating()).toBe(true);
+    await advanceTimers(0);
+
+    expect(handleSubmit).not.toHaveBeenCalled();
+    expect(handleValidationFailure).toHaveBeenCalledTimes(1);
+    expect(hook.result.current.rootError).toBe('Network error');
+    expect(hook.result.current.isValidating()).toBe(false);
+  });
+
+  it('cancels pending validations on reset', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { username: 'taken', email: 'a@b.c' }, validate })
+    );
+
+    act(() => {
+      hook.result.current.validate();
+    });
+    expect(hook.result.current.isValidating()).toBe(true);
+
+    act(() => hook.result.current.reset());
+    expect(hook.result.current.isValidating()).toBe(false);
+
+    await advanceTimers(100);
+    expect(hook.result.current.errors).toStrictEqual({});
+  });
+}
+
+describe('@mantine/form/async-validation-controlled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('controlled');
+});
+
+describe('@mantine/form/async-validation-uncontrolled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('uncontrolled');
+});
@@ -0,0 +1,159 @@
+import { act, renderHook } from '@testing-library/react';
+import { FORM_INDEX } from '../../form-index';
+import { FormDependencies, FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+const EU_COUNTRIES = ['DE', 'FR'];
+
+const initialValues = {
+  country: 'US',
+  vatNumber: '',
+  company: { name: '', size: 0 },
+  jobs: [{ current: true, endDate: '' }],
+};
+
+const dependencies: FormDependencies<typeof initialValues> = {
+  vatNumber: {
+    dependsOn: ['country'],
+    visible: (values) => EU_COUNTRIES.includes(values.country),
+    required: () => true,
+    requiredError: 'error-vat',
+  },
+  company: {
+    dependsOn: ['country'],
+    visible: (values) => values.country !== 'US',
+  },
+  [`jobs.${FORM_INDEX}.endDate`]: {
+    dependsOn: [`jobs.${FORM_INDEX}.current`],
+    required: (values, path) => !values.jobs[Number(path.split('.')[1])].current,
+    requiredError: 'error-end-date',
+  },
+};
+
+const validate = {
+  vatNumber: (value: string) => (value.startsWith('EU') ? null : 'error-vat-format'),
+  company: { name: (value: string) => (value ? null : 'error-company-name') },
+};
+
+function tests(mode: FormMode) {
+  it('does not validate hidden fields', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, dependencies, validate }));
+
+    act(() => {
+      expect(hook.result.current.validate()).toStrictEqual({ hasErrors: false, errors: {} });
+    });
+
+    act(() => hook.result.current.setFieldValue('country', 'DE'));
+
+    act(() => {
+      expect(hook.result.current.validate().errors).toStrictEqual({
+        vatNumber: 'error-vat',
+        'company.name': 'error-company-name',
+      });
+    });
+
+    expect(hook.result.current.isValid('vatNumber')).toBe(false);
+  });
+
+  it('returns visibility and required state of fields', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, dependencies }));
+
+    expect(hook.result.current.isFieldVisible('vatNumber')).toBe(false);
+    expect(hook.result.current.isFieldVisible('company.name')).toBe(false);
+    expect(hook.result.current.isFieldVisible('country')).toBe(true);
+    expect(hook.result.current.isFieldRequired('vatNumber')).toBe(false);
+    expect(hook.result.current.isFieldRequired('jobs.0.endDate')).toBe(false);
+
+    act(() => hook.result.current.setFieldValue('country', 'FR'));
+    act(() => hook.result.current.setFieldValue('jobs.0.current', false));
+
+    expect(hook.result.current.isFieldVisible('vatNumber')).toBe(true);
+    expect(hook.result.current.isFieldVisible('company.name')).toBe(true);
+    expect(hook.result.current.isFieldRequired('vatNumber')).toBe(true);
+    expect(hook.result.current.isFieldRequired('jobs.0.endDate')).toBe(true);
+  });
+
+  it('validates dependent fields with errors when source field changes', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { ...initialValues, country: 'DE' },
+        dependencies,
+        validate,
+      })
+    );
+
+    act(() => {
+      hook.result.current.validate();
+    });
+    expect(hook.result.current.errors.vatNumber).toBe('error-vat');
+
+    act(() => hook.result.current.setFieldValue('country', 'US'));
+    expect(hook.result.current.errors).toStrictEqual({});
+  });
+
+  it('validates required list item fields', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, dependencies }));
+
+    act(() => hook.result.current.setFieldValue('jobs.0.current', false));
+    act(() => hook.result.current.insertListItem('jobs', { current: true, endDate: '' }));
+
+    act(() => {
+      expect(hook.result.current.validate().errors).toStrictEqual({
+        'jobs.0.endDate': 'error-end-date',
+      });
+    });
+
+    act(() => hook.result.current.setFieldValue('jobs.0.current', true));
+    expect(hook.result.current.errors).toStrictEqual({});
+  });
+
+  it('omits values of hidden fields with omitHiddenFields', () => {
+    const onSubmit = jest.fn();
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues, dependencies, omitHiddenFields: true })
+    );
+
+    expect(hook.result.current.getTransformedValues()).toStrictEqual({
+      country: 'US',
+      jobs: [{ current: true, endDate: '' }],
+    });
+
+    act(() => hook.result.current.onSubmit(onSubmit)());
+    expect(onSubmit).toHaveBeenCalledWith(
+      { country: 'US', jobs: [{ current: true, endDate: '' }] },
+      undefined
+    );
+    expect(hook.result.current.getValues()).toStrictEqual(initialValues);
+  });
+
+  it('keeps values of hidden fields by default', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, dependencies }));
+    expect(hook.result.current.getTransformedValues()).toStrictEqual(initialValues);
+  });
+}
+
+describe('@mantine/form/dependencies-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/dependencies-uncontrolled', () => {
+  tests('uncontrolled');
+
+  it('rerenders form when visibility of a field changes', () => {
+    let renders = 0;
+    const hook = renderHook(() => {
+      renders += 1;
+      return useForm({ mode: 'uncontrolled', initialValues, dependencies });
+    });
+
+    act(() => hook.result.current.setFieldValue('country', 'CA', { forceUpdate: false }));
+    const initialRenders = renders;
+
+    act(() => hook.result.current.setFieldValue('country', 'MX', { forceUpdate: false }));
+    expect(renders).toBe(initialRenders);
+
+    act(() => hook.result.current.setFieldValue('country', 'DE', { forceUpdate: false }));
+    expect(renders).toBeGreaterThan(initialRenders);
+  });
+});
@@ -0,0 +1,58 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+function tests(mode: FormMode) {
+  it('inserts a copy of the item after it', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: {
+          a: [
+            { b: 1, c: [1] },
+            { b: 2, c: [2] },
+          ],
+        },
+      })
+    );
+
+    act(() => hook.result.current.duplicateListItem('a', 0));
+    expect(hook.result.current.getValues()).toStrictEqual({
+      a: [
+        { b: 1, c: [1] },
+        { b: 1, c: [1] },
+        { b: 2, c: [2] },
+      ],
+    });
+
+    expect(hook.result.current.getValues().a[1]).not.toBe(hook.result.current.getValues().a[0]);
+    expect(hook.result.current.getValues().a[1].c).not.toBe(hook.result.current.getValues().a[0].c);
+  });
+
+  it('shifts errors of the following items', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { a: [{ b: 1 }, { b: 2 }] },
+        initialErrors: { 'a.0.b': 'error-0', 'a.1.b': 'error-1' },
+      })
+    );
+
+    act(() => hook.result.current.duplicateListItem('a', 0));
+    expect(hook.result.current.errors).toStrictEqual({ 'a.0.b': 'error-0', 'a.2.b': 'error-1' });
+  });
+
+  it('does nothing if item does not exist', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: [{ b: 1 }] } }));
+    act(() => hook.result.current.duplicateListItem('a', 3));
+    expect(hook.result.current.getValues()).toStrictEqual({ a: [{ b: 1 }] });
+  });
+}
+
+describe('@mantine/form/duplicateListItem-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/duplicateListItem-uncontrolled', () => {
+  tests('uncontrolled');
+});
@@ -0,0 +1,78 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+const initialValues = {
+  a: [
+    { b: 1, c: [1, 2] },
+    { b: 2, c: [3] },
+    { b: 3, c: [] as number[] },
+  ],
+};
+
+function tests(mode: FormMode) {
+  it('returns stable keys of list items', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues }));
+    const keys = [0, 1, 2].map((index) => hook.result.current.getListItemKey('a', index));
+
+    expect(new Set(keys).size).toBe(3);
+    expect(hook.result.current.getListItemKey('a', 0)).toBe(keys[0]);
+
+    act(() => hook.result.current.reorderListItem('a', { from: 2, to: 0 }));
+    expect([0, 1, 2].map((index) => hook.result.current.getListItemKey('a', index))).toStrictEqual([
+      keys[2],
+      keys[0],
+      keys[1],
+    ]);
+
+    act(() => hook.result.current.removeListItem('a', 1));
+    expect([0, 1].map((index) => hook.result.current.getListItemKey('a', index))).toStrictEqual([
+      keys[2],
+      keys[1],
+    ]);
+
+    act(() => hook.result.current.insertListItem('a', { b: 4, c: [] }, 0));
+    expect(hook.result.current.getListItemKey('a', 1)).toBe(keys[2]);
+    expect(keys).not.toContain(hook.result.current.getListItemKey('a', 0));
+  });
+
+  it('uses list items keys in form.key', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues }));
+    const inputKey = hook.result.current.key('a.0.b');
+    const nestedInputKey = hook.result.current.key('a.0.c.1');
+
+    act(() => hook.result.current.swapListItems('a', { from: 0, to: 1 }));
+    expect(hook.result.current.key('a.1.b')).toBe(inputKey);
+    expect(hook.result.current.key('a.1.c.1')).toBe(nestedInputKey);
+    expect(hook.result.current.key('a.0.b')).not.toBe(inputKey);
+  });
+
+  it('moves errors and touched state with reordered item', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues,
+        initialErrors: { 'a.0.b': 'error-0', 'a.1.b': 'error-1' },
+        initialTouched: { 'a.2.b': true },
+      })
+    );
+
+    act(() => hook.result.current.reorderListItem('a', { from: 2, to: 0 }));
+    expect(hook.result.current.errors).toStrictEqual({ 'a.1.b': 'error-0', 'a.2.b': 'error-1' });
+    expect(hook.result.current.isTouched('a.0.b')).toBe(true);
+    expect(hook.result.current.isTouched('a.2.b')).toBe(false);
+  });
+
+  it('returns index if value at path is not a list', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues }));
+    expect(hook.result.current.getListItemKey('a.0.b' as any, 1)).toBe('1');
+  });
+}
+
+describe('@mantine/form/getListItemKey-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/getListItemKey-uncontrolled', () => {
+  tests('uncontrolled');
+});
@@ -0,0 +1,171 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+function tests(mode: FormMode) {
+  it('undoes and redoes values changes', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, history: true, initialValues: { a: 'a', b: 'b' } })
+    );
+
+    expect(hook.result.current.canUndo).toBe(false);
+    expect(hook.result.current.canRedo).toBe(false);
+
+    act(() => hook.result.current.setFieldValue('a', 'a-1'));
+    act(() => hook.result.current.setValues({ b: 'b-1' }));
+    expect(hook.result.current.canUndo).toBe(true);
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'a-1', b: 'b' });
+    expect(hook.result.current.canRedo).toBe(true);
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'a', b: 'b' });
+    expect(hook.result.current.canUndo).toBe(false);
+
+    act(() => hook.result.current.redo());
+    act(() => hook.result.current.redo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'a-1', b: 'b-1' });
+    expect(hook.result.current.canRedo).toBe(false);
+  });
+
+  it('clears redo history when values change', () => {
+    const hook = renderHook(() => useForm({ mode, history: true, initialValues: { a: 'a' } }));
+
+    act(() => hook.result.current.setFieldValue('a', 'a-1'));
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.canRedo).toBe(true);
+
+    act(() => hook.result.current.setFieldValue('a', 'a-2'));
+    expect(hook.result.current.canRedo).toBe(false);
+  });
+
+  it('merges rapid changes of the same field into a single entry', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, history: { coalesceDelay: 300 }, initialValues: { a: '', b: '' } })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 'h'));
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    act(() => hook.result.current.setFieldValue('a', 'he'));
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    act(() => hook.result.current.setFieldValue('a', 'hey'));
+    act(() => hook.result.current.setFieldValue('b', 'b'));
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    act(() => hook.result.current.setFieldValue('b', 'bb'));
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'hey', b: 'b' });
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'hey', b: '' });
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: '', b: '' });
+    expect(hook.result.current.canUndo).toBe(false);
+  });
+
+  it('limits history depth with maxDepth', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, history: { maxDepth: 2, coalesceDelay: 0 }, initialValues: { a: 0 } })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 1));
+    act(() => hook.result.current.setFieldValue('a', 2));
+    act(() => hook.result.current.setFieldValue('a', 3));
+
+    act(() => hook.result.current.undo());
+    act(() => hook.result.current.undo());
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 1 });
+  });
+
+  it('restores errors and dirty state', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        history: true,
+        initialValues: { a: '', b: '' },
+        validate: { a: (value) => (value.length < 2 ? 'error-a' : null) },
+      })
+    );
+
+    act(() => {
+      hook.result.current.validate();
+    });
+    act(() => hook.result.current.setFieldValue('a', 'valid'));
+    expect(hook.result.current.isDirty('a')).toBe(true);
+    expect(hook.result.current.errors).toStrictEqual({});
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.errors).toStrictEqual({ a: 'error-a' });
+    expect(hook.result.current.isDirty('a')).toBe(false);
+    expect(hook.result.current.isDirty()).toBe(false);
+
+    act(() => hook.result.current.redo());
+    expect(hook.result.current.errors).toStrictEqual({});
+    expect(hook.result.current.isDirty('a')).toBe(true);
+  });
+
+  it('records list operations', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, history: true, initialValues: { list: [{ name: 'a' }] } })
+    );
+
+    act(() => hook.result.current.insertListItem('list', { name: 'b' }));
+    act(() => hook.result.current.removeListItem('list', 0));
+    expect(hook.result.current.getValues()).toStrictEqual({ list: [{ name: 'b' }] });
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ list: [{ name: 'a' }, { name: 'b' }] });
+
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ list: [{ name: 'a' }] });
+  });
+
+  it('does not record changes when history is not enabled', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: 'a' } }));
+
+    act(() => hook.result.current.setFieldValue('a', 'a-1'));
+    expect(hook.result.current.canUndo).toBe(false);
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'a-1' });
+  });
+
+  it('clears history with clearHistory', () => {
+    const hook = renderHook(() => useForm({ mode, history: true, initialValues: { a: 'a' } }));
+
+    act(() => hook.result.current.setFieldValue('a', 'a-1'));
+    act(() => hook.result.current.clearHistory());
+    expect(hook.result.current.canUndo).toBe(false);
+  });
+}
+
+describe('@mantine/form/history-controlled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('controlled');
+});
+
+describe('@mantine/form/history-uncontrolled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('uncontrolled');
+
+  it('updates input key on undo', () => {
+    const hook = renderHook(() =>
+      useForm({ mode: 'uncontrolled', history: true, initialValues: { a: 'a' } })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 'a-1'));
+    const key = hook.result.current.key('a');
+    act(() => hook.result.current.undo());
+    expect(hook.result.current.key('a')).not.toBe(key);
+  });
+});
@@ -21,6 +21,26 @@ function tests(mode: FormMode) {
     expect(hook.result.current.isValid()).toBe(true);
   });
 
+  it('does not produce unhandled rejections when async rules reject', async () => {
+    const onUnhandledRejection = jest.fn();
+    process.on('unhandledRejection', onUnhandledRejection);
+
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { a: 1 },
+        validate: { a: () => Promise.reject(new Error('network-error')) },
+      })
+    );
+
+    expect(hook.result.current.isValid()).toBe(true);
+    expect(hook.result.current.isValid('a')).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    process.off('unhandledRejection', onUnhandledRejection);
+    expect(onUnhandledRejection).not.toHaveBeenCalled();
+  });
+
   it('returns correct field validation state', () => {
     const hook = renderHook(() =>
       useForm({
@@ -0,0 +1,193 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode, FormPersistStorage } from '../../types';
+import { useForm } from '../../use-form';
+
+const STORAGE_KEY = 'mantine-form-test-form';
+
+const getStoredState = () => JSON.parse(window.localStorage.getItem(STORAGE_KEY)!);
+
+function tests(mode: FormMode) {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('restores values, touched and dirty state from storage on mount', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        version: 0,
+        values: { a: 'saved' },
+        touched: { a: true },
+        dirty: { a: true },
+      })
+    );
+
+    const hook = renderHook(() =>
+      useForm({ mode, name: 'test-form', persist: true, initialValues: { a: '', b: 'b' } })
+    );
+
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'saved', b: 'b' });
+    expect(hook.result.current.isTouched('a')).toBe(true);
+    expect(hook.result.current.isDirty('a')).toBe(true);
+    expect(hook.result.current.getInitialValues()).toStrictEqual({ a: '', b: 'b' });
+  });
+
+  it('saves form state to storage after debounce', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        name: 'test-form',
+        persist: { debounce: 200 },
+        initialValues: { a: '' },
+      })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 'draft'));
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe(null);
+
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+
+    expect(getStoredState()).toStrictEqual({
+      version: 0,
+      values: { a: 'draft' },
+      touched: { a: true },
+      dirty: { a: true },
+    });
+  });
+
+  it('saves pending changes on unmount', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, name: 'test-form', persist: true, initialValues: { a: '' } })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 'draft'));
+    hook.unmount();
+    expect(getStoredState().values).toStrictEqual({ a: 'draft' });
+  });
+
+  it('clears saved state when submit handler succeeds', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        name: 'test-form',
+        persist: true,
+        initialValues: { a: '' },
+        validate: { a: (value) => (value === 'invalid' ? 'error' : null) },
+      })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 'invalid'));
+    act(() => {
+      jest.runAllTimers();
+    });
+    act(() => hook.result.current.onSubmit(() => {})());
+    expect(getStoredState().values).toStrictEqual({ a: 'invalid' });
+
+    act(() => hook.result.current.setFieldValue('a', 'valid'));
+    await act(async () => {
+      hook.result.current.onSubmit(() => Promise.resolve())();
+    });
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe(null);
+
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe(null);
+  });
+
+  it('keeps saved state on submit when clearOnSubmit is false', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        name: 'test-form',
+        persist: { clearOnSubmit: false },
+        initialValues: { a: '' },
+      })
+    );
+
+    act(() => hook.result.current.setFieldValue('a', 'draft'));
+    act(() => {
+      jest.runAllTimers();
+    });
+    act(() => hook.result.current.onSubmit(() => {})());
+    expect(getStoredState().values).toStrictEqual({ a: 'draft' });
+  });
+
+  it('migrates state saved with a different version', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: 1, values: { fullName: 'John' }, touched: {}, dirty: {} })
+    );
+
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        name: 'test-form',
+        initialValues: { name: '' },
+        persist: {
+          version: 2,
+          migrate: (state) => ({ ...state, values: { name: state.values.fullName } }),
+        },
+      })
+    );
+
+    expect(hook.result.current.getValues()).toStrictEqual({ name: 'John' });
+  });
+
+  it('discards state saved with a different version when migrate is not set', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: 1, values: { a: 'saved' }, touched: {}, dirty: {} })
+    );
+
+    const hook = renderHook(() =>
+      useForm({ mode, name: 'test-form', persist: { version: 2 }, initialValues: { a: '' } })
+    );
+
+    expect(hook.result.current.getValues()).toStrictEqual({ a: '' });
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBe(null);
+  });
+
+  it('supports custom storage and key', () => {
+    const store: Record<string, string> = { custom: JSON.stringify({ values: { a: 'saved' } }) };
+    const storage: FormPersistStorage = {
+      getItem: (key) => store[key] ?? null,
+      setItem: (key, value) => {
+        store[key] = value;
+      },
+      removeItem: (key) => {
+        delete store[key];
+      },
+    };
+
+    const hook = renderHook(() =>
+      useForm({ mode, persist: { storage, key: 'custom' }, initialValues: { a: '' } })
+    );
+
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 'saved' });
+    act(() => hook.result.current.reset());
+    expect(store.custom).toBe(undefined);
+  });
+
+  it('throws if form does not have name or key', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useForm({ mode, persist: true }))).toThrow(
+      '[@mantine/use-form] persist: Form must have "name" or "persist.key" to be persisted'
+    );
+    jest.restoreAllMocks();
+  });
+}
+
+describe('@mantine/form/persist-controlled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('controlled');
+});
+
+describe('@mantine/form/persist-uncontrolled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('uncontrolled');
+});
@@ -0,0 +1,126 @@
+import { act, renderHook } from '@testing-library/react';
+import { serverErrors } from '../../server-errors/server-errors';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+function tests(mode: FormMode) {
+  it('sets errors returned from submit handler', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { items: [{ name: '' }], email: '' } })
+    );
+
+    act(() =>
+      hook.result.current.onSubmit(() =>
+        serverErrors({ 'items[0].name': 'Required', '': 'Form error' })
+      )()
+    );
+
+    expect(hook.result.current.errors).toStrictEqual({ 'items.0.name': 'Required' });
+    expect(hook.result.current.rootError).toBe('Form error');
+    expect(hook.result.current.lastSubmitError).toStrictEqual({
+      errors: { 'items.0.name': 'Required' },
+      rootError: 'Form error',
+    });
+  });
+
+  it('sets errors thrown from async submit handler', async () => {
+    const hook = renderHook(() => useForm({ mode, initialValues: { email: '' } }));
+
+    await act(async () => {
+      hook.result.current.onSubmit(async () => {
+        throw serverErrors({ email: 'Email is already taken' });
+      })();
+    });
+
+    expect(hook.result.current.errors).toStrictEqual({ email: 'Email is already taken' });
+    expect(hook.result.current.submitting).toBe(false);
+  });
+
+  it('does not clear persisted state when submit handler returns server errors', () => {
+    window.localStorage.clear();
+    const hook = renderHook(() =>
+      useForm({ mode, name: 'server-errors', persist: true, initialValues: { email: '' } })
+    );
+
+    act(() => hook.result.current.setFieldValue('email', 'test@example.com'));
+    act(() => {
+      jest.runAllTimers();
+    });
+    act(() => hook.result.current.onSubmit(() => serverErrors({ email: 'Taken' }))());
+    expect(window.localStorage.getItem('mantine-form-server-errors')).not.toBe(null);
+  });
+
+  it('sets lastSubmitError when submit handler rejects', async () => {
+    const hook = renderHook(() => useForm({ mode, initialValues: { email: '' } }));
+    const error = new Error('Network error');
+
+    await act(async () => {
+      hook.result.current.onSubmit(() => Promise.reject(error))();
+    });
+
+    expect(hook.result.current.lastSubmitError).toBe(error);
+    expect(hook.result.current.errors).toStrictEqual({});
+
+    await act(async () => {
+      hook.result.current.onSubmit(() => Promise.resolve())();
+    });
+
+    expect(hook.result.current.lastSubmitError).toBe(null);
+  });
+
+  it('rethrows errors thrown from sync submit handler', () => {
+    const hook = renderHook(() => useForm({ mode, initialValues: { email: '' } }));
+    const error = new Error('Unexpected');
+
+    act(() => {
+      expect(() =>
+        hook.result.current.onSubmit(() => {
+          throw error;
+        })()
+      ).toThrow('Unexpected');
+    });
+
+    expect(hook.result.current.lastSubmitError).toBe(error);
+  });
+
+  it('counts submits and clears root error on submit and reset', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { email: '' },
+        validate: { email: (value) => (value ? null : 'Required') },
+      })
+    );
+
+    expect(hook.result.current.submitCount).toBe(0);
+    act(() => hook.result.current.onSubmit(() => {})());
+    expect(hook.result.current.submitCount).toBe(1);
+
+    act(() => hook.result.current.setFieldValue('email', 'a'));
+    act(() => hook.result.current.onSubmit(() => serverErrors('Server error'))());
+    expect(hook.result.current.submitCount).toBe(2);
+    expect(hook.result.current.rootError).toBe('Server error');
+
+    act(() => hook.result.current.onSubmit(() => {})());
+    expect(hook.result.current.rootError).toBe(null);
+
+    act(() => hook.result.current.setRootError('Manual error'));
+    expect(hook.result.current.rootError).toBe('Manual error');
+
+    act(() => hook.result.current.reset());
+    expect(hook.result.current.rootError).toBe(null);
+    expect(hook.result.current.submitCount).toBe(0);
+  });
+}
+
+describe('@mantine/form/server-errors-controlled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('controlled');
+});
+
+describe('@mantine/form/server-errors-uncontrolled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('uncontrolled');
+});
@@ -0,0 +1,232 @@
+import { act, renderHook } from '@testing-library/react';
+import {
+  standardSchemaResolver,
+  StandardSchemaV1,
+} from '../../resolvers/standard-schema-resolver/standard-schema-resolver';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+interface Values {
+  name: string;
+  user: { email: string };
+  jobs: { title: string }[];
+}
+
+type Issue = { message: string; path?: (PropertyKey | { key: PropertyKey })[] };
+
+function getIssues(values: Values) {
+  const issues: Issue[] = [];
+  values.name.length < 2 && issues.push({ message: 'error-name', path: ['name'] });
+  values.name.length < 1 && issues.push({ message: 'error-name-2', path: ['name'] });
+  !values.user.email.includes('@') &&
+    issues.push({ message: 'error-email', path: [{ key: 'user' }, { key: 'email' }] });
+  values.jobs.forEach((job, index) => {
+    job.title === '' && issues.push({ message: 'error-title', path: ['jobs', index, 'title'] });
+  });
+  return issues;
+}
+
+function createSchema(delay?: number): StandardSchemaV1<Values> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const issues = getIssues(value as Values);
+        const result = issues.length > 0 ? { issues } : { value: value as Values };
+        return delay === undefined
+          ? result
+          : new Promise((resolve) => {
+              setTimeout(() => resolve(result), delay);
+            });
+      },
+    },
+  };
+}
+
+const initialValues: Values = { name: '', user: { email: '' }, jobs: [{ title: '' }] };
+
+const errors = {
+  name: 'error-name',
+  'user.email': 'error-email',
+  'jobs.0.title': 'error-title',
+};
+
+function tests(mode: FormMode) {
+  it('validates values with sync schema', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues, validate: standardSchemaResolver(createSchema()) })
+    );
+
+    act(() => {
+      expect(hook.result.current.validate()).toStrictEqual({ hasErrors: true, errors });
+    });
+
+    expect(hook.result.current.errors).toStrictEqual(errors);
+
+    act(() => {
+      hook.result.current.setFieldValue('name', 'John');
+      hook.result.current.setFieldValue('user.email', 'john@example.com');
+    });
+
+    act(() => {
+      expect(hook.result.current.validateField('jobs.0.title')).toStrictEqual({
+        hasError: true,
+        error: 'error-title',
+      });
+    });
+
+    expect(hook.result.current.isValid()).toBe(false);
+    expect(hook.result.current.isValid('name')).toBe(true);
+  });
+
+  it('validates values with async schema', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues, validate: standardSchemaResolver(createSchema(100)) })
+    );
+
+    let result: unknown = null;
+    act(() => {
+      hook.result.current.validateAsync().then((value) => {
+        result = value;
+      });
+    });
+
+    expect(hook.result.current.isValidating()).toBe(true);
+    expect(hook.result.current.isValidating('name')).toBe(true);
+    expect(hook.result.current.errors).toStrictEqual({});
+
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(result).toStrictEqual({ hasErrors: true, errors });
+    expect(hook.result.current.errors).toStrictEqual(errors);
+    expect(hook.result.current.isValidating()).toBe(false);
+  });
+
+  it('validates single field with async schema', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { ...initialValues, name: 'John' },
+        validate: standardSchemaResolver(createSchema(100)),
+      })
+    );
+
+    let result: unknown = null;
+    act(() => {
+      hook.result.current.validateFieldAsync('user.email').then((value) => {
+        result = value;
+      });
+    });
+
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(result).toStrictEqual({ hasError: true, error: 'error-email' });
+    expect(hook.result.current.errors).toStrictEqual({ 'user.email': 'error-email' });
+  });
+
+  it('calls onSubmit after async schema is resolved', async () => {
+    const onSubmit = jest.fn();
+    const onValidationFailure = jest.fn();
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues, validate: standardSchemaResolver(createSchema(100)) })
+    );
+
+    act(() => hook.result.current.onSubmit(onSubmit, onValidationFailure)());
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(onValidationFailure).toHaveBeenCalledWith(errors, initialValues, undefined);
+
+    act(() => {
+      hook.result.current.setValues({
+        name: 'John',
+        user: { email: 'john@example.com' },
+        jobs: [{ title: 'Engineer' }],
+      });
+    });
+
+    act(() => hook.result.current.onSubmit(onSubmit)());
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(hook.result.current.errors).toStrictEqual({});
+  });
+
+  it('ignores async schema results if values change before it is resolved', async () => {
+    const onSubmit = jest.fn();
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { name: 'John', user: { email: 'john@example.com' }, jobs: [] },
+        validate: standardSchemaResolver(createSchema(100)),
+      })
+    );
+
+    act(() => hook.result.current.onSubmit(onSubmit)());
+    act(() => hook.result.current.setFieldValue('name', ''));
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(hook.result.current.isValidating()).toBe(false);
+  });
+}
+
+describe('@mantine/form/standard-schema-resolver-controlled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('controlled');
+});
+
+describe('@mantine/form/standard-schema-resolver-uncontrolled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('uncontrolled');
+});
+
+describe('@mantine/form/standard-schema-resolver', () => {
+  it('assigns errors of issues without path to empty path', () => {
+    const schema: StandardSchemaV1<{ a: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: () => ({
+          issues: [{ message: 'error-root' }, { message: 'error-a', path: ['a'] }],
+        }),
+      },
+    };
+
+    expect(standardSchemaResolver(schema)({ a: '' })).toStrictEqual({
+      '': 'error-root',
+      a: 'error-a',
+    });
+  });
+
+  it('infers values type from schema', () => {
+    const schema: StandardSchemaV1<{ a: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => ({ value: value as { a: string } }),
+      },
+    };
+
+    const hook = renderHook(() => useForm({ validate: standardSchemaResolver(schema) }));
+    const values: { a: string } = hook.result.current.getValues();
+    expect(values).toStrictEqual({});
+
+    // @ts-expect-error values type is inferred from schema
+    act(() => hook.result.current.setValues({ a: 1 }));
+    expect(hook.result.current.getValues()).toStrictEqual({ a: 1 });
+  });
+});
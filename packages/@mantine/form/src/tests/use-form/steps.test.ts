@@ -0,0 +1,230 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode, FormStep } from '../../types';
+import { useForm } from '../../use-form';
+
+const initialValues = { name: '', email: '', jobs: [{ title: '' }], website: '' };
+
+const validate = {
+  name: (value: string) => (value.length < 2 ? 'error-name' : null),
+  email: (value: string) => (value.includes('@') ? null : 'error-email'),
+  jobs: { title: (value: string) => (value.length < 2 ? 'error-title' : null) },
+};
+
+const steps: FormStep<typeof initialValues>[] = [
+  { fields: ['name', 'email'] },
+  { fields: ['jobs'] },
+  { fields: ['website'] },
+];
+
+function tests(mode: FormMode) {
+  it('validates only fields of the active step with nextStep', async () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, validate, steps }));
+
+    expect(hook.result.current.activeStep).toBe(0);
+
+    await act(async () => {
+      expect(await hook.result.current.nextStep()).toBe(false);
+    });
+
+    expect(hook.result.current.activeStep).toBe(0);
+    expect(hook.result.current.errors).toStrictEqual({ name: 'error-name', email: 'error-email' });
+
+    act(() => {
+      hook.result.current.setFieldValue('name', 'John');
+      hook.result.current.setFieldValue('email', 'john@example.com');
+    });
+
+    await act(async () => {
+      expect(await hook.result.current.nextStep()).toBe(true);
+    });
+
+    expect(hook.result.current.activeStep).toBe(1);
+    expect(hook.result.current.errors).toStrictEqual({});
+
+    await act(async () => {
+      await hook.result.current.nextStep();
+    });
+
+    expect(hook.result.current.activeStep).toBe(1);
+    expect(hook.result.current.errors).toStrictEqual({ 'jobs.0.title': 'error-title' });
+  });
+
+  it('moves to the previous step with prevStep', async () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues, validate, steps, initialStep: 2 })
+    );
+
+    act(() => hook.result.current.prevStep());
+    expect(hook.result.current.activeStep).toBe(1);
+    act(() => hook.result.current.prevStep());
+    act(() => hook.result.current.prevStep());
+    expect(hook.result.current.activeStep).toBe(0);
+  });
+
+  it('allows going to the next steps only if all previous steps are valid', async () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, validate, steps }));
+
+    expect(hook.result.current.canGoToStep(0)).toBe(true);
+    expect(hook.result.current.canGoToStep(1)).toBe(false);
+    expect(hook.result.current.canGoToStep(4)).toBe(false);
+
+    act(() => {
+      hook.result.current.setFieldValue('name', 'John');
+      hook.result.current.setFieldValue('email', 'john@example.com');
+    });
+
+    expect(hook.result.current.canGoToStep(1)).toBe(true);
+    expect(hook.result.current.canGoToStep(2)).toBe(false);
+
+    await act(async () => {
+      expect(await hook.result.current.goToStep(2)).toBe(false);
+    });
+    expect(hook.result.current.activeStep).toBe(0);
+    expect(hook.result.current.errors).toStrictEqual({ 'jobs.0.title': 'error-title' });
+
+    act(() => hook.result.current.setFieldValue('jobs.0.title', 'Engineer'));
+    await act(async () => {
+      expect(await hook.result.current.goToStep(3)).toBe(true);
+    });
+    expect(hook.result.current.activeStep).toBe(3);
+
+    await act(async () => {
+      await hook.result.current.goToStep(0);
+    });
+    expect(hook.result.current.activeStep).toBe(0);
+  });
+
+  it('returns step status', async () => {
+    const hook = renderHook(() => useForm({ mode, initialValues, validate, steps }));
+
+    expect(hook.result.current.getStepStatus(0)).toStrictEqual({
+      hasErrors: false,
+      errors: {},
+      dirty: false,
+      touched: false,
+    });
+
+    act(() => hook.result.current.setFieldValue('name', 'J'));
+    await act(async () => {
+      await hook.result.current.nextStep();
+    });
+
+    expect(hook.result.current.getStepStatus(0)).toStrictEqual({
+      hasErrors: true,
+      errors: { name: 'error-name', email: 'error-email' },
+      dirty: true,
+      touched: true,
+    });
+
+    expect(hook.result.current.getStepStatus(1)).toStrictEqual({
+      hasErrors: false,
+      errors: {},
+      dirty: false,
+      touched: false,
+    });
+  });
+
+  it('waits for async rules of the step', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { username: 'taken', bio: '' },
+        validate: {
+          username: (value) =>
+            new Promise((resolve) => {
+              setTimeout(() => resolve(value === 'taken' ? 'error-username' : null), 100);
+            }),
+        },
+        steps: [{ fields: ['username'] }, { fields: ['bio'] }],
+      })
+    );
+
+    let result: boolean | null = null;
+    act(() => {
+      hook.result.current.nextStep().then((value) => {
+        result = value;
+      });
+    });
+
+    expect(hook.result.current.isValidating('username')).toBe(true);
+
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(result).toBe(false);
+    expect(hook.result.current.activeStep).toBe(0);
+    expect(hook.result.current.errors).toStrictEqual({ username: 'error-username' });
+  });
+
+  it('does not go to the next step when async validation function rejects', async () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { username: '', bio: '' },
+        validate: () => Promise.reject(new Error('error-network')),
+        steps: [{ fields: ['username'] }, { fields: ['bio'] }],
+      })
+    );
+
+    let result: boolean | null = null;
+    await act(async () => {
+      result = await hook.result.current.nextStep();
+    });
+
+    expect(result).toBe(false);
+    expect(hook.result.current.activeStep).toBe(0);
+    expect(hook.result.current.rootError).toBe('error-network');
+    expect(hook.result.current.isValidating()).toBe(false);
+  });
+
+  it('does not wait for async rules in canGoToStep', async () => {
+    jest.useRealTimers();
+    const onUnhandledRejection = jest.fn();
+    process.on('unhandledRejection', onUnhandledRejection);
+
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { username: '', bio: '' },
+        validate: {
+          username: () => Promise.reject(new Error('error-network')),
+          bio: (value) => (value ? null : 'error-bio'),
+        },
+        steps: [{ fields: ['username'] }, { fields: ['bio'] }],
+      })
+    );
+
+    expect(hook.result.current.canGoToStep(1)).toBe(true);
+    expect(hook.result.current.canGoToStep(2)).toBe(false);
+    expect(hook.result.current.isValidating()).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    process.off('unhandledRejection', onUnhandledRejection);
+    jest.useFakeTimers();
+    expect(onUnhandledRejection).not.toHaveBeenCalled();
+  });
+
+  it('resets active step with reset', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues, validate, steps, initialStep: 1 })
+    );
+
+    act(() => hook.result.current.prevStep());
+    expect(hook.result.current.activeStep).toBe(0);
+    act(() => hook.result.current.reset());
+    expect(hook.result.current.activeStep).toBe(1);
+  });
+}
+
+describe('@mantine/form/steps-controlled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('controlled');
+});
+
+describe('@mantine/form/steps-uncontrolled', () => {
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+  tests('uncontrolled');
+});
@@ -0,0 +1,131 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+const getEventTypes = (spy: jest.Mock) => spy.mock.calls.map(([event]) => event.type);
+
+function tests(mode: FormMode) {
+  it('emits values change events', () => {
+    const spy = jest.fn();
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: 'a', b: { c: 1 } } }));
+    act(() => {
+      hook.result.current.subscribe(spy);
+    });
+
+    act(() => hook.result.current.setFieldValue('b.c', 2));
+    expect(spy).toHaveBeenLastCalledWith({
+      type: 'setFieldValue',
+      path: 'b.c',
+      value: 2,
+      previousValue: 1,
+    });
+
+    act(() => hook.result.current.setValues({ a: 'a-1' }));
+    expect(spy).toHaveBeenLastCalledWith({
+      type: 'setValues',
+      values: { a: 'a-1', b: { c: 2 } },
+      previousValues: { a: 'a', b: { c: 2 } },
+    });
+
+    act(() => hook.result.current.reset());
+    expect(spy).toHaveBeenCalledWith({
+      type: 'setValues',
+      values: { a: 'a', b: { c: 1 } },
+      previousValues: { a: 'a-1', b: { c: 2 } },
+    });
+    expect(spy).toHaveBeenLastCalledWith({ type: 'reset' });
+    expect(
+      getEventTypes(spy).filter((type) => type === 'setFieldValue' || type === 'setValues')
+    ).toStrictEqual(['setFieldValue', 'setValues', 'setValues']);
+  });
+
+  it('emits errors, touched and dirty events when they change', () => {
+    const spy = jest.fn();
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: 'a' } }));
+    act(() => {
+      hook.result.current.subscribe(spy);
+    });
+
+    act(() => hook.result.current.setFieldValue('a', 'a-1'));
+    expect(spy).toHaveBeenCalledWith({ type: 'setDirty', dirty: { a: true } });
+    expect(spy).toHaveBeenCalledWith({ type: 'setTouched', touched: { a: true } });
+
+    spy.mockClear();
+    act(() => hook.result.current.setFieldValue('a', 'a-2'));
+    expect(getEventTypes(spy)).toStrictEqual(['setFieldValue']);
+
+    act(() => hook.result.current.setFieldError('a', 'error-a'));
+    expect(spy).toHaveBeenLastCalledWith({ type: 'setErrors', errors: { a: 'error-a' } });
+
+    spy.mockClear();
+    act(() => hook.result.current.setErrors({ a: 'error-a' }));
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('emits validation events', () => {
+    const spy = jest.fn();
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { a: '', b: 'b' },
+        validate: { a: (value) => (value ? null : 'error-a') },
+      })
+    );
+    act(() => {
+      hook.result.current.subscribe(spy);
+    });
+
+    act(() => {
+      hook.result.current.validate();
+    });
+    expect(spy).toHaveBeenLastCalledWith({
+      type: 'validate',
+      fields: null,
+      hasErrors: true,
+      errors: { a: 'error-a' },
+    });
+
+    act(() => {
+      hook.result.current.validateField('b');
+    });
+    expect(spy).toHaveBeenLastCalledWith({
+      type: 'validate',
+      fields: ['b'],
+      hasErrors: false,
+      errors: {},
+    });
+  });
+
+  it('emits submit event before validation', () => {
+    const spy = jest.fn();
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: 'a' } }));
+    act(() => {
+      hook.result.current.subscribe(spy);
+    });
+
+    act(() => hook.result.current.onSubmit(() => {})());
+    expect(getEventTypes(spy)).toStrictEqual(['submit', 'validate']);
+  });
+
+  it('removes listener with returned function', () => {
+    const spy = jest.fn();
+    const hook = renderHook(() => useForm({ mode, initialValues: { a: 'a' } }));
+    let unsubscribe = () => {};
+    act(() => {
+      unsubscribe = hook.result.current.subscribe(spy);
+    });
+
+    act(() => hook.result.current.setValues({ a: 'a-1' }));
+    unsubscribe();
+    act(() => hook.result.current.setValues({ a: 'a-2' }));
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+}
+
+describe('@mantine/form/subscribe-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/subscribe-uncontrolled', () => {
+  tests('uncontrolled');
+});
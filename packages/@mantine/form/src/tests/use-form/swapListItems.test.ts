@@ -0,0 +1,42 @@
+import { act, renderHook } from '@testing-library/react';
+import { FormMode } from '../../types';
+import { useForm } from '../../use-form';
+
+function tests(mode: FormMode) {
+  it('swaps items at given list', () => {
+    const hook = renderHook(() =>
+      useForm({ mode, initialValues: { a: [{ b: 1 }, { b: 2 }, { b: 3 }] } })
+    );
+
+    act(() => hook.result.current.swapListItems('a', { from: 2, to: 0 }));
+    expect(hook.result.current.getValues()).toStrictEqual({ a: [{ b: 3 }, { b: 2 }, { b: 1 }] });
+  });
+
+  it('swaps errors and touched state of items', () => {
+    const hook = renderHook(() =>
+      useForm({
+        mode,
+        initialValues: { a: [{ b: 1 }, { b: 2 }, { b: 3 }] },
+        initialErrors: { 'a.0.b': 'error-0', 'a.2.b': 'error-2' },
+        initialTouched: { 'a.0.b': true },
+      })
+    );
+
+    act(() => hook.result.current.swapListItems('a', { from: 0, to: 2 }));
+    expect(hook.result.current.errors).toStrictEqual({ 'a.0.b': 'error-2', 'a.2.b': 'error-0' });
+    expect(hook.result.current.isTouched('a.2.b')).toBe(true);
+    expect(hook.result.current.isTouched('a.0.b')).toBe(false);
+    expect(hook.result.current.isDirty('a')).toBe(true);
+
+    act(() => hook.result.current.swapListItems('a', { from: 0, to: 2 }));
+    expect(hook.result.current.isDirty('a')).toBe(false);
+  });
+}
+
+describe('@mantine/form/swapListItems-controlled', () => {
+  tests('controlled');
+});
+
+describe('@mantine/form/swapListItems-uncontrolled', () => {
+  tests('uncontrolled');
+});
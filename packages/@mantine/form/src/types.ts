@@ -18,12 +18,24 @@ export interface FormValidationResult {
 
 export type FormErrors = Record<string, React.ReactNode>;
 
+export interface FormServerErrors {
+  /** Errors of fields mapped to form paths */
+  errors: FormErrors;
+
+  /** Error that is not related to any field */
+  rootError: React.ReactNode;
+}
+
 export interface ReorderPayload {
   from: number;
   to: number;
 }
 
-type Rule<Value, Values> = (value: Value, values: Values, path: string) => React.ReactNode;
+type Rule<Value, Values> = (
+  value: Value,
+  values: Values,
+  path: string
+) => React.ReactNode | Promise<React.ReactNode>;
 
 type SetSubmitting = React.Dispatch<React.SetStateAction<boolean>>;
 
@@ -46,7 +58,9 @@ export type FormRulesRecord<Values, InitValues = Values> = Partial<{
   [Key in keyof Values]: FormRule<Values[Key], InitValues>;
 }> & { [formRootRule]?: Rule<Values, InitValues> };
 
-export type FormValidateInput<Values> = FormRulesRecord<Values> | ((values: Values) => FormErrors);
+export type FormValidateInput<Values> =
+  | FormRulesRecord<Values>
+  | ((values: Values) => FormErrors | Promise<FormErrors>);
 
 export type SetValues<Values> = React.Dispatch<React.SetStateAction<Partial<Values>>>;
 export type SetInitialValues<Values> = (values: Values) => void;
@@ -57,7 +71,7 @@ export type OnSubmit<Values, TransformValues extends _TransformValues<Values>> =
   handleSubmit: (
     values: ReturnType<TransformValues>,
     event: React.FormEvent<HTMLFormElement> | undefined
-  ) => void | Promise<any>,
+  ) => void | FormServerErrors | Promise<any>,
   handleValidationFailure?: (
     errors: FormErrors,
     values: Values,
@@ -111,6 +125,11 @@ export type Validate = () => FormValidationResult;
 export type ValidateField<Values> = <Field extends LooseKeys<Values>>(
   path: Field
 ) => FormFieldValidationResult;
+export type ValidateAsync = () => Promise<FormValidationResult>;
+export type ValidateFieldAsync<Values> = <Field extends LooseKeys<Values>>(
+  path: Field
+) => Promise<FormFieldValidationResult>;
+export type IsValidating<Values> = <Field extends LooseKeys<Values>>(path?: Field) => boolean;
 
 export type SetFieldError<Values> = <Field extends LooseKeys<Values>>(
   path: Field,
@@ -155,6 +174,26 @@ export type RemoveListItem<Values> = <Field extends LooseKeys<Values>>(
   index: number
 ) => void;
 
+export type SwapListItems<Values> = <Field extends LooseKeys<Values>>(
+  path: Field,
+  payload: ReorderPayload
+) => void;
+
+export type DuplicateListItem<Values> = <Field extends LooseKeys<Values>>(
+  path: Field,
+  index: number
+) => void;
+
+export type AppendListItems<Values> = <Field extends LooseKeys<Values>>(
+  path: Field,
+  items: FormArrayElement<Values, Field>[]
+) => void;
+
+export type GetListItemKey<Values> = <Field extends LooseKeys<Values>>(
+  path: Field,
+  index: number
+) => string;
+
 export type GetFieldStatus<Values> = <Field extends LooseKeys<Values>>(path?: Field) => boolean;
 export type ResetStatus = () => void;
 export type GetStatus = () => FormStatus;
@@ -177,12 +216,130 @@ export type Watch<Values> = <Field extends LooseKeys<Values>>(
   subscriber: FormFieldSubscriber<Values, Field>
 ) => void;
 
+export type FormEvent<Values> =
+  | { type: 'setFieldValue'; path: string; value: unknown; previousValue: unknown }
+  | { type: 'setValues'; values: Values; previousValues: Values }
+  | { type: 'validate'; fields: string[] | null; hasErrors: boolean; errors: FormErrors }
+  | { type: 'setErrors'; errors: FormErrors }
+  | { type: 'setTouched'; touched: FormStatus }
+  | { type: 'setDirty'; dirty: FormStatus }
+  | { type: 'reset' }
+  | { type: 'submit' };
+
+export type FormEventListener<Values> = (event: FormEvent<Values>) => void;
+
+/** Subscribes to form events, returns function that removes the listener */
+export type Subscribe<Values> = (listener: FormEventListener<Values>) => () => void;
+
+export interface FormSelectorState<Values> {
+  values: Values;
+  errors: FormErrors;
+  touched: FormStatus;
+  dirty: FormStatus;
+  submitting: boolean;
+  submitCount: number;
+}
+
 export type Key<Values> = <Field extends LooseKeys<Values>>(path: Field) => string;
 
 export type GetInputNode<Values> = <NodeType extends HTMLElement, Field extends LooseKeys<Values>>(
   path: Field
 ) => NodeType | null;
 
+export interface FormStep<Values> {
+  /** Paths of fields that belong to the step, nested fields are included, for example, `'jobs'` includes `'jobs.0.title'` */
+  fields: LooseKeys<Values>[];
+}
+
+export interface FormStepStatus {
+  /** `true` if any field of the step has an error */
+  hasErrors: boolean;
+
+  /** Current errors of the step fields */
+  errors: FormErrors;
+
+  /** `true` if any field of the step is dirty */
+  dirty: boolean;
+
+  /** `true` if any field of the step is touched */
+  touched: boolean;
+}
+
+export type NextStep = () => Promise<boolean>;
+export type PrevStep = () => void;
+export type GoToStep = (step: number) => Promise<boolean>;
+export type CanGoToStep = (step: number) => boolean;
+export type GetStepStatus = (step: number) => FormStepStatus;
+
+export interface FormHistoryOptions {
+  /** Maximum number of changes that can be undone @default `100` */
+  maxDepth?: number;
+
+  /** Changes of the same field made within given number of ms are merged into a single history entry, `0` to disable @default `500` */
+  coalesceDelay?: number;
+}
+
+export interface FormFieldDependency<Values> {
+  /** Paths of fields the field depends on, the field is validated again when any of them changes */
+  dependsOn?: LooseKeys<Values>[];
+
+  /** Determines whether the field is visible, hidden fields and their nested fields are not validated */
+  visible?: (values: Values, path: string) => boolean;
+
+  /** Determines whether the field is required, visible required fields without a value have `requiredError` error */
+  required?: (values: Values, path: string) => boolean;
+
+  /** Error of required field without a value @default `true` */
+  requiredError?: React.ReactNode;
+}
+
+/** Keys are paths of dependent fields, use `FORM_INDEX` to configure dependencies of all list items */
+export type FormDependencies<Values> = Partial<
+  Record<LooseKeys<Values>, FormFieldDependency<Values>>
+>;
+
+export type IsFieldVisible<Values> = <Field extends LooseKeys<Values>>(path: Field) => boolean;
+export type IsFieldRequired<Values> = <Field extends LooseKeys<Values>>(path: Field) => boolean;
+
+export interface FormPersistStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export interface FormPersistedState<Values> {
+  version: number;
+  values: Values;
+  touched: FormStatus;
+  dirty: FormStatus;
+}
+
+export interface FormPersistOptions<Values> {
+  /** Storage where form state is saved, `'localStorage'`, `'sessionStorage'` or custom storage object @default `'localStorage'` */
+  storage?: 'localStorage' | 'sessionStorage' | FormPersistStorage;
+
+  /** Storage key, by default derived from form `name`: `mantine-form-{name}` */
+  key?: string;
+
+  /** Delay in ms between the last values change and write to the storage @default `500` */
+  debounce?: number;
+
+  /** Version of the saved state, when saved version is different, `migrate` is called @default `0` */
+  version?: number;
+
+  /** Converts state saved with a different version, return `null` to discard saved state. If not set, state with different version is discarded. */
+  migrate?: (state: FormPersistedState<any>) => FormPersistedState<Values> | null;
+
+  /** Determines whether saved state is removed when `onSubmit` handler succeeds @default `true` */
+  clearOnSubmit?: boolean;
+
+  /** Function to serialize state into string to be saved in storage @default `JSON.stringify` */
+  serialize?: (state: FormPersistedState<Values>) => string;
+
+  /** Function to deserialize string from storage @default `JSON.parse` */
+  deserialize?: (value: string) => FormPersistedState<any> | null;
+}
+
 export interface UseFormInput<
   Values,
   TransformValues extends _TransformValues<Values> = (values: Values) => Values,
@@ -198,6 +355,7 @@ export interface UseFormInput<
   clearInputErrorOnChange?: boolean;
   validateInputOnChange?: boolean | LooseKeys<Values>[];
   validateInputOnBlur?: boolean | LooseKeys<Values>[];
+  validateInputOnChangeDebounce?: number;
   onValuesChange?: (values: Values, previous: Values) => void;
   enhanceGetInputProps?: (payload: {
     inputProps: GetInputPropsReturnType;
@@ -208,6 +366,12 @@ export interface UseFormInput<
   onSubmitPreventDefault?: 'always' | 'never' | 'validation-failed';
   touchTrigger?: 'focus' | 'change';
   cascadeUpdates?: boolean;
+  persist?: boolean | FormPersistOptions<Values>;
+  steps?: FormStep<Values>[];
+  initialStep?: number;
+  history?: boolean | FormHistoryOptions;
+  dependencies?: FormDependencies<Values>;
+  omitHiddenFields?: boolean;
 }
 
 export interface UseFormReturnType<
@@ -216,8 +380,12 @@ export interface UseFormReturnType<
 > {
   values: Values;
   submitting: boolean;
+  submitCount: number;
+  lastSubmitError: unknown;
   initialized: boolean;
   errors: FormErrors;
+  rootError: React.ReactNode;
+  setRootError: (error: React.ReactNode) => void;
   setSubmitting: SetSubmitting;
   initialize: Initialize<Values>;
   setValues: SetValues<Values>;
@@ -230,10 +398,17 @@ export interface UseFormReturnType<
   reset: Reset;
   validate: Validate;
   validateField: ValidateField<Values>;
+  validateAsync: ValidateAsync;
+  validateFieldAsync: ValidateFieldAsync<Values>;
+  isValidating: IsValidating<Values>;
   reorderListItem: ReorderListItem<Values>;
   removeListItem: RemoveListItem<Values>;
   replaceListItem: ReplaceListItem<Values>;
   insertListItem: InsertListItem<Values>;
+  swapListItems: SwapListItems<Values>;
+  duplicateListItem: DuplicateListItem<Values>;
+  appendListItems: AppendListItems<Values>;
+  getListItemKey: GetListItemKey<Values>;
   getInputProps: GetInputProps<Values>;
   onSubmit: OnSubmit<Values, TransformValues>;
   onReset: OnReset;
@@ -247,12 +422,28 @@ export interface UseFormReturnType<
   getTransformedValues: GetTransformedValues<Values, TransformValues>;
   getValues: () => Values;
   getInitialValues: () => Values;
+  getErrors: () => FormErrors;
   getTouched: GetStatus;
   getDirty: GetStatus;
   watch: Watch<Values>;
+  subscribe: Subscribe<Values>;
   key: Key<Values>;
   getInputNode: GetInputNode<Values>;
   resetField: (path: PropertyKey) => void;
+  clearPersistedState: () => void;
+  activeStep: number;
+  nextStep: NextStep;
+  prevStep: PrevStep;
+  goToStep: GoToStep;
+  canGoToStep: CanGoToStep;
+  getStepStatus: GetStepStatus;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clearHistory: () => void;
+  isFieldVisible: IsFieldVisible<Values>;
+  isFieldRequired: IsFieldRequired<Values>;
 }
 
 export type UseForm<
@@ -0,0 +1,64 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import type { FormSelectorState, UseFormReturnType } from './types';
+
+export function useFormSelector<Values, Selected>(
+  form: UseFormReturnType<Values, any>,
+  selector: (state: FormSelectorState<Values>) => Selected,
+  equalityFn: (a: Selected, b: Selected) => boolean = Object.is
+): Selected {
+  const selectionRef = useRef<{ value: Selected } | null>(null);
+  const cacheRef = useRef<{
+    state: FormSelectorState<Values>;
+    selector: typeof selector;
+    value: Selected;
+  } | null>(null);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => form.subscribe(() => onStoreChange()),
+    [form.subscribe]
+  );
+
+  const getState = (): FormSelectorState<Values> => ({
+    values: form.getValues(),
+    errors: form.getErrors(),
+    touched: form.getTouched(),
+    dirty: form.getDirty(),
+    submitting: form.submitting,
+    submitCount: form.submitCount,
+  });
+
+  // Selector is not called again while form state is the same, selectors that return
+  // new objects or arrays would otherwise produce a new snapshot on every call
+  const select = () => {
+    const state = getState();
+    const cache = cacheRef.current;
+
+    if (
+      cache &&
+      cache.selector === selector &&
+      (Object.keys(state) as (keyof FormSelectorState<Values>)[]).every(
+        (key) => cache.state[key] === state[key]
+      )
+    ) {
+      return cache.value;
+    }
+
+    const value = selector(state);
+    cacheRef.current = { state, selector, value };
+    return value;
+  };
+
+  // Previous selection is returned if it is equal to the new one, the component is not re-rendered in this case
+  const getSnapshot = () => {
+    const selection = select();
+
+    if (selectionRef.current && equalityFn(selectionRef.current.value, selection)) {
+      return selectionRef.current.value;
+    }
+
+    selectionRef.current = { value: selection };
+    return selection;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
@@ -1,14 +1,30 @@
 import { useCallback, useState } from 'react';
 import { useFormActions } from './actions';
+import { omitHiddenFields as omitHiddenFieldValues } from './dependencies';
 import { getInputOnChange } from './get-input-on-change';
+import {
+  FORM_VALIDATION_PATH,
+  useFormAsyncValidation,
+} from './hooks/use-form-async-validation/use-form-async-validation';
+import { useFormDependencies } from './hooks/use-form-dependencies/use-form-dependencies';
+import { filterErrors } from './hooks/use-form-errors/filter-errors/filter-errors';
 import { useFormErrors } from './hooks/use-form-errors/use-form-errors';
+import { useFormEvents } from './hooks/use-form-events/use-form-events';
+import { useFormHistory } from './hooks/use-form-history/use-form-history';
 import { useFormList } from './hooks/use-form-list/use-form-list';
+import { useFormPersist } from './hooks/use-form-persist/use-form-persist';
 import { useFormStatus } from './hooks/use-form-status/use-form-status';
+import { useFormSteps } from './hooks/use-form-steps/use-form-steps';
 import { useFormValues } from './hooks/use-form-values/use-form-values';
 import { useFormWatch } from './hooks/use-form-watch/use-form-watch';
 import { getDataPath, getPath } from './paths';
+import { LooseKeys } from './paths.types';
+import { isServerErrors } from './server-errors/server-errors';
 import {
   _TransformValues,
+  FormErrors,
+  FormFieldValidationResult,
+  FormValidationResult,
   GetInputNode,
   GetInputProps,
   GetTransformedValues,
@@ -23,9 +39,20 @@ import {
   UseFormInput,
   UseFormReturnType,
   Validate,
+  ValidateAsync,
   ValidateField,
+  ValidateFieldAsync,
 } from './types';
-import { shouldValidateOnChange, validateFieldValue, validateValues } from './validate';
+import {
+  filterErrorsByPath,
+  getFieldValidation,
+  getFormValidation,
+  isFieldPath,
+  resolvePendingError,
+  shouldValidateOnChange,
+  validateFieldValue,
+  validateValues,
+} from './validate';
 
 export function useForm<
   Values extends Record<string, any> = Record<string, any>,
@@ -40,6 +67,7 @@ export function useForm<
   clearInputErrorOnChange = true,
   validateInputOnChange = false,
   validateInputOnBlur = false,
+  validateInputOnChangeDebounce = 0,
   onValuesChange,
   transformValues = ((values: Values) => values) as any,
   enhanceGetInputProps,
@@ -47,27 +75,65 @@ export function useForm<
   onSubmitPreventDefault = 'always',
   touchTrigger = 'change',
   cascadeUpdates = false,
+  persist,
+  steps,
+  initialStep = 0,
+  history,
+  dependencies,
+  omitHiddenFields = false,
 }: UseFormInput<Values, TransformValues> = {}): UseFormReturnType<Values, TransformValues> {
-  const $errors = useFormErrors<Values>(initialErrors);
-  const $values = useFormValues<Values>({ initialValues, onValuesChange, mode });
-  const $status = useFormStatus<Values>({ initialDirty, initialTouched, $values, mode });
+  const $events = useFormEvents<Values>();
+  const $errors = useFormErrors<Values>(initialErrors, (errors) =>
+    $events.emit({ type: 'setErrors', errors })
+  );
+  const $values = useFormValues<Values>({
+    initialValues,
+    onValuesChange: (values, previousValues) => {
+      onValuesChange?.(values, previousValues);
+      persist && $persist.schedulePersist();
+      $events.emitValuesChange(values, previousValues);
+    },
+    mode,
+  });
+  const $status = useFormStatus<Values>({
+    initialDirty,
+    initialTouched,
+    $values,
+    mode,
+    onStatusChange: ({ touched, dirty }) => {
+      touched && $events.emit({ type: 'setTouched', touched });
+      dirty && $events.emit({ type: 'setDirty', dirty });
+    },
+  });
   const $list = useFormList<Values>({ $values, $errors, $status });
+  const $dependencies = useFormDependencies<Values>({ dependencies, mode, $values });
   const $watch = useFormWatch<Values>({ $status, cascadeUpdates });
+  const $asyncValidation = useFormAsyncValidation<Values>();
   const [formKey, setFormKey] = useState(0);
   const [fieldKeys, setFieldKeys] = useState<Record<string, number>>({});
   const [submitting, setSubmitting] = useState(false);
+  const [submitCount, setSubmitCount] = useState(0);
+  const [lastSubmitError, setLastSubmitError] = useState<unknown>(null);
 
   const reset: Reset = useCallback(() => {
+    $history.record();
     $values.resetValues();
     $errors.clearErrors();
     $status.resetDirty();
     $status.resetTouched();
+    $asyncValidation.cancelValidation();
+    $steps.resetSteps();
+    setSubmitCount(0);
+    setLastSubmitError(null);
+    $persist.clearPersistedState();
     mode === 'uncontrolled' && setFormKey((key) => key + 1);
+    $events.emit({ type: 'reset' });
   }, []);
 
   const handleValuesChanges = useCallback(
     (previousValues: Values) => {
       clearInputErrorOnChange && $errors.clearErrors();
+      $asyncValidation.cancelValidation();
       mode === 'uncontrolled' && setFormKey((key) => key + 1);
 
       Object.keys($watch.subscribers.current).forEach((path) => {
@@ -89,49 +155,101 @@ export function useForm<
       const previousValues = $values.refValues.current;
       $values.initialize(values, () => mode === 'uncontrolled' && setFormKey((key) => key + 1));
       handleValuesChanges(previousValues);
+      $history.clearHistory();
     },
     [handleValuesChanges]
   );
 
+  const runFieldValidation = (path: LooseKeys<Values>, values: Values) => {
+    const { pending, ...results } = getFieldValidation(path, rules, values, dependencies);
+    results.hasError ? $errors.setFieldError(path, results.error) : $errors.clearFieldError(path);
+    $events.emit({
+      type: 'validate',
+      fields: [path as string],
+      hasErrors: results.hasError,
+      errors: results.hasError ? { [path]: results.error } : {},
+    });
+
+    const pendingResults: Promise<FormFieldValidationResult> = pending
+      ? $asyncValidation
+          .runValidation(
+            path as string,
+            pending.then((asyncResults) => asyncResults.error)
+          )
+          .then(({ error, stale }) => {
+            if (!stale) {
+              error ? $errors.setFieldError(path, error) : $errors.clearFieldError(path);
+            }
+
+            return { hasError: !!error, error };
+          })
+      : Promise.resolve(results);
+
+    return { ...results, pending: pendingResults };
+  };
+
+  // Dependent fields are validated only if the user has already interacted with them or they have errors
+  const shouldValidateDependentField = (path: string) =>
+    $status.isTouched(path) ||
+    Object.keys($errors.getErrors()).some((errorPath) => isFieldPath(path, errorPath));
+
   const setFieldValue: SetFieldValue<Values> = useCallback(
     (path, value, options) => {
       const shouldValidate = shouldValidateOnChange(path, validateInputOnChange);
-      const resolvedValue =
-        value instanceof Function ? value(getPath(path, $values.refValues.current) as any) : value;
+      const currentValue = getPath(path, $values.refValues.current);
+      const resolvedValue = value instanceof Function ? value(currentValue as any) : value;
 
+      currentValue !== resolvedValue && $history.record(path);
       $status.setCalculatedFieldDirty(path, resolvedValue);
       touchTrigger === 'change' && $status.setFieldTouched(path, true);
       !shouldValidate && clearInputErrorOnChange && $errors.clearFieldError(path);
-
-      $values.setFieldValue({
-        path,
-        value,
-        updateState: mode === 'controlled',
-        subscribers: [
-          ...$watch.getFieldSubscribers(path),
-          shouldValidate
-            ? (payload) => {
-                const validationResults = validateFieldValue(path, rules, payload.updatedValues);
-                validationResults.hasError
-                  ? $errors.setFieldError(path, validationResults.error)
-                  : $errors.clearFieldError(path);
-              }
-            : null,
-          options?.forceUpdate !== false && mode !== 'controlled'
-            ? () =>
-                setFieldKeys((keys) => ({
-                  ...keys,
-                  [path as string]: (keys[path as string] || 0) + 1,
-                }))
-            : null,
-        ],
-      });
+      $asyncValidation.cancelValidation(path);
+
+      $events.withFieldPath(path, () =>
+        $values.setFieldValue({
+          path,
+          value,
+          updateState: mode === 'controlled',
+          subscribers: [
+            ...$watch.getFieldSubscribers(path),
+            dependencies
+              ? () => {
+                  const dependentFields = $dependencies
+                    .getDependentFields(path)
+                    .filter(shouldValidateDependentField);
+
+                  $dependencies.syncDependencies();
+                  dependentFields.length > 0 && runValidation(dependentFields);
+                }
+              : null,
+            shouldValidate
+              ? (payload) => {
+                  validateInputOnChangeDebounce > 0
+                    ? $asyncValidation.scheduleValidation(
+                        path as string,
+                        validateInputOnChangeDebounce,
+                        () => runFieldValidation(path, $values.refValues.current)
+                      )
+                    : runFieldValidation(path, payload.updatedValues);
+                }
+              : null,
+            options?.forceUpdate !== false && mode !== 'controlled'
+              ? () =>
+                  setFieldKeys((keys) => ({
+                    ...keys,
+                    [path as string]: (keys[path as string] || 0) + 1,
+                  }))
+              : null,
+          ],
+        })
+      );
     },
     [onValuesChange, rules]
   );
 
   const setValues: SetValues<Values> = useCallback(
     (values) => {
+      $history.record();
       const previousValues = $values.refValues.current;
       $values.setValues({ values, updateState: mode === 'controlled' });
       handleValuesChanges(previousValues);
@@ -139,21 +257,157 @@ export function useForm<
     [onValuesChange, handleValuesChanges]
   );
 
+  const $history = useFormHistory<Values>({
+    history,
+    $values,
+    $errors,
+    $status,
+    onRestore: (entry) => {
+      const previousValues = $values.refValues.current;
+      $values.setValues({
+        values: entry.values,
+        updateState: mode === 'controlled',
+        mergeWithPreviousValues: false,
+      });
+      handleValuesChanges(previousValues);
+      $status.setDirty(entry.dirty);
+      $errors.setErrors(entry.errors);
+    },
+  });
+
+  const $persist = useFormPersist<Values>({
+    name,
+    persist,
+    $values,
+    $status,
+    onRestore: (state) => {
+      setValues(state.values);
+      $status.setTouched(state.touched);
+      $status.setDirty(state.dirty);
+    },
+  });
+
+  // Validates all fields or only fields at given paths and their nested fields
+  const runValidation = (fields?: string[]) => {
+    const isInScope = (path: string) => !fields || fields.some((field) => isFieldPath(field, path));
+
+    fields
+      ? fields.forEach((field) => $asyncValidation.cancelValidation(field))
+      : $asyncValidation.cancelValidation();
+
+    const validation = getFormValidation(
+      rules,
+      $values.refValues.current,
+      fields ? isInScope : undefined,
+      dependencies
+    );
+    const errors = filterErrorsByPath(validation.errors, isInScope);
+    const results = { hasErrors: Object.keys(errors).length > 0, errors };
+    const pending = validation.pending;
+    const pendingPaths = Object.keys(pending).filter(isInScope);
+
+    $errors.setErrors((current) =>
+      fields ? { ...filterErrorsByPath(current, (path) => !isInScope(path)), ...errors } : errors
+    );
+    $events.emit({ type: 'validate', fields: fields || null, ...results });
+
+    const pendingErrors = validation.pendingErrors
+      ? $asyncValidation
+          .runValidation(FORM_VALIDATION_PATH, validation.pendingErrors)
+          .then((result) => {
+            const asyncErrors = filterErrorsByPath(result.error.errors, isInScope);
+
+            if (!result.stale) {
+              $errors.setErrors((current) => ({
+                ...filterErrorsByPath(current, (path) => !isInScope(path)),
+                ...asyncErrors,
+              }));
+              result.error.rootError && $errors.setRootError(result.error.rootError);
+            }
+
+            return { errors: asyncErrors, rootError: result.error.rootError, stale: result.stale };
+          })
+      : Promise.resolve({ errors: {} as FormErrors, rootError: null, stale: false });
+
+    const pendingResults =
+      pendingPaths.length === 0 && !validation.pendingErrors
+        ? null
+        : Promise.all([
+            Promise.all(
+              pendingPaths.map((path) =>
+                $asyncValidation
+                  .runValidation(path, resolvePendingError(pending[path]))
+                  .then((result) => {
+                    if (!result.stale) {
+                      result.error
+                        ? $errors.setFieldError(path, result.error)
+                        : $errors.clearFieldError(path);
+                    }
+
+                    return result;
+                  })
+              )
+            ),
+            pendingErrors,
+          ]).then(([asyncResults, schemaResults]) => {
+            const errors = filterErrors(
+              asyncResults.reduce<FormErrors>(
+                (acc, { error }, index) => ({ ...acc, [pendingPaths[index]]: error }),
+                { ...results.errors, ...schemaResults.errors }
+              )
+            );
+
+            return {
+              hasErrors: Object.keys(errors).length > 0 || !!schemaResults.rootError,
+              errors,
+              stale: schemaResults.stale || asyncResults.some(({ stale }) => stale),
+            };
+          });
+
+    return { ...results, pending: pendingResults };
+  };
+
+  const $steps = useFormSteps<Values>({
+    steps,
+    initialStep,
+    rules,
+    dependencies,
+    $values,
+    $errors,
+    $status,
+    validateFields: (fields) => {
+      const { pending, ...results } = runValidation(fields);
+      return pending && !results.hasErrors
+        ? pending.then(({ stale, hasErrors }) => !stale && !hasErrors)
+        : Promise.resolve(!results.hasErrors);
+    },
+  });
+
   const validate: Validate = useCallback(() => {
-    const results = validateValues(rules, $values.refValues.current);
-    $errors.setErrors(results.errors);
+    const { pending, ...results } = runValidation();
     return results;
   }, [rules]);
 
+  const validateAsync: ValidateAsync = useCallback(() => {
+    const { pending, ...results } = runValidation();
+    return pending
+      ? pending.then(({ stale, ...asyncResults }) => asyncResults)
+      : Promise.resolve(results);
+  }, [rules]);
+
   const validateField: ValidateField<Values> = useCallback(
     (path) => {
-      const results = validateFieldValue(path, rules, $values.refValues.current);
-      results.hasError ? $errors.setFieldError(path, results.error) : $errors.clearFieldError(path);
+      const { pending, ...results } = runFieldValidation(path, $values.refValues.current);
       return results;
     },
     [rules]
   );
 
+  const validateFieldAsync: ValidateFieldAsync<Values> = useCallback(
+    (path) => runFieldValidation(path, $values.refValues.current).pending,
+    [rules]
+  );
+
   const getInputProps: GetInputProps<Values> = (
     path,
     { type = 'input', withError = true, withFocus = true, ...otherOptions } = {}
@@ -184,11 +438,7 @@ export function useForm<
       payload.onFocus = () => $status.setFieldTouched(path, true);
       payload.onBlur = () => {
         if (shouldValidateOnChange(path, validateInputOnBlur)) {
-          const validationResults = validateFieldValue(path, rules, $values.refValues.current);
-
-          validationResults.hasError
-            ? $errors.setFieldError(path, validationResults.error)
-            : $errors.clearFieldError(path);
+          runFieldValidation(path, $values.refValues.current);
         }
       };
     }
@@ -210,29 +460,85 @@ export function useForm<
         event?.preventDefault();
       }
 
-      const results = validate();
+      const handleResults = (results: FormValidationResult) => {
+        if (results.hasErrors) {
+          if (onSubmitPreventDefault === 'validation-failed') {
+            event?.preventDefault();
+          }
+
+          handleValidationFailure?.(results.errors, $values.refValues.current, event);
+        } else {
+          const clearOnSubmit =
+            typeof persist === 'object' ? persist.clearOnSubmit !== false : true;
+
+          const handleSubmitError = (error: unknown) => {
+            if (isServerErrors(error)) {
+              $errors.setErrors(error.errors);
+              $errors.setRootError(error.rootError);
+            }
+
+            setLastSubmitError(error);
+          };
+
+          const handleSubmitResult = (result: unknown) => {
+            if (isServerErrors(result)) {
+              handleSubmitError(result);
+            } else {
+              setLastSubmitError(null);
+              clearOnSubmit && $persist.clearPersistedState();
+            }
+          };
+
+          let submitResult: ReturnType<typeof handleSubmit> | undefined;
+
+          try {
+            submitResult = handleSubmit?.(getTransformedValues() as any, event);
+          } catch (error) {
+            handleSubmitError(error);
+
+            if (!isServerErrors(error)) {
+              throw error;
+            }
+
+            return;
+          }
+
+          if (submitResult instanceof Promise) {
+            setSubmitting(true);
+            submitResult
+              .then(handleSubmitResult, handleSubmitError)
+              .finally(() => setSubmitting(false));
+          } else {
+            handleSubmitResult(submitResult);
+          }
+        }
+      };
+
+      setSubmitCount((count) => count + 1);
+      $errors.setRootError(null);
+      $events.emit({ type: 'submit' });
+
+      const { pending, ...results } = runValidation();
 
-      if (results.hasErrors) {
+      if (pending && !results.hasErrors) {
+        // Event cannot be prevented after async rules are resolved
         if (onSubmitPreventDefault === 'validation-failed') {
           event?.preventDefault();
         }
 
-        handleValidationFailure?.(results.errors, $values.refValues.current, event);
+        // Submit is canceled if values are changed while async rules are pending
+        pending.then(({ stale, ...asyncResults }) => !stale && handleResults(asyncResults));
       } else {
-        const submitResult = handleSubmit?.(
-          transformValues($values.refValues.current) as any,
-          event
-        );
-
-        if (submitResult instanceof Promise) {
-          setSubmitting(true);
-          submitResult.finally(() => setSubmitting(false));
-        }
+        handleResults(results);
       }
     };
 
-  const getTransformedValues: GetTransformedValues<Values, TransformValues> = (input) =>
-    (transformValues as any)(input || $values.refValues.current);
+  const getTransformedValues: GetTransformedValues<Values, TransformValues> = (input) => {
+    const values = input || $values.refValues.current;
+    return (transformValues as any)(
+      omitHiddenFields ? omitHiddenFieldValues(dependencies, values as Values) : values
+    );
+  };
 
   const onReset: OnReset = useCallback((event) => {
     event.preventDefault();
@@ -242,12 +548,13 @@ export function useForm<
   const isValid: IsValid<Values> = useCallback(
     (path) =>
       path
-        ? !validateFieldValue(path, rules, $values.refValues.current).hasError
-        : !validateValues(rules, $values.refValues.current).hasErrors,
+        ? !validateFieldValue(path, rules, $values.refValues.current, dependencies).hasError
+        : !validateValues(rules, $values.refValues.current, dependencies).hasErrors,
     [rules]
   );
 
-  const key: Key<Values> = (path) => `${formKey}-${String(path)}-${fieldKeys[String(path)] || 0}`;
+  const key: Key<Values> = (path) =>
+    `${formKey}-${$list.getKeyPath(path)}-${fieldKeys[String(path)] || 0}`;
 
   const getInputNode: GetInputNode<Values> = useCallback(
     (path) => document.querySelector(`[data-path="${getDataPath(name, path)}"]`),
@@ -256,6 +563,7 @@ export function useForm<
 
   const resetField = useCallback(
     (path: PropertyKey) => {
+      $history.record();
       $values.resetField(path, [
         mode !== 'controlled'
           ? () =>
@@ -269,8 +577,16 @@ export function useForm<
     [$values.resetField, mode, setFieldKeys]
   );
 
+  const withHistory =
+    <Handler extends (...args: any[]) => void>(handler: Handler) =>
+    (...args: Parameters<Handler>) => {
+      $history.record();
+      handler(...args);
+    };
+
   const form: UseFormReturnType<Values, TransformValues> = {
     watch: $watch.watch,
+    subscribe: $events.subscribe,
 
     initialized: $values.initialized.current,
     values: mode === 'uncontrolled' ? $values.refValues.current : $values.stateValues,
@@ -284,8 +600,12 @@ export function useForm<
 
     submitting,
     setSubmitting,
+    submitCount,
+    lastSubmitError,
 
     errors: $errors.errorsState,
+    rootError: $errors.rootError,
+    setRootError: $errors.setRootError,
     setErrors: $errors.setErrors,
     setFieldError: $errors.setFieldError,
     clearFieldError: $errors.clearFieldError,
@@ -297,17 +617,25 @@ export function useForm<
     isTouched: $status.isTouched,
     resetTouched: $status.resetTouched,
     isDirty: $status.isDirty,
+    getErrors: $errors.getErrors,
     getTouched: $status.getTouched,
     getDirty: $status.getDirty,
 
-    reorderListItem: $list.reorderListItem,
-    insertListItem: $list.insertListItem,
-    removeListItem: $list.removeListItem,
-    replaceListItem: $list.replaceListItem,
+    reorderListItem: withHistory($list.reorderListItem),
+    insertListItem: withHistory($list.insertListItem),
+    removeListItem: withHistory($list.removeListItem),
+    replaceListItem: withHistory($list.replaceListItem),
+    swapListItems: withHistory($list.swapListItems),
+    duplicateListItem: withHistory($list.duplicateListItem),
+    appendListItems: withHistory($list.appendListItems),
+    getListItemKey: $list.getListItemKey,
 
     reset,
     validate,
     validateField,
+    validateAsync,
+    validateFieldAsync,
+    isValidating: $asyncValidation.isValidating,
     getInputProps,
     onSubmit,
     onReset,
@@ -316,6 +644,22 @@ export function useForm<
     key,
 
     getInputNode,
+    clearPersistedState: $persist.clearPersistedState,
+
+    activeStep: $steps.activeStep,
+    nextStep: $steps.nextStep,
+    prevStep: $steps.prevStep,
+    goToStep: $steps.goToStep,
+    canGoToStep: $steps.canGoToStep,
+    getStepStatus: $steps.getStepStatus,
+
+    undo: $history.undo,
+    redo: $history.redo,
+    canUndo: $history.canUndo,
+    canRedo: $history.canRedo,
+    clearHistory: $history.clearHistory,
+    isFieldVisible: $dependencies.isFieldVisible,
+    isFieldRequired: $dependencies.isFieldRequired,
   };
 
   useFormActions(name, form);
@@ -1,3 +1,12 @@
-export { validateValues, formRootRule } from './validate-values';
-export { validateFieldValue } from './validate-field-value';
+export {
+  validateValues,
+  formRootRule,
+  filterErrorsByPath,
+  getFormValidation,
+  getSyncFormValidation,
+  resolvePendingError,
+  resolvePendingValidation,
+} from './validate-values';
+export type { FormPendingValidation } from './validate-values';
+export { validateFieldValue, getFieldValidation, isFieldPath } from './validate-field-value';
 export { shouldValidateOnChange } from './should-validate-on-change';
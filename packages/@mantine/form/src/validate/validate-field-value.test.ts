@@ -1,4 +1,4 @@
-import { validateFieldValue } from './validate-field-value';
+import { getFieldValidation, validateFieldValue } from './validate-field-value';
 
 describe('@mantine/form/validate-field-value', () => {
   it('validates root field with rules record', () => {
@@ -48,4 +48,14 @@ describe('@mantine/form/validate-field-value', () => {
       )
     ).toStrictEqual({ hasError: true, error: 'error-b' });
   });
+
+  it('calls only rules of the validated field', async () => {
+    const ruleA = jest.fn(() => Promise.resolve('error-a'));
+    const ruleB = jest.fn(() => 'error-b');
+    const results = getFieldValidation('a', { a: ruleA, b: ruleB }, { a: 1, b: 2 });
+
+    expect(ruleB).not.toHaveBeenCalled();
+    expect(results.hasError).toBe(false);
+    expect(await results.pending).toStrictEqual({ hasError: true, error: 'error-a' });
+  });
 });
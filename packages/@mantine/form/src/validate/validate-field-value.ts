@@ -1,18 +1,59 @@
-import { FormFieldValidationResult, FormValidateInput } from '../types';
-import { validateValues } from './validate-values';
+import {
+  FormDependencies,
+  FormErrors,
+  FormFieldValidationResult,
+  FormValidateInput,
+} from '../types';
+import { getFormValidation, resolvePendingValidation } from './validate-values';
 
-export function validateFieldValue<T>(
+export function isFieldPath(fieldPath: string, path: string) {
+  const pathParts = path.split('.');
+  return fieldPath.split('.').every((pathPart, i) => pathPart === pathParts[i]);
+}
+
+function getFieldResults(path: string, errors: FormErrors): FormFieldValidationResult {
+  const pathInError = Object.keys(errors).find((errorKey) => isFieldPath(path, errorKey));
+  return { hasError: !!pathInError, error: pathInError ? errors[pathInError] : null };
+}
+
+/** Validates field with sync rules, `pending` is set if the field has async rules and resolves with the final result */
+export function getFieldValidation<T>(
   path: unknown,
   rules: FormValidateInput<T> | undefined,
-  values: T
-): FormFieldValidationResult {
+  values: T,
+  dependencies?: FormDependencies<T>
+): FormFieldValidationResult & { pending: Promise<FormFieldValidationResult> | null } {
   if (typeof path !== 'string') {
-    return { hasError: false, error: null };
+    return { hasError: false, error: null, pending: null };
   }
 
-  const results = validateValues(rules, values);
-  const pathInError = Object.keys(results.errors).find((errorKey) =>
-    path.split('.').every((pathPart, i) => pathPart === errorKey.split('.')[i])
+  const results = getFormValidation(
+    rules,
+    values,
+    (rulePath) => isFieldPath(path, rulePath),
+    dependencies
   );
-  return { hasError: !!pathInError, error: pathInError ? results.errors[pathInError] : null };
+  const pending =
+    Object.keys(results.pending).length > 0 || results.pendingErrors
+      ? Promise.all([
+          resolvePendingValidation(results.pending),
+          results.pendingErrors || Promise.resolve({ errors: {}, rootError: null }),
+        ]).then(([asyncErrors, { errors: schemaErrors, rootError }]) =>
+          rootError
+            ? { hasError: true, error: rootError }
+            : getFieldResults(path, { ...results.errors, ...asyncErrors, ...schemaErrors })
+        )
+      : null;
+
+  return { ...getFieldResults(path, results.errors), pending };
+}
+
+export function validateFieldValue<T>(
+  path: unknown,
+  rules: FormValidateInput<T> | undefined,
+  values: T,
+  dependencies?: FormDependencies<T>
+): FormFieldValidationResult {
+  const { pending, ...results } = getFieldValidation(path, rules, values, dependencies);
+  return results;
 }
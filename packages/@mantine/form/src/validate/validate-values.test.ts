@@ -1,4 +1,4 @@
-import { formRootRule, validateValues } from './validate-values';
+import { formRootRule, getFormValidation, validateValues } from './validate-values';
 
 describe('@mantine/form/validate-values', () => {
   it('returns correct results if form does not have any errors', () => {
@@ -253,4 +253,42 @@ describe('@mantine/form/validate-values', () => {
       errors: {},
     });
   });
+
+  it('separates promises returned by async rules from errors', () => {
+    const pending = Promise.resolve('error-b');
+    expect(
+      getFormValidation(
+        { a: () => 'error-a', b: () => pending, c: () => null },
+        { a: 1, b: 2, c: 3 }
+      )
+    ).toStrictEqual({
+      hasErrors: true,
+      errors: { a: 'error-a' },
+      pending: { b: pending },
+      pendingErrors: null,
+    });
+    expect(validateValues({ b: () => pending }, { b: 2 })).toStrictEqual({
+      hasErrors: false,
+      errors: {},
+    });
+  });
+
+  it('returns pendingErrors if validation function returns a promise', async () => {
+    const results = getFormValidation(() => Promise.resolve({ a: 'error-a', b: null }), {
+      a: 1,
+      b: 2,
+    });
+
+    expect(results.hasErrors).toBe(false);
+    expect(results.errors).toStrictEqual({});
+    expect(await results.pendingErrors).toStrictEqual({
+      errors: { a: 'error-a' },
+      rootError: null,
+    });
+  });
+
+  it('uses rejection reason of validation function promise as root error', async () => {
+    const results = getFormValidation(() => Promise.reject(new Error('network-error')), { a: 1 });
+    expect(await results.pendingErrors).toStrictEqual({ errors: {}, rootError: 'network-error' });
+  });
 });
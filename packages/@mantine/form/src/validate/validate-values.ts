@@ -1,9 +1,44 @@
+import { getRequiredErrors, isHiddenField } from '../dependencies';
 import { filterErrors } from '../hooks/use-form-errors/filter-errors/filter-errors';
 import { getPath } from '../paths';
-import { FormErrors, FormRule, FormRulesRecord, FormValidateInput } from '../types';
+import {
+  FormDependencies,
+  FormErrors,
+  FormRule,
+  FormRulesRecord,
+  FormValidateInput,
+} from '../types';
 
 export const formRootRule = Symbol('root-rule');
 
+export type FormPendingValidation = Record<string, Promise<React.ReactNode>>;
+
+export interface FormPendingErrors {
+  errors: FormErrors;
+
+  /** Set if validation function promise was rejected, rejection reason is used as an error */
+  rootError: React.ReactNode;
+}
+
+type RuleFilter = (rulePath: string) => boolean;
+
+function isPromise(value: unknown): value is Promise<React.ReactNode> {
+  return typeof value === 'object' && value !== null && typeof (value as any).then === 'function';
+}
+
+function getRejectionError(error: unknown): React.ReactNode {
+  return error instanceof Error ? error.message : (error as React.ReactNode);
+}
+
+export function filterErrorsByPath<Errors extends Record<string, unknown>>(
+  errors: Errors | undefined,
+  filter: (path: string) => boolean
+) {
+  return Object.keys(errors || {})
+    .filter(filter)
+    .reduce<Record<string, any>>((acc, path) => ({ ...acc, [path]: errors![path] }), {});
+}
+
 function getValidationResults(errors: FormErrors) {
   const filteredErrors = filterErrors(errors);
   return { hasErrors: Object.keys(filteredErrors).length > 0, errors: filteredErrors };
@@ -13,7 +48,8 @@ function validateRulesRecord<T>(
   rules: FormRulesRecord<T> | undefined,
   values: T,
   path = '',
-  errors: FormErrors = {}
+  errors: Record<string, React.ReactNode | Promise<React.ReactNode>> = {},
+  filter?: RuleFilter
 ) {
   if (typeof rules !== 'object' || rules === null) {
     return errors;
@@ -25,27 +61,29 @@ function validateRulesRecord<T>(
     const value = getPath(rulePath, values);
     let arrayValidation = false;
 
-    if (typeof rule === 'function') {
+    const shouldValidate = !filter || filter(rulePath);
+
+    if (typeof rule === 'function' && shouldValidate) {
       acc[rulePath] = rule(value, values, rulePath);
     }
 
     if (typeof rule === 'object' && Array.isArray(value)) {
       arrayValidation = true;
       value.forEach((_item, index) =>
-        validateRulesRecord(rule, values, `${rulePath}.${index}`, acc)
+        validateRulesRecord(rule, values, `${rulePath}.${index}`, acc, filter)
       );
 
-      if (formRootRule in rule) {
+      if (formRootRule in rule && shouldValidate) {
         acc[rulePath] = (rule as any)[formRootRule](value, values, rulePath);
       }
     }
 
     if (typeof rule === 'object' && typeof value === 'object' && value !== null) {
       if (!arrayValidation) {
-        validateRulesRecord(rule, values, rulePath, acc);
+        validateRulesRecord(rule, values, rulePath, acc, filter);
       }
 
-      if (formRootRule in rule) {
+      if (formRootRule in rule && shouldValidate) {
         acc[rulePath] = (rule as any)[formRootRule](value, values, rulePath);
       }
     }
@@ -54,10 +92,103 @@ function validateRulesRecord<T>(
   }, errors);
 }
 
-export function validateValues<T>(validate: FormValidateInput<T> | undefined, values: T) {
-  if (typeof validate === 'function') {
-    return getValidationResults(validate(values));
+/**
+ * Splits validation results into errors of sync rules and promises returned by async rules,
+ * `pendingErrors` is set if validation function (for example, async schema resolver) returns a promise
+ */
+export function getFormValidation<T>(
+  validate: FormValidateInput<T> | undefined,
+  values: T,
+  filter?: RuleFilter,
+  dependencies?: FormDependencies<T>
+) {
+  // Rules of hidden fields are not called, errors of hidden fields returned by validation function are ignored
+  const isVisible = (path: string) => !isHiddenField(dependencies, path, values);
+  const ruleFilter = dependencies
+    ? (rulePath: string) => isVisible(rulePath) && (!filter || filter(rulePath))
+    : filter;
+
+  const results =
+    typeof validate === 'function'
+      ? validate(values)
+      : validateRulesRecord(validate, values, '', {}, ruleFilter);
+
+  const requiredErrors = getRequiredErrors(dependencies, values);
+  const errors: FormErrors = {};
+  const pending: FormPendingValidation = {};
+
+  if (results instanceof Promise) {
+    const pendingErrors: Promise<FormPendingErrors> = results.then(
+      (asyncErrors) => ({
+        errors: filterErrors(filterErrorsByPath({ ...asyncErrors, ...requiredErrors }, isVisible)),
+        rootError: null,
+      }),
+      (error) => ({
+        errors: filterErrors(filterErrorsByPath(requiredErrors, isVisible)),
+        rootError: getRejectionError(error),
+      })
+    );
+    return { ...getValidationResults(errors), pending, pendingErrors };
   }
 
-  return getValidationResults(validateRulesRecord(validate, values));
+  const visibleResults = filterErrorsByPath({ ...results, ...requiredErrors }, isVisible);
+
+  Object.keys(visibleResults).forEach((path) => {
+    if (isPromise(visibleResults[path])) {
+      pending[path] = visibleResults[path];
+    } else {
+      errors[path] = visibleResults[path];
+    }
+  });
+
+  return { ...getValidationResults(errors), pending, pendingErrors: null };
+}
+
+/** Resolves promise returned by async rule, rejection reason is used as an error */
+export function resolvePendingError(pending: Promise<React.ReactNode>) {
+  return pending.catch(getRejectionError);
+}
+
+export function resolvePendingValidation(pending: FormPendingValidation): Promise<FormErrors> {
+  const paths = Object.keys(pending);
+
+  return Promise.all(paths.map((path) => resolvePendingError(pending[path]))).then((results) =>
+    filterErrors(
+      paths.reduce<FormErrors>((acc, path, index) => {
+        acc[path] = results[index];
+        return acc;
+      }, {})
+    )
+  );
+}
+
+/**
+ * Validates values with sync rules only, promises returned by async rules and validation function
+ * are not awaited, their rejections are ignored
+ */
+export function getSyncFormValidation<T>(
+  validate: FormValidateInput<T> | undefined,
+  values: T,
+  filter?: RuleFilter,
+  dependencies?: FormDependencies<T>
+) {
+  const { pending, pendingErrors, ...results } = getFormValidation(
+    validate,
+    values,
+    filter,
+    dependencies
+  );
+
+  Object.keys(pending).forEach((path) => pending[path].catch(() => {}));
+  pendingErrors?.catch(() => {});
+
+  return results;
+}
+
+export function validateValues<T>(
+  validate: FormValidateInput<T> | undefined,
+  values: T,
+  dependencies?: FormDependencies<T>
+) {
+  return getSyncFormValidation(validate, values, undefined, dependencies);
 }
@@ -0,0 +1,30 @@
+import { compareField } from './compare-field';
+
+const TEST_ERROR = 'compare-field-error';
+
+describe('@mantine/form/compare-field', () => {
+  it('returns error if compare function returns false', () => {
+    const validator = compareField<{ start: number }>(
+      'start',
+      (value, start) => value > start,
+      TEST_ERROR
+    );
+
+    expect(validator(1, { start: 2 })).toBe(TEST_ERROR);
+    expect(validator(3, { start: 2 })).toBe(null);
+  });
+
+  it('supports nested fields', () => {
+    const values = { range: { min: 5 }, max: 3 };
+    const validator = compareField<typeof values>('range.min', (value, min) => value >= min);
+    expect(validator(3, values)).toBe(true);
+    expect(validator(6, values)).toBe(null);
+  });
+
+  it('passes all form values to compare function', () => {
+    const compare = jest.fn(() => true);
+    const values = { a: 1, b: 2 };
+    compareField<typeof values>('a', compare)(2, values);
+    expect(compare).toHaveBeenCalledWith(2, 1, values);
+  });
+});
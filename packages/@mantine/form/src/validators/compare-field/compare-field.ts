@@ -0,0 +1,13 @@
+import { getPath } from '../../paths';
+import { FormPathValue, LooseKeys } from '../../paths.types';
+
+export function compareField<T, Field extends LooseKeys<T> = LooseKeys<T>>(
+  field: Field,
+  compare: (value: any, fieldValue: FormPathValue<T, Field>, values: T) => boolean,
+  error?: React.ReactNode
+) {
+  const _error = error || true;
+
+  return (value: unknown, values: T): React.ReactNode =>
+    compare(value, getPath(field, values) as FormPathValue<T, Field>, values) ? null : _error;
+}
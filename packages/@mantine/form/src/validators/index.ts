@@ -6,3 +6,4 @@ export { isInRange } from './is-in-range/is-in-range';
 export { matchesField } from './matches-field/matches-field';
 export { isNotEmptyHTML } from './is-not-empty-html/is-not-empty-html';
 export { isJSONString } from './is-json-string/is-json-string';
+export { compareField } from './compare-field/compare-field';
@@ -14,3 +14,12 @@ describe('@mantine/form/matches-field', () => {
     expect(validator('test-value', { testField: 'test-value' })).toBe(null);
   });
 });
+
+describe('@mantine/form/matches-field-nested', () => {
+  it('supports nested fields', () => {
+    const validator = matchesField<any>('user.password', TEST_ERROR);
+    expect(validator('a', { user: { password: 'a' } })).toBe(null);
+    expect(validator('a', { user: { password: 'b' } })).toBe(TEST_ERROR);
+    expect(validator(undefined, { user: {} })).toBe(TEST_ERROR);
+  });
+});
@@ -1,11 +1,20 @@
-export function matchesField<T>(field: keyof T, error?: React.ReactNode) {
+import { getPath } from '../../paths';
+import { LooseKeys } from '../../paths.types';
+
+function hasField(field: string, values: unknown) {
+  const segments = field.split('.');
+  const parent = segments.length === 1 ? values : getPath(segments.slice(0, -1).join('.'), values);
+  return typeof parent === 'object' && parent !== null && segments[segments.length - 1] in parent;
+}
+
+export function matchesField<T>(field: LooseKeys<T>, error?: React.ReactNode) {
   const _error = error || true;
 
   return (value: unknown, values: T): React.ReactNode => {
-    if (!values || !(field in (values as any))) {
+    if (!values || !hasField(field as string, values)) {
       return _error;
     }
 
-    return value === values[field] ? null : _error;
+    return value === getPath(field, values) ? null : _error;
   };
 }
@@ -19,6 +19,11 @@ export { useInterval } from './use-interval/use-interval.js';
 export { useIsomorphicEffect } from './use-isomorphic-effect/use-isomorphic-effect.js';
 export { useListState } from './use-list-state/use-list-state.js';
 export { useLocalStorage, readLocalStorageValue } from './use-local-storage/use-local-storage.js';
+export {
+  createStorageHandler,
+  serializeJSON,
+  deserializeJSON,
+} from './use-local-storage/create-storage.js';
 export {
   useSessionStorage,
   readSessionStorageValue,
@@ -134,7 +139,11 @@ export type {
   UseListStateReturnValue,
   UseListStateHandlers,
 } from './use-list-state/use-list-state';
-export type { UseStorageOptions, UseStorageReturnValue } from './use-local-storage/create-storage';
+export type {
+  StorageHandlerStorage,
+  UseStorageOptions,
+  UseStorageReturnValue,
+} from './use-local-storage/create-storage';
 export type { UseMovePosition, UseMoveHandlers, UseMoveReturnValue } from './use-move/use-move';
 export type { UserNetworkReturnValue } from './use-network/use-network';
 export type {
@@ -24,7 +24,13 @@ export interface UseStorageOptions<T> {
   deserialize?: (value: string | undefined) => T;
 }
 
-function serializeJSON<T>(value: T, hookName: string = 'use-local-storage') {
+export interface StorageHandlerStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export function serializeJSON<T>(value: T, hookName: string = 'use-local-storage') {
   try {
     return JSON.stringify(value);
   } catch (error) {
@@ -32,7 +38,7 @@ function serializeJSON<T>(value: T, hookName: string = 'use-local-storage') {
   }
 }
 
-function deserializeJSON(value: string | undefined) {
+export function deserializeJSON(value: string | undefined) {
   try {
     return value && JSON.parse(value);
   } catch {
@@ -40,31 +46,36 @@ function deserializeJSON(value: string | undefined) {
   }
 }
 
-function createStorageHandler(type: StorageType) {
+/** Creates storage handler that warns instead of throwing if storage is blocked, custom storage or `null` can be passed instead of storage type */
+export function createStorageHandler(
+  storage: StorageType | StorageHandlerStorage | null,
+  hookName: string = 'use-local-storage'
+) {
+  const storageName = typeof storage === 'string' ? storage : 'storage';
+  const getStorage = () => (typeof storage === 'string' ? window[storage] : storage);
+
   const getItem = (key: string) => {
     try {
-      return window[type].getItem(key);
+      return getStorage()?.getItem(key) ?? null;
     } catch (error) {
-      console.warn('use-local-storage: Failed to get value from storage, localStorage is blocked');
+      console.warn(`${hookName}: Failed to get value from storage, ${storageName} is blocked`);
       return null;
     }
   };
 
   const setItem = (key: string, value: string) => {
     try {
-      window[type].setItem(key, value);
+      getStorage()?.setItem(key, value);
     } catch (error) {
-      console.warn('use-local-storage: Failed to set value to storage, localStorage is blocked');
+      console.warn(`${hookName}: Failed to set value to storage, ${storageName} is blocked`);
     }
   };
 
   const removeItem = (key: string) => {
     try {
-      window[type].removeItem(key);
+      getStorage()?.removeItem(key);
     } catch (error) {
-      console.warn(
-        'use-local-storage: Failed to remove value from storage, localStorage is blocked'
-      );
+      console.warn(`${hookName}: Failed to remove value from storage, ${storageName} is blocked`);
     }
   };
 
@@ -79,7 +90,7 @@ export type UseStorageReturnValue<T> = [
 
 export function createStorage<T>(type: StorageType, hookName: string) {
   const eventName = type === 'localStorage' ? 'mantine-local-storage' : 'mantine-session-storage';
-  const { getItem, setItem, removeItem } = createStorageHandler(type);
+  const { getItem, setItem, removeItem } = createStorageHandler(type, hookName);
 
   return function useStorage({
     key,
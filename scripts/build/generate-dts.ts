@@ -1,13 +1,18 @@
 import path from 'node:path';
 import fs from 'fs-extra';
 import { $ } from 'zx';
+import { getPackageEntries } from '../packages/get-package-entries';
 
 export async function generateDts(packagePath: string) {
   await $({ cwd: packagePath })`npx tsc --project tsconfig.build.json`;
 
+  const packageJson = await fs.readJSON(path.join(packagePath, 'package.json'));
+
   // Duplicate the type definitions for ESM
-  await fs.copy(
-    path.join(packagePath, 'lib/index.d.ts'),
-    path.join(packagePath, 'lib/index.d.mts')
-  );
+  for (const entry of getPackageEntries(packageJson)) {
+    await fs.copy(
+      path.join(packagePath, `lib/${entry}.d.ts`),
+      path.join(packagePath, `lib/${entry}.d.mts`)
+    );
+  }
 }
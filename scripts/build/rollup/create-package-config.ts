@@ -2,11 +2,13 @@ import path from 'node:path';
 import alias, { Alias } from '@rollup/plugin-alias';
 import { nodeResolve } from '@rollup/plugin-node-resolve';
 import replace from '@rollup/plugin-replace';
+import fs from 'fs-extra';
 import { generateScopedName } from 'hash-css-selector';
 import { RollupOptions } from 'rollup';
 import banner from 'rollup-plugin-banner2';
 import esbuild from 'rollup-plugin-esbuild';
 import postcss from 'rollup-plugin-postcss';
+import { getPackageEntries } from '../../packages/get-package-entries';
 import { getPackagesList } from '../../packages/get-packages-list';
 import { getPath } from '../../utils/get-path';
 import { ROLLUP_EXCLUDE_USE_CLIENT } from './rollup-exclude-use-client';
@@ -14,6 +16,7 @@ import { ROLLUP_EXTERNALS } from './rollup-externals';
 
 export function createPackageConfig(packagePath: string): RollupOptions {
   const packagesList = getPackagesList();
+  const packageJson = fs.readJSONSync(path.join(packagePath, 'package.json'));
 
   const aliasEntries: Alias[] = packagesList.map((pkg) => ({
     find: new RegExp(`^${pkg.packageJson.name}`),
@@ -41,7 +44,9 @@ export function createPackageConfig(packagePath: string): RollupOptions {
   ];
 
   return {
-    input: path.resolve(packagePath, 'src/index.ts'),
+    input: getPackageEntries(packageJson).map((entry) =>
+      path.resolve(packagePath, `src/${entry}.ts`)
+    ),
     output: [
       {
         format: 'es',
@@ -1,6 +1,7 @@
 // Files names that should not have use client directive at the top of the output file
 export const ROLLUP_EXCLUDE_USE_CLIENT = [
   'index',
+  'schema-form',
   'core/utils/deep-merge/deep-merge',
   'core/utils/units-converters/rem',
   'core/utils/units-converters/px',
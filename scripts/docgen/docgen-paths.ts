@@ -24,6 +24,7 @@ const FILES_PATHS = getPaths([
   // Slider
   'packages/@mantine/core/src/components/Slider/Slider/Slider.tsx',
   'packages/@mantine/core/src/components/Slider/RangeSlider/RangeSlider.tsx',
+  'packages/@mantine/core/src/components/Slider/MultiRangeSlider/MultiRangeSlider.tsx',
 
   // Switch
   'packages/@mantine/core/src/components/Switch/SwitchGroup/SwitchGroup.tsx',
@@ -0,0 +1,10 @@
+import type { PackageJson } from 'type-fest';
+
+// Returns names of entry points declared in package.json exports, `.` export is `index` entry
+export function getPackageEntries(packageJson: PackageJson) {
+  const exports = (packageJson.exports || {}) as Record<string, any>;
+
+  return Object.keys(exports)
+    .filter((key) => typeof exports[key] === 'object' && exports[key].import)
+    .map((key) => (key === '.' ? 'index' : key.replace(/^\.\//, '')));
+}
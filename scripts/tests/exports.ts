@@ -2,6 +2,7 @@
 import path from 'node:path';
 import fs from 'fs-extra';
 import { getPackagesBuildOrder } from '../build/get-packages-build-order';
+import { getPackageEntries } from '../packages/get-package-entries';
 import { createLogger } from '../utils/signale';
 
 const logger = createLogger('exports');
@@ -20,15 +21,19 @@ getPackagesBuildOrder().then((packages) => {
 
     // Exports properties
     const exports = pkg!.packageJson.exports as any;
-    const esmTypes = fs.existsSync(path.join(pkg!.path, exports['.'].import.types));
-    const esmFile = fs.existsSync(path.join(pkg!.path, exports['.'].import.default));
-    const cjsTypes = fs.existsSync(path.join(pkg!.path, exports['.'].require.types));
-    const cjsFile = fs.existsSync(path.join(pkg!.path, exports['.'].require.default));
-
-    !esmTypes && errors.push(`Missing esm types for package ${pkg!.packageJson.name}`);
-    !esmFile && errors.push(`Missing esm file for package ${pkg!.packageJson.name}`);
-    !cjsTypes && errors.push(`Missing cjs types for package ${pkg!.packageJson.name}`);
-    !cjsFile && errors.push(`Missing cjs file for package ${pkg!.packageJson.name}`);
+    getPackageEntries(pkg!.packageJson).forEach((entry) => {
+      const entryExports = exports[entry === 'index' ? '.' : `./${entry}`];
+      const entryName = `${pkg!.packageJson.name} (${entry})`;
+      const esmTypes = fs.existsSync(path.join(pkg!.path, entryExports.import.types));
+      const esmFile = fs.existsSync(path.join(pkg!.path, entryExports.import.default));
+      const cjsTypes = fs.existsSync(path.join(pkg!.path, entryExports.require.types));
+      const cjsFile = fs.existsSync(path.join(pkg!.path, entryExports.require.default));
+
+      !esmTypes && errors.push(`Missing esm types for package ${entryName}`);
+      !esmFile && errors.push(`Missing esm file for package ${entryName}`);
+      !cjsTypes && errors.push(`Missing cjs types for package ${entryName}`);
+      !cjsFile && errors.push(`Missing cjs file for package ${entryName}`);
+    });
 
     // Styles exports
     if (exports['./styles.css']) {